@@ -4,6 +4,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { aiOrchestrator } from '@/lib/ai/orchestrator';
 import { prisma } from '@/lib/prisma';
+import { answeredQuestionsQuery } from '@/lib/listings/questions';
 
 export async function POST(request: NextRequest) {
   try {
@@ -30,7 +31,7 @@ export async function POST(request: NextRequest) {
     if (listingId) {
       listing = await prisma.listing.findUnique({
         where: { id: listingId },
-        include: { user: true },
+        include: { user: true, features: { include: { feature: true } }, questions: answeredQuestionsQuery },
       });
 
       if (!listing) {
@@ -74,6 +74,13 @@ export async function GET(request: NextRequest) {
             }
           }
         },
+        viewStats: {
+          where: {
+            date: {
+              gte: startDate
+            }
+          }
+        },
         leads: {
           where: {
             createdAt: {
@@ -90,8 +97,7 @@ export async function GET(request: NextRequest) {
     const soldListingsArray = listings.filter(l => l.status === 'sold')
     const soldListings = soldListingsArray.length
     const totalViews = listings.reduce((sum, listing) => {
-      // Simulate view count based on favorites and messages as proxy
-      return sum + (listing.favorites.length * 3) + (listing.messages.length * 2)
+      return sum + listing.viewStats.reduce((views, day) => views + day.views, 0)
     }, 0)
     const totalMessages = listings.reduce((sum, listing) => sum + listing.messages.length, 0)
     const totalFavorites = listings.reduce((sum, listing) => sum + listing.favorites.length, 0)
@@ -137,12 +143,19 @@ export async function GET(request: NextRequest) {
               gte: startDate
             }
           }
+        },
+        viewStats: {
+          where: {
+            date: {
+              gte: startDate
+            }
+          }
         }
       }
     })
 
     const marketTotalViews = allListings.reduce((sum, listing) => {
-      return sum + (listing.favorites.length * 3) + (listing.messages.length * 2)
+      return sum + listing.viewStats.reduce((views, day) => views + day.views, 0)
     }, 0)
     const marketTotalMessages = allListings.reduce((sum, listing) => sum + listing.messages.length, 0)
     const marketAvgViews = allListings.length > 0 ? Math.round(marketTotalViews / allListings.length) : 0
@@ -0,0 +1,122 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '../../../../lib/auth'
+import { prisma } from '../../../../lib/prisma'
+import {
+  APPOINTMENT_ACTIONS,
+  AppointmentAction,
+  AppointmentError,
+  getAppointmentCalendar,
+  updateAppointment
+} from '../../../../lib/listings/appointments'
+
+export const dynamic = 'force-dynamic'
+
+// GET /api/appointments/[id] - Download the appointment as an .ics calendar file
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email }
+    })
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      )
+    }
+
+    const calendar = await getAppointmentCalendar(params.id, user)
+
+    return new NextResponse(calendar, {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': `attachment; filename="takimi-${params.id}.ics"`,
+        'Cache-Control': 'private, no-store'
+      }
+    })
+
+  } catch (error) {
+    if (error instanceof AppointmentError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      )
+    }
+    console.error('Error exporting appointment:', error)
+    return NextResponse.json(
+      { error: 'Failed to export appointment' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/appointments/[id] - Cancel, mark completed or report a no-show
+// Body: { action: 'cancel' | 'complete' | 'no_show' }
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email }
+    })
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      )
+    }
+
+    const { action } = await request.json()
+
+    if (!(APPOINTMENT_ACTIONS as readonly string[]).includes(action)) {
+      return NextResponse.json(
+        { error: 'Invalid appointment update', details: [{ field: 'action', message: `Action must be one of ${APPOINTMENT_ACTIONS.join(', ')}` }] },
+        { status: 400 }
+      )
+    }
+
+    const appointment = await updateAppointment(params.id, user, action as AppointmentAction)
+
+    return NextResponse.json({
+      message: 'Appointment updated',
+      appointment
+    })
+
+  } catch (error) {
+    if (error instanceof AppointmentError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      )
+    }
+    console.error('Error updating appointment:', error)
+    return NextResponse.json(
+      { error: 'Failed to update appointment' },
+      { status: 500 }
+    )
+  }
+}
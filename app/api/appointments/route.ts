@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '../../../lib/auth'
+import { prisma } from '../../../lib/prisma'
+import { AppointmentError, bookSlot, listAppointments } from '../../../lib/listings/appointments'
+
+export const dynamic = 'force-dynamic'
+
+// GET /api/appointments - Appointments the current user has booked or hosts
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email }
+    })
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ appointments: await listAppointments(user.id) })
+
+  } catch (error) {
+    console.error('Error fetching appointments:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch appointments' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/appointments - Book a viewing or test drive
+// Body: { slotId, type?: 'viewing' | 'test_drive', note? }
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email }
+    })
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      )
+    }
+
+    const { slotId, type, note } = await request.json()
+
+    if (!slotId) {
+      return NextResponse.json(
+        { error: 'Invalid booking', details: [{ field: 'slotId', message: 'Choose a time' }] },
+        { status: 400 }
+      )
+    }
+
+    const appointment = await bookSlot(slotId, user, { type, note })
+
+    return NextResponse.json(
+      { message: 'Appointment booked', appointment },
+      { status: 201 }
+    )
+
+  } catch (error) {
+    if (error instanceof AppointmentError) {
+      return NextResponse.json(
+        error.field
+          ? { error: 'Invalid booking', details: [{ field: error.field, message: error.message }] }
+          : { error: error.message },
+        { status: error.status }
+      )
+    }
+    console.error('Error booking appointment:', error)
+    return NextResponse.json(
+      { error: 'Failed to book appointment' },
+      { status: 500 }
+    )
+  }
+}
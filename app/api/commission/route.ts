@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { PrismaClient } from '@prisma/client'
 import { authOptions } from '../../../lib/auth'
+import { SaleTransitionError, transitionListing } from '../../../lib/listings/sale-workflow'
 import Stripe from 'stripe'
 
 const stripe = new Stripe(process.env.STRIPE_SECRET_KEY || '', {
@@ -10,15 +11,9 @@ const stripe = new Stripe(process.env.STRIPE_SECRET_KEY || '', {
 
 const prisma = new PrismaClient()
 
-// Commission rates by subscription tier
-const COMMISSION_RATES = {
-  basic: 0.05,     // 5% for basic users
-  premium: 0.04,   // 4% for premium users
-  dealer: 0.035,   // 3.5% for dealer users
-  enterprise: 0.03 // 3% for enterprise users
-}
-
 // POST /api/commission - Mark listing as sold and calculate commission
+// Kept for existing clients; goes through the same sale workflow as
+// /api/listings/[id]/status, so a reserved buyer still has to confirm.
 export async function POST(request: NextRequest) {
   try {
     const session = await getServerSession(authOptions)
@@ -40,80 +35,20 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // Find the listing and verify ownership
-    const listing = await prisma.listing.findUnique({
-      where: { id: listingId },
-      include: {
-        user: true,
-        commission: true
-      }
-    })
-
-    if (!listing) {
-      return NextResponse.json(
-        { error: 'Listing not found' },
-        { status: 404 }
-      )
-    }
-
-    // Verify the user owns this listing
     const user = await prisma.user.findUnique({
       where: { email: session.user.email }
     })
 
-    if (!user || listing.userId !== user.id) {
-      return NextResponse.json(
-        { error: 'You can only mark your own listings as sold' },
-        { status: 403 }
-      )
-    }
-
-    // Check if already sold
-    if (listing.status === 'sold') {
+    if (!user) {
       return NextResponse.json(
-        { error: 'This listing is already marked as sold' },
-        { status: 400 }
+        { error: 'User not found' },
+        { status: 404 }
       )
     }
 
-    // Calculate commission
-    const commissionRate = COMMISSION_RATES[(user as any).plan as keyof typeof COMMISSION_RATES] || COMMISSION_RATES.basic
-    const commissionAmount = Math.round(soldPrice * commissionRate)
-    const dueDate = new Date()
-    dueDate.setDate(dueDate.getDate() + 30) // Commission due in 30 days
-
-    // Update listing as sold
-    const updatedListing = await prisma.listing.update({
-      where: { id: listingId },
-      data: {
-        status: 'sold',
-        soldPrice: soldPrice,
-        soldDate: new Date(),
-        commissionRate: commissionRate
-      }
-    })
-
-    // Create commission record
-    const commission = await prisma.commission.create({
-      data: {
-        listingId: listingId,
-        sellerId: user.id,
-        salePrice: soldPrice,
-        commissionRate: commissionRate,
-        commissionAmount: commissionAmount,
-        dueDate: dueDate,
-        status: 'pending'
-      }
-    })
-
-    // Update user's total commission owed
-    await prisma.user.update({
-      where: { id: user.id },
-      data: {
-        totalCommissionOwed: {
-          increment: commissionAmount
-        }
-      }
+    // soldPrice is in cents here, the workflow takes listing currency units
+    const { listing: updatedListing, commission } = await transitionListing(listingId, user, 'mark_sold', {
+      salePrice: soldPrice / 100
     })
 
     // Create a lead if buyer info was provided
@@ -121,7 +56,7 @@ export async function POST(request: NextRequest) {
       await prisma.lead.create({
         data: {
           listingId: listingId,
-          sellerId: user.id,
+          sellerId: updatedListing.userId,
           contactInfo: buyerInfo,
           status: 'converted',
           price: 0, // No cost since it converted directly
@@ -133,24 +68,33 @@ export async function POST(request: NextRequest) {
       })
     }
 
+    const createdCommission = await prisma.commission.findUnique({ where: { listingId } })
+
     return NextResponse.json({
       message: 'Listing marked as sold successfully',
       commission: {
-        id: commission.id,
-        amount: commissionAmount,
-        rate: commissionRate,
-        dueDate: dueDate,
+        id: createdCommission?.id,
+        amount: commission?.amount,
+        rate: commission?.rate,
+        dueDate: commission?.dueDate,
         status: 'pending'
       },
       listing: {
         id: updatedListing.id,
         status: updatedListing.status,
-        soldPrice: soldPrice,
+        soldPrice: updatedListing.soldPrice,
         soldDate: updatedListing.soldDate
       }
     })
 
   } catch (error) {
+    if (error instanceof SaleTransitionError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status === 409 ? 400 : error.status }
+      )
+    }
+
     console.error('Error marking listing as sold:', error)
     return NextResponse.json(
       { error: 'Failed to mark listing as sold' },
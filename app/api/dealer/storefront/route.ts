@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '../../../../lib/auth'
+import { prisma } from '../../../../lib/prisma'
+import { getStorefrontSettings, StorefrontError, updateStorefront } from '../../../../lib/listings/storefronts'
+
+export const dynamic = 'force-dynamic'
+
+async function getDealer() {
+  const session = await getServerSession(authOptions)
+
+  if (!session?.user?.email) {
+    return { error: NextResponse.json({ error: 'Authentication required' }, { status: 401 }) }
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { email: session.user.email }
+  })
+
+  if (!user) {
+    return { error: NextResponse.json({ error: 'User not found' }, { status: 404 }) }
+  }
+
+  return { user }
+}
+
+function storefrontErrorResponse(error: StorefrontError) {
+  if (error.field) {
+    return NextResponse.json(
+      { error: 'Invalid storefront', details: [{ field: error.field, message: error.message }] },
+      { status: error.status }
+    )
+  }
+  return NextResponse.json({ error: error.message }, { status: error.status })
+}
+
+// GET /api/dealer/storefront - The current dealer's storefront settings
+export async function GET() {
+  try {
+    const { user, error } = await getDealer()
+    if (error) return error
+
+    return NextResponse.json({ storefront: await getStorefrontSettings(user.id) })
+
+  } catch (error) {
+    if (error instanceof StorefrontError) {
+      return storefrontErrorResponse(error)
+    }
+    console.error('Error fetching storefront:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch storefront' },
+      { status: 500 }
+    )
+  }
+}
+
+// PUT /api/dealer/storefront - Update branding, opening hours and address of the storefront
+// Body: { slug?, logoUrl?, bannerUrl?, about?, openingHours?: { mon: "08:00-18:00", ..., sun: null }, phone?, website? }
+export async function PUT(request: NextRequest) {
+  try {
+    const { user, error } = await getDealer()
+    if (error) return error
+
+    const body = await request.json()
+    await updateStorefront(user, body)
+
+    return NextResponse.json({ storefront: await getStorefrontSettings(user.id) })
+
+  } catch (error) {
+    if (error instanceof StorefrontError) {
+      return storefrontErrorResponse(error)
+    }
+    console.error('Error updating storefront:', error)
+    return NextResponse.json(
+      { error: 'Failed to update storefront' },
+      { status: 500 }
+    )
+  }
+}
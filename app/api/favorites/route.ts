@@ -36,7 +36,7 @@ export async function GET(request: NextRequest) {
         listing: {
           include: {
             user: {
-              select: { id: true, name: true, email: true }
+              select: { id: true, name: true }
             }
           }
         }
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '../../../../../lib/prisma'
+import { FEED_FORMATS, FeedFormat, buildInventoryFeed, parseFeedCurrency, verifyFeedSignature } from '../../../../../lib/listings/inventory-feeds'
+import { hasDealerPlan } from '../../../../../lib/listings/inventory-import'
+
+export const dynamic = 'force-dynamic'
+
+// GET /api/feeds/[dealerId]/[format] - Dealer inventory feed for external catalogues
+// Public, authorised by the ?sig= signature from GET /api/feeds. Optional
+// ?currency=EUR|ALL overrides the catalogue's default currency.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { dealerId: string; format: string } }
+) {
+  try {
+    const { searchParams } = new URL(request.url)
+
+    if (!(FEED_FORMATS as readonly string[]).includes(params.format)) {
+      return NextResponse.json(
+        { error: `Feed format must be one of ${FEED_FORMATS.join(', ')}` },
+        { status: 404 }
+      )
+    }
+    const format = params.format as FeedFormat
+
+    const dealer = await prisma.user.findUnique({
+      where: { id: params.dealerId },
+      select: { id: true, name: true, plan: true, isBlocked: true, feedTokenVersion: true }
+    })
+
+    // Same answer for unknown dealers and bad signatures
+    if (!dealer || !verifyFeedSignature(dealer, searchParams.get('sig'))) {
+      return NextResponse.json(
+        { error: 'Invalid feed URL' },
+        { status: 403 }
+      )
+    }
+
+    if (dealer.isBlocked || !hasDealerPlan(dealer)) {
+      return NextResponse.json(
+        { error: 'This feed is no longer available' },
+        { status: 410 }
+      )
+    }
+
+    const currency = parseFeedCurrency(searchParams.get('currency'), format)
+    if (!currency) {
+      return NextResponse.json(
+        { error: 'Currency must be EUR or ALL' },
+        { status: 400 }
+      )
+    }
+
+    const { body, contentType } = await buildInventoryFeed(dealer, format, currency)
+
+    return new NextResponse(body, {
+      headers: {
+        'Content-Type': contentType,
+        'Cache-Control': 'public, max-age=3600'
+      }
+    })
+
+  } catch (error) {
+    console.error('Error building inventory feed:', error)
+    return NextResponse.json(
+      { error: 'Failed to build inventory feed' },
+      { status: 500 }
+    )
+  }
+}
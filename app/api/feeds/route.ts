@@ -0,0 +1,74 @@
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '../../../lib/auth'
+import { prisma } from '../../../lib/prisma'
+import { getFeedUrls } from '../../../lib/listings/inventory-feeds'
+import { hasDealerPlan } from '../../../lib/listings/inventory-import'
+
+export const dynamic = 'force-dynamic'
+
+async function getDealer() {
+  const session = await getServerSession(authOptions)
+
+  if (!session?.user?.email) {
+    return { error: NextResponse.json({ error: 'Authentication required' }, { status: 401 }) }
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { email: session.user.email }
+  })
+
+  if (!user) {
+    return { error: NextResponse.json({ error: 'User not found' }, { status: 404 }) }
+  }
+
+  if (!hasDealerPlan(user)) {
+    return {
+      error: NextResponse.json(
+        { error: 'Inventory feeds are available on the dealer and enterprise plans' },
+        { status: 403 }
+      )
+    }
+  }
+
+  return { user }
+}
+
+// GET /api/feeds - Signed inventory feed URLs of the current dealer
+export async function GET() {
+  try {
+    const { user, error } = await getDealer()
+    if (error) return error
+
+    return NextResponse.json({ feeds: getFeedUrls(user) })
+
+  } catch (error) {
+    console.error('Error fetching feed URLs:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch feed URLs' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/feeds - Rotate the dealer's feed URLs, revoking the old ones
+export async function POST() {
+  try {
+    const { user, error } = await getDealer()
+    if (error) return error
+
+    const updated = await prisma.user.update({
+      where: { id: user.id },
+      data: { feedTokenVersion: { increment: 1 } }
+    })
+
+    return NextResponse.json({ feeds: getFeedUrls(updated) })
+
+  } catch (error) {
+    console.error('Error rotating feed URLs:', error)
+    return NextResponse.json(
+      { error: 'Failed to rotate feed URLs' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,157 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '../../../../../lib/auth'
+import { prisma } from '../../../../../lib/prisma'
+import {
+  AppointmentError,
+  cancelSlot,
+  getAppointmentState,
+  publishSlots
+} from '../../../../../lib/listings/appointments'
+
+export const dynamic = 'force-dynamic'
+
+function errorResponse(error: AppointmentError) {
+  return NextResponse.json(
+    error.field
+      ? { error: 'Invalid appointment times', details: [{ field: error.field, message: error.message }] }
+      : { error: error.message },
+    { status: error.status }
+  )
+}
+
+// GET /api/listings/[id]/appointments - Open viewing times and the viewer's appointments for the listing
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    const viewer = session?.user?.email
+      ? await prisma.user.findUnique({ where: { email: session.user.email }, select: { id: true } })
+      : null
+
+    const state = await getAppointmentState(params.id, viewer)
+
+    if (!state) {
+      return NextResponse.json(
+        { error: 'Listing not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(state)
+
+  } catch (error) {
+    console.error('Error fetching appointments:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch appointments' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/listings/[id]/appointments - Publish viewing times at a safe location (seller only)
+// Body: { locationId, slots: [{ startsAt, endsAt }] }
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email }
+    })
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      )
+    }
+
+    const { locationId, slots } = await request.json()
+    const created = await publishSlots(params.id, user, locationId, slots)
+
+    return NextResponse.json(
+      {
+        message: 'Appointment times published',
+        created,
+        state: await getAppointmentState(params.id, user)
+      },
+      { status: 201 }
+    )
+
+  } catch (error) {
+    if (error instanceof AppointmentError) {
+      return errorResponse(error)
+    }
+    console.error('Error publishing appointment times:', error)
+    return NextResponse.json(
+      { error: 'Failed to publish appointment times' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/listings/[id]/appointments?slotId= - Remove an open time (seller only)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email }
+    })
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      )
+    }
+
+    const slotId = new URL(request.url).searchParams.get('slotId')
+
+    if (!slotId) {
+      return NextResponse.json(
+        { error: 'Slot ID is required' },
+        { status: 400 }
+      )
+    }
+
+    await cancelSlot(slotId, user)
+
+    return NextResponse.json({
+      message: 'Appointment time removed',
+      state: await getAppointmentState(params.id, user)
+    })
+
+  } catch (error) {
+    if (error instanceof AppointmentError) {
+      return errorResponse(error)
+    }
+    console.error('Error removing appointment time:', error)
+    return NextResponse.json(
+      { error: 'Failed to remove appointment time' },
+      { status: 500 }
+    )
+  }
+}
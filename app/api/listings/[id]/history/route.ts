@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '../../../../../lib/auth'
+import { prisma } from '../../../../../lib/prisma'
+import { getListingHistory } from '../../../../../lib/listings/revisions'
+import { canViewListing } from '../../../../../lib/search/listing-search'
+
+export const dynamic = 'force-dynamic'
+
+// GET /api/listings/[id]/history - Edit history; moderators also see who made each edit
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const listing = await prisma.listing.findUnique({
+      where: { id: params.id },
+      select: { id: true, status: true, userId: true }
+    })
+
+    const session = await getServerSession(authOptions)
+    const viewer = session?.user?.email
+      ? await prisma.user.findUnique({ where: { email: session.user.email }, select: { id: true, role: true } })
+      : null
+
+    if (!listing || !canViewListing(listing, viewer)) {
+      return NextResponse.json(
+        { error: 'Listing not found' },
+        { status: 404 }
+      )
+    }
+
+    // VIN and other private fields only for the seller and moderators
+    const isAdmin = viewer?.role === 'admin'
+    const revisions = await getListingHistory(listing.id, {
+      includeEditors: isAdmin,
+      includePrivateFields: isAdmin || viewer?.id === listing.userId
+    })
+
+    return NextResponse.json({ listingId: listing.id, revisions })
+
+  } catch (error) {
+    console.error('Error fetching listing history:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch listing history' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '../../../../../lib/auth'
+import { prisma } from '../../../../../lib/prisma'
+import { SaleTransitionError, transitionListing } from '../../../../../lib/listings/sale-workflow'
+
+export const dynamic = 'force-dynamic'
+
+// PATCH /api/listings/[id]/mark-sold - Seller records a sale
+// Body (optional): { salePrice?, buyerEmail? }. With a buyer account, or when
+// the car is reserved for one, the buyer is asked to confirm first.
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email }
+    })
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      )
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const listing = await prisma.listing.findUnique({
+      where: { id: params.id },
+      select: { buyerId: true }
+    })
+
+    const needsConfirmation = !!body.buyerEmail || !!listing?.buyerId
+    const result = await transitionListing(params.id, user, needsConfirmation ? 'request_sale' : 'mark_sold', {
+      salePrice: body.salePrice,
+      buyerEmail: body.buyerEmail
+    })
+
+    return NextResponse.json({
+      message: needsConfirmation
+        ? 'Waiting for the buyer to confirm the sale'
+        : 'Listing marked as sold successfully',
+      status: result.listing.status,
+      commission: result.commission
+    })
+
+  } catch (error) {
+    if (error instanceof SaleTransitionError) {
+      return NextResponse.json(
+        error.field
+          ? { error: 'Invalid status change', details: [{ field: error.field, message: error.message }] }
+          : { error: error.message },
+        { status: error.status }
+      )
+    }
+
+    console.error('Error marking listing as sold:', error)
+    return NextResponse.json(
+      { error: 'Failed to mark listing as sold' },
+      { status: 500 }
+    )
+  }
+}
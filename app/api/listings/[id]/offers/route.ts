@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '../../../../../lib/auth'
+import { prisma } from '../../../../../lib/prisma'
+import { OfferError, createOffer, getOfferState } from '../../../../../lib/listings/offers'
+
+export const dynamic = 'force-dynamic'
+
+// GET /api/listings/[id]/offers - Negotiations on the listing visible to the current user
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    const viewer = session?.user?.email
+      ? await prisma.user.findUnique({ where: { email: session.user.email }, select: { id: true } })
+      : null
+
+    const state = await getOfferState(params.id, viewer)
+
+    if (!state) {
+      return NextResponse.json(
+        { error: 'Listing not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(state)
+
+  } catch (error) {
+    console.error('Error fetching offers:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch offers' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/listings/[id]/offers - Make an offer on the listing
+// Body: { amount, message?, expiresInHours? }
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email }
+    })
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      )
+    }
+
+    const { amount, message, expiresInHours } = await request.json()
+    const offer = await createOffer(params.id, user, { amount, message, expiresInHours })
+
+    return NextResponse.json(
+      { message: 'Offer sent', offer },
+      { status: 201 }
+    )
+
+  } catch (error) {
+    if (error instanceof OfferError) {
+      return NextResponse.json(
+        error.field
+          ? { error: 'Invalid offer', details: [{ field: error.field, message: error.message }] }
+          : { error: error.message },
+        { status: error.status }
+      )
+    }
+
+    console.error('Error creating offer:', error)
+    return NextResponse.json(
+      { error: 'Failed to create offer' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '../../../../../lib/auth'
+import { prisma } from '../../../../../lib/prisma'
+import { getPriceTimeline } from '../../../../../lib/listings/revisions'
+import { canViewListing } from '../../../../../lib/search/listing-search'
+
+export const dynamic = 'force-dynamic'
+
+// GET /api/listings/[id]/price-history - Price points for the listing's price chart
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const listing = await prisma.listing.findUnique({
+      where: { id: params.id },
+      select: { id: true, price: true, currency: true, createdAt: true, status: true, userId: true }
+    })
+
+    const session = await getServerSession(authOptions)
+    const viewer = session?.user?.email
+      ? await prisma.user.findUnique({ where: { email: session.user.email }, select: { id: true, role: true } })
+      : null
+
+    if (!listing || !canViewListing(listing, viewer)) {
+      return NextResponse.json(
+        { error: 'Listing not found' },
+        { status: 404 }
+      )
+    }
+
+    const timeline = await getPriceTimeline(listing)
+
+    return NextResponse.json(timeline)
+
+  } catch (error) {
+    console.error('Error fetching price history:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch price history' },
+      { status: 500 }
+    )
+  }
+}
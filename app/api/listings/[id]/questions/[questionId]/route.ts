@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '../../../../../../lib/auth'
+import { prisma } from '../../../../../../lib/prisma'
+import { QuestionError, answerQuestion, hideQuestion } from '../../../../../../lib/listings/questions'
+
+export const dynamic = 'force-dynamic'
+
+function errorResponse(error: QuestionError) {
+  return NextResponse.json(
+    error.field
+      ? { error: 'Invalid answer', details: [{ field: error.field, message: error.message }] }
+      : { error: error.message },
+    { status: error.status }
+  )
+}
+
+// POST /api/listings/[id]/questions/[questionId] - Answer a question (seller only)
+// Body: { answer }
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string; questionId: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email }
+    })
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      )
+    }
+
+    const { answer } = await request.json()
+    const question = await answerQuestion(params.questionId, user, answer)
+
+    return NextResponse.json({
+      message: question.answerStatus === 'published'
+        ? 'Answer published'
+        : question.answerStatus === 'pending' ? 'Answer will appear once it has been reviewed' : 'Answer could not be published',
+      question
+    })
+
+  } catch (error) {
+    if (error instanceof QuestionError) {
+      return errorResponse(error)
+    }
+    console.error('Error answering question:', error)
+    return NextResponse.json(
+      { error: 'Failed to answer question' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/listings/[id]/questions/[questionId] - Remove a question from the listing (seller or admin)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string; questionId: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email }
+    })
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      )
+    }
+
+    await hideQuestion(params.questionId, user)
+
+    return NextResponse.json({ message: 'Question removed' })
+
+  } catch (error) {
+    if (error instanceof QuestionError) {
+      return errorResponse(error)
+    }
+    console.error('Error removing question:', error)
+    return NextResponse.json(
+      { error: 'Failed to remove question' },
+      { status: 500 }
+    )
+  }
+}
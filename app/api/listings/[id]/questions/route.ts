@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '../../../../../lib/auth'
+import { prisma } from '../../../../../lib/prisma'
+import { QuestionError, askQuestion, getListingQuestions } from '../../../../../lib/listings/questions'
+
+export const dynamic = 'force-dynamic'
+
+// GET /api/listings/[id]/questions - Public questions and answers on the listing
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    const viewer = session?.user?.email
+      ? await prisma.user.findUnique({ where: { email: session.user.email }, select: { id: true, role: true } })
+      : null
+
+    const result = await getListingQuestions(params.id, viewer)
+
+    if (!result) {
+      return NextResponse.json(
+        { error: 'Listing not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(result)
+
+  } catch (error) {
+    console.error('Error fetching listing questions:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch questions' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/listings/[id]/questions - Ask the seller a public question
+// Body: { question }
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email }
+    })
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      )
+    }
+
+    const { question } = await request.json()
+    const created = await askQuestion(params.id, user, question)
+
+    return NextResponse.json(
+      {
+        message: created.status === 'published'
+          ? 'Question published'
+          : created.status === 'pending'
+            ? 'Question sent for review'
+            : 'Question was not accepted',
+        question: created
+      },
+      { status: 201 }
+    )
+
+  } catch (error) {
+    if (error instanceof QuestionError) {
+      return NextResponse.json(
+        error.field
+          ? { error: 'Invalid question', details: [{ field: error.field, message: error.message }] }
+          : { error: error.message },
+        { status: error.status }
+      )
+    }
+    console.error('Error asking question:', error)
+    return NextResponse.json(
+      { error: 'Failed to ask question' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,229 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { Listing, User } from '@prisma/client'
+import Stripe from 'stripe'
+import { authOptions } from '../../../../../lib/auth'
+import { prisma } from '../../../../../lib/prisma'
+import {
+  RenewalError,
+  renewListing,
+  renewalActionFor,
+  renewalFeeFor,
+  verifyRenewalLink
+} from '../../../../../lib/listings/renewal'
+
+const stripe = new Stripe(process.env.STRIPE_SECRET_KEY || '', {
+  apiVersion: '2023-10-16',
+})
+
+export const dynamic = 'force-dynamic'
+
+function myListingsUrl(params: Record<string, string>): URL {
+  const url = new URL('/my-listings', process.env.NEXTAUTH_URL)
+  Object.entries(params).forEach(([key, value]) => url.searchParams.set(key, value))
+  return url
+}
+
+// Stripe Checkout for plans that pay per renewal. The listing's current
+// expiresAt travels in the metadata so one payment renews exactly once.
+async function createRenewalCheckout(listing: Listing, user: User, fee: number): Promise<string> {
+  let customerId = user.stripeCustomerId
+
+  if (!customerId) {
+    const customer = await stripe.customers.create({
+      email: user.email,
+      name: user.name || undefined,
+      metadata: {
+        userId: user.id
+      }
+    })
+
+    customerId = customer.id
+
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { stripeCustomerId: customerId }
+    })
+  }
+
+  const action = renewalActionFor(listing) === 'relist' ? 'Relist' : 'Renewal'
+  const checkoutSession = await stripe.checkout.sessions.create({
+    customer: customerId,
+    payment_method_types: ['card'],
+    line_items: [
+      {
+        price_data: {
+          currency: 'eur',
+          unit_amount: fee,
+          product_data: { name: `${action}: ${listing.title}` },
+        },
+        quantity: 1,
+      },
+    ],
+    mode: 'payment',
+    success_url: `${process.env.NEXTAUTH_URL}/api/listings/${listing.id}/renew?session_id={CHECKOUT_SESSION_ID}`,
+    cancel_url: `${process.env.NEXTAUTH_URL}/my-listings?renewal=canceled`,
+    metadata: {
+      type: 'listing_renewal',
+      userId: user.id,
+      listingId: listing.id,
+      listingExpiresAt: listing.expiresAt.getTime().toString()
+    }
+  })
+
+  if (!checkoutSession.url) {
+    throw new Error('Stripe did not return a checkout URL')
+  }
+  return checkoutSession.url
+}
+
+// Apply a paid renewal when Stripe Checkout redirects back
+async function completeCheckout(listingId: string, sessionId: string): Promise<URL> {
+  const checkoutSession = await stripe.checkout.sessions.retrieve(sessionId)
+  const metadata = checkoutSession.metadata || {}
+  const paymentId = typeof checkoutSession.payment_intent === 'string'
+    ? checkoutSession.payment_intent
+    : checkoutSession.payment_intent?.id
+
+  if (
+    checkoutSession.payment_status !== 'paid' ||
+    metadata.type !== 'listing_renewal' ||
+    metadata.listingId !== listingId ||
+    !paymentId
+  ) {
+    return myListingsUrl({ renewal: 'failed' })
+  }
+
+  // Reloading the success page must not renew a second time
+  const recorded = await prisma.payment.findUnique({ where: { stripePaymentId: paymentId } })
+  if (recorded) {
+    return myListingsUrl({ renewed: listingId })
+  }
+
+  const owner = await prisma.user.findUnique({ where: { id: metadata.userId } })
+  if (!owner) {
+    return myListingsUrl({ renewal: 'failed' })
+  }
+
+  await renewListing(listingId, owner, {
+    payment: { stripePaymentId: paymentId, amount: checkoutSession.amount_total ?? 0 },
+    expectedExpiresAt: new Date(Number(metadata.listingExpiresAt))
+  })
+  return myListingsUrl({ renewed: listingId })
+}
+
+// GET /api/listings/[id]/renew - One-click renewal from the expiry email
+// (?expires=&token=) or the return from a paid renewal (?session_id=)
+// Redirects to /my-listings, or to Stripe Checkout when the plan pays per renewal
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const sessionId = searchParams.get('session_id')
+
+    if (sessionId) {
+      return NextResponse.redirect(await completeCheckout(params.id, sessionId))
+    }
+
+    const listing = await prisma.listing.findUnique({
+      where: { id: params.id },
+      include: { user: true }
+    })
+
+    if (!listing || !verifyRenewalLink(listing, searchParams.get('expires'), searchParams.get('token'))) {
+      return NextResponse.redirect(myListingsUrl({ renewal: 'invalid_link' }))
+    }
+
+    const fee = renewalFeeFor(listing.user.plan)
+    if (fee > 0 && renewalActionFor(listing)) {
+      return NextResponse.redirect(await createRenewalCheckout(listing, listing.user, fee))
+    }
+
+    await renewListing(listing.id, listing.user, { expectedExpiresAt: listing.expiresAt })
+    return NextResponse.redirect(myListingsUrl({ renewed: listing.id }))
+
+  } catch (error) {
+    if (error instanceof RenewalError) {
+      return NextResponse.redirect(myListingsUrl({ renewal: error.status === 404 ? 'invalid_link' : 'unavailable' }))
+    }
+    console.error('Error renewing listing from link:', error)
+    return NextResponse.redirect(myListingsUrl({ renewal: 'failed' }))
+  }
+}
+
+// POST /api/listings/[id]/renew - Renew an expiring listing or relist an expired or withdrawn one
+// Free plans renew at once; paid renewals answer 402 with a Stripe Checkout URL
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email }
+    })
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      )
+    }
+
+    const listing = await prisma.listing.findUnique({
+      where: { id: params.id },
+      include: { user: true }
+    })
+
+    if (!listing || listing.status === 'deleted') {
+      return NextResponse.json(
+        { error: 'Listing not found' },
+        { status: 404 }
+      )
+    }
+
+    const fee = renewalFeeFor(listing.user.plan)
+    if (fee > 0 && listing.userId === user.id && renewalActionFor(listing)) {
+      return NextResponse.json(
+        {
+          error: 'Payment required',
+          fee: fee / 100,
+          checkoutUrl: await createRenewalCheckout(listing, user, fee)
+        },
+        { status: 402 }
+      )
+    }
+
+    const result = await renewListing(listing.id, user)
+
+    return NextResponse.json({
+      message: result.action === 'renew'
+        ? 'Listing renewed'
+        : result.status === 'active' ? 'Listing relisted' : 'Listing relisted and waiting for review',
+      ...result
+    })
+
+  } catch (error) {
+    if (error instanceof RenewalError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      )
+    }
+    console.error('Error renewing listing:', error)
+    return NextResponse.json(
+      { error: 'Failed to renew listing' },
+      { status: 500 }
+    )
+  }
+}
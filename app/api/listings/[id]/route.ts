@@ -1,9 +1,19 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { PrismaClient } from '@prisma/client'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '../../../../lib/auth'
+import { formatListingFeatures, syncFeatureCatalogue } from '../../../../lib/listings/features'
+import { listingFormValues, validateListingInput } from '../../../../lib/listings/validation'
+import { diffFeatures, diffListing, recordListingEdit } from '../../../../lib/listings/revisions'
+import { MODERATION_STATUSES } from '../../../../lib/listings/sale-workflow'
+import { SCREENED_LISTING_FIELDS, screenListing } from '../../../../lib/listings/publish-pipeline'
+import { screenListingImages } from '../../../../lib/listings/image-hashes'
+import { PUBLIC_LISTING_STATUSES, formatListing } from '../../../../lib/search/listing-search'
+import { getListingContact } from '../../../../lib/messaging/contact-relay'
 
 const prisma = new PrismaClient()
 
-// GET /api/listings/[id] - Get single listing
+// GET /api/listings/[id] - Get single listing; seller contact goes through the relay
 export async function GET(
   request: NextRequest,
   { params }: { params: { id: string } }
@@ -12,11 +22,15 @@ export async function GET(
     const listing = await prisma.listing.findUnique({
       where: {
         id: params.id,
-        status: 'active'
+        status: { in: [...PUBLIC_LISTING_STATUSES] }
       },
       include: {
         user: {
-          select: { id: true, name: true, email: true, phone: true }
+          select: { id: true, name: true }
+        },
+        features: {
+          include: { feature: true },
+          orderBy: { feature: { sortOrder: 'asc' } }
         }
       }
     })
@@ -28,17 +42,19 @@ export async function GET(
       )
     }
 
+    const session = await getServerSession(authOptions)
+    const viewer = session?.user?.email
+      ? await prisma.user.findUnique({ where: { email: session.user.email }, select: { id: true } })
+      : null
+
     // Format response
     const formattedListing = {
-      ...listing,
-      price: listing.price / 100,
-      images: Array.isArray(listing.images) ? listing.images : (listing.images ? [listing.images] : []),
-      features: [], // TODO: Implement features as separate table
+      ...formatListing(listing),
+      features: formatListingFeatures(listing.features),
       seller: {
         name: listing.user.name || 'Anonymous',
-        phone: listing.user.phone || '',
-        email: listing.user.email,
-        location: `${listing.city}, ${listing.country}`
+        location: `${listing.city}, ${listing.country}`,
+        contact: await getListingContact(listing.userId, listing.id, viewer?.id ?? null)
       }
     }
 
@@ -53,17 +69,38 @@ export async function GET(
   }
 }
 
-// PUT /api/listings/[id] - Update listing
+// PUT /api/listings/[id] - Update listing; every change is recorded as a revision and content edits are screened again
 export async function PUT(
   request: NextRequest,
   { params }: { params: { id: string } }
 ) {
   try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email }
+    })
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      )
+    }
+
     const body = await request.json()
 
     // Check if listing exists
     const existingListing = await prisma.listing.findUnique({
-      where: { id: params.id }
+      where: { id: params.id },
+      include: { features: { select: { featureId: true } } }
     })
 
     if (!existingListing) {
@@ -73,40 +110,110 @@ export async function PUT(
       )
     }
 
-    // TODO: Check if user owns this listing (authentication)
+    const isAdmin = user.role === 'admin'
+    if (existingListing.userId !== user.id && !isAdmin) {
+      return NextResponse.json(
+        { error: 'You can only edit your own listings' },
+        { status: 403 }
+      )
+    }
 
-    // Update listing
-    const updatedListing = await prisma.listing.update({
-      where: { id: params.id },
-      data: {
-        ...(body.title && { title: body.title }),
-        ...(body.description && { description: body.description }),
-        ...(body.price && { price: Math.round(parseFloat(body.price) * 100) }),
-        ...(body.make && { make: body.make }),
-        ...(body.model && { model: body.model }),
-        ...(body.year && { year: parseInt(body.year) }),
-        ...(body.mileage && { mileage: parseInt(body.mileage) }),
-        ...(body.fuelType && { fuelType: body.fuelType }),
-        ...(body.transmission && { transmission: body.transmission }),
-        ...(body.bodyType && { bodyType: body.bodyType }),
-        ...(body.color && { color: body.color }),
-        ...(body.city && { city: body.city }),
-        ...(body.images && { images: Array.isArray(body.images) ? body.images : [body.images] }),
-        ...(body.status && { status: body.status }),
-        updatedAt: new Date()
-      },
-      include: {
-        user: {
-          select: { id: true, name: true, email: true }
+    // Sale states go through the workflow so commission and buyer confirmation
+    // cannot be skipped; moderators may still change the review status here
+    if (body.status && body.status !== existingListing.status &&
+        !(isAdmin && (MODERATION_STATUSES as readonly string[]).includes(body.status))) {
+      return NextResponse.json(
+        { error: 'Use POST /api/listings/[id]/status to reserve, sell or withdraw a listing' },
+        { status: 400 }
+      )
+    }
+
+    // The edit is validated as the whole listing it produces; features are
+    // replaced as a whole when sent
+    const currentFeatures = existingListing.features.map(f => f.featureId)
+    const validation = validateListingInput({
+      ...listingFormValues(existingListing, currentFeatures),
+      ...body
+    })
+    if (!validation.valid) {
+      return NextResponse.json(
+        { error: 'Invalid listing data', details: validation.errors },
+        { status: 400 }
+      )
+    }
+
+    const { features, ...fields } = validation.data
+    const changes = diffListing(existingListing, fields)
+    const featureChange = diffFeatures(currentFeatures, features)
+    if (featureChange) changes.features = featureChange
+
+    // Sellers' content edits go back through moderation and fraud screening;
+    // a car that is reserved or sold cannot be swapped for another one
+    const contentChanged = !isAdmin && SCREENED_LISTING_FIELDS.some(field => changes[field])
+    if (contentChanged && !['withdrawn', ...MODERATION_STATUSES].includes(existingListing.status)) {
+      return NextResponse.json(
+        { error: `A ${existingListing.status} listing cannot be edited` },
+        { status: 400 }
+      )
+    }
+    const rescreen = contentChanged && (MODERATION_STATUSES as readonly string[]).includes(existingListing.status)
+    const status: string | undefined = rescreen ? 'pending_review' : body.status
+    if (status && status !== existingListing.status) {
+      changes.status = { from: existingListing.status, to: status }
+    }
+    if (featureChange && features.length > 0) await syncFeatureCatalogue()
+
+    // Update listing and record the revision atomically
+    let updatedListing = await prisma.$transaction(async (tx) => {
+      const listing = await tx.listing.update({
+        where: { id: params.id },
+        data: {
+          ...fields,
+          ...(status && { status }),
+          ...(featureChange && {
+            features: {
+              deleteMany: {},
+              create: features.map(featureId => ({ featureId }))
+            }
+          }),
+          updatedAt: new Date()
+        },
+        include: {
+          user: {
+            select: { id: true, name: true, email: true }
+          },
+          features: {
+            include: { feature: true },
+            orderBy: { feature: { sortOrder: 'asc' } }
+          }
         }
-      }
+      })
+
+      await recordListingEdit(tx, listing.id, { id: user.id, role: isAdmin ? 'admin' : 'seller' }, changes)
+
+      return listing
     })
 
+    if (rescreen) {
+      const result = await screenListing(updatedListing)
+      updatedListing = { ...updatedListing, status: result.decision }
+    }
+
+    // Swapped-in photos are checked against other sellers' listings
+    if (changes.images) {
+      try {
+        await screenListingImages(updatedListing)
+      } catch (hashError) {
+        console.error(`Image hash screening failed for listing ${updatedListing.id}:`, hashError)
+      }
+    }
+
     // Format response
     const formattedListing = {
       ...updatedListing,
       price: updatedListing.price / 100,
-      images: Array.isArray(updatedListing.images) ? updatedListing.images : (updatedListing.images ? [updatedListing.images] : [])
+      images: Array.isArray(updatedListing.images) ? updatedListing.images : (updatedListing.images ? [updatedListing.images] : []),
+      features: formatListingFeatures(updatedListing.features)
     }
 
     return NextResponse.json(formattedListing)
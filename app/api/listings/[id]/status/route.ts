@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '../../../../../lib/auth'
+import { prisma } from '../../../../../lib/prisma'
+import {
+  SALE_ACTIONS,
+  SaleAction,
+  SaleTransitionError,
+  getSaleState,
+  transitionListing
+} from '../../../../../lib/listings/sale-workflow'
+
+export const dynamic = 'force-dynamic'
+
+// GET /api/listings/[id]/status - Sale status and the actions open to the current user
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    const viewer = session?.user?.email
+      ? await prisma.user.findUnique({ where: { email: session.user.email }, select: { id: true, role: true } })
+      : null
+
+    const state = await getSaleState(params.id, viewer)
+
+    if (!state) {
+      return NextResponse.json(
+        { error: 'Listing not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(state)
+
+  } catch (error) {
+    console.error('Error fetching listing status:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch listing status' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/listings/[id]/status - Apply a sale action
+// Body: { action, buyerEmail?, deposit?, days?, salePrice? }
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email }
+    })
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      )
+    }
+
+    const { action, ...input } = await request.json()
+
+    if (!(SALE_ACTIONS as readonly string[]).includes(action)) {
+      return NextResponse.json(
+        { error: 'Invalid status change', details: [{ field: 'action', message: `Action must be one of ${SALE_ACTIONS.join(', ')}` }] },
+        { status: 400 }
+      )
+    }
+
+    const result = await transitionListing(params.id, user, action as SaleAction, input)
+
+    return NextResponse.json({
+      message: 'Listing status updated',
+      status: result.listing.status,
+      commission: result.commission,
+      state: await getSaleState(params.id, user)
+    })
+
+  } catch (error) {
+    if (error instanceof SaleTransitionError) {
+      return NextResponse.json(
+        error.field
+          ? { error: 'Invalid status change', details: [{ field: error.field, message: error.message }] }
+          : { error: error.message },
+        { status: error.status }
+      )
+    }
+
+    console.error('Error updating listing status:', error)
+    return NextResponse.json(
+      { error: 'Failed to update listing status' },
+      { status: 500 }
+    )
+  }
+}
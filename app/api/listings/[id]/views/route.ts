@@ -0,0 +1,53 @@
+import crypto from 'crypto'
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '../../../../../lib/auth'
+import { prisma } from '../../../../../lib/prisma'
+import { recordListingView, VISITOR_COOKIE } from '../../../../../lib/listings/views'
+
+export const dynamic = 'force-dynamic'
+
+// POST /api/listings/[id]/views - Count a view of the listing, once per visitor per session window
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    const viewer = session?.user?.email
+      ? await prisma.user.findUnique({ where: { email: session.user.email }, select: { id: true } })
+      : null
+
+    // Anonymous visitors are recognised by a cookie handed out on their first view
+    const cookie = request.cookies.get(VISITOR_COOKIE)?.value
+    const anonymousId = cookie && /^[\w-]{16,64}$/.test(cookie) ? cookie : crypto.randomUUID()
+
+    const result = await recordListingView(params.id, {
+      userId: viewer?.id ?? null,
+      visitorId: viewer ? `user:${viewer.id}` : `anon:${anonymousId}`,
+      ipAddress: request.headers.get('x-forwarded-for')?.split(',')[0].trim() || request.headers.get('x-real-ip'),
+      userAgent: request.headers.get('user-agent'),
+      referrer: request.headers.get('referer'),
+    })
+
+    const response = NextResponse.json(result, { status: result.counted ? 201 : 200 })
+
+    if (anonymousId !== cookie) {
+      response.cookies.set(VISITOR_COOKIE, anonymousId, {
+        httpOnly: true,
+        secure: process.env.NODE_ENV === 'production',
+        sameSite: 'lax',
+        maxAge: 60 * 60 * 24 * 365 // 1 year
+      })
+    }
+
+    return response
+
+  } catch (error) {
+    console.error('Error recording listing view:', error)
+    return NextResponse.json(
+      { error: 'Failed to record view' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { buildListingComparison, comparisonPath, parseComparisonIds } from '../../../../lib/listings/comparison'
+
+export const dynamic = 'force-dynamic'
+
+// GET /api/listings/compare?ids=a,b,c - Side-by-side comparison of 2-4 listings
+// Public, so a comparison can be shared as a /compare?ids=... link
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const parsed = parseComparisonIds(searchParams.get('ids'))
+
+    if ('error' in parsed) {
+      return NextResponse.json(
+        { error: 'Invalid comparison', details: [{ field: 'ids', message: parsed.error }] },
+        { status: 400 }
+      )
+    }
+
+    const comparison = await buildListingComparison(parsed.ids)
+
+    if (comparison.listings.length === 0) {
+      return NextResponse.json(
+        { error: 'None of these listings are available' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      ...comparison,
+      sharePath: comparisonPath(comparison.listings.map(listing => listing.id))
+    })
+
+  } catch (error) {
+    console.error('Error comparing listings:', error)
+    return NextResponse.json(
+      { error: 'Failed to compare listings' },
+      { status: 500 }
+    )
+  }
+}
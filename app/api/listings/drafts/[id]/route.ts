@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '../../../../../lib/auth'
+import { prisma } from '../../../../../lib/prisma'
+import { draftImages, formatDraft, ownedUploads, removeUnreferencedUploads, sanitizeDraftInput } from '../../../../../lib/listings/drafts'
+
+export const dynamic = 'force-dynamic'
+
+// Resolve the signed-in user's draft; other users' drafts are reported as missing
+async function findOwnDraft(id: string) {
+  const session = await getServerSession(authOptions)
+
+  if (!session?.user?.email) {
+    return { error: NextResponse.json({ error: 'Authentication required' }, { status: 401 }) }
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { email: session.user.email }
+  })
+
+  if (!user) {
+    return { error: NextResponse.json({ error: 'User not found' }, { status: 404 }) }
+  }
+
+  const draft = await prisma.listingDraft.findFirst({
+    where: { id, userId: user.id }
+  })
+
+  if (!draft) {
+    return { error: NextResponse.json({ error: 'Draft not found' }, { status: 404 }) }
+  }
+
+  return { draft }
+}
+
+// GET /api/listings/drafts/[id] - Resume a draft
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { draft, error } = await findOwnDraft(params.id)
+    if (error) return error
+
+    return NextResponse.json(formatDraft(draft))
+
+  } catch (error) {
+    console.error('Error fetching draft:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch draft' },
+      { status: 500 }
+    )
+  }
+}
+
+// PUT /api/listings/drafts/[id] - Autosave; replaces the saved form values
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { draft, error } = await findOwnDraft(params.id)
+    if (error) return error
+
+    const input = sanitizeDraftInput(await request.json())
+
+    const updated = await prisma.listingDraft.update({
+      where: { id: draft.id },
+      data: {
+        title: input.title,
+        data: input.data,
+        images: await ownedUploads(draft.userId, input.images),
+        currentStep: input.currentStep
+      }
+    })
+
+    return NextResponse.json(formatDraft(updated))
+
+  } catch (error) {
+    console.error('Error saving draft:', error)
+    return NextResponse.json(
+      { error: 'Failed to save draft' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/listings/drafts/[id] - Discard a draft
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { draft, error } = await findOwnDraft(params.id)
+    if (error) return error
+
+    await prisma.listingDraft.delete({
+      where: { id: draft.id }
+    })
+
+    // Photos uploaded for this draft alone are no longer needed
+    await removeUnreferencedUploads(draft.userId, draftImages(draft.images))
+
+    return NextResponse.json({ message: 'Draft deleted successfully' })
+
+  } catch (error) {
+    console.error('Error deleting draft:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete draft' },
+      { status: 500 }
+    )
+  }
+}
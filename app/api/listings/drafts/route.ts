@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '../../../../lib/auth'
+import { prisma } from '../../../../lib/prisma'
+import { MAX_DRAFTS_PER_USER, formatDraft, ownedUploads, sanitizeDraftInput } from '../../../../lib/listings/drafts'
+
+export const dynamic = 'force-dynamic'
+
+// GET /api/listings/drafts - Current user's drafts, most recently edited first
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email }
+    })
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      )
+    }
+
+    const drafts = await prisma.listingDraft.findMany({
+      where: { userId: user.id },
+      orderBy: { updatedAt: 'desc' }
+    })
+
+    return NextResponse.json({ drafts: drafts.map(formatDraft) })
+
+  } catch (error) {
+    console.error('Error fetching drafts:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch drafts' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/listings/drafts - Start a draft from the sell wizard
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email }
+    })
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      )
+    }
+
+    const draftCount = await prisma.listingDraft.count({
+      where: { userId: user.id }
+    })
+
+    if (draftCount >= MAX_DRAFTS_PER_USER) {
+      return NextResponse.json(
+        { error: `You can keep at most ${MAX_DRAFTS_PER_USER} drafts. Publish or delete one first.` },
+        { status: 409 }
+      )
+    }
+
+    const input = sanitizeDraftInput(await request.json())
+
+    const draft = await prisma.listingDraft.create({
+      data: {
+        userId: user.id,
+        title: input.title,
+        data: input.data,
+        images: await ownedUploads(user.id, input.images),
+        currentStep: input.currentStep
+      }
+    })
+
+    return NextResponse.json(formatDraft(draft), { status: 201 })
+
+  } catch (error) {
+    console.error('Error creating draft:', error)
+    return NextResponse.json(
+      { error: 'Failed to create draft' },
+      { status: 500 }
+    )
+  }
+}
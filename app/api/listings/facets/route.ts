@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { parseListingFilters } from '../../../../lib/search/listing-search'
+import { getListingFacets } from '../../../../lib/search/facets'
+
+export const dynamic = 'force-dynamic'
+
+// GET /api/listings/facets - Per-value counts for the listing filters
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const filters = parseListingFilters(searchParams)
+
+    const facets = await getListingFacets(filters)
+
+    return NextResponse.json(facets)
+
+  } catch (error) {
+    console.error('Error fetching listing facets:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch listing facets' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,7 @@
+import { NextResponse } from 'next/server'
+import { groupFeaturesByCategory } from '../../../../lib/listings/features'
+
+// GET /api/listings/features - Equipment catalogue grouped by category
+export async function GET() {
+  return NextResponse.json({ categories: groupFeaturesByCategory() })
+}
@@ -0,0 +1,170 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '../../../../lib/auth'
+import { prisma } from '../../../../lib/prisma'
+import { FeedFormatError, detectImportFormat, parseFeed } from '../../../../lib/listings/import-formats'
+import { MAX_IMPORT_FILE_BYTES, MAX_IMPORT_ROWS, hasDealerPlan, importInventory } from '../../../../lib/listings/inventory-import'
+
+export const dynamic = 'force-dynamic'
+
+// GET /api/listings/import - Recent inventory imports of the current dealer
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email }
+    })
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      )
+    }
+
+    const imports = await prisma.listingImport.findMany({
+      where: { userId: user.id },
+      orderBy: { createdAt: 'desc' },
+      take: 20
+    })
+
+    return NextResponse.json({ imports })
+
+  } catch (error) {
+    console.error('Error fetching inventory imports:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch inventory imports' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/listings/import - Import a CSV or XML inventory feed
+// Send the file as multipart field "file" or as the raw request body.
+// Query: dryRun=true to preview, expireMissing=false for partial feeds,
+// format=csv|xml when it cannot be detected.
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email }
+    })
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      )
+    }
+
+    if (user.isBlocked) {
+      return NextResponse.json(
+        { error: 'Your account is blocked from creating listings' },
+        { status: 403 }
+      )
+    }
+
+    if (!hasDealerPlan(user)) {
+      return NextResponse.json(
+        { error: 'Inventory import is available on the dealer and enterprise plans' },
+        { status: 403 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const contentType = request.headers.get('content-type') || ''
+
+    let content: string
+    let fileName: string | undefined
+    let formatHint = searchParams.get('format')
+
+    if (contentType.startsWith('multipart/form-data')) {
+      const formData = await request.formData()
+      const file = formData.get('file')
+
+      if (!file || typeof file === 'string') {
+        return NextResponse.json(
+          { error: 'Upload the feed as the "file" field' },
+          { status: 400 }
+        )
+      }
+      if (file.size > MAX_IMPORT_FILE_BYTES) {
+        return NextResponse.json(
+          { error: `File too large. Maximum size is ${MAX_IMPORT_FILE_BYTES / 1024 / 1024}MB.` },
+          { status: 400 }
+        )
+      }
+
+      content = await file.text()
+      fileName = file.name
+      formatHint = formatHint || file.name.split('.').pop() || file.type
+    } else {
+      content = await request.text()
+      formatHint = formatHint || contentType
+
+      if (Buffer.byteLength(content) > MAX_IMPORT_FILE_BYTES) {
+        return NextResponse.json(
+          { error: `File too large. Maximum size is ${MAX_IMPORT_FILE_BYTES / 1024 / 1024}MB.` },
+          { status: 400 }
+        )
+      }
+    }
+
+    let feed
+    try {
+      feed = parseFeed(content, detectImportFormat(content, formatHint))
+    } catch (error) {
+      if (error instanceof FeedFormatError) {
+        return NextResponse.json(
+          { error: 'Invalid import file', details: [{ field: 'file', message: error.message }] },
+          { status: 400 }
+        )
+      }
+      throw error
+    }
+
+    if (feed.rows.length === 0) {
+      return NextResponse.json(
+        { error: 'Invalid import file', details: [{ field: 'file', message: 'The feed contains no vehicles' }] },
+        { status: 400 }
+      )
+    }
+    if (feed.rows.length > MAX_IMPORT_ROWS) {
+      return NextResponse.json(
+        { error: 'Invalid import file', details: [{ field: 'file', message: `A feed can contain at most ${MAX_IMPORT_ROWS} vehicles` }] },
+        { status: 400 }
+      )
+    }
+
+    const report = await importInventory(user.id, feed, {
+      dryRun: searchParams.get('dryRun') === 'true',
+      expireMissing: searchParams.get('expireMissing') !== 'false',
+      fileName
+    })
+
+    return NextResponse.json(report)
+
+  } catch (error) {
+    console.error('Error importing inventory:', error)
+    return NextResponse.json(
+      { error: 'Failed to import inventory' },
+      { status: 500 }
+    )
+  }
+}
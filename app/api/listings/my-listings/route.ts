@@ -0,0 +1,66 @@
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '../../../../lib/auth'
+import { prisma } from '../../../../lib/prisma'
+import { formatListing } from '../../../../lib/search/listing-search'
+import { renewalOptions } from '../../../../lib/listings/renewal'
+import { getListingViewStats } from '../../../../lib/listings/views'
+
+export const dynamic = 'force-dynamic'
+
+// GET /api/listings/my-listings - Current user's listings with view and engagement counts and renewal options
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email }
+    })
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      )
+    }
+
+    const listings = await prisma.listing.findMany({
+      where: {
+        userId: user.id,
+        status: { not: 'deleted' }
+      },
+      include: {
+        _count: { select: { favorites: true, messages: true } }
+      },
+      orderBy: { createdAt: 'desc' }
+    })
+
+    const views = await getListingViewStats(listings.map(listing => listing.id))
+
+    return NextResponse.json(listings.map(({ _count, ...listing }) => ({
+      ...formatListing(listing),
+      vin: listing.vin,
+      stockNumber: listing.stockNumber,
+      views: views.get(listing.id)!.total,
+      viewsLast7Days: views.get(listing.id)!.last7Days,
+      viewsLast30Days: views.get(listing.id)!.last30Days,
+      favorites: _count.favorites,
+      messages: _count.messages,
+      renewal: renewalOptions(listing, user.plan)
+    })))
+
+  } catch (error) {
+    console.error('Error fetching user listings:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch listings' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '../../../../lib/auth'
+import { prisma } from '../../../../lib/prisma'
+import { ConversationError, getConversation, updateConversation } from '../../../../lib/messaging/conversations'
+import { getCounterpartContact } from '../../../../lib/messaging/contact-relay'
+
+export const dynamic = 'force-dynamic'
+
+// GET /api/messages/[id] - A conversation with its messages and how to reach the other participant
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email }
+    })
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      )
+    }
+
+    const conversation = await getConversation(params.id, user.id)
+    const { contact } = await getCounterpartContact(params.id, user.id)
+
+    return NextResponse.json({ ...conversation, contact })
+
+  } catch (error) {
+    if (error instanceof ConversationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('Error fetching conversation:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch conversation' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/messages/[id] - Mark read, archive, unarchive, mute, unmute, share_contact or unshare_contact for the current user
+// Body: { action }
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email }
+    })
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      )
+    }
+
+    const body = await request.json()
+    const conversation = await updateConversation(params.id, user.id, body.action)
+    const { contact } = await getCounterpartContact(params.id, user.id)
+
+    return NextResponse.json({ conversation, contact })
+
+  } catch (error) {
+    if (error instanceof ConversationError) {
+      return NextResponse.json(
+        error.field
+          ? { error: 'Invalid conversation update', details: [{ field: error.field, message: error.message }] }
+          : { error: error.message },
+        { status: error.status }
+      )
+    }
+
+    console.error('Error updating conversation:', error)
+    return NextResponse.json(
+      { error: 'Failed to update conversation' },
+      { status: 500 }
+    )
+  }
+}
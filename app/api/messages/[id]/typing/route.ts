@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '../../../../../lib/auth'
+import { prisma } from '../../../../../lib/prisma'
+import { ConversationError, sendTypingIndicator } from '../../../../../lib/messaging/conversations'
+
+export const dynamic = 'force-dynamic'
+
+// POST /api/messages/[id]/typing - Tell the other participant that the user is typing
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email }
+    })
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      )
+    }
+
+    await sendTypingIndicator(params.id, user)
+
+    return NextResponse.json({ success: true })
+
+  } catch (error) {
+    if (error instanceof ConversationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('Error sending typing indicator:', error)
+    return NextResponse.json(
+      { error: 'Failed to send typing indicator' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '../../../../../lib/auth'
+import { prisma } from '../../../../../lib/prisma'
+import { AttachmentError, getAttachmentFile } from '../../../../../lib/messaging/attachments'
+
+export const dynamic = 'force-dynamic'
+
+// GET /api/messages/attachments/[id] - Download an attachment (?size=thumbnail for the image preview)
+// Only the uploader and the participants of the conversation it was sent in
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email }
+    })
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      )
+    }
+
+    const thumbnail = new URL(request.url).searchParams.get('size') === 'thumbnail'
+    const { attachment, data, mimeType } = await getAttachmentFile(params.id, user.id, thumbnail)
+    const disposition = attachment.kind === 'image' ? 'inline' : 'attachment'
+
+    return new NextResponse(new Uint8Array(data), {
+      headers: {
+        'Content-Type': mimeType,
+        'Content-Length': String(data.length),
+        'Content-Disposition': `${disposition}; filename*=UTF-8''${encodeURIComponent(attachment.fileName)}`,
+        'Cache-Control': 'private, max-age=3600',
+        'X-Content-Type-Options': 'nosniff'
+      }
+    })
+
+  } catch (error) {
+    if (error instanceof AttachmentError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('Error downloading attachment:', error)
+    return NextResponse.json(
+      { error: 'Failed to download attachment' },
+      { status: 500 }
+    )
+  }
+}
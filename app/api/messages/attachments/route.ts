@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '../../../../lib/auth'
+import { prisma } from '../../../../lib/prisma'
+import { UploadedFile, isUploadedFile } from '../../../../lib/uploads'
+import {
+  AttachmentError,
+  MAX_ATTACHMENTS_PER_MESSAGE,
+  storeAttachment
+} from '../../../../lib/messaging/attachments'
+
+export const dynamic = 'force-dynamic'
+
+// POST /api/messages/attachments - Upload photos or PDFs to send with a message
+// Body: multipart form data with up to five files; send the returned IDs as attachmentIds
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email }
+    })
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      )
+    }
+
+    if (user.isBlocked) {
+      return NextResponse.json(
+        { error: 'Your account is blocked from sending messages' },
+        { status: 403 }
+      )
+    }
+
+    const formData = await request.formData()
+    const files: UploadedFile[] = []
+    for (const value of formData.values()) {
+      if (isUploadedFile(value) && value.size > 0) files.push(value)
+    }
+
+    if (files.length === 0) {
+      return NextResponse.json(
+        { error: 'No files found in the request' },
+        { status: 400 }
+      )
+    }
+
+    if (files.length > MAX_ATTACHMENTS_PER_MESSAGE) {
+      return NextResponse.json(
+        { error: `A message has at most ${MAX_ATTACHMENTS_PER_MESSAGE} attachments` },
+        { status: 400 }
+      )
+    }
+
+    const attachments = []
+    for (const file of files) {
+      attachments.push(await storeAttachment(user.id, file))
+    }
+
+    return NextResponse.json({ attachments }, { status: 201 })
+
+  } catch (error) {
+    if (error instanceof AttachmentError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('Error uploading message attachments:', error)
+    return NextResponse.json(
+      { error: 'Failed to upload attachments' },
+      { status: 500 }
+    )
+  }
+}
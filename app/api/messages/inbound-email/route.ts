@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { ConversationError, MAX_MESSAGE_LENGTH, sendMessage } from '../../../../lib/messaging/conversations'
+import { ContactRelayError, resolveInboundEmail } from '../../../../lib/messaging/contact-relay'
+import { verifySignedValue } from '../../../../lib/security/url-signing'
+
+export const dynamic = 'force-dynamic'
+
+// POST /api/messages/inbound-email - Thread an email sent to a relay alias into its conversation
+// Called by the mail provider's inbound parse webhook (or a local SMTP stand-in);
+// the X-Relay-Signature header is signValue('inbound_email', <raw body>)
+// Body: { to, from, subject?, text }
+export async function POST(request: NextRequest) {
+  try {
+    const rawBody = await request.text()
+
+    if (!verifySignedValue('inbound_email', rawBody, request.headers.get('x-relay-signature'))) {
+      return NextResponse.json(
+        { error: 'Invalid signature' },
+        { status: 401 }
+      )
+    }
+
+    let email
+    try {
+      email = JSON.parse(rawBody)
+    } catch {
+      return NextResponse.json(
+        { error: 'Invalid JSON body' },
+        { status: 400 }
+      )
+    }
+
+    const { sender, conversationId, content } = await resolveInboundEmail(email)
+    const message = await sendMessage(sender, {
+      conversationId,
+      content: content.slice(0, MAX_MESSAGE_LENGTH)
+    })
+
+    return NextResponse.json({ status: 'threaded', messageId: message.id }, { status: 202 })
+
+  } catch (error) {
+    if (error instanceof ContactRelayError || error instanceof ConversationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('Error processing inbound email:', error)
+    return NextResponse.json(
+      { error: 'Failed to process inbound email' },
+      { status: 500 }
+    )
+  }
+}
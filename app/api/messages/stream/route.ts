@@ -0,0 +1,122 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '../../../../lib/auth'
+import { prisma } from '../../../../lib/prisma'
+import { getMissedMessageEvents } from '../../../../lib/messaging/conversations'
+import { MessageEvent, REPLAYED_EVENT_TYPES, getMessageEventBus } from '../../../../lib/messaging/realtime'
+
+export const dynamic = 'force-dynamic'
+
+const HEARTBEAT_MS = 25000
+const RETRY_MS = 3000
+
+// Typing indicators carry no id so the client resumes from the last replayable event
+function serialize(event: MessageEvent): string {
+  const id = REPLAYED_EVENT_TYPES.includes(event.type) ? `id: ${event.id}\n` : ''
+  return `${id}event: ${event.type}\ndata: ${JSON.stringify({ conversationId: event.conversationId, ...event.data })}\n\n`
+}
+
+// GET /api/messages/stream - Server-Sent Events with new messages, read receipts and typing indicators
+// Resumes after the Last-Event-ID header (sent by EventSource on reconnect) or ?lastEventId=
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email }
+    })
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      )
+    }
+
+    const lastEventId = request.headers.get('last-event-id') || new URL(request.url).searchParams.get('lastEventId')
+    const encoder = new TextEncoder()
+    let cleanup = () => {}
+
+    const stream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        let closed = false
+        const write = (chunk: string) => {
+          if (closed) return
+          try {
+            controller.enqueue(encoder.encode(chunk))
+          } catch {
+            cleanup()
+          }
+        }
+
+        // Subscribe before replaying so nothing published meanwhile is lost
+        const sent = new Set<string>()
+        let pending: MessageEvent[] | null = []
+        const unsubscribe = getMessageEventBus().subscribe(user.id, event => {
+          if (pending) {
+            pending.push(event)
+          } else {
+            write(serialize(event))
+          }
+        })
+        const heartbeat = setInterval(() => write(': ping\n\n'), HEARTBEAT_MS)
+
+        cleanup = () => {
+          if (closed) return
+          closed = true
+          clearInterval(heartbeat)
+          unsubscribe()
+          try {
+            controller.close()
+          } catch {
+            // Already closed by the client
+          }
+        }
+        request.signal.addEventListener('abort', () => cleanup())
+
+        write(`retry: ${RETRY_MS}\n\n`)
+
+        try {
+          if (lastEventId) {
+            for (const event of await getMissedMessageEvents(user.id, lastEventId)) {
+              sent.add(event.id)
+              write(serialize(event))
+            }
+          }
+        } catch (error) {
+          console.error('Error replaying message events:', error)
+        }
+
+        const queued = pending
+        pending = null
+        queued.filter(event => !sent.has(event.id)).forEach(event => write(serialize(event)))
+      },
+      cancel() {
+        cleanup()
+      }
+    })
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream; charset=utf-8',
+        'Cache-Control': 'no-cache, no-transform',
+        'Connection': 'keep-alive',
+        'X-Accel-Buffering': 'no'
+      }
+    })
+
+  } catch (error) {
+    console.error('Error opening message stream:', error)
+    return NextResponse.json(
+      { error: 'Failed to open message stream' },
+      { status: 500 }
+    )
+  }
+}
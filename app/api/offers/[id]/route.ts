@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '../../../../lib/auth'
+import { prisma } from '../../../../lib/prisma'
+import { OFFER_ACTIONS, OfferAction, OfferError, respondToOffer } from '../../../../lib/listings/offers'
+
+export const dynamic = 'force-dynamic'
+
+// POST /api/offers/[id] - Accept, decline, counter or withdraw an offer, or open escrow after acceptance
+// Body: { action, amount?, message?, expiresInHours?, escrow? }
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email }
+    })
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      )
+    }
+
+    const { action, amount, message, expiresInHours, escrow } = await request.json()
+
+    if (!(OFFER_ACTIONS as readonly string[]).includes(action)) {
+      return NextResponse.json(
+        { error: 'Invalid offer response', details: [{ field: 'action', message: `Action must be one of ${OFFER_ACTIONS.join(', ')}` }] },
+        { status: 400 }
+      )
+    }
+
+    const result = await respondToOffer(params.id, user, action as OfferAction, {
+      amount,
+      message,
+      expiresInHours,
+      escrow: escrow === true
+    })
+
+    return NextResponse.json({
+      message: 'Offer updated',
+      offer: result.offer,
+      escrow: result.escrow
+    })
+
+  } catch (error) {
+    if (error instanceof OfferError) {
+      return NextResponse.json(
+        error.field
+          ? { error: 'Invalid offer response', details: [{ field: error.field, message: error.message }] }
+          : { error: error.message },
+        { status: error.status }
+      )
+    }
+
+    console.error('Error updating offer:', error)
+    return NextResponse.json(
+      { error: 'Failed to update offer' },
+      { status: 500 }
+    )
+  }
+}
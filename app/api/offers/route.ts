@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '../../../lib/auth'
+import { prisma } from '../../../lib/prisma'
+import { listOffers } from '../../../lib/listings/offers'
+
+export const dynamic = 'force-dynamic'
+
+// GET /api/offers - Offers the current user has made or received
+// Query: role=buyer|seller to show one side only
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email }
+    })
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      )
+    }
+
+    const role = new URL(request.url).searchParams.get('role')
+    const offers = await listOffers(user.id)
+
+    return NextResponse.json({
+      offers: role === 'buyer' || role === 'seller' ? offers.filter(offer => offer.role === role) : offers
+    })
+
+  } catch (error) {
+    console.error('Error fetching offers:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch offers' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { SafetyFeaturesService } from '../../../../lib/security/safety-features'
+
+export const dynamic = 'force-dynamic'
+
+// GET /api/safety/locations?city= - Safe meeting locations in a city
+export async function GET(request: NextRequest) {
+  try {
+    const city = new URL(request.url).searchParams.get('city')
+
+    if (!city) {
+      return NextResponse.json(
+        { error: 'City is required' },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(await SafetyFeaturesService.getSafeLocations(city))
+
+  } catch (error) {
+    console.error('Error fetching safe locations:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch safe locations' },
+      { status: 500 }
+    )
+  }
+}
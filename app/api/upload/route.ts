@@ -2,6 +2,17 @@ import { NextRequest, NextResponse } from 'next/server'
 import { writeFile } from 'fs/promises'
 import { join } from 'path'
 import { existsSync, mkdirSync } from 'fs'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '../../../lib/auth'
+import { prisma } from '../../../lib/prisma'
+import { recordUploadedImage } from '../../../lib/listings/image-hashes'
+import {
+  MAX_UPLOAD_SIZE,
+  UPLOAD_IMAGE_TYPES,
+  isUploadedFile,
+  uniqueUploadName,
+  validateUploadFile
+} from '../../../lib/uploads'
 
 export const dynamic = 'force-dynamic'
 
@@ -11,36 +22,30 @@ export async function POST(request: NextRequest) {
     const formData = await request.formData()
     const uploadedFiles: string[] = []
 
+    const session = await getServerSession(authOptions)
+    const uploader = session?.user?.email
+      ? await prisma.user.findUnique({ where: { email: session.user.email }, select: { id: true } })
+      : null
+
     // Process each file in the form data
     for (const [key, value] of formData.entries()) {
       // Check if the value is a file-like object
-      if (value && typeof value === 'object' && 'name' in value && 'size' in value && 'arrayBuffer' in value) {
-        const file = value as any // Type assertion for file-like object
+      if (isUploadedFile(value)) {
+        const file = value
 
         if (file.size === 0) continue
 
-        // Validate file type
-        if (!file.type || !file.type.startsWith('image/')) {
-          return NextResponse.json(
-            { error: `Invalid file type: ${file.type || 'unknown'}. Only images are allowed.` },
-            { status: 400 }
-          )
-        }
-
-        // Validate file size (max 5MB)
-        const maxSize = 5 * 1024 * 1024 // 5MB
-        if (file.size > maxSize) {
+        // Validate file type and size
+        const invalid = validateUploadFile(file)
+        if (invalid) {
           return NextResponse.json(
-            { error: `File too large: ${file.name}. Maximum size is 5MB.` },
+            { error: invalid },
             { status: 400 }
           )
         }
 
         // Generate unique filename
-        const timestamp = Date.now()
-        const randomString = Math.random().toString(36).substring(2, 15)
-        const extension = file.name.split('.').pop() || 'jpg'
-        const filename = `${timestamp}-${randomString}.${extension}`
+        const filename = uniqueUploadName(file.name)
 
         try {
           // Create uploads directory if it doesn't exist
@@ -56,6 +61,13 @@ export async function POST(request: NextRequest) {
 
           await writeFile(filepath, buffer)
 
+          // Perceptual hash for spotting the photo on other sellers' listings
+          try {
+            await recordUploadedImage(`/uploads/${filename}`, buffer, uploader?.id ?? null)
+          } catch (hashError) {
+            console.warn(`Could not hash ${filename}:`, hashError)
+          }
+
           // Add to uploaded files list
           uploadedFiles.push(`/uploads/${filename}`)
 
@@ -96,8 +108,8 @@ export async function POST(request: NextRequest) {
 // GET /api/upload - Get upload status/info
 export async function GET() {
   return NextResponse.json({
-    maxFileSize: '5MB',
-    allowedTypes: ['image/jpeg', 'image/png', 'image/webp', 'image/gif'],
+    maxFileSize: `${MAX_UPLOAD_SIZE / 1024 / 1024}MB`,
+    allowedTypes: UPLOAD_IMAGE_TYPES,
     maxFiles: 10,
     uploadsEnabled: true
   })
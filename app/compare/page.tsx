@@ -0,0 +1,326 @@
+'use client'
+
+import { Fragment, useEffect, useState } from 'react'
+import Image from 'next/image'
+
+export const dynamic = 'force-dynamic'
+
+type ComparisonValue = number | string | null
+
+interface ComparisonRow {
+  key: string
+  better: 'lower' | 'higher' | null
+  values: ComparisonValue[]
+  best: number[]
+}
+
+interface ComparedListing {
+  id: string
+  title: string
+  status: string
+  price: number
+  originalPrice: number
+  originalCurrency: string
+  image: string | null
+  market: {
+    marketPriceScore: number | null
+    recommendedPrice: number | null
+    priceDelta: number | null
+    priceDeltaPercent: number | null
+  }
+  costOfOwnership: {
+    annualDistanceKm: number
+    energy: number
+    insurance: number
+    circulationTax: number
+    maintenance: number
+    depreciation: number
+    total: number
+  }
+  seller: {
+    id: string
+    name: string
+    memberSince: string
+    reputation: {
+      averageRating: number
+      totalReviews: number
+      verifiedReviews: number
+      trustScore: number
+    }
+  }
+}
+
+interface Comparison {
+  listings: ComparedListing[]
+  rows: ComparisonRow[]
+  features: { key: string; label: string; labelEn: string; listings: boolean[] }[]
+  missing: string[]
+}
+
+const ROW_SECTIONS: { title: string; rows: { key: string; label: string; format?: (value: number) => string }[] }[] = [
+  {
+    title: 'Specifications',
+    rows: [
+      { key: 'price', label: 'Price', format: value => `€${value.toLocaleString()}` },
+      { key: 'year', label: 'Year', format: value => String(value) },
+      { key: 'mileage', label: 'Mileage', format: value => `${value.toLocaleString()} km` },
+      { key: 'fuelType', label: 'Fuel' },
+      { key: 'transmission', label: 'Transmission' },
+      { key: 'bodyType', label: 'Body type' },
+      { key: 'color', label: 'Color' },
+      { key: 'city', label: 'Location' },
+      { key: 'featureCount', label: 'Equipment items' },
+    ],
+  },
+  {
+    title: 'Market price',
+    rows: [
+      { key: 'marketPriceScore', label: 'Price score (0-100)', format: value => String(Math.round(value)) },
+      { key: 'recommendedPrice', label: 'Recommended price', format: value => `€${value.toLocaleString()}` },
+      { key: 'priceDeltaPercent', label: 'vs. recommended', format: value => `${value > 0 ? '+' : ''}${value}%` },
+    ],
+  },
+  {
+    title: 'Cost of ownership (per year)',
+    rows: [
+      { key: 'costOfOwnership', label: 'Estimated total', format: value => `€${value.toLocaleString()}` },
+      { key: 'costPerKm', label: 'Per km', format: value => `€${value.toFixed(2)}` },
+    ],
+  },
+  {
+    title: 'Seller',
+    rows: [
+      { key: 'sellerRating', label: 'Average rating', format: value => `${value.toFixed(1)} / 5` },
+      { key: 'sellerReviews', label: 'Reviews' },
+      { key: 'sellerTrustScore', label: 'Trust score', format: value => `${value} / 100` },
+      { key: 'sellerNoShows', label: 'Missed appointments' },
+    ],
+  },
+]
+
+const STATUS_BADGES: Record<string, string> = {
+  reserved: 'RESERVED',
+  pending_sale: 'SALE PENDING',
+  sold: 'SOLD',
+}
+
+function readIds(): string[] {
+  const ids = new URLSearchParams(window.location.search).get('ids')
+  return ids ? ids.split(',').filter(Boolean) : []
+}
+
+export default function ComparePage() {
+  const [ids, setIds] = useState<string[]>([])
+  const [comparison, setComparison] = useState<Comparison | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [copied, setCopied] = useState(false)
+
+  useEffect(() => {
+    setIds(readIds())
+  }, [])
+
+  useEffect(() => {
+    if (ids.length === 0) {
+      setLoading(false)
+      return
+    }
+
+    setLoading(true)
+    setError(null)
+    fetch(`/api/listings/compare?ids=${ids.map(encodeURIComponent).join(',')}`)
+      .then(async response => {
+        const data = await response.json()
+        if (!response.ok) {
+          throw new Error(data.details?.[0]?.message || data.error || 'Failed to compare listings')
+        }
+        setComparison(data)
+      })
+      .catch(error => {
+        console.error('Error comparing listings:', error)
+        setComparison(null)
+        setError(error instanceof Error ? error.message : 'Failed to compare listings')
+      })
+      .finally(() => setLoading(false))
+  }, [ids])
+
+  const removeListing = (id: string) => {
+    const remaining = ids.filter(other => other !== id)
+    window.history.replaceState(null, '', remaining.length > 0 ? `/compare?ids=${remaining.join(',')}` : '/compare')
+    setIds(remaining)
+  }
+
+  const copyLink = async () => {
+    await navigator.clipboard.writeText(window.location.href)
+    setCopied(true)
+    setTimeout(() => setCopied(false), 2000)
+  }
+
+  const renderValue = (row: ComparisonRow, index: number, format?: (value: number) => string) => {
+    const value = row.values[index]
+    if (value === null || value === '') return <span className="text-gray-400">—</span>
+    return typeof value === 'number' && format ? format(value) : String(value)
+  }
+
+  const listings = comparison?.listings || []
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <div className="bg-white shadow-sm">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 flex items-start justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900 mb-4">
+              Compare Cars
+            </h1>
+            <p className="text-lg text-gray-600">
+              Up to four cars side by side. The best value in each row is highlighted.
+            </p>
+          </div>
+          {listings.length > 0 && (
+            <button
+              onClick={copyLink}
+              className="px-4 py-2 text-sm border border-gray-300 rounded-lg hover:bg-gray-50"
+            >
+              {copied ? 'Link copied' : 'Copy link'}
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {loading && (
+          <div className="text-center py-12">
+            <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+            <p className="mt-2 text-gray-600">Loading comparison...</p>
+          </div>
+        )}
+
+        {!loading && (error || ids.length < 2) && (
+          <div className="text-center py-12">
+            <h2 className="text-2xl font-bold text-gray-900 mb-4">
+              {error || 'Pick at least two cars to compare'}
+            </h2>
+            <p className="text-gray-600 mb-6">
+              Select cars on your favorites page and choose Compare.
+            </p>
+            <a
+              href="/favorites"
+              className="inline-block bg-blue-600 text-white px-6 py-3 rounded-lg hover:bg-blue-700"
+            >
+              Go to Favorites
+            </a>
+          </div>
+        )}
+
+        {!loading && !error && ids.length >= 2 && comparison && (
+          <>
+            {comparison.missing.length > 0 && (
+              <div className="mb-6 p-4 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800">
+                {comparison.missing.length === 1 ? 'One car is' : `${comparison.missing.length} cars are`} no longer available and {comparison.missing.length === 1 ? 'was' : 'were'} left out.
+              </div>
+            )}
+
+            <div className="bg-white rounded-lg shadow-md overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-gray-200">
+                    <th className="w-48 p-4"></th>
+                    {listings.map(listing => (
+                      <th key={listing.id} className="p-4 text-left align-top font-normal min-w-[200px]">
+                        <div className="relative h-32 bg-gradient-to-br from-gray-100 to-gray-200 rounded-lg overflow-hidden mb-3">
+                          {listing.image && (
+                            <Image
+                              src={listing.image}
+                              alt={listing.title}
+                              fill
+                              sizes="250px"
+                              className="object-cover"
+                            />
+                          )}
+                          {listing.status !== 'active' && (
+                            <div className="absolute top-2 left-2 px-2 py-1 bg-red-500 text-white text-xs rounded-full">
+                              {STATUS_BADGES[listing.status] || 'UNAVAILABLE'}
+                            </div>
+                          )}
+                        </div>
+                        <a href={`/listings/${listing.id}`} className="font-semibold text-gray-900 hover:text-blue-600">
+                          {listing.title}
+                        </a>
+                        {listing.originalCurrency !== 'EUR' && (
+                          <p className="text-xs text-gray-500">
+                            Listed at {listing.originalPrice.toLocaleString()} {listing.originalCurrency}
+                          </p>
+                        )}
+                        <button
+                          onClick={() => removeListing(listing.id)}
+                          className="mt-2 block text-xs text-red-600 hover:text-red-700"
+                        >
+                          Remove
+                        </button>
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {ROW_SECTIONS.map(section => (
+                    <Fragment key={section.title}>
+                      <tr className="bg-gray-50">
+                        <td colSpan={listings.length + 1} className="px-4 py-2 font-semibold text-gray-900">
+                          {section.title}
+                        </td>
+                      </tr>
+                      {section.rows.map(({ key, label, format }) => {
+                        const row = comparison.rows.find(r => r.key === key)
+                        if (!row) return null
+                        return (
+                          <tr key={key} className="border-b border-gray-100">
+                            <td className="px-4 py-3 text-gray-600">{label}</td>
+                            {listings.map((listing, index) => (
+                              <td
+                                key={listing.id}
+                                className={`px-4 py-3 ${row.best.includes(index) ? 'bg-green-50 font-semibold text-green-700' : 'text-gray-900'}`}
+                              >
+                                {renderValue(row, index, format)}
+                              </td>
+                            ))}
+                          </tr>
+                        )
+                      })}
+                    </Fragment>
+                  ))}
+
+                  {comparison.features.length > 0 && (
+                    <>
+                      <tr className="bg-gray-50">
+                        <td colSpan={listings.length + 1} className="px-4 py-2 font-semibold text-gray-900">
+                          Equipment
+                        </td>
+                      </tr>
+                      {comparison.features.map(feature => (
+                        <tr key={feature.key} className="border-b border-gray-100">
+                          <td className="px-4 py-3 text-gray-600">{feature.labelEn}</td>
+                          {feature.listings.map((has, index) => (
+                            <td key={listings[index].id} className={`px-4 py-3 ${has ? 'text-green-700' : 'text-gray-400'}`}>
+                              {has ? '✓' : '—'}
+                            </td>
+                          ))}
+                        </tr>
+                      ))}
+                    </>
+                  )}
+                </tbody>
+              </table>
+            </div>
+
+            <p className="mt-4 text-xs text-gray-500">
+              Cost of ownership is an estimate for {listings[0]?.costOfOwnership.annualDistanceKm.toLocaleString()} km a year:
+              fuel or electricity at current Albanian prices, mandatory insurance, circulation tax, maintenance and
+              the expected loss in value over the next year. Prices in other currencies are converted to EUR.
+            </p>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
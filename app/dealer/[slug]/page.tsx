@@ -0,0 +1,213 @@
+import type { Metadata } from 'next'
+import Image from 'next/image'
+import { notFound, permanentRedirect } from 'next/navigation'
+import { getStorefrontBySlug, OpeningHours, WEEKDAYS } from '../../../lib/listings/storefronts'
+import { DealerInventory } from '../../../components/dealer-inventory'
+
+export const dynamic = 'force-dynamic'
+
+interface DealerPageProps {
+  params: { slug: string }
+}
+
+const WEEKDAY_LABELS: Record<typeof WEEKDAYS[number], string> = {
+  mon: 'E hënë',
+  tue: 'E martë',
+  wed: 'E mërkurë',
+  thu: 'E enjte',
+  fri: 'E premte',
+  sat: 'E shtunë',
+  sun: 'E diel',
+}
+
+const BADGE_LABELS = {
+  business: 'Biznes i verifikuar',
+  id: 'Identitet i verifikuar',
+  phone: 'Telefon i verifikuar',
+  address: 'Adresë e verifikuar',
+  bank: 'Llogari bankare e verifikuar',
+}
+
+// schema.org opening hours, e.g. { mon: "08:00-18:00" } → "Mo 08:00-18:00"
+function structuredOpeningHours(hours: OpeningHours | null): string[] {
+  if (!hours) return []
+  return WEEKDAYS
+    .filter(day => hours[day])
+    .map(day => `${day.charAt(0).toUpperCase()}${day.charAt(1)} ${hours[day]}`)
+}
+
+export async function generateMetadata({ params }: DealerPageProps): Promise<Metadata> {
+  const result = await getStorefrontBySlug(params.slug)
+  if (!result?.storefront) {
+    return { title: 'AutoMarket' }
+  }
+
+  const { storefront } = result
+  const title = `${storefront.name}${storefront.city ? ` - ${storefront.city}` : ''} | AutoMarket`
+  const description = (storefront.about || `${storefront.name}: ${storefront.inventory.active} makina në shitje në AutoMarket.`)
+    .replace(/\s+/g, ' ')
+    .slice(0, 160)
+  const images = [storefront.bannerUrl || storefront.logoUrl].filter((image): image is string => !!image)
+
+  return {
+    title,
+    description,
+    alternates: { canonical: `/dealer/${storefront.slug}` },
+    openGraph: { title, description, type: 'website', locale: 'sq_AL', siteName: 'AutoMarket', images },
+  }
+}
+
+export default async function DealerPage({ params }: DealerPageProps) {
+  const result = await getStorefrontBySlug(params.slug)
+  if (!result) notFound()
+  const { storefront, redirectTo } = result
+  if (!storefront) permanentRedirect(`/dealer/${redirectTo}`)
+
+  const badges = (Object.keys(BADGE_LABELS) as (keyof typeof BADGE_LABELS)[]).filter(badge => storefront.badges[badge])
+  const structuredData = {
+    '@context': 'https://schema.org',
+    '@type': 'AutoDealer',
+    name: storefront.name,
+    ...(storefront.logoUrl && { logo: storefront.logoUrl }),
+    ...(storefront.bannerUrl && { image: storefront.bannerUrl }),
+    ...(storefront.about && { description: storefront.about }),
+    ...(storefront.phone && { telephone: storefront.phone }),
+    ...(storefront.website && { sameAs: [storefront.website] }),
+    ...(storefront.address && {
+      address: { '@type': 'PostalAddress', streetAddress: storefront.address, addressLocality: storefront.city },
+    }),
+    openingHours: structuredOpeningHours(storefront.openingHours),
+    ...(storefront.rating.totalReviews > 0 && {
+      aggregateRating: {
+        '@type': 'AggregateRating',
+        ratingValue: storefront.rating.averageRating,
+        reviewCount: storefront.rating.totalReviews,
+      },
+    }),
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <script
+        type="application/ld+json"
+        dangerouslySetInnerHTML={{ __html: JSON.stringify(structuredData).replace(/</g, '\\u003c') }}
+      />
+
+      {/* Header */}
+      <div className="bg-white shadow-sm">
+        <div
+          className="h-48 md:h-64 bg-gradient-to-r from-blue-600 to-blue-800 bg-cover bg-center"
+          style={storefront.bannerUrl ? { backgroundImage: `url(${storefront.bannerUrl})` } : undefined}
+        />
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 pb-6">
+          <div className="flex flex-col md:flex-row md:items-end gap-4 -mt-12">
+            <div className="w-24 h-24 rounded-lg bg-white shadow-md overflow-hidden flex items-center justify-center text-3xl font-bold text-blue-600">
+              {storefront.logoUrl ? (
+                <Image src={storefront.logoUrl} alt={storefront.name} width={96} height={96} className="w-full h-full object-contain" />
+              ) : (
+                storefront.name.charAt(0).toUpperCase()
+              )}
+            </div>
+            <div className="flex-1">
+              <h1 className="text-3xl font-bold text-gray-900">{storefront.name}</h1>
+              <p className="text-gray-600">
+                {[storefront.address, storefront.city].filter(Boolean).join(', ')}
+              </p>
+            </div>
+            <div className="text-sm text-gray-600 md:text-right">
+              {storefront.rating.totalReviews > 0 ? (
+                <>
+                  <span className="text-2xl font-bold text-gray-900">{storefront.rating.averageRating.toFixed(1)}</span>
+                  <span className="text-yellow-500 ml-1">★</span>
+                  <div>{storefront.rating.totalReviews} vlerësime</div>
+                </>
+              ) : (
+                <div>Ende pa vlerësime</div>
+              )}
+            </div>
+          </div>
+
+          {badges.length > 0 && (
+            <div className="flex flex-wrap gap-2 mt-4">
+              {badges.map(badge => (
+                <span key={badge} className="text-xs px-2 py-1 rounded-full bg-green-100 text-green-800">
+                  ✓ {BADGE_LABELS[badge]}
+                </span>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="grid lg:grid-cols-4 gap-8">
+          {/* Dealer details */}
+          <div className="lg:col-span-1 space-y-6">
+            {storefront.about && (
+              <div className="bg-white rounded-lg shadow-md p-6">
+                <h2 className="text-lg font-semibold text-gray-900 mb-2">Rreth nesh</h2>
+                <p className="text-sm text-gray-700 whitespace-pre-line">{storefront.about}</p>
+              </div>
+            )}
+
+            {storefront.openingHours && (
+              <div className="bg-white rounded-lg shadow-md p-6">
+                <h2 className="text-lg font-semibold text-gray-900 mb-2">Orari</h2>
+                <dl className="text-sm space-y-1">
+                  {WEEKDAYS.map(day => (
+                    <div key={day} className="flex justify-between">
+                      <dt className="text-gray-600">{WEEKDAY_LABELS[day]}</dt>
+                      <dd className="text-gray-900">{storefront.openingHours?.[day] || 'Mbyllur'}</dd>
+                    </div>
+                  ))}
+                </dl>
+              </div>
+            )}
+
+            <div className="bg-white rounded-lg shadow-md p-6 text-sm space-y-2">
+              <h2 className="text-lg font-semibold text-gray-900 mb-2">Kontakt</h2>
+              {storefront.phone && (
+                <a href={`tel:${storefront.phone}`} className="block text-blue-600 hover:text-blue-800">{storefront.phone}</a>
+              )}
+              {storefront.website && (
+                <a href={storefront.website} rel="noopener nofollow" target="_blank" className="block text-blue-600 hover:text-blue-800 break-all">
+                  {storefront.website.replace(/^https?:\/\//, '')}
+                </a>
+              )}
+              <p className="text-gray-600">Në AutoMarket që nga {new Date(storefront.memberSince).getFullYear()}</p>
+              <p className="text-gray-600">{storefront.inventory.sold} makina të shitura</p>
+            </div>
+
+            {storefront.rating.totalReviews > 0 && (
+              <div className="bg-white rounded-lg shadow-md p-6">
+                <h2 className="text-lg font-semibold text-gray-900 mb-2">Vlerësimet</h2>
+                <div className="space-y-1">
+                  {storefront.rating.distribution.map(({ stars, count }) => (
+                    <div key={stars} className="flex items-center gap-2 text-sm">
+                      <span className="w-6 text-gray-600">{stars}★</span>
+                      <div className="flex-1 h-2 bg-gray-100 rounded-full overflow-hidden">
+                        <div
+                          className="h-2 bg-yellow-400"
+                          style={{ width: `${Math.round((count / storefront.rating.totalReviews) * 100)}%` }}
+                        />
+                      </div>
+                      <span className="w-8 text-right text-gray-600">{count}</span>
+                    </div>
+                  ))}
+                </div>
+                <p className="text-xs text-gray-500 mt-2">
+                  {storefront.rating.verifiedReviews} nga blerës të verifikuar
+                </p>
+              </div>
+            )}
+          </div>
+
+          {/* Inventory */}
+          <div className="lg:col-span-3">
+            <DealerInventory dealerId={storefront.dealerId} />
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
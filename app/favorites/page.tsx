@@ -6,6 +6,14 @@ import Image from 'next/image'
 
 export const dynamic = 'force-dynamic'
 
+const MAX_COMPARED_LISTINGS = 4
+
+const STATUS_BADGES: Record<string, string> = {
+  reserved: 'RESERVED',
+  pending_sale: 'SALE PENDING',
+  sold: 'SOLD',
+}
+
 interface Favorite {
   id: string
   createdAt: string
@@ -25,7 +33,6 @@ interface Favorite {
     status: string
     user: {
       name: string
-      email: string
     }
   }
 }
@@ -35,6 +42,7 @@ export default function FavoritesPage() {
   const [favorites, setFavorites] = useState<Favorite[]>([])
   const [loading, setLoading] = useState(true)
   const [removingIds, setRemovingIds] = useState<Set<string>>(new Set())
+  const [compareIds, setCompareIds] = useState<string[]>([])
 
   useEffect(() => {
     if (status === 'authenticated') {
@@ -76,6 +84,7 @@ export default function FavoritesPage() {
 
       // Remove from local state
       setFavorites(prev => prev.filter(fav => fav.listing.id !== listingId))
+      setCompareIds(prev => prev.filter(id => id !== listingId))
 
     } catch (error) {
       console.error('Error removing favorite:', error)
@@ -89,6 +98,14 @@ export default function FavoritesPage() {
     }
   }
 
+  const toggleCompare = (listingId: string) => {
+    setCompareIds(prev =>
+      prev.includes(listingId)
+        ? prev.filter(id => id !== listingId)
+        : prev.length < MAX_COMPARED_LISTINGS ? [...prev, listingId] : prev
+    )
+  }
+
   // Show login prompt for unauthenticated users
   if (status === 'unauthenticated') {
     return (
@@ -175,6 +192,17 @@ export default function FavoritesPage() {
                 {favorites.length} {favorites.length === 1 ? 'car' : 'cars'} saved
               </p>
               <div className="flex space-x-2">
+                <a
+                  href={compareIds.length >= 2 ? `/compare?ids=${compareIds.join(',')}` : undefined}
+                  aria-disabled={compareIds.length < 2}
+                  className={`px-4 py-2 text-sm rounded-lg ${
+                    compareIds.length >= 2
+                      ? 'bg-blue-600 text-white hover:bg-blue-700'
+                      : 'bg-gray-200 text-gray-500 cursor-not-allowed'
+                  }`}
+                >
+                  Compare ({compareIds.length}/{MAX_COMPARED_LISTINGS})
+                </a>
                 <button className="px-4 py-2 text-sm border border-gray-300 rounded-lg hover:bg-gray-50">
                   Sort by Date
                 </button>
@@ -238,7 +266,7 @@ export default function FavoritesPage() {
                     {/* Status badge */}
                     {favorite.listing.status !== 'active' && (
                       <div className="absolute top-2 left-2 px-2 py-1 bg-red-500 text-white text-xs rounded-full">
-                        {favorite.listing.status === 'sold' ? 'SOLD' : 'UNAVAILABLE'}
+                        {STATUS_BADGES[favorite.listing.status] || 'UNAVAILABLE'}
                       </div>
                     )}
                   </div>
@@ -265,8 +293,18 @@ export default function FavoritesPage() {
                       <div>Transmission: {favorite.listing.transmission}</div>
                     </div>
 
-                    <div className="text-xs text-gray-500 mb-4">
-                      Saved on {new Date(favorite.createdAt).toLocaleDateString()}
+                    <div className="flex items-center justify-between text-xs text-gray-500 mb-4">
+                      <span>Saved on {new Date(favorite.createdAt).toLocaleDateString()}</span>
+                      <label className="flex items-center gap-1 cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={compareIds.includes(favorite.listing.id)}
+                          onChange={() => toggleCompare(favorite.listing.id)}
+                          disabled={!compareIds.includes(favorite.listing.id) && compareIds.length >= MAX_COMPARED_LISTINGS}
+                          className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                        />
+                        Compare
+                      </label>
                     </div>
 
                     <div className="flex gap-2">
@@ -277,7 +315,7 @@ export default function FavoritesPage() {
                         View Details
                       </button>
                       <button
-                        onClick={() => window.location.href = `mailto:${favorite.listing.user?.email || ''}?subject=Interest in ${favorite.listing.title}`}
+                        onClick={() => window.location.href = `/listings/${favorite.listing.id}?contact=1`}
                         className="p-2 border border-gray-300 rounded-lg hover:bg-gray-50"
                       >
                         <svg className="w-5 h-5 text-gray-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
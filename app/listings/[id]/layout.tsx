@@ -0,0 +1,53 @@
+import type { Metadata } from 'next'
+import { prisma } from '../../../lib/prisma'
+import { faqStructuredData, getAnsweredQuestions } from '../../../lib/listings/questions'
+import { PUBLIC_LISTING_STATUSES } from '../../../lib/search/listing-search'
+
+interface ListingLayoutProps {
+  children: React.ReactNode
+  params: { id: string }
+}
+
+async function findListing(id: string) {
+  return prisma.listing.findFirst({
+    where: { id, status: { in: [...PUBLIC_LISTING_STATUSES] } },
+    select: { id: true, title: true, seoTitle: true, description: true, price: true, currency: true, city: true, images: true },
+  })
+}
+
+export async function generateMetadata({ params }: ListingLayoutProps): Promise<Metadata> {
+  const listing = await findListing(params.id)
+  if (!listing) {
+    return { title: 'AutoMarket' }
+  }
+
+  const title = `${listing.seoTitle || listing.title} - ${(listing.price / 100).toLocaleString()} ${listing.currency} | AutoMarket`
+  const description = listing.description.replace(/\s+/g, ' ').slice(0, 160)
+  const images = Array.isArray(listing.images) ? (listing.images as string[]).slice(0, 1) : []
+
+  return {
+    title,
+    description,
+    alternates: { canonical: `/listings/${listing.id}` },
+    openGraph: { title, description, type: 'website', locale: 'sq_AL', siteName: 'AutoMarket', images },
+  }
+}
+
+// The listing page itself is a client component; this server layout adds the
+// metadata and the seller's answered questions as FAQ structured data
+export default async function ListingLayout({ children, params }: ListingLayoutProps) {
+  const listing = await findListing(params.id)
+  const questions = listing ? await getAnsweredQuestions(listing.id) : []
+
+  return (
+    <>
+      {questions.length > 0 && (
+        <script
+          type="application/ld+json"
+          dangerouslySetInnerHTML={{ __html: JSON.stringify(faqStructuredData(questions)).replace(/</g, '\\u003c') }}
+        />
+      )}
+      {children}
+    </>
+  )
+}
@@ -4,6 +4,11 @@ import { useState, useEffect } from 'react'
 import { useParams } from 'next/navigation'
 import Image from 'next/image'
 import { FavoriteButton } from '../../../components/favorite-button'
+import { PriceHistory } from '../../../components/price-history'
+import { SaleStatus } from '../../../components/sale-status'
+import { OfferPanel } from '../../../components/offer-panel'
+import { AppointmentBooking } from '../../../components/appointment-booking'
+import { ListingQuestions } from '../../../components/listing-questions'
 
 export const dynamic = 'force-dynamic'
 
@@ -22,12 +27,16 @@ interface Listing {
   make: string
   model: string
   images: string[]
-  features: string[]
+  features: { key: string; category: string; label: string; labelEn: string }[]
   seller: {
     name: string
-    phone: string
-    email: string
     location: string
+    contact: {
+      email: string | null
+      phone: string | null
+      relayed: boolean
+      conversationId: string | null
+    }
   }
   createdAt: string
 }
@@ -60,6 +69,11 @@ export default function ListingDetailPage() {
         const data = await response.json()
         setListing(data)
 
+        // Linked from favorites with ?contact=1
+        if (new URLSearchParams(window.location.search).get('contact') === '1') {
+          setShowContactForm(true)
+        }
+
       } catch (error) {
         console.error('Error fetching listing:', error)
         setListing(null)
@@ -71,6 +85,13 @@ export default function ListingDetailPage() {
     fetchListing()
   }, [params?.id])
 
+  // Count the view; the server drops repeats within the visitor's session
+  useEffect(() => {
+    if (!params?.id) return
+    fetch(`/api/listings/${params.id}/views`, { method: 'POST', keepalive: true })
+      .catch(error => console.error('Error recording view:', error))
+  }, [params?.id])
+
   const handleContactSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
 
@@ -86,9 +107,9 @@ export default function ListingDetailPage() {
         }),
       })
 
+      const sent = await response.json()
       if (!response.ok) {
-        const error = await response.json()
-        throw new Error(error.error || 'Failed to send message')
+        throw new Error(sent.details?.[0]?.message || sent.error || 'Failed to send message')
       }
 
       alert('Message sent successfully! The seller will be notified.')
@@ -97,7 +118,7 @@ export default function ListingDetailPage() {
       setBuyerContact({ name: '', email: '', phone: '' })
 
       // Redirect to messages page
-      window.location.href = `/messages?listingId=${listing?.id}`
+      window.location.href = `/messages?conversation=${sent.conversationId}`
 
     } catch (error) {
       console.error('Error sending message:', error)
@@ -318,19 +339,25 @@ export default function ListingDetailPage() {
               </div>
 
               {/* Features */}
-              <div>
+              <div className="mb-8">
                 <h2 className="text-xl font-semibold text-gray-900 mb-4">Features & Equipment</h2>
                 <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
-                  {listing.features.map((feature, index) => (
-                    <div key={index} className="flex items-center">
+                  {listing.features.map((feature) => (
+                    <div key={feature.key} className="flex items-center" title={feature.label}>
                       <svg className="w-4 h-4 text-green-500 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
                       </svg>
-                      <span className="text-sm text-gray-700">{feature}</span>
+                      <span className="text-sm text-gray-700">{feature.labelEn}</span>
                     </div>
                   ))}
                 </div>
               </div>
+
+              {/* Questions & Answers */}
+              <ListingQuestions listingId={listing.id} />
+
+              {/* Price History */}
+              <PriceHistory listingId={listing.id} />
             </div>
           </div>
 
@@ -340,6 +367,8 @@ export default function ListingDetailPage() {
 
               {/* Price & Action */}
               <div className="bg-white rounded-lg shadow-md p-6">
+                <SaleStatus listingId={listing.id} />
+
                 <div className="text-center mb-6">
                   <div className="text-3xl font-bold text-blue-600 mb-2">
                     €{listing.price.toLocaleString()}
@@ -369,6 +398,10 @@ export default function ListingDetailPage() {
                 </div>
               </div>
 
+              <OfferPanel listingId={listing.id} />
+
+              <AppointmentBooking listingId={listing.id} />
+
               {/* Seller Info */}
               <div className="bg-white rounded-lg shadow-md p-6">
                 <h3 className="text-lg font-semibold text-gray-900 mb-4">Seller Information</h3>
@@ -387,6 +420,34 @@ export default function ListingDetailPage() {
                     </svg>
                     <span className="text-gray-700">{listing.seller.location}</span>
                   </div>
+
+                  {listing.seller.contact.phone && (
+                    <div className="flex items-center">
+                      <svg className="w-5 h-5 text-gray-400 mr-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 5a2 2 0 012-2h3.28a1 1 0 01.948.684l1.498 4.493a1 1 0 01-.502 1.21l-2.257 1.13a11.042 11.042 0 005.516 5.517l1.13-2.257a1 1 0 011.21-.502l4.493 1.498a1 1 0 01.684.949V19a2 2 0 01-2 2h-1C9.716 21 3 14.284 3 6V5z" />
+                      </svg>
+                      <span className="text-gray-700">{listing.seller.contact.phone}</span>
+                    </div>
+                  )}
+
+                  {listing.seller.contact.email && (
+                    <div className="flex items-center">
+                      <svg className="w-5 h-5 text-gray-400 mr-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 8l7.89 4.26a2 2 0 002.22 0L21 8M5 19h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v10a2 2 0 002 2z" />
+                      </svg>
+                      <a href={`mailto:${listing.seller.contact.email}`} className="text-blue-600 hover:text-blue-700 break-all">
+                        {listing.seller.contact.email}
+                      </a>
+                    </div>
+                  )}
+
+                  {listing.seller.contact.relayed && (
+                    <p className="text-xs text-gray-500">
+                      {listing.seller.contact.conversationId
+                        ? 'Private relay address: the seller sees your messages, not your email. Real details are shown once you both choose to share them.'
+                        : 'Contact details stay private until you message the seller and you both choose to share them.'}
+                    </p>
+                  )}
                 </div>
 
                 <div className="mt-4 pt-4 border-t border-gray-200">
@@ -3,6 +3,7 @@
 import { useState, useEffect, useCallback } from 'react'
 import Image from 'next/image'
 import { FavoriteButton } from '../../components/favorite-button'
+import { COUNTRIES, regionalService } from '../../lib/regional'
 
 export const dynamic = 'force-dynamic'
 
@@ -18,32 +19,111 @@ interface Listing {
   make: string
   model: string
   color: string
-  images: string
+  images: string[]
+  distanceKm?: number
+}
+
+interface FacetValue {
+  value: string
+  count: number
+}
+
+interface Facets {
+  make: FacetValue[]
+  model: FacetValue[]
+  fuelType: FacetValue[]
+  transmission: FacetValue[]
+  bodyType: FacetValue[]
+  features: FacetValue[]
+}
+
+interface FeatureCategory {
+  category: string
+  labelSq: string
+  features: { key: string; labelSq: string }[]
+}
+
+interface Pagination {
+  page: number
+  limit: number
+  total: number
+  pages: number
+  truncated?: boolean
+}
+
+const FILTER_KEYS = [
+  'search',
+  'minPrice',
+  'maxPrice',
+  'make',
+  'model',
+  'fuelType',
+  'transmission',
+  'bodyType',
+  'minYear',
+  'maxYear',
+  'minMileage',
+  'maxMileage',
+  'location',
+  'near',
+  'radius',
+  'country',
+  'features'
+] as const
+
+type Filters = Record<typeof FILTER_KEYS[number], string>
+
+const emptyFilters: Filters = {
+  search: '',
+  minPrice: '',
+  maxPrice: '',
+  make: '',
+  model: '',
+  fuelType: '',
+  transmission: '',
+  bodyType: '',
+  minYear: '',
+  maxYear: '',
+  minMileage: '',
+  maxMileage: '',
+  location: '',
+  near: '',
+  radius: '',
+  country: '',
+  features: ''
+}
+
+const RADIUS_OPTIONS = ['25', '50', '100', '150', '200']
+
+const emptyFacets: Facets = { make: [], model: [], fuelType: [], transmission: [], bodyType: [], features: [] }
+
+// Append the facet count to an option label, e.g. "Diesel (310)"
+function withCount(values: FacetValue[], value: string, label: string) {
+  const match = values.find(v => v.value.toLowerCase() === value.toLowerCase())
+  return `${label} (${match ? match.count : 0})`
 }
 
 export default function ListingsPage() {
   const [listings, setListings] = useState<Listing[]>([])
   const [loading, setLoading] = useState(true)
-  const [filters, setFilters] = useState({
-    search: '',
-    minPrice: '',
-    maxPrice: '',
-    make: '',
-    fuelType: '',
-    location: ''
-  })
+  const [filters, setFilters] = useState<Filters>(emptyFilters)
+  const [sort, setSort] = useState('recommended')
+  const [page, setPage] = useState(1)
+  const [pagination, setPagination] = useState<Pagination>({ page: 1, limit: 12, total: 0, pages: 1 })
+  const [initialized, setInitialized] = useState(false)
+  const [facets, setFacets] = useState<Facets>(emptyFacets)
+  const [featureCategories, setFeatureCategories] = useState<FeatureCategory[]>([])
 
   const fetchListings = useCallback(async () => {
     setLoading(true)
     try {
       const params = new URLSearchParams()
 
-      if (filters.search) params.append('search', filters.search)
-      if (filters.minPrice) params.append('minPrice', filters.minPrice)
-      if (filters.maxPrice) params.append('maxPrice', filters.maxPrice)
-      if (filters.make) params.append('make', filters.make)
-      if (filters.fuelType) params.append('fuelType', filters.fuelType)
-      if (filters.location) params.append('location', filters.location)
+      FILTER_KEYS.forEach(key => {
+        if (filters[key]) params.append(key, filters[key])
+      })
+      params.append('sort', sort)
+      params.append('page', page.toString())
 
       const response = await fetch(`/api/listings?${params.toString()}`)
 
@@ -52,104 +132,96 @@ export default function ListingsPage() {
       }
 
       const data = await response.json()
-      console.log('API Response:', data)
-      console.log('Listings received:', data.listings)
       setListings(data.listings || [])
+      setPagination(data.pagination)
 
     } catch (error) {
       console.error('Error fetching listings:', error)
-      // Fallback to hardcoded data if API fails
-      const fallbackCars = [
-        {
-          id: 'bmw-x5-2020',
-          title: 'BMW X5 2020 - Gjendje e shkëlqyer',
-          price: 45000,
-          year: 2020,
-          mileage: 25000,
-          fuelType: 'Petrol',
-          transmission: 'Automatic',
-          city: 'Tiranë',
-          make: 'BMW',
-          model: 'X5',
-          color: 'E zezë',
-          images: '/api/placeholder/400/300?text=BMW+X5'
-        },
-        {
-          id: 'audi-a4-2019',
-          title: 'Audi A4 2019 - Kilometerazh i ulët',
-          price: 32000,
-          year: 2019,
-          mileage: 18000,
-          fuelType: 'Diesel',
-          transmission: 'Automatic',
-          city: 'Durrës',
-          make: 'Audi',
-          model: 'A4',
-          color: 'E bardhë',
-          images: '/api/placeholder/400/300?text=Audi+A4'
-        },
-        {
-          id: 'mercedes-c-class-2021',
-          title: 'Mercedes C-Class 2021 - Luksoze',
-          price: 55000,
-          year: 2021,
-          mileage: 12000,
-          fuelType: 'Petrol',
-          transmission: 'Automatic',
-          city: 'Vlorë',
-          make: 'Mercedes',
-          model: 'C-Class',
-          color: 'Argjendi',
-          images: '/api/placeholder/400/300?text=Mercedes+C-Class'
-        }
-      ]
-      setListings(fallbackCars)
+      setListings([])
     } finally {
       setLoading(false)
     }
+  }, [filters, sort, page])
+
+  const fetchFacets = useCallback(async () => {
+    try {
+      const params = new URLSearchParams()
+
+      FILTER_KEYS.forEach(key => {
+        if (filters[key]) params.append(key, filters[key])
+      })
+
+      const response = await fetch(`/api/listings/facets?${params.toString()}`)
+
+      if (response.ok) {
+        setFacets(await response.json())
+      }
+    } catch (error) {
+      console.error('Error fetching facets:', error)
+    }
   }, [filters])
 
   useEffect(() => {
-    // Load listings when component mounts
-    fetchListings()
-  }, [fetchListings])
+    fetch('/api/listings/features')
+      .then(response => response.ok ? response.json() : { categories: [] })
+      .then(data => setFeatureCategories(data.categories || []))
+      .catch(error => console.error('Error fetching features:', error))
+  }, [])
 
   useEffect(() => {
-    // Refetch when filters change
-    fetchListings()
-  }, [fetchListings, filters])
+    // Wait for URL params to be applied before the first fetch
+    if (initialized) {
+      fetchListings()
+    }
+  }, [fetchListings, initialized])
+
+  useEffect(() => {
+    if (initialized) {
+      fetchFacets()
+    }
+  }, [fetchFacets, initialized])
 
   // Handle URL search params on client-side only
   useEffect(() => {
     if (typeof window !== 'undefined') {
       const urlParams = new URLSearchParams(window.location.search)
-      const search = urlParams.get('search') || ''
-      const location = urlParams.get('location') || ''
-
-      if (search || location) {
-        setFilters(prev => ({
-          ...prev,
-          search,
-          location
-        }))
-      }
+      const fromUrl = { ...emptyFilters }
+
+      FILTER_KEYS.forEach(key => {
+        fromUrl[key] = urlParams.get(key) || ''
+      })
+
+      setFilters(fromUrl)
+      if (urlParams.get('sort')) setSort(urlParams.get('sort') as string)
+      else if (fromUrl.search) setSort('relevance')
+      else if (fromUrl.near) setSort('distance')
     }
+    setInitialized(true)
   }, [])
 
-  const handleFilterChange = (key: string, value: string) => {
-    setFilters(prev => ({ ...prev, [key]: value }))
+  const handleFilterChange = (key: keyof Filters, value: string) => {
+    // Models are scoped to a make, so a new make clears the model
+    setFilters(prev => ({ ...prev, [key]: value, ...(key === 'make' && { model: '' }) }))
+    setPage(1)
   }
 
-  const filteredListings = listings.filter(listing => {
-    return (
-      (!filters.search || listing.title.toLowerCase().includes(filters.search.toLowerCase())) &&
-      (!filters.minPrice || listing.price >= parseInt(filters.minPrice)) &&
-      (!filters.maxPrice || listing.price <= parseInt(filters.maxPrice)) &&
-      (!filters.make || listing.make === filters.make) &&
-      (!filters.fuelType || listing.fuelType === filters.fuelType) &&
-      (!filters.location || listing.city.toLowerCase().includes(filters.location.toLowerCase()))
-    )
-  })
+  // Features are sent as one comma-separated filter value
+  const selectedFeatures = filters.features ? filters.features.split(',') : []
+
+  const handleFeatureToggle = (key: string) => {
+    const next = selectedFeatures.includes(key)
+      ? selectedFeatures.filter(f => f !== key)
+      : [...selectedFeatures, key]
+    handleFilterChange('features', next.join(','))
+  }
+
+  const handleSortChange = (value: string) => {
+    setSort(value)
+    setPage(1)
+  }
+
+  const pageNumbers = Array.from({ length: pagination.pages }, (_, i) => i + 1)
+    .filter(n => n === 1 || n === pagination.pages || Math.abs(n - pagination.page) <= 2)
 
   return (
     <div className="min-h-screen bg-gray-50">
@@ -221,14 +293,38 @@ export default function ListingsPage() {
                     className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                   >
                     <option value="">Të gjitha Markat</option>
-                    <option value="BMW">BMW</option>
-                    <option value="Audi">Audi</option>
-                    <option value="Mercedes">Mercedes</option>
-                    <option value="Volkswagen">Volkswagen</option>
-                    <option value="Tesla">Tesla</option>
+                    {facets.make.map((make) => (
+                      <option key={make.value} value={make.value}>
+                        {make.value} ({make.count})
+                      </option>
+                    ))}
+                    {filters.make && !facets.make.some(m => m.value === filters.make) && (
+                      <option value={filters.make}>{filters.make} (0)</option>
+                    )}
                   </select>
                 </div>
 
+                {/* Model (scoped to the chosen make) */}
+                {filters.make && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Modeli
+                    </label>
+                    <select
+                      value={filters.model}
+                      onChange={(e) => handleFilterChange('model', e.target.value)}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    >
+                      <option value="">Të gjitha Modelet</option>
+                      {facets.model.map((model) => (
+                        <option key={model.value} value={model.value}>
+                          {model.value} ({model.count})
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                )}
+
                 {/* Fuel Type */}
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -240,13 +336,87 @@ export default function ListingsPage() {
                     className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                   >
                     <option value="">All Fuel Types</option>
-                    <option value="Petrol">Petrol</option>
-                    <option value="Diesel">Diesel</option>
-                    <option value="Electric">Electric</option>
-                    <option value="Hybrid">Hybrid</option>
+                    <option value="Petrol">{withCount(facets.fuelType, 'Petrol', 'Petrol')}</option>
+                    <option value="Diesel">{withCount(facets.fuelType, 'Diesel', 'Diesel')}</option>
+                    <option value="Electric">{withCount(facets.fuelType, 'Electric', 'Electric')}</option>
+                    <option value="Hybrid">{withCount(facets.fuelType, 'Hybrid', 'Hybrid')}</option>
+                  </select>
+                </div>
+
+                {/* Transmission */}
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Transmisioni
+                  </label>
+                  <select
+                    value={filters.transmission}
+                    onChange={(e) => handleFilterChange('transmission', e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  >
+                    <option value="">Të gjitha</option>
+                    <option value="Manual">{withCount(facets.transmission, 'Manual', 'Manual')}</option>
+                    <option value="Automatic">{withCount(facets.transmission, 'Automatic', 'Automatik')}</option>
                   </select>
                 </div>
 
+                {/* Body Type */}
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Karroceria
+                  </label>
+                  <select
+                    value={filters.bodyType}
+                    onChange={(e) => handleFilterChange('bodyType', e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  >
+                    <option value="">Të gjitha</option>
+                    <option value="Sedan">{withCount(facets.bodyType, 'Sedan', 'Sedan')}</option>
+                    <option value="Hatchback">{withCount(facets.bodyType, 'Hatchback', 'Hatchback')}</option>
+                    <option value="SUV">{withCount(facets.bodyType, 'SUV', 'SUV')}</option>
+                    <option value="Wagon">{withCount(facets.bodyType, 'Wagon', 'Wagon')}</option>
+                    <option value="Coupe">{withCount(facets.bodyType, 'Coupe', 'Coupe')}</option>
+                    <option value="Convertible">{withCount(facets.bodyType, 'Convertible', 'Convertible')}</option>
+                    <option value="Van">{withCount(facets.bodyType, 'Van', 'Van')}</option>
+                  </select>
+                </div>
+
+                {/* Year Range */}
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Viti
+                  </label>
+                  <div className="grid grid-cols-2 gap-2">
+                    <input
+                      type="number"
+                      value={filters.minYear}
+                      onChange={(e) => handleFilterChange('minYear', e.target.value)}
+                      placeholder="Nga"
+                      className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                    <input
+                      type="number"
+                      value={filters.maxYear}
+                      onChange={(e) => handleFilterChange('maxYear', e.target.value)}
+                      placeholder="Deri"
+                      className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                  </div>
+                </div>
+
+                {/* Max Mileage */}
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Kilometrazhi Maksimal
+                  </label>
+                  <input
+                    type="number"
+                    value={filters.maxMileage}
+                    onChange={(e) => handleFilterChange('maxMileage', e.target.value)}
+                    placeholder="km"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </div>
+
                 {/* Location */}
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -261,16 +431,66 @@ export default function ListingsPage() {
                   />
                 </div>
 
+                {/* Radius */}
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Afër qytetit
+                  </label>
+                  <select
+                    value={filters.near}
+                    onChange={(e) => handleFilterChange('near', e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  >
+                    <option value="">Çdo vendndodhje</option>
+                    {COUNTRIES.map(country => (
+                      <optgroup key={country.code} label={country.nameAlbanian}>
+                        {regionalService.getRegionsByCountry(country.code).map(region => (
+                          <option key={region.id} value={region.id}>{region.nameAlbanian}</option>
+                        ))}
+                      </optgroup>
+                    ))}
+                  </select>
+                  {filters.near && (
+                    <select
+                      value={filters.radius || '50'}
+                      onChange={(e) => handleFilterChange('radius', e.target.value)}
+                      className="mt-2 w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    >
+                      {RADIUS_OPTIONS.map(km => (
+                        <option key={km} value={km}>Brenda {km} km</option>
+                      ))}
+                    </select>
+                  )}
+                </div>
+
+                {/* Features */}
+                {featureCategories.map((category) => (
+                  <div key={category.category}>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      {category.labelSq}
+                    </label>
+                    <div className="space-y-1">
+                      {category.features.map((feature) => (
+                        <label key={feature.key} className="flex items-center text-sm text-gray-700">
+                          <input
+                            type="checkbox"
+                            checked={selectedFeatures.includes(feature.key)}
+                            onChange={() => handleFeatureToggle(feature.key)}
+                            className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                          />
+                          <span className="ml-2">{withCount(facets.features, feature.key, feature.labelSq)}</span>
+                        </label>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+
                 {/* Clear Filters */}
                 <button
-                  onClick={() => setFilters({
-                    search: '',
-                    minPrice: '',
-                    maxPrice: '',
-                    make: '',
-                    fuelType: '',
-                    location: ''
-                  })}
+                  onClick={() => {
+                    setFilters(emptyFilters)
+                    setPage(1)
+                  }}
                   className="w-full px-4 py-2 text-sm text-gray-600 border border-gray-300 rounded-lg hover:bg-gray-50"
                 >
                   Pastro Filtrat
@@ -284,14 +504,23 @@ export default function ListingsPage() {
             {/* Results Header */}
             <div className="flex justify-between items-center mb-6">
               <p className="text-gray-600">
-                {filteredListings.length} makina u gjetën
+                {pagination.truncated
+                  ? `Më shumë se ${pagination.total} makina u gjetën; ngushtoni kërkimin për t'i parë të gjitha`
+                  : `${pagination.total} makina u gjetën`}
               </p>
-              <select className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent">
-                <option>Rendit sipas: Më të Rejat</option>
-                <option>Çmimi: Nga më i Ulëti</option>
-                <option>Çmimi: Nga më i Larti</option>
-                <option>Kilometrazhi: Nga më i Ulëti</option>
-                <option>Viti: Nga më të Rejat</option>
+              <select
+                value={sort}
+                onChange={(e) => handleSortChange(e.target.value)}
+                className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value="recommended">Rendit sipas: Të Rekomanduarat</option>
+                <option value="relevance">Më të Përshtatshmet</option>
+                {filters.near && <option value="distance">Më afër</option>}
+                <option value="newest">Më të Rejat</option>
+                <option value="price_asc">Çmimi: Nga më i Ulëti</option>
+                <option value="price_desc">Çmimi: Nga më i Larti</option>
+                <option value="mileage_asc">Kilometrazhi: Nga më i Ulëti</option>
+                <option value="year_desc">Viti: Nga më të Rejat</option>
               </select>
             </div>
 
@@ -304,7 +533,7 @@ export default function ListingsPage() {
             )}
 
             {/* No Results */}
-            {!loading && filteredListings.length === 0 && (
+            {!loading && listings.length === 0 && (
               <div className="text-center py-12">
                 <p className="text-gray-600 text-lg">No cars found matching your criteria.</p>
                 <p className="text-gray-500 mt-2">Try adjusting your filters or search terms.</p>
@@ -313,13 +542,13 @@ export default function ListingsPage() {
 
             {/* Listings Grid */}
             <div className="grid md:grid-cols-2 xl:grid-cols-3 gap-6">
-              {filteredListings.map((listing) => (
+              {listings.map((listing) => (
                 <div key={listing.id} className="bg-white rounded-lg shadow-md overflow-hidden hover:shadow-lg transition-shadow">
                   {/* Image */}
                   <div className="h-48 bg-gradient-to-br from-gray-100 to-gray-200 flex items-center justify-center">
                     {listing.images && listing.images.length > 0 ? (
                       <Image
-                        src={Array.isArray(listing.images) ? listing.images[0] : listing.images}
+                        src={listing.images[0]}
                         alt={listing.title}
                         width={300}
                         height={200}
@@ -344,6 +573,7 @@ export default function ListingsPage() {
                       </span>
                       <span className="text-sm text-gray-500">
                         {listing.city}
+                        {listing.distanceKm !== undefined && ` · ${listing.distanceKm} km`}
                       </span>
                     </div>
 
@@ -372,22 +602,32 @@ export default function ListingsPage() {
             </div>
 
             {/* Pagination */}
-            {filteredListings.length > 0 && (
+            {!loading && pagination.pages > 1 && (
               <div className="mt-8 flex justify-center">
                 <div className="flex space-x-2">
-                  <button className="px-3 py-2 text-sm border border-gray-300 rounded-lg hover:bg-gray-50">
+                  <button
+                    onClick={() => setPage(page - 1)}
+                    disabled={pagination.page <= 1}
+                    className="px-3 py-2 text-sm border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+                  >
                     Previous
                   </button>
-                  <button className="px-3 py-2 text-sm bg-blue-600 text-white rounded-lg">
-                    1
-                  </button>
-                  <button className="px-3 py-2 text-sm border border-gray-300 rounded-lg hover:bg-gray-50">
-                    2
-                  </button>
-                  <button className="px-3 py-2 text-sm border border-gray-300 rounded-lg hover:bg-gray-50">
-                    3
-                  </button>
-                  <button className="px-3 py-2 text-sm border border-gray-300 rounded-lg hover:bg-gray-50">
+                  {pageNumbers.map((n) => (
+                    <button
+                      key={n}
+                      onClick={() => setPage(n)}
+                      className={n === pagination.page
+                        ? 'px-3 py-2 text-sm bg-blue-600 text-white rounded-lg'
+                        : 'px-3 py-2 text-sm border border-gray-300 rounded-lg hover:bg-gray-50'}
+                    >
+                      {n}
+                    </button>
+                  ))}
+                  <button
+                    onClick={() => setPage(page + 1)}
+                    disabled={pagination.page >= pagination.pages}
+                    className="px-3 py-2 text-sm border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+                  >
                     Next
                   </button>
                 </div>
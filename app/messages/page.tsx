@@ -1,12 +1,46 @@
 'use client'
 
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useRef, useCallback } from 'react'
 import Image from 'next/image'
 import { useSession } from 'next-auth/react'
 
 export const dynamic = 'force-dynamic'
 
+interface Attachment {
+  id: string
+  kind: 'image' | 'pdf'
+  fileName: string
+  mimeType: string
+  size: number
+  url: string
+  thumbnailUrl: string | null
+}
+
+interface Message {
+  id: string
+  conversationId: string
+  content: string
+  createdAt: string
+  senderId: string
+  read: boolean
+  mine: boolean
+  status: 'delivered' | 'held' | 'rejected'
+  warning: string | null
+  sender: {
+    id: string
+    name: string
+  }
+  attachments: Attachment[]
+}
+
+interface Contact {
+  email: string | null
+  phone: string | null
+  relayed: boolean
+}
+
 interface Conversation {
+  id: string
   listingId: string
   listing: {
     id: string
@@ -14,95 +48,264 @@ interface Conversation {
     price: number
     images: string[]
     userId: string
+    status: string
   }
-  lastMessage: {
+  role: 'buyer' | 'seller' | null
+  counterpart: {
     id: string
-    content: string
-    createdAt: string
-    senderId: string
-    sender: {
-      name: string
-      email: string
-    }
-  }
+    name: string
+  } | null
   unreadCount: number
-  messages: Array<{
-    id: string
-    content: string
-    createdAt: string
-    senderId: string
-    read: boolean
-    sender: {
-      id: string
-      name: string
-      email: string
-    }
-  }>
+  archived: boolean
+  muted: boolean
+  contactSharing: {
+    mine: boolean
+    theirs: boolean
+  }
+  lastMessageAt: string
+  lastMessage: Message | null
 }
 
 export default function MessagesPage() {
-  const { data: session, status } = useSession()
+  const { status } = useSession()
   const [conversations, setConversations] = useState<Conversation[]>([])
+  const [showArchived, setShowArchived] = useState(false)
   const [selectedConversation, setSelectedConversation] = useState<Conversation | null>(null)
-  const [messages, setMessages] = useState<any[]>([])
+  const [messages, setMessages] = useState<Message[]>([])
   const [newMessage, setNewMessage] = useState('')
   const [loading, setLoading] = useState(true)
   const [sending, setSending] = useState(false)
+  const [attachments, setAttachments] = useState<Attachment[]>([])
+  const [uploading, setUploading] = useState(false)
+  const [contact, setContact] = useState<Contact | null>(null)
+  const [typingConversationId, setTypingConversationId] = useState<string | null>(null)
+  const [refreshCount, setRefreshCount] = useState(0)
+  const selectedRef = useRef<Conversation | null>(null)
+  const typingTimeout = useRef<ReturnType<typeof setTimeout>>()
+  const lastTypingSent = useRef(0)
 
   useEffect(() => {
-    if (status === 'authenticated') {
-      fetchConversations()
-    } else if (status === 'unauthenticated') {
-      setLoading(false)
+    selectedRef.current = selectedConversation
+  }, [selectedConversation])
+
+  const updateConversation = useCallback(async (conversation: Conversation, action: string) => {
+    const response = await fetch(`/api/messages/${conversation.id}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ action }),
+    })
+
+    if (!response.ok) {
+      throw new Error('Failed to update conversation')
+    }
+
+    const { conversation: updated, contact: updatedContact } = await response.json()
+    setConversations(prev => prev.map(c => c.id === updated.id ? updated : c))
+    setSelectedConversation(prev => prev?.id === updated.id ? updated : prev)
+    if (selectedRef.current?.id === updated.id) {
+      setContact(updatedContact)
+    }
+    return updated as Conversation
+  }, [])
+
+  const selectConversation = useCallback(async (conversation: Conversation) => {
+    setSelectedConversation(conversation)
+    setMessages([])
+    setContact(null)
+
+    try {
+      const response = await fetch(`/api/messages/${conversation.id}`)
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch messages')
+      }
+
+      const data = await response.json()
+      setMessages(data.messages)
+      setContact(data.contact)
+
+      if (conversation.unreadCount > 0) {
+        await updateConversation(conversation, 'read')
+      }
+    } catch (error) {
+      console.error('Error loading conversation:', error)
     }
-  }, [status])
+  }, [updateConversation])
 
-  const fetchConversations = async () => {
+  const fetchConversations = useCallback(async () => {
+    setLoading(true)
     try {
-      const response = await fetch('/api/messages')
+      const response = await fetch(`/api/messages${showArchived ? '?archived=true' : ''}`)
 
       if (!response.ok) {
         throw new Error('Failed to fetch conversations')
       }
 
       const data = await response.json()
-      setConversations(data || [])
+      setConversations(data.conversations || [])
+
+      // Open the conversation linked from a listing page
+      const linked = new URLSearchParams(window.location.search).get('conversation')
+      const conversation = (data.conversations as Conversation[]).find(c => c.id === linked)
+      if (conversation && !selectedRef.current) {
+        selectConversation(conversation)
+      }
     } catch (error) {
       console.error('Error fetching conversations:', error)
       setConversations([])
     } finally {
       setLoading(false)
     }
+  }, [showArchived, selectConversation])
+
+  useEffect(() => {
+    if (status === 'authenticated') {
+      fetchConversations()
+    } else if (status === 'unauthenticated') {
+      setLoading(false)
+    }
+  }, [status, fetchConversations, refreshCount])
+
+  // Live updates; EventSource reconnects by itself and resumes from the last event ID.
+  // The open conversation is read from selectedRef so switching does not reconnect.
+  useEffect(() => {
+    if (status !== 'authenticated') return
+
+    const source = new EventSource('/api/messages/stream')
+
+    source.addEventListener('message', (event) => {
+      const { conversationId, message } = JSON.parse((event as MessageEvent).data) as { conversationId: string, message: Message }
+      const selected = selectedRef.current
+
+      if (!message.mine) {
+        setTypingConversationId(prev => prev === conversationId ? null : prev)
+      }
+
+      if (selected?.id === conversationId) {
+        // A released message arrives again for its sender, now delivered
+        setMessages(prev => prev.some(m => m.id === message.id)
+          ? prev.map(m => m.id === message.id ? message : m)
+          : [...prev, message])
+        if (!message.mine) {
+          updateConversation(selected, 'read').catch(error => console.error('Error marking conversation read:', error))
+        }
+      }
+
+      setConversations(prev => {
+        const conversation = prev.find(c => c.id === conversationId)
+        if (!conversation) {
+          // A new or archived conversation: reload the list
+          setRefreshCount(count => count + 1)
+          return prev
+        }
+        // A message replayed after reconnecting is not unread twice
+        const seen = message.mine || selected?.id === conversationId || conversation.lastMessage?.id === message.id
+        return [
+          {
+            ...conversation,
+            lastMessage: message,
+            lastMessageAt: message.createdAt,
+            unreadCount: seen ? conversation.unreadCount : conversation.unreadCount + 1
+          },
+          ...prev.filter(c => c.id !== conversationId)
+        ]
+      })
+    })
+
+    source.addEventListener('read', (event) => {
+      const { conversationId } = JSON.parse((event as MessageEvent).data) as { conversationId: string }
+      if (selectedRef.current?.id === conversationId) {
+        setMessages(prev => prev.map(m => m.mine ? { ...m, read: true } : m))
+      }
+    })
+
+    source.addEventListener('typing', (event) => {
+      const { conversationId } = JSON.parse((event as MessageEvent).data) as { conversationId: string }
+      setTypingConversationId(conversationId)
+      clearTimeout(typingTimeout.current)
+      typingTimeout.current = setTimeout(() => setTypingConversationId(null), 4000)
+    })
+
+    return () => {
+      source.close()
+      clearTimeout(typingTimeout.current)
+    }
+  }, [status, updateConversation])
+
+  const toggleArchive = async (conversation: Conversation) => {
+    try {
+      await updateConversation(conversation, conversation.archived ? 'unarchive' : 'archive')
+      setConversations(prev => prev.filter(c => c.id !== conversation.id))
+      setSelectedConversation(null)
+    } catch (error) {
+      console.error('Error archiving conversation:', error)
+      alert('Failed to update conversation')
+    }
   }
 
-  const selectConversation = async (conversation: Conversation) => {
-    setSelectedConversation(conversation)
-    setMessages(conversation.messages)
+  const toggleMute = async (conversation: Conversation) => {
+    try {
+      await updateConversation(conversation, conversation.muted ? 'unmute' : 'mute')
+    } catch (error) {
+      console.error('Error muting conversation:', error)
+      alert('Failed to update conversation')
+    }
+  }
 
-    // Mark messages as read
+  const toggleContactSharing = async (conversation: Conversation) => {
     try {
-      await fetch('/api/messages', {
-        method: 'PUT',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ listingId: conversation.listingId }),
+      await updateConversation(conversation, conversation.contactSharing.mine ? 'unshare_contact' : 'share_contact')
+    } catch (error) {
+      console.error('Error updating contact sharing:', error)
+      alert('Failed to update conversation')
+    }
+  }
+
+  const handleTyping = (value: string) => {
+    setNewMessage(value)
+
+    // Let the other side know at most every few seconds
+    if (selectedConversation && value && Date.now() - lastTypingSent.current > 3000) {
+      lastTypingSent.current = Date.now()
+      fetch(`/api/messages/${selectedConversation.id}/typing`, { method: 'POST' }).catch(() => {})
+    }
+  }
+
+  const uploadAttachments = async (files: FileList | null) => {
+    if (!files || files.length === 0) return
+
+    setUploading(true)
+
+    try {
+      const formData = new FormData()
+      Array.from(files).forEach(file => formData.append('files', file))
+
+      const response = await fetch('/api/messages/attachments', {
+        method: 'POST',
+        body: formData,
       })
 
-      // Update unread count locally
-      setConversations(prev => prev.map(c =>
-        c.listingId === conversation.listingId
-          ? { ...c, unreadCount: 0 }
-          : c
-      ))
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to upload attachments')
+      }
+
+      setAttachments(prev => [...prev, ...data.attachments].slice(0, 5))
     } catch (error) {
-      console.error('Error marking messages as read:', error)
+      console.error('Error uploading attachments:', error)
+      alert(`Failed to upload: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    } finally {
+      setUploading(false)
     }
   }
 
+  const canSend = (newMessage.trim() || attachments.length > 0) && !sending && !uploading
+
   const sendMessage = async (e: React.FormEvent) => {
     e.preventDefault()
-    if (!selectedConversation || !newMessage.trim()) return
+    if (!selectedConversation || !canSend) return
 
     setSending(true)
 
@@ -113,31 +316,31 @@ export default function MessagesPage() {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
-          listingId: selectedConversation.listingId,
-          content: newMessage
+          conversationId: selectedConversation.id,
+          content: newMessage,
+          attachmentIds: attachments.map(attachment => attachment.id)
         }),
       })
 
+      const sentMessage = await response.json()
       if (!response.ok) {
-        throw new Error('Failed to send message')
+        throw new Error(sentMessage.details?.[0]?.message || sentMessage.error || 'Failed to send message')
       }
 
-      const sentMessage = await response.json()
-
-      // Add to local messages
-      setMessages(prev => [...prev, sentMessage])
+      // Add to local messages (the stream may have delivered it already)
+      setMessages(prev => prev.some(m => m.id === sentMessage.id) ? prev : [...prev, sentMessage])
       setNewMessage('')
+      setAttachments([])
 
-      // Update conversation's last message
-      setConversations(prev => prev.map(c =>
-        c.listingId === selectedConversation.listingId
-          ? { ...c, lastMessage: sentMessage }
-          : c
-      ))
+      // Update conversation's last message and move it to the top
+      setConversations(prev => [
+        { ...selectedConversation, lastMessage: sentMessage, lastMessageAt: sentMessage.createdAt },
+        ...prev.filter(c => c.id !== selectedConversation.id)
+      ])
 
     } catch (error) {
       console.error('Error sending message:', error)
-      alert('Failed to send message')
+      alert(`Failed to send message: ${error instanceof Error ? error.message : 'Unknown error'}`)
     } finally {
       setSending(false)
     }
@@ -183,8 +386,16 @@ export default function MessagesPage() {
 
             {/* Conversations Sidebar */}
             <div className="w-1/3 border-r border-gray-200 flex flex-col">
-              <div className="p-4 border-b border-gray-200">
-                <h2 className="text-lg font-semibold text-gray-900">Conversations</h2>
+              <div className="p-4 border-b border-gray-200 flex items-center justify-between">
+                <h2 className="text-lg font-semibold text-gray-900">
+                  {showArchived ? 'Archived' : 'Conversations'}
+                </h2>
+                <button
+                  onClick={() => { setShowArchived(!showArchived); setSelectedConversation(null) }}
+                  className="text-sm text-blue-600 hover:text-blue-700"
+                >
+                  {showArchived ? 'Back to inbox' : 'Archived'}
+                </button>
               </div>
 
               <div className="flex-1 overflow-y-auto">
@@ -197,19 +408,21 @@ export default function MessagesPage() {
 
                 {!loading && conversations.length === 0 && (
                   <div className="p-4 text-center">
-                    <p className="text-gray-600">No conversations yet</p>
-                    <p className="text-sm text-gray-500 mt-2">
-                      Start browsing cars to begin conversations with sellers.
-                    </p>
+                    <p className="text-gray-600">{showArchived ? 'No archived conversations' : 'No conversations yet'}</p>
+                    {!showArchived && (
+                      <p className="text-sm text-gray-500 mt-2">
+                        Start browsing cars to begin conversations with sellers.
+                      </p>
+                    )}
                   </div>
                 )}
 
                 {conversations.map((conversation) => (
                   <button
-                    key={conversation.listingId}
+                    key={conversation.id}
                     onClick={() => selectConversation(conversation)}
                     className={`w-full p-4 text-left border-b border-gray-100 hover:bg-gray-50 transition-colors ${
-                      selectedConversation?.listingId === conversation.listingId ? 'bg-blue-50 border-blue-200' : ''
+                      selectedConversation?.id === conversation.id ? 'bg-blue-50 border-blue-200' : ''
                     }`}
                   >
                     <div className="flex items-start space-x-3">
@@ -235,7 +448,8 @@ export default function MessagesPage() {
                       <div className="flex-1 min-w-0">
                         <div className="flex items-center justify-between">
                           <h3 className="text-sm font-medium text-gray-900 truncate">
-                            {conversation.listing.title}
+                            {conversation.counterpart?.name || 'Deleted user'}
+                            {conversation.muted && <span className="ml-1 text-xs text-gray-400">(muted)</span>}
                           </h3>
                           {conversation.unreadCount > 0 && (
                             <span className="ml-2 bg-red-500 text-white text-xs rounded-full h-5 w-5 flex items-center justify-center">
@@ -244,12 +458,16 @@ export default function MessagesPage() {
                           )}
                         </div>
 
-                        <p className="text-sm text-gray-600 truncate">
-                          {conversation.lastMessage.sender.name}: {conversation.lastMessage.content}
-                        </p>
+                        <p className="text-xs text-gray-500 truncate">{conversation.listing.title}</p>
+
+                        {conversation.lastMessage && (
+                          <p className="text-sm text-gray-600 truncate">
+                            {conversation.lastMessage.mine ? 'You' : conversation.lastMessage.sender.name}: {conversation.lastMessage.content || '📎 Attachment'}
+                          </p>
+                        )}
 
                         <p className="text-xs text-gray-500 mt-1">
-                          {new Date(conversation.lastMessage.createdAt).toLocaleDateString()}
+                          {new Date(conversation.lastMessageAt).toLocaleDateString()}
                         </p>
                       </div>
                     </div>
@@ -266,62 +484,166 @@ export default function MessagesPage() {
                   <div className="p-4 border-b border-gray-200 bg-gray-50">
                     <div className="flex items-center justify-between">
                       <div>
-                        <h3 className="font-medium text-gray-900">{selectedConversation.listing.title}</h3>
-                        <p className="text-sm text-gray-600">€{selectedConversation.listing.price.toLocaleString()}</p>
+                        <h3 className="font-medium text-gray-900">
+                          {selectedConversation.counterpart?.name || 'Deleted user'}
+                          <span className="ml-2 text-xs text-gray-500">
+                            {selectedConversation.role === 'seller' ? 'Buyer' : 'Seller'}
+                          </span>
+                        </h3>
+                        <p className="text-sm text-gray-600">
+                          {selectedConversation.listing.title} · €{selectedConversation.listing.price.toLocaleString()}
+                        </p>
+                        {contact && (contact.email || contact.phone) && (
+                          <p className="text-xs text-gray-500 mt-1">
+                            {contact.relayed ? 'Private relay: ' : ''}
+                            {[contact.email, contact.phone].filter(Boolean).join(' · ')}
+                          </p>
+                        )}
+                      </div>
+                      <div className="flex items-center space-x-4 text-sm">
+                        <button
+                          onClick={() => toggleContactSharing(selectedConversation)}
+                          className="text-gray-600 hover:text-gray-900"
+                          title={selectedConversation.contactSharing.theirs
+                            ? 'The other side shares their details too'
+                            : 'Real details are shown only when both of you share them'}
+                        >
+                          {selectedConversation.contactSharing.mine ? 'Stop sharing my contact' : 'Share my contact'}
+                        </button>
+                        <button
+                          onClick={() => toggleMute(selectedConversation)}
+                          className="text-gray-600 hover:text-gray-900"
+                        >
+                          {selectedConversation.muted ? 'Unmute' : 'Mute'}
+                        </button>
+                        <button
+                          onClick={() => toggleArchive(selectedConversation)}
+                          className="text-gray-600 hover:text-gray-900"
+                        >
+                          {selectedConversation.archived ? 'Unarchive' : 'Archive'}
+                        </button>
+                        <a
+                          href={`/listings/${selectedConversation.listingId}`}
+                          className="text-blue-600 hover:text-blue-700"
+                        >
+                          View Listing
+                        </a>
                       </div>
-                      <a
-                        href={`/listings/${selectedConversation.listingId}`}
-                        className="text-blue-600 hover:text-blue-700 text-sm"
-                      >
-                        View Listing
-                      </a>
                     </div>
                   </div>
 
                   {/* Messages */}
                   <div className="flex-1 overflow-y-auto p-4 space-y-4">
-                    {messages.map((message) => {
-                      const isOwnMessage = message.sender.email === session?.user?.email
-                      return (
+                    {messages.map((message) => (
+                      <div
+                        key={message.id}
+                        className={`flex ${message.mine ? 'justify-end' : 'justify-start'}`}
+                      >
                         <div
-                          key={message.id}
-                          className={`flex ${isOwnMessage ? 'justify-end' : 'justify-start'}`}
+                          className={`max-w-xs lg:max-w-md px-4 py-2 rounded-lg ${
+                            message.mine
+                              ? 'bg-blue-600 text-white'
+                              : 'bg-gray-100 text-gray-900'
+                          }`}
                         >
-                          <div
-                            className={`max-w-xs lg:max-w-md px-4 py-2 rounded-lg ${
-                              isOwnMessage
-                                ? 'bg-blue-600 text-white'
-                                : 'bg-gray-100 text-gray-900'
-                            }`}
-                          >
-                            <p className="text-sm">{message.content}</p>
-                            <p className={`text-xs mt-1 ${
-                              isOwnMessage ? 'text-blue-100' : 'text-gray-500'
-                            }`}>
-                              {new Date(message.createdAt).toLocaleString()}
+                          {message.warning && (
+                            <p className="text-xs mb-2 p-2 rounded bg-yellow-50 border border-yellow-200 text-yellow-800">
+                              ⚠️ {message.warning}
                             </p>
-                          </div>
+                          )}
+                          {message.content && (
+                            <p className="text-sm whitespace-pre-line">{message.content}</p>
+                          )}
+                          {message.attachments?.map((attachment) => (
+                            <a
+                              key={attachment.id}
+                              href={attachment.url}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="block mt-2"
+                            >
+                              {attachment.thumbnailUrl ? (
+                                <Image
+                                  src={attachment.thumbnailUrl}
+                                  alt={attachment.fileName}
+                                  width={200}
+                                  height={150}
+                                  unoptimized
+                                  className="rounded max-h-48 w-auto"
+                                />
+                              ) : (
+                                <span className="text-sm underline">📄 {attachment.fileName} ({Math.ceil(attachment.size / 1024)} KB)</span>
+                              )}
+                            </a>
+                          ))}
+                          <p className={`text-xs mt-1 ${
+                            message.mine ? 'text-blue-100' : 'text-gray-500'
+                          }`}>
+                            {new Date(message.createdAt).toLocaleString()}
+                            {message.mine && message.status === 'held' && ' · Held for review'}
+                            {message.mine && message.status === 'rejected' && ' · Not delivered'}
+                            {message.mine && message.status === 'delivered' && message.read && ' · Seen'}
+                          </p>
                         </div>
-                      )
-                    })}
+                      </div>
+                    ))}
+
+                    {typingConversationId === selectedConversation.id && (
+                      <p className="text-sm text-gray-500 italic">
+                        {selectedConversation.counterpart?.name || 'User'} is typing...
+                      </p>
+                    )}
                   </div>
 
                   {/* Message Input */}
                   <form onSubmit={sendMessage} className="p-4 border-t border-gray-200 bg-gray-50">
+                    {attachments.length > 0 && (
+                      <div className="flex flex-wrap gap-2 mb-3">
+                        {attachments.map((attachment) => (
+                          <span key={attachment.id} className="inline-flex items-center bg-white border border-gray-200 rounded px-2 py-1 text-xs text-gray-700">
+                            {attachment.kind === 'pdf' ? '📄' : '🖼️'} {attachment.fileName}
+                            <button
+                              type="button"
+                              onClick={() => setAttachments(prev => prev.filter(a => a.id !== attachment.id))}
+                              className="ml-2 text-gray-400 hover:text-gray-600"
+                            >
+                              ×
+                            </button>
+                          </span>
+                        ))}
+                      </div>
+                    )}
                     <div className="flex space-x-3">
+                      <label className={`px-3 py-2 rounded-lg border border-gray-300 text-gray-600 ${
+                        uploading || attachments.length >= 5 ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer hover:bg-gray-100'
+                      }`}>
+                        {uploading ? '...' : '📎'}
+                        <input
+                          type="file"
+                          multiple
+                          accept="image/jpeg,image/png,image/webp,image/gif,application/pdf"
+                          className="hidden"
+                          disabled={uploading || attachments.length >= 5}
+                          onChange={(e) => {
+                            uploadAttachments(e.target.files)
+                            e.target.value = ''
+                          }}
+                        />
+                      </label>
                       <input
                         type="text"
                         value={newMessage}
-                        onChange={(e) => setNewMessage(e.target.value)}
+                        onChange={(e) => handleTyping(e.target.value)}
                         placeholder="Type a message..."
+                        maxLength={2000}
                         className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                         disabled={sending}
                       />
                       <button
                         type="submit"
-                        disabled={!newMessage.trim() || sending}
+                        disabled={!canSend}
                         className={`px-4 py-2 rounded-lg font-medium ${
-                          newMessage.trim() && !sending
+                          canSend
                             ? 'bg-blue-600 text-white hover:bg-blue-700'
                             : 'bg-gray-300 text-gray-500 cursor-not-allowed'
                         }`}
@@ -359,4 +681,4 @@ export default function MessagesPage() {
       </div>
     </div>
   )
-}
\ No newline at end of file
+}
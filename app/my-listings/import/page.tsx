@@ -0,0 +1,367 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useSession } from 'next-auth/react'
+import { useRouter } from 'next/navigation'
+
+interface ImportChange {
+  action: 'create' | 'update' | 'unchanged' | 'expire'
+  row: number | null
+  key: string
+  listingId: string | null
+  title: string
+  fields?: string[]
+  status?: string
+}
+
+interface ImportRowError {
+  row: number
+  key: string | null
+  errors: { field: string; message: string }[]
+}
+
+interface ImportReport {
+  importId: string
+  dryRun: boolean
+  totalRows: number
+  summary: { created: number; updated: number; unchanged: number; expired: number; failed: number }
+  changes: ImportChange[]
+  errors: ImportRowError[]
+  ignoredColumns: string[]
+  notes: string[]
+}
+
+interface ImportLogEntry {
+  id: string
+  format: string
+  fileName: string | null
+  dryRun: boolean
+  totalRows: number
+  created: number
+  updated: number
+  expired: number
+  failed: number
+  createdAt: string
+}
+
+const FEED_LABELS: Record<string, string> = {
+  facebook: 'Facebook Automotive Catalog (CSV)',
+  google: 'Google Vehicle Listings (XML)',
+  json: 'JSON'
+}
+
+const ACTION_LABELS: Record<ImportChange['action'], { label: string; className: string }> = {
+  create: { label: 'E re', className: 'bg-green-100 text-green-800' },
+  update: { label: 'Përditësim', className: 'bg-blue-100 text-blue-800' },
+  unchanged: { label: 'Pa ndryshim', className: 'bg-gray-100 text-gray-700' },
+  expire: { label: 'Skadon', className: 'bg-yellow-100 text-yellow-800' }
+}
+
+export default function InventoryImportPage() {
+  const { status } = useSession()
+  const router = useRouter()
+  const [file, setFile] = useState<File | null>(null)
+  const [expireMissing, setExpireMissing] = useState(true)
+  const [report, setReport] = useState<ImportReport | null>(null)
+  const [history, setHistory] = useState<ImportLogEntry[]>([])
+  const [running, setRunning] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [feeds, setFeeds] = useState<Record<string, string> | null>(null)
+
+  useEffect(() => {
+    if (status === 'unauthenticated') {
+      router.push('/auth/signin')
+    } else if (status === 'authenticated') {
+      fetchHistory()
+      fetchFeeds()
+    }
+  }, [status, router])
+
+  const fetchFeeds = async () => {
+    try {
+      const response = await fetch('/api/feeds')
+      if (response.ok) {
+        const data = await response.json()
+        setFeeds(data.feeds)
+      }
+    } catch (error) {
+      console.error('Error fetching feed URLs:', error)
+    }
+  }
+
+  const rotateFeeds = async () => {
+    if (!confirm('Lidhjet aktuale do të pushojnë së punuari. Vazhdoni?')) return
+
+    try {
+      const response = await fetch('/api/feeds', { method: 'POST' })
+      if (response.ok) {
+        const data = await response.json()
+        setFeeds(data.feeds)
+      }
+    } catch (error) {
+      console.error('Error rotating feed URLs:', error)
+    }
+  }
+
+  const fetchHistory = async () => {
+    try {
+      const response = await fetch('/api/listings/import')
+      if (response.ok) {
+        const data = await response.json()
+        setHistory(data.imports || [])
+      }
+    } catch (error) {
+      console.error('Error fetching import history:', error)
+    }
+  }
+
+  const runImport = async (dryRun: boolean) => {
+    if (!file) return
+
+    setRunning(true)
+    setError(null)
+
+    try {
+      const formData = new FormData()
+      formData.append('file', file)
+
+      const params = new URLSearchParams({ dryRun: String(dryRun), expireMissing: String(expireMissing) })
+      const response = await fetch(`/api/listings/import?${params}`, {
+        method: 'POST',
+        body: formData
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        setReport(null)
+        setError(data.details?.[0]?.message || data.error || 'Importi dështoi')
+        return
+      }
+
+      setReport(data)
+      fetchHistory()
+    } catch (error) {
+      console.error('Error importing inventory:', error)
+      setError('Importi dështoi. Provoni përsëri.')
+    } finally {
+      setRunning(false)
+    }
+  }
+
+  if (status === 'loading') {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <div className="bg-white shadow-sm">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          <h1 className="text-3xl font-bold text-gray-900">Importo Inventarin</h1>
+          <p className="mt-2 text-lg text-gray-600">
+            Ngarkoni një skedar CSV ose XML për të krijuar dhe përditësuar shpalljet tuaja njëherësh
+          </p>
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-8">
+        {/* Upload */}
+        <div className="bg-white rounded-lg shadow-sm p-6">
+          <p className="text-sm text-gray-600 mb-4">
+            Çdo rresht duhet të ketë numrin e stokut ose VIN. Makinat ekzistuese gjenden sipas këtyre dhe përditësohen;
+            fotot duhet të jenë ngarkuar më parë përmes faqes së shitjes. Planet Dealer dhe Enterprise kanë qasje në import.
+          </p>
+
+          <div className="flex flex-col sm:flex-row sm:items-center gap-4">
+            <input
+              type="file"
+              accept=".csv,.xml,text/csv,application/xml,text/xml"
+              onChange={(e) => {
+                setFile(e.target.files?.[0] || null)
+                setReport(null)
+              }}
+              className="text-sm text-gray-700"
+            />
+            <label className="flex items-center text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={expireMissing}
+                onChange={(e) => setExpireMissing(e.target.checked)}
+                className="mr-2"
+              />
+              Skado makinat që mungojnë në skedar
+            </label>
+          </div>
+
+          <div className="mt-4 flex gap-3">
+            <button
+              onClick={() => runImport(true)}
+              disabled={!file || running}
+              className="px-4 py-2 border border-blue-600 text-blue-600 rounded-lg hover:bg-blue-50 transition-colors disabled:opacity-50"
+            >
+              {running ? 'Duke kontrolluar...' : 'Kontrollo (provë)'}
+            </button>
+            {report?.dryRun && (
+              <button
+                onClick={() => runImport(false)}
+                disabled={running || report.changes.length === 0}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+              >
+                Konfirmo importin
+              </button>
+            )}
+          </div>
+
+          {error && (
+            <div className="mt-4 bg-red-50 border border-red-200 rounded-lg p-4 text-sm text-red-700">
+              {error}
+            </div>
+          )}
+        </div>
+
+        {/* Report */}
+        {report && (
+          <div className="bg-white rounded-lg shadow-sm p-6">
+            <h2 className="text-xl font-semibold text-gray-900 mb-4">
+              {report.dryRun ? 'Pamje paraprake e importit' : 'Importi u krye'}
+            </h2>
+
+            <div className="grid grid-cols-2 sm:grid-cols-5 gap-4 mb-6">
+              {[
+                { label: 'Të reja', value: report.summary.created },
+                { label: 'Përditësime', value: report.summary.updated },
+                { label: 'Pa ndryshim', value: report.summary.unchanged },
+                { label: 'Skadojnë', value: report.summary.expired },
+                { label: 'Me gabime', value: report.summary.failed }
+              ].map((stat) => (
+                <div key={stat.label} className="bg-gray-50 rounded-lg p-4 text-center">
+                  <div className="text-2xl font-bold text-gray-900">{stat.value}</div>
+                  <div className="text-sm text-gray-600">{stat.label}</div>
+                </div>
+              ))}
+            </div>
+
+            {[...report.notes, ...(report.ignoredColumns.length > 0 ? [`Kolonat e panjohura u injoruan: ${report.ignoredColumns.join(', ')}`] : [])].map((note) => (
+              <p key={note} className="text-sm text-gray-600 mb-2">{note}</p>
+            ))}
+
+            {report.errors.length > 0 && (
+              <div className="mb-6">
+                <h3 className="font-medium text-red-700 mb-2">Rreshtat me gabime</h3>
+                <ul className="divide-y divide-red-100 border border-red-200 rounded-lg">
+                  {report.errors.map((rowError) => (
+                    <li key={`${rowError.row}-${rowError.key}`} className="p-3 text-sm">
+                      <span className="font-medium text-gray-900">
+                        Rreshti {rowError.row}{rowError.key && ` (${rowError.key})`}:
+                      </span>{' '}
+                      <span className="text-red-700">
+                        {rowError.errors.map((e) => `${e.field}: ${e.message}`).join('; ')}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {report.changes.length > 0 && (
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500 border-b">
+                    <th className="py-2 pr-4">Rreshti</th>
+                    <th className="py-2 pr-4">Stoku / VIN</th>
+                    <th className="py-2 pr-4">Automjeti</th>
+                    <th className="py-2 pr-4">Veprimi</th>
+                    <th className="py-2">Ndryshimet</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y">
+                  {report.changes.map((change) => (
+                    <tr key={`${change.action}-${change.key}`}>
+                      <td className="py-2 pr-4 text-gray-500">{change.row ?? '—'}</td>
+                      <td className="py-2 pr-4 font-mono">{change.key}</td>
+                      <td className="py-2 pr-4">
+                        {change.listingId ? (
+                          <a href={`/listings/${change.listingId}`} className="text-blue-600 hover:underline">{change.title}</a>
+                        ) : change.title}
+                      </td>
+                      <td className="py-2 pr-4">
+                        <span className={`px-2 py-1 rounded-full text-xs font-semibold ${ACTION_LABELS[change.action].className}`}>
+                          {ACTION_LABELS[change.action].label}
+                        </span>
+                      </td>
+                      <td className="py-2 text-gray-600">{change.fields?.join(', ')}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        )}
+
+        {/* Outbound feeds */}
+        {feeds && (
+          <div className="bg-white rounded-lg shadow-sm p-6">
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-xl font-semibold text-gray-900">Feed-et për katalogë të jashtëm</h2>
+              <button
+                onClick={rotateFeeds}
+                className="px-3 py-1 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors text-sm"
+              >
+                Gjenero lidhje të reja
+              </button>
+            </div>
+            <p className="text-sm text-gray-600 mb-4">
+              Shpalljet tuaja aktive, të përditësuara automatikisht. Çmimet janë në EUR; shtoni &amp;currency=ALL për lekë.
+            </p>
+            <ul className="space-y-3 text-sm">
+              {Object.entries(feeds).map(([format, url]) => (
+                <li key={format}>
+                  <div className="font-medium text-gray-900">{FEED_LABELS[format] || format}</div>
+                  <div className="flex gap-2 mt-1">
+                    <input
+                      readOnly
+                      value={url}
+                      onFocus={(e) => e.target.select()}
+                      className="flex-1 px-3 py-2 border border-gray-300 rounded-lg font-mono text-xs text-gray-700"
+                    />
+                    <button
+                      onClick={() => navigator.clipboard.writeText(url)}
+                      className="px-3 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+                    >
+                      Kopjo
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {/* History */}
+        {history.length > 0 && (
+          <div className="bg-white rounded-lg shadow-sm p-6">
+            <h2 className="text-xl font-semibold text-gray-900 mb-4">Importet e fundit</h2>
+            <ul className="divide-y text-sm">
+              {history.map((entry) => (
+                <li key={entry.id} className="py-2 flex justify-between">
+                  <span className="text-gray-900">
+                    {entry.fileName || entry.format.toUpperCase()}
+                    {entry.dryRun && <span className="ml-2 text-gray-500">(provë)</span>}
+                  </span>
+                  <span className="text-gray-600">
+                    {entry.totalRows} rreshta · +{entry.created} · ~{entry.updated} · −{entry.expired} · {entry.failed} gabime ·{' '}
+                    {new Date(entry.createdAt).toLocaleString('sq-AL')}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
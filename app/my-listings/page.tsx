@@ -20,9 +20,25 @@ interface Listing {
   images: string[]
   createdAt: string
   expiresAt: string
+  reservedUntil?: string | null
   views?: number
+  viewsLast7Days?: number
+  viewsLast30Days?: number
   favorites?: number
   messages?: number
+  renewal?: {
+    action: 'renew' | 'relist' | null
+    fee: number | null
+    newExpiresAt: string | null
+  }
+}
+
+interface Draft {
+  id: string
+  title: string | null
+  currentStep: number
+  images: string[]
+  updatedAt: string
 }
 
 export default function MyListingsPage() {
@@ -32,15 +48,73 @@ export default function MyListingsPage() {
   const [loading, setLoading] = useState(true)
   const [filter, setFilter] = useState<string>('all')
   const [deletingId, setDeletingId] = useState<string | null>(null)
+  const [drafts, setDrafts] = useState<Draft[]>([])
+  const [renewalNotice, setRenewalNotice] = useState<{ ok: boolean; text: string } | null>(null)
+  const [renewingId, setRenewingId] = useState<string | null>(null)
+
+  // Result of a one-click renewal link or a paid renewal coming back from Stripe
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search)
+    const messages: Record<string, string> = {
+      invalid_link: 'Lidhja e rinovimit ka skaduar ose është përdorur tashmë.',
+      unavailable: 'Kjo shpallje nuk mund të rinovohet më.',
+      canceled: 'Pagesa u anulua. Shpallja nuk u rinovua.',
+      failed: 'Rinovimi dështoi. Ju lutemi provoni përsëri.',
+    }
+    if (params.get('renewed')) {
+      setRenewalNotice({ ok: true, text: 'Shpallja u rinovua me sukses!' })
+    } else if (params.get('renewal')) {
+      setRenewalNotice({ ok: false, text: messages[params.get('renewal')!] || messages.failed })
+    }
+  }, [])
 
   useEffect(() => {
     if (status === 'unauthenticated') {
       router.push('/auth/signin')
     } else if (status === 'authenticated') {
       fetchListings()
+      fetchDrafts()
     }
   }, [status, router])
 
+  const fetchDrafts = async () => {
+    try {
+      const response = await fetch('/api/listings/drafts')
+      if (!response.ok) {
+        throw new Error('Dështoi ngarkimi i drafteve')
+      }
+      const data = await response.json()
+      setDrafts(data.drafts || [])
+    } catch (error) {
+      console.error('Gabim gjatë ngarkimit të drafteve:', error)
+      setDrafts([])
+    }
+  }
+
+  const handleDeleteDraft = async (draftId: string) => {
+    if (!confirm('Jeni të sigurt që dëshironi të fshini këtë draft?')) {
+      return
+    }
+
+    setDeletingId(draftId)
+    try {
+      const response = await fetch(`/api/listings/drafts/${draftId}`, {
+        method: 'DELETE',
+      })
+
+      if (!response.ok) {
+        throw new Error('Dështoi fshirja e draftit')
+      }
+
+      setDrafts(prev => prev.filter(draft => draft.id !== draftId))
+    } catch (error) {
+      console.error('Gabim gjatë fshirjes së draftit:', error)
+      alert('Ndodhi një gabim gjatë fshirjes së draftit')
+    } finally {
+      setDeletingId(null)
+    }
+  }
+
   const fetchListings = async () => {
     try {
       const response = await fetch('/api/listings/my-listings')
@@ -82,26 +156,113 @@ export default function MyListingsPage() {
     }
   }
 
-  const handleMarkAsSold = async (listingId: string) => {
-    if (!confirm('Shënoni këtë shpallje si e shitur?')) {
+  const handleMarkAsSold = async (listing: Listing) => {
+    // A named or reserved buyer is asked to confirm before the listing is sold
+    const buyerEmail = prompt(
+      'Email-i i blerësit në AutoMarket. Lëreni bosh nëse blerësi nuk ka llogari ose makina është rezervuar për të:'
+    )
+    if (buyerEmail === null) {
       return
     }
 
     try {
-      const response = await fetch(`/api/listings/${listingId}/mark-sold`, {
+      const response = await fetch(`/api/listings/${listing.id}/mark-sold`, {
         method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ buyerEmail: buyerEmail.trim() || undefined }),
       })
 
+      const result = await response.json()
       if (!response.ok) {
-        throw new Error('Dështoi përditësimi i statusit')
+        throw new Error(result.details?.[0]?.message || result.error || 'Dështoi përditësimi i statusit')
       }
 
       // Refresh listings
       fetchListings()
-      alert('Shpallja u shënua si e shitur!')
+      alert(result.status === 'pending_sale'
+        ? 'Blerësit iu dërgua kërkesa për të konfirmuar blerjen.'
+        : 'Shpallja u shënua si e shitur!')
+    } catch (error) {
+      console.error('Gabim gjatë përditësimit:', error)
+      alert(`Ndodhi një gabim: ${error instanceof Error ? error.message : 'përditësimi i statusit dështoi'}`)
+    }
+  }
+
+  const changeStatus = async (listingId: string, action: string, input: Record<string, unknown> = {}) => {
+    try {
+      const response = await fetch(`/api/listings/${listingId}/status`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action, ...input }),
+      })
+
+      const result = await response.json()
+      if (!response.ok) {
+        throw new Error(result.details?.[0]?.message || result.error || 'Dështoi përditësimi i statusit')
+      }
+
+      fetchListings()
     } catch (error) {
       console.error('Gabim gjatë përditësimit:', error)
-      alert('Ndodhi një gabim gjatë përditësimit të statusit')
+      alert(`Ndodhi një gabim: ${error instanceof Error ? error.message : 'përditësimi i statusit dështoi'}`)
+    }
+  }
+
+  const handleReserve = async (listingId: string) => {
+    const days = prompt('Për sa ditë e rezervoni makinën? (1-14)', '3')
+    if (days === null) return
+    const buyerEmail = prompt('Email-i i blerësit në AutoMarket (opsional):') ?? ''
+    const deposit = prompt('Kapari i marrë, në monedhën e shpalljes (opsional):') ?? ''
+
+    await changeStatus(listingId, 'reserve', {
+      days: Number(days),
+      buyerEmail: buyerEmail.trim() || undefined,
+      deposit: deposit.trim() || undefined,
+    })
+  }
+
+  const handleWithdraw = async (listingId: string) => {
+    if (!confirm('Tërhiqni këtë shpallje nga tregu? Ajo nuk do të shfaqet më për blerësit.')) {
+      return
+    }
+    await changeStatus(listingId, 'withdraw')
+  }
+
+  const handleRenew = async (listing: Listing) => {
+    const renewal = listing.renewal
+    if (!renewal?.action) return
+
+    const verb = renewal.action === 'relist' ? 'Ripubliko' : 'Rinovo'
+    const until = renewal.newExpiresAt ? new Date(renewal.newExpiresAt).toLocaleDateString('sq-AL') : ''
+    const cost = renewal.fee ? ` Kosto: €${renewal.fee.toFixed(2)}.` : ' Falas me planin tuaj.'
+    if (!confirm(`${verb} "${listing.title}" deri më ${until}?${cost}`)) {
+      return
+    }
+
+    setRenewingId(listing.id)
+    try {
+      const response = await fetch(`/api/listings/${listing.id}/renew`, { method: 'POST' })
+      const result = await response.json()
+
+      // Paid renewals continue on Stripe Checkout and come back to this page
+      if (response.status === 402 && result.checkoutUrl) {
+        window.location.href = result.checkoutUrl
+        return
+      }
+      if (!response.ok) {
+        throw new Error(result.error || 'Rinovimi dështoi')
+      }
+
+      fetchListings()
+      setRenewalNotice({
+        ok: true,
+        text: result.action === 'relist' ? 'Shpallja u ripublikua me sukses!' : 'Shpallja u rinovua me sukses!'
+      })
+    } catch (error) {
+      console.error('Gabim gjatë rinovimit:', error)
+      alert(`Ndodhi një gabim: ${error instanceof Error ? error.message : 'rinovimi dështoi'}`)
+    } finally {
+      setRenewingId(null)
     }
   }
 
@@ -113,12 +274,18 @@ export default function MyListingsPage() {
   const getStatusBadge = (status: string) => {
     const badges = {
       active: 'bg-green-100 text-green-800',
+      reserved: 'bg-yellow-100 text-yellow-800',
+      pending_sale: 'bg-purple-100 text-purple-800',
       sold: 'bg-blue-100 text-blue-800',
+      withdrawn: 'bg-gray-100 text-gray-800',
       expired: 'bg-red-100 text-red-800',
     }
     const labels = {
       active: 'Aktive',
+      reserved: 'E Rezervuar',
+      pending_sale: 'Në Pritje të Shitjes',
       sold: 'E Shitur',
+      withdrawn: 'E Tërhequr',
       expired: 'E Skaduar',
     }
     return {
@@ -157,20 +324,85 @@ export default function MyListingsPage() {
                 Menaxhoni të gjitha shpalljet tuaja të automjeteve
               </p>
             </div>
-            <a
-              href="/sell"
-              className="inline-flex items-center justify-center px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
-            >
-              <svg className="w-5 h-5 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
-              </svg>
-              Shto Shpallje të Re
-            </a>
+            <div className="flex gap-3">
+              <a
+                href="/my-listings/import"
+                className="inline-flex items-center justify-center px-6 py-3 border border-blue-600 text-blue-600 rounded-lg hover:bg-blue-50 transition-colors"
+              >
+                Importo Inventarin
+              </a>
+              <a
+                href="/sell"
+                className="inline-flex items-center justify-center px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+              >
+                <svg className="w-5 h-5 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+                </svg>
+                Shto Shpallje të Re
+              </a>
+            </div>
           </div>
         </div>
       </div>
 
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {renewalNotice && (
+          <div className={`mb-6 p-4 border rounded-lg text-sm ${
+            renewalNotice.ok ? 'bg-green-50 border-green-200 text-green-800' : 'bg-yellow-50 border-yellow-200 text-yellow-800'
+          }`}>
+            {renewalNotice.text}
+          </div>
+        )}
+
+        {/* My Drafts */}
+        {drafts.length > 0 && (
+          <div className="mb-8">
+            <h2 className="text-xl font-semibold text-gray-900 mb-4">
+              Draftet e Mia ({drafts.length})
+            </h2>
+            <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+              {drafts.map((draft) => (
+                <div key={draft.id} className="bg-white rounded-lg shadow-sm border border-dashed border-gray-300 p-4 flex gap-4">
+                  <div className="w-20 h-20 flex-shrink-0 bg-gray-100 rounded overflow-hidden">
+                    {draft.images.length > 0 && (
+                      <Image
+                        src={draft.images[0]}
+                        alt={draft.title || 'Draft'}
+                        width={80}
+                        height={80}
+                        className="w-full h-full object-cover"
+                      />
+                    )}
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <h3 className="font-medium text-gray-900 truncate">
+                      {draft.title || 'Draft pa titull'}
+                    </h3>
+                    <p className="text-sm text-gray-500">
+                      Hapi {draft.currentStep} nga 4 · {new Date(draft.updatedAt).toLocaleDateString('sq-AL')}
+                    </p>
+                    <div className="mt-2 flex gap-2">
+                      <button
+                        onClick={() => router.push(`/sell?draft=${draft.id}`)}
+                        className="px-3 py-1 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors text-sm"
+                      >
+                        Vazhdo
+                      </button>
+                      <button
+                        onClick={() => handleDeleteDraft(draft.id)}
+                        disabled={deletingId === draft.id}
+                        className="px-3 py-1 bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300 transition-colors text-sm disabled:opacity-50"
+                      >
+                        {deletingId === draft.id ? 'Duke fshirë...' : 'Fshi'}
+                      </button>
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Filter Tabs */}
         <div className="mb-6 border-b border-gray-200">
           <nav className="-mb-px flex space-x-8">
@@ -194,6 +426,16 @@ export default function MyListingsPage() {
             >
               Aktive ({listings.filter(l => l.status === 'active').length})
             </button>
+            <button
+              onClick={() => setFilter('reserved')}
+              className={`${
+                filter === 'reserved'
+                  ? 'border-blue-500 text-blue-600'
+                  : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+              } whitespace-nowrap py-4 px-1 border-b-2 font-medium text-sm transition-colors`}
+            >
+              Të Rezervuara ({listings.filter(l => l.status === 'reserved').length})
+            </button>
             <button
               onClick={() => setFilter('sold')}
               className={`${
@@ -294,6 +536,17 @@ export default function MyListingsPage() {
                       <span className="text-sm text-gray-500">{listing.city}</span>
                     </div>
 
+                    {listing.status === 'reserved' && listing.reservedUntil && (
+                      <p className="text-sm text-yellow-700 mb-3">
+                        E rezervuar deri më {new Date(listing.reservedUntil).toLocaleDateString('sq-AL')}
+                      </p>
+                    )}
+                    {listing.status === 'pending_sale' && (
+                      <p className="text-sm text-purple-700 mb-3">
+                        Në pritje të konfirmimit nga blerësi
+                      </p>
+                    )}
+
                     <div className="grid grid-cols-2 gap-2 text-sm text-gray-600 mb-4">
                       <div>{listing.year}</div>
                       <div>{listing.mileage.toLocaleString()} km</div>
@@ -303,12 +556,13 @@ export default function MyListingsPage() {
 
                     {/* Statistics */}
                     <div className="flex items-center justify-between text-sm text-gray-500 mb-4 pb-4 border-b">
-                      <div className="flex items-center">
+                      <div className="flex items-center" title="Shikime në 7 / 30 ditët e fundit">
                         <svg className="w-4 h-4 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
                           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z" />
                         </svg>
-                        <span>{listing.views || 0}</span>
+                        <span>{listing.viewsLast7Days || 0} / {listing.viewsLast30Days || 0}</span>
+                        <span className="ml-1 text-xs text-gray-400">7 / 30 ditë</span>
                       </div>
                       <div className="flex items-center">
                         <svg className="w-4 h-4 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -341,10 +595,58 @@ export default function MyListingsPage() {
                         </button>
                       </div>
 
+                      {(listing.status === 'active' || listing.status === 'reserved' || listing.status === 'pending_sale') && (
+                        <div className="flex gap-2">
+                          {listing.status === 'active' && (
+                            <button
+                              onClick={() => handleReserve(listing.id)}
+                              className="flex-1 bg-yellow-500 text-white py-2 px-4 rounded-lg hover:bg-yellow-600 transition-colors text-sm"
+                            >
+                              Rezervo
+                            </button>
+                          )}
+                          {listing.status === 'reserved' && (
+                            <button
+                              onClick={() => changeStatus(listing.id, 'release')}
+                              className="flex-1 bg-gray-200 text-gray-700 py-2 px-4 rounded-lg hover:bg-gray-300 transition-colors text-sm"
+                            >
+                              Anulo Rezervimin
+                            </button>
+                          )}
+                          {listing.status === 'pending_sale' ? (
+                            <button
+                              onClick={() => changeStatus(listing.id, 'cancel_sale')}
+                              className="flex-1 bg-gray-200 text-gray-700 py-2 px-4 rounded-lg hover:bg-gray-300 transition-colors text-sm"
+                            >
+                              Anulo Shitjen
+                            </button>
+                          ) : (
+                            <button
+                              onClick={() => handleWithdraw(listing.id)}
+                              className="flex-1 bg-gray-200 text-gray-700 py-2 px-4 rounded-lg hover:bg-gray-300 transition-colors text-sm"
+                            >
+                              Tërhiq
+                            </button>
+                          )}
+                        </div>
+                      )}
+
+                      {listing.renewal?.action && (
+                        <button
+                          onClick={() => handleRenew(listing)}
+                          disabled={renewingId === listing.id}
+                          className="w-full bg-indigo-600 text-white py-2 px-4 rounded-lg hover:bg-indigo-700 transition-colors text-sm disabled:opacity-50"
+                        >
+                          {renewingId === listing.id
+                            ? 'Duke rinovuar...'
+                            : `${listing.renewal.action === 'relist' ? 'Ripubliko' : 'Rinovo'}${listing.renewal.fee ? ` (€${listing.renewal.fee.toFixed(2)})` : ''}`}
+                        </button>
+                      )}
+
                       <div className="flex gap-2">
-                        {listing.status === 'active' && (
+                        {(listing.status === 'active' || listing.status === 'reserved') && (
                           <button
-                            onClick={() => handleMarkAsSold(listing.id)}
+                            onClick={() => handleMarkAsSold(listing)}
                             className="flex-1 bg-green-600 text-white py-2 px-4 rounded-lg hover:bg-green-700 transition-colors text-sm"
                           >
                             Shëno si të Shitur
@@ -362,6 +664,7 @@ export default function MyListingsPage() {
 
                     <div className="mt-3 text-xs text-gray-500">
                       Krijuar: {new Date(listing.createdAt).toLocaleDateString('sq-AL')}
+                      {listing.status === 'active' && ` · Skadon: ${new Date(listing.expiresAt).toLocaleDateString('sq-AL')}`}
                     </div>
                   </div>
                 </div>
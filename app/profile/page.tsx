@@ -291,6 +291,16 @@ export default function ProfilePage() {
                 </label>
               </div>
 
+              <div className="flex items-center justify-between py-3 border-b">
+                <div>
+                  <h3 className="font-medium text-gray-900">Dyqani i Tregtarit</h3>
+                  <p className="text-sm text-gray-600">Faqja publike e biznesit tuaj të verifikuar</p>
+                </div>
+                <a href="/profile/storefront" className="text-sm text-blue-600 hover:text-blue-800">
+                  Menaxho
+                </a>
+              </div>
+
               <div className="flex items-center justify-between py-3">
                 <div>
                   <h3 className="font-medium text-gray-900">Oferta Marketingu</h3>
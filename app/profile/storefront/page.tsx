@@ -0,0 +1,276 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Image from 'next/image'
+
+export const dynamic = 'force-dynamic'
+
+const WEEKDAYS = [
+  { key: 'mon', label: 'E hënë' },
+  { key: 'tue', label: 'E martë' },
+  { key: 'wed', label: 'E mërkurë' },
+  { key: 'thu', label: 'E enjte' },
+  { key: 'fri', label: 'E premte' },
+  { key: 'sat', label: 'E shtunë' },
+  { key: 'sun', label: 'E diel' },
+] as const
+
+interface StorefrontForm {
+  slug: string
+  logoUrl: string
+  bannerUrl: string
+  about: string
+  phone: string
+  website: string
+  openingHours: Record<string, string>
+}
+
+interface Storefront {
+  slug: string
+  name: string
+  address: string | null
+  logoUrl: string | null
+  bannerUrl: string | null
+  about: string | null
+  phone: string | null
+  website: string | null
+  openingHours: Record<string, string | null> | null
+}
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent'
+
+function toForm(storefront: Storefront): StorefrontForm {
+  return {
+    slug: storefront.slug,
+    logoUrl: storefront.logoUrl || '',
+    bannerUrl: storefront.bannerUrl || '',
+    about: storefront.about || '',
+    phone: storefront.phone || '',
+    website: storefront.website || '',
+    openingHours: Object.fromEntries(WEEKDAYS.map(({ key }) => [key, storefront.openingHours?.[key] || ''])),
+  }
+}
+
+export default function StorefrontSettingsPage() {
+  const [storefront, setStorefront] = useState<Storefront | null>(null)
+  const [form, setForm] = useState<StorefrontForm | null>(null)
+  const [unavailable, setUnavailable] = useState('')
+  const [saving, setSaving] = useState(false)
+  const [uploading, setUploading] = useState(false)
+  const [message, setMessage] = useState<{ type: 'success' | 'error', text: string } | null>(null)
+
+  useEffect(() => {
+    fetch('/api/dealer/storefront')
+      .then(async response => {
+        const result = await response.json()
+        if (response.status === 401) {
+          window.location.href = '/auth/signin'
+          return
+        }
+        if (!response.ok) {
+          setUnavailable(result.error || 'Dyqani nuk është i disponueshëm')
+          return
+        }
+        setStorefront(result.storefront)
+        setForm(toForm(result.storefront))
+      })
+      .catch(error => console.error('Error fetching storefront:', error))
+  }, [])
+
+  const update = (key: keyof Omit<StorefrontForm, 'openingHours'>, value: string) => {
+    setForm(prev => prev && { ...prev, [key]: value })
+  }
+
+  const updateHours = (day: string, value: string) => {
+    setForm(prev => prev && { ...prev, openingHours: { ...prev.openingHours, [day]: value } })
+  }
+
+  const upload = async (key: 'logoUrl' | 'bannerUrl', file: File | undefined) => {
+    if (!file) return
+    setUploading(true)
+    try {
+      const formData = new FormData()
+      formData.append('file-0', file)
+      const response = await fetch('/api/upload', { method: 'POST', body: formData })
+      const result = await response.json()
+      if (!response.ok) {
+        throw new Error(result.error || 'Upload failed')
+      }
+      update(key, result.files[0])
+    } catch (error) {
+      console.error('Upload error:', error)
+      alert(`Ngarkimi dështoi: ${error instanceof Error ? error.message : 'Gabim i panjohur'}`)
+    } finally {
+      setUploading(false)
+    }
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!form) return
+    setSaving(true)
+    setMessage(null)
+
+    try {
+      const response = await fetch('/api/dealer/storefront', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(form),
+      })
+      const result = await response.json()
+      if (!response.ok) {
+        throw new Error(result.details?.[0]?.message || result.error || 'Failed to save')
+      }
+      setStorefront(result.storefront)
+      setForm(toForm(result.storefront))
+      setMessage({ type: 'success', text: 'Dyqani u përditësua me sukses!' })
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Ndodhi një gabim gjatë ruajtjes.' })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  if (unavailable) {
+    return (
+      <div className="min-h-screen bg-gray-50 py-12">
+        <div className="max-w-2xl mx-auto px-4 text-center">
+          <h1 className="text-2xl font-bold text-gray-900 mb-4">Dyqani i Tregtarit</h1>
+          <p className="text-gray-600">{unavailable}</p>
+        </div>
+      </div>
+    )
+  }
+
+  if (!form || !storefront) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-12">
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="mb-8 flex items-end justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Dyqani i Tregtarit</h1>
+            <p className="text-gray-600 mt-2">
+              {storefront.name}{storefront.address && ` · ${storefront.address}`}
+            </p>
+          </div>
+          <a href={`/dealer/${storefront.slug}`} className="text-blue-600 hover:text-blue-800 text-sm">
+            Shiko dyqanin →
+          </a>
+        </div>
+
+        {message && (
+          <div className={`mb-6 p-4 rounded-lg ${message.type === 'success' ? 'bg-green-50 text-green-800' : 'bg-red-50 text-red-800'}`}>
+            {message.text}
+          </div>
+        )}
+
+        <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow-md p-8 space-y-6">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Adresa e dyqanit</label>
+            <div className="flex items-center">
+              <span className="px-3 py-2 bg-gray-100 border border-r-0 border-gray-300 rounded-l-lg text-gray-500 text-sm">/dealer/</span>
+              <input
+                type="text"
+                value={form.slug}
+                onChange={(e) => update('slug', e.target.value.toLowerCase())}
+                className="flex-1 px-3 py-2 border border-gray-300 rounded-r-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+            <p className="text-xs text-gray-500 mt-1">Adresa e vjetër do të ridrejtojë te e reja.</p>
+          </div>
+
+          <div className="grid md:grid-cols-2 gap-6">
+            {(['logoUrl', 'bannerUrl'] as const).map(key => (
+              <div key={key}>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  {key === 'logoUrl' ? 'Logoja' : 'Banneri'}
+                </label>
+                {form[key] && (
+                  <div className="relative mb-2">
+                    <Image
+                      src={form[key]}
+                      alt={key === 'logoUrl' ? 'Logoja' : 'Banneri'}
+                      width={key === 'logoUrl' ? 96 : 400}
+                      height={96}
+                      className={key === 'logoUrl' ? 'w-24 h-24 object-contain rounded-lg border' : 'w-full h-24 object-cover rounded-lg'}
+                    />
+                    <button
+                      type="button"
+                      onClick={() => update(key, '')}
+                      className="text-xs text-red-600 hover:text-red-800 mt-1"
+                    >
+                      Hiq
+                    </button>
+                  </div>
+                )}
+                <input
+                  type="file"
+                  accept="image/jpeg,image/png,image/webp"
+                  disabled={uploading}
+                  onChange={(e) => upload(key, e.target.files?.[0])}
+                  className="text-sm"
+                />
+              </div>
+            ))}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Rreth nesh</label>
+            <textarea
+              value={form.about}
+              onChange={(e) => update('about', e.target.value)}
+              rows={5}
+              maxLength={2000}
+              placeholder="Përshkruani biznesin tuaj, shërbimet dhe garancitë që ofroni..."
+              className={inputClass}
+            />
+          </div>
+
+          <div className="grid md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Telefoni i dyqanit</label>
+              <input type="tel" value={form.phone} onChange={(e) => update('phone', e.target.value)} placeholder="+355 69 123 4567" className={inputClass} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Faqja e internetit</label>
+              <input type="url" value={form.website} onChange={(e) => update('website', e.target.value)} placeholder="https://" className={inputClass} />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Orari</label>
+            <div className="space-y-2">
+              {WEEKDAYS.map(({ key, label }) => (
+                <div key={key} className="flex items-center gap-4">
+                  <span className="w-28 text-sm text-gray-600">{label}</span>
+                  <input
+                    type="text"
+                    value={form.openingHours[key]}
+                    onChange={(e) => updateHours(key, e.target.value)}
+                    placeholder="08:00-18:00 ose bosh për mbyllur"
+                    className="flex-1 px-3 py-1 border border-gray-300 rounded-lg text-sm"
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <button
+            type="submit"
+            disabled={saving || uploading}
+            className="w-full bg-blue-600 text-white py-3 px-4 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+          >
+            {saving ? 'Duke ruajtur...' : 'Ruaj Ndryshimet'}
+          </button>
+        </form>
+      </div>
+    </div>
+  )
+}
@@ -1,33 +1,205 @@
 'use client'
 
 import { useState } from 'react'
+import { COUNTRIES, regionalService } from '../../lib/regional'
 
 export const dynamic = 'force-dynamic'
 
+const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent'
+
 export default function SearchPage() {
-  const [searchQuery, setSearchQuery] = useState('')
+  const [criteria, setCriteria] = useState({
+    search: '',
+    make: '',
+    model: '',
+    minPrice: '',
+    maxPrice: '',
+    minYear: '',
+    maxYear: '',
+    minMileage: '',
+    maxMileage: '',
+    fuelType: '',
+    transmission: '',
+    bodyType: '',
+    location: '',
+    near: '',
+    radius: '50',
+    country: '',
+    sort: 'recommended'
+  })
+
+  const update = (key: keyof typeof criteria, value: string) => {
+    setCriteria(prev => ({ ...prev, [key]: value }))
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    const params = new URLSearchParams()
+    Object.entries(criteria).forEach(([key, value]) => {
+      // A radius only means something around a chosen city
+      if (key === 'radius' && !criteria.near) return
+      if (value) params.append(key, value)
+    })
+    window.location.href = `/listings?${params.toString()}`
+  }
 
   return (
     <div className="min-h-screen bg-gray-50">
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
         <div className="text-center">
           <h1 className="text-3xl font-bold text-gray-900 mb-4">
-            Advanced Search
+            Kërkim i Avancuar
           </h1>
           <p className="text-lg text-gray-600 mb-8">
-            Find your perfect car with detailed filters
+            Gjeni makinën tuaj të përkryer me filtra të detajuar
           </p>
+        </div>
 
-          <div className="bg-white rounded-lg shadow-md p-8 max-w-2xl mx-auto">
-            <p className="text-gray-600">
-              Advanced search functionality coming soon!
-            </p>
-            <p className="text-sm text-gray-500 mt-2">
-              For now, use the search on the <a href="/listings" className="text-blue-600 hover:underline">listings page</a>.
-            </p>
+        <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow-md p-8 max-w-3xl mx-auto space-y-6">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Kërko</label>
+            <input
+              type="text"
+              value={criteria.search}
+              onChange={(e) => update('search', e.target.value)}
+              placeholder="BMW X5, Golf, naftë..."
+              className={inputClass}
+            />
           </div>
-        </div>
+
+          <div className="grid md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Marka</label>
+              <input type="text" value={criteria.make} onChange={(e) => update('make', e.target.value)} className={inputClass} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Modeli</label>
+              <input type="text" value={criteria.model} onChange={(e) => update('model', e.target.value)} className={inputClass} />
+            </div>
+          </div>
+
+          <div className="grid md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Çmimi (€)</label>
+              <div className="grid grid-cols-2 gap-2">
+                <input type="number" value={criteria.minPrice} onChange={(e) => update('minPrice', e.target.value)} placeholder="Min" className={inputClass} />
+                <input type="number" value={criteria.maxPrice} onChange={(e) => update('maxPrice', e.target.value)} placeholder="Max" className={inputClass} />
+              </div>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Viti</label>
+              <div className="grid grid-cols-2 gap-2">
+                <input type="number" value={criteria.minYear} onChange={(e) => update('minYear', e.target.value)} placeholder="Nga" className={inputClass} />
+                <input type="number" value={criteria.maxYear} onChange={(e) => update('maxYear', e.target.value)} placeholder="Deri" className={inputClass} />
+              </div>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Kilometrazhi (km)</label>
+            <div className="grid grid-cols-2 gap-2">
+              <input type="number" value={criteria.minMileage} onChange={(e) => update('minMileage', e.target.value)} placeholder="Min" className={inputClass} />
+              <input type="number" value={criteria.maxMileage} onChange={(e) => update('maxMileage', e.target.value)} placeholder="Max" className={inputClass} />
+            </div>
+          </div>
+
+          <div className="grid md:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Karburanti</label>
+              <select value={criteria.fuelType} onChange={(e) => update('fuelType', e.target.value)} className={inputClass}>
+                <option value="">Të gjitha</option>
+                <option value="Petrol">Benzinë</option>
+                <option value="Diesel">Naftë</option>
+                <option value="Electric">Elektrike</option>
+                <option value="Hybrid">Hibride</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Transmisioni</label>
+              <select value={criteria.transmission} onChange={(e) => update('transmission', e.target.value)} className={inputClass}>
+                <option value="">Të gjitha</option>
+                <option value="Manual">Manual</option>
+                <option value="Automatic">Automatik</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Karroceria</label>
+              <select value={criteria.bodyType} onChange={(e) => update('bodyType', e.target.value)} className={inputClass}>
+                <option value="">Të gjitha</option>
+                <option value="Sedan">Sedan</option>
+                <option value="Hatchback">Hatchback</option>
+                <option value="SUV">SUV</option>
+                <option value="Wagon">Wagon</option>
+                <option value="Coupe">Coupe</option>
+                <option value="Convertible">Convertible</option>
+                <option value="Van">Van</option>
+              </select>
+            </div>
+          </div>
+
+          <div className="grid md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Afër qytetit</label>
+              <select value={criteria.near} onChange={(e) => update('near', e.target.value)} className={inputClass}>
+                <option value="">Çdo vendndodhje</option>
+                {COUNTRIES.map(country => (
+                  <optgroup key={country.code} label={country.nameAlbanian}>
+                    {regionalService.getRegionsByCountry(country.code).map(region => (
+                      <option key={region.id} value={region.id}>{region.nameAlbanian}</option>
+                    ))}
+                  </optgroup>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Rrezja</label>
+              <select value={criteria.radius} onChange={(e) => update('radius', e.target.value)} disabled={!criteria.near} className={inputClass}>
+                <option value="25">25 km</option>
+                <option value="50">50 km</option>
+                <option value="100">100 km</option>
+                <option value="150">150 km</option>
+                <option value="200">200 km</option>
+              </select>
+            </div>
+          </div>
+
+          <div className="grid md:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Qyteti</label>
+              <input type="text" value={criteria.location} onChange={(e) => update('location', e.target.value)} placeholder="Tiranë, Prishtinë..." className={inputClass} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Shteti</label>
+              <select value={criteria.country} onChange={(e) => update('country', e.target.value)} className={inputClass}>
+                <option value="">Të gjitha</option>
+                <option value="AL">Shqipëri</option>
+                <option value="XK">Kosovë</option>
+                <option value="MK">Maqedoni e Veriut</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Rendit sipas</label>
+              <select value={criteria.sort} onChange={(e) => update('sort', e.target.value)} className={inputClass}>
+                <option value="recommended">Të Rekomanduarat</option>
+                <option value="relevance">Më të Përshtatshmet</option>
+                <option value="distance">Më afër</option>
+                <option value="newest">Më të Rejat</option>
+                <option value="price_asc">Çmimi: Nga më i Ulëti</option>
+                <option value="price_desc">Çmimi: Nga më i Larti</option>
+                <option value="mileage_asc">Kilometrazhi: Nga më i Ulëti</option>
+                <option value="year_desc">Viti: Nga më të Rejat</option>
+              </select>
+            </div>
+          </div>
+
+          <button
+            type="submit"
+            className="w-full bg-blue-600 text-white py-3 px-4 rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            Kërko Makina
+          </button>
+        </form>
       </div>
     </div>
   )
-}
\ No newline at end of file
+}
@@ -1,11 +1,45 @@
 'use client'
 
-import { useState } from 'react'
+import { useEffect, useMemo, useRef, useState } from 'react'
+import { useSession } from 'next-auth/react'
 import { ImageUpload } from '../../components/image-upload'
+import { decodeVin, vinMatchesMake, yearContradictsVin } from '../../lib/vin/decoder'
+
+const AUTOSAVE_DELAY_MS = 1500
+const YEAR_OPTIONS = Array.from({ length: 25 }, (_, i) => new Date().getFullYear() + 1 - i)
+
+const MAKE_OPTIONS = [
+  { value: 'BMW', label: 'BMW' },
+  { value: 'Audi', label: 'Audi' },
+  { value: 'Mercedes', label: 'Mercedes-Benz' },
+  { value: 'Volkswagen', label: 'Volkswagen' },
+  { value: 'Tesla', label: 'Tesla' },
+  { value: 'Toyota', label: 'Toyota' },
+  { value: 'Honda', label: 'Honda' },
+  { value: 'Ford', label: 'Ford' },
+  { value: 'Other', label: 'Other' },
+]
+
+interface FeatureOption {
+  key: string
+  labelSq: string
+  labelEn: string
+}
+
+interface FeatureCategory {
+  category: string
+  labelSq: string
+  labelEn: string
+  features: FeatureOption[]
+}
+
+type SaveStatus = 'idle' | 'saving' | 'saved' | 'error'
 
 export default function SellPage() {
+  const { status: sessionStatus } = useSession()
   const [formData, setFormData] = useState({
     // Car Details
+    vin: '',
     make: '',
     model: '',
     year: '',
@@ -24,7 +58,7 @@ export default function SellPage() {
 
     // Location
     city: '',
-    country: 'DE',
+    country: 'AL',
 
     // Contact
     sellerName: '',
@@ -40,13 +74,120 @@ export default function SellPage() {
 
   const [currentStep, setCurrentStep] = useState(1)
   const [isSubmitting, setIsSubmitting] = useState(false)
+  const [featureCategories, setFeatureCategories] = useState<FeatureCategory[]>([])
+
+  // Drafts: the wizard autosaves to /api/listings/drafts and keeps ?draft=<id>
+  // in the URL so a refresh resumes where the seller left off
+  const [draftLoaded, setDraftLoaded] = useState(false)
+  const [isDirty, setIsDirty] = useState(false)
+  const [saveStatus, setSaveStatus] = useState<SaveStatus>('idle')
+  const [lastSavedAt, setLastSavedAt] = useState<Date | null>(null)
+  const draftIdRef = useRef<string | null>(null)
+  const saveChainRef = useRef<Promise<void>>(Promise.resolve())
+
+  useEffect(() => {
+    const draftId = new URLSearchParams(window.location.search).get('draft')
+    if (!draftId) {
+      setDraftLoaded(true)
+      return
+    }
+
+    fetch(`/api/listings/drafts/${draftId}`)
+      .then(response => response.ok ? response.json() : null)
+      .then(draft => {
+        if (!draft) return
+        draftIdRef.current = draft.id
+        setFormData(prev => ({ ...prev, ...draft.data, images: draft.images }))
+        setCurrentStep(draft.currentStep)
+        setLastSavedAt(new Date(draft.updatedAt))
+        setSaveStatus('saved')
+      })
+      .catch(error => console.error('Error loading draft:', error))
+      .finally(() => setDraftLoaded(true))
+  }, [])
+
+  useEffect(() => {
+    if (!draftLoaded || !isDirty || isSubmitting || sessionStatus !== 'authenticated') return
+
+    const snapshot = { data: formData, images: formData.images, currentStep }
+    const timer = setTimeout(() => {
+      // Chain saves so the first POST finishes before any PUT is sent
+      saveChainRef.current = saveChainRef.current.then(async () => {
+        setSaveStatus('saving')
+        try {
+          const draftId = draftIdRef.current
+          const response = await fetch(draftId ? `/api/listings/drafts/${draftId}` : '/api/listings/drafts', {
+            method: draftId ? 'PUT' : 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(snapshot),
+          })
+          if (!response.ok) throw new Error('Failed to save draft')
+
+          const draft = await response.json()
+          if (!draftId) {
+            draftIdRef.current = draft.id
+            window.history.replaceState(null, '', `/sell?draft=${draft.id}`)
+          }
+          setLastSavedAt(new Date(draft.updatedAt))
+          setSaveStatus('saved')
+        } catch (error) {
+          console.error('Error saving draft:', error)
+          setSaveStatus('error')
+        }
+      })
+    }, AUTOSAVE_DELAY_MS)
+
+    return () => clearTimeout(timer)
+  }, [formData, currentStep, draftLoaded, isDirty, isSubmitting, sessionStatus])
+
+  useEffect(() => {
+    fetch('/api/listings/features')
+      .then(response => response.ok ? response.json() : { categories: [] })
+      .then(data => setFeatureCategories(data.categories || []))
+      .catch(error => console.error('Error fetching features:', error))
+  }, [])
+
+  // Decoded locally as the seller types; nothing is sent anywhere until submit
+  const decodedVin = useMemo(
+    () => formData.vin.trim() ? decodeVin(formData.vin) : null,
+    [formData.vin]
+  )
+  const vinYearConflict = !!decodedVin?.wmi && !!formData.year && yearContradictsVin(decodedVin, Number(formData.year))
+  const vinMakeConflict = !!decodedVin?.make && !!formData.make && formData.make !== 'Other' && !vinMatchesMake(decodedVin, formData.make)
+
+  const featureLabel = (key: string) =>
+    featureCategories.flatMap(c => c.features).find(f => f.key === key)?.labelEn || key
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
     const { name, value } = e.target
     setFormData(prev => ({ ...prev, [name]: value }))
+    setIsDirty(true)
+  }
+
+  // Pre-fill empty car details from the VIN without overwriting the seller's choices
+  const handleVinChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const vin = e.target.value.toUpperCase()
+    const decoded = decodeVin(vin)
+    setIsDirty(true)
+    setFormData(prev => {
+      const next = { ...prev, vin }
+      if (!decoded.wmi) return next
+
+      if (!prev.make && decoded.make) {
+        next.make = MAKE_OPTIONS.find(option => option.value !== 'Other' && vinMatchesMake(decoded, option.value))?.value || 'Other'
+      }
+      if (!prev.year && decoded.modelYear && YEAR_OPTIONS.includes(decoded.modelYear)) {
+        next.year = String(decoded.modelYear)
+      }
+      if (!prev.model && decoded.model) {
+        next.model = decoded.model
+      }
+      return next
+    })
   }
 
   const handleFeatureToggle = (feature: string) => {
+    setIsDirty(true)
     setFormData(prev => ({
       ...prev,
       features: prev.features.includes(feature)
@@ -68,6 +209,7 @@ export default function SellPage() {
         body: JSON.stringify({
           title: formData.title,
           description: formData.description,
+          vin: formData.vin || undefined,
           price: formData.price,
           make: formData.make,
           model: formData.model,
@@ -78,21 +220,32 @@ export default function SellPage() {
           bodyType: formData.bodyType,
           color: formData.color,
           city: formData.city,
+          country: formData.country,
+          currency: formData.currency,
           images: formData.images,
-          // TODO: Add seller contact info when authentication is complete
+          features: formData.features,
+          draftId: draftIdRef.current,
         }),
       })
 
+      const result = await response.json()
+
       if (!response.ok) {
-        const error = await response.json()
-        throw new Error(error.error || 'Failed to create listing')
+        const details = Array.isArray(result.details)
+          ? `\n${result.details.map((d: { message: string }) => d.message).join('\n')}`
+          : ''
+        throw new Error((result.error || 'Failed to create listing') + details)
       }
 
-      const result = await response.json()
-      alert(`Listing created successfully! ID: ${result.id}`)
+      if (result.status === 'rejected') {
+        alert(`${result.message}. Please review your listing details and try again.`)
+        return
+      }
 
-      // Redirect to the new listing
-      window.location.href = `/listings/${result.id}`
+      alert(result.message)
+
+      // Live listings open directly; listings under review are tracked from My Listings
+      window.location.href = result.status === 'active' ? `/listings/${result.id}` : '/my-listings'
 
     } catch (error) {
       console.error('Error creating listing:', error)
@@ -103,19 +256,13 @@ export default function SellPage() {
   }
 
   const handleImagesUploaded = (imageUrls: string[]) => {
+    setIsDirty(true)
     setFormData(prev => ({ ...prev, images: imageUrls }))
   }
 
   const nextStep = () => setCurrentStep(prev => Math.min(prev + 1, 4))
   const prevStep = () => setCurrentStep(prev => Math.max(prev - 1, 1))
 
-  const carFeatures = [
-    'Air Conditioning', 'Leather Seats', 'Navigation System', 'Sunroof',
-    'Parking Sensors', 'Backup Camera', 'Heated Seats', 'Bluetooth',
-    'Cruise Control', 'Electric Windows', 'Alloy Wheels', 'ABS',
-    'Airbags', 'Central Locking', 'Power Steering', 'Electric Mirrors'
-  ]
-
   return (
     <div className="min-h-screen bg-gray-50">
       {/* Header */}
@@ -127,6 +274,13 @@ export default function SellPage() {
           <p className="text-lg text-gray-600">
             Create a listing to reach thousands of potential buyers
           </p>
+          {sessionStatus === 'authenticated' && saveStatus !== 'idle' && (
+            <p className={`mt-2 text-sm ${saveStatus === 'error' ? 'text-red-600' : 'text-gray-500'}`}>
+              {saveStatus === 'saving' && 'Saving draft...'}
+              {saveStatus === 'saved' && lastSavedAt && `Draft saved at ${lastSavedAt.toLocaleTimeString()}`}
+              {saveStatus === 'error' && 'Could not save draft. It will be retried on your next change.'}
+            </p>
+          )}
 
           {/* Progress Bar */}
           <div className="mt-8">
@@ -157,6 +311,11 @@ export default function SellPage() {
       </div>
 
       <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {!draftLoaded ? (
+          <div className="bg-white rounded-lg shadow-md p-8 text-center text-gray-600">
+            Loading your draft...
+          </div>
+        ) : (
         <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow-md p-8">
 
           {/* Step 1: Car Details */}
@@ -164,6 +323,38 @@ export default function SellPage() {
             <div className="space-y-6">
               <h2 className="text-2xl font-semibold text-gray-900 mb-6">Car Details</h2>
 
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  VIN (optional)
+                </label>
+                <input
+                  type="text"
+                  name="vin"
+                  value={formData.vin}
+                  onChange={handleVinChange}
+                  maxLength={20}
+                  placeholder="17 characters, e.g. WVWZZZ1KZAW000001"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg font-mono uppercase focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+                {decodedVin && (decodedVin.wmi ? (
+                  <div className="mt-2 text-sm text-gray-600">
+                    <p>
+                      {[decodedVin.make || 'Unknown manufacturer', decodedVin.model, decodedVin.modelYear && `model year ${decodedVin.modelYear}`]
+                        .filter(Boolean)
+                        .join(' · ')}
+                    </p>
+                    {(decodedVin.country || decodedVin.plant) && (
+                      <p>Built in {decodedVin.plant || decodedVin.country?.name}</p>
+                    )}
+                    {decodedVin.errors.map(error => (
+                      <p key={error} className="text-red-600">{error}</p>
+                    ))}
+                  </div>
+                ) : formData.vin.replace(/[\s-]/g, '').length >= 17 && (
+                  <p className="mt-2 text-sm text-red-600">{decodedVin.errors[0]}</p>
+                ))}
+              </div>
+
               <div className="grid md:grid-cols-2 gap-6">
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -177,16 +368,15 @@ export default function SellPage() {
                     className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                   >
                     <option value="">Select Make</option>
-                    <option value="BMW">BMW</option>
-                    <option value="Audi">Audi</option>
-                    <option value="Mercedes">Mercedes-Benz</option>
-                    <option value="Volkswagen">Volkswagen</option>
-                    <option value="Tesla">Tesla</option>
-                    <option value="Toyota">Toyota</option>
-                    <option value="Honda">Honda</option>
-                    <option value="Ford">Ford</option>
-                    <option value="Other">Other</option>
+                    {MAKE_OPTIONS.map(option => (
+                      <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
                   </select>
+                  {vinMakeConflict && (
+                    <p className="mt-1 text-sm text-yellow-700">
+                      The VIN belongs to a {decodedVin?.make}. Please check the make or the VIN.
+                    </p>
+                  )}
                 </div>
 
                 <div>
@@ -216,10 +406,15 @@ export default function SellPage() {
                     className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                   >
                     <option value="">Select Year</option>
-                    {Array.from({ length: 25 }, (_, i) => 2024 - i).map(year => (
+                    {YEAR_OPTIONS.map(year => (
                       <option key={year} value={year}>{year}</option>
                     ))}
                   </select>
+                  {vinYearConflict && (
+                    <p className="mt-1 text-sm text-yellow-700">
+                      The VIN says model year {decodedVin?.modelYear}. Please check the year or the VIN.
+                    </p>
+                  )}
                 </div>
 
                 <div>
@@ -316,17 +511,26 @@ export default function SellPage() {
                 <label className="block text-sm font-medium text-gray-700 mb-4">
                   Features & Equipment
                 </label>
-                <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
-                  {carFeatures.map((feature) => (
-                    <label key={feature} className="flex items-center">
-                      <input
-                        type="checkbox"
-                        checked={formData.features.includes(feature)}
-                        onChange={() => handleFeatureToggle(feature)}
-                        className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
-                      />
-                      <span className="ml-2 text-sm text-gray-700">{feature}</span>
-                    </label>
+                <div className="space-y-4">
+                  {featureCategories.map((category) => (
+                    <div key={category.category}>
+                      <h4 className="text-sm font-semibold text-gray-900 mb-2">
+                        {category.labelEn} <span className="font-normal text-gray-500">/ {category.labelSq}</span>
+                      </h4>
+                      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                        {category.features.map((feature) => (
+                          <label key={feature.key} className="flex items-center" title={feature.labelSq}>
+                            <input
+                              type="checkbox"
+                              checked={formData.features.includes(feature.key)}
+                              onChange={() => handleFeatureToggle(feature.key)}
+                              className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                            />
+                            <span className="ml-2 text-sm text-gray-700">{feature.labelEn}</span>
+                          </label>
+                        ))}
+                      </div>
+                    </div>
                   ))}
                 </div>
               </div>
@@ -397,10 +601,27 @@ export default function SellPage() {
                     value={formData.city}
                     onChange={handleInputChange}
                     required
-                    placeholder="e.g., Berlin, Munich, Hamburg"
+                    placeholder="e.g., Tiranë, Prishtinë, Tetovë"
                     className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                   />
                 </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Country *
+                  </label>
+                  <select
+                    name="country"
+                    value={formData.country}
+                    onChange={handleInputChange}
+                    required
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  >
+                    <option value="AL">Albania</option>
+                    <option value="XK">Kosovo</option>
+                    <option value="MK">North Macedonia</option>
+                  </select>
+                </div>
               </div>
 
               {/* Images Upload */}
@@ -499,6 +720,7 @@ export default function SellPage() {
                 <div className="grid md:grid-cols-2 gap-6 text-sm">
                   <div>
                     <h4 className="font-medium text-gray-900 mb-2">Car Details</h4>
+                    {formData.vin && <p><strong>VIN:</strong> {formData.vin}</p>}
                     <p><strong>Make:</strong> {formData.make}</p>
                     <p><strong>Model:</strong> {formData.model}</p>
                     <p><strong>Year:</strong> {formData.year}</p>
@@ -527,7 +749,7 @@ export default function SellPage() {
                     <div className="flex flex-wrap gap-2">
                       {formData.features.map((feature) => (
                         <span key={feature} className="px-2 py-1 bg-blue-100 text-blue-800 text-xs rounded">
-                          {feature}
+                          {featureLabel(feature)}
                         </span>
                       ))}
                     </div>
@@ -589,6 +811,7 @@ export default function SellPage() {
             )}
           </div>
         </form>
+        )}
       </div>
     </div>
   )
@@ -0,0 +1,39 @@
+import type { MetadataRoute } from 'next'
+import { prisma } from '../lib/prisma'
+import { listPublicStorefronts } from '../lib/listings/storefronts'
+
+export const dynamic = 'force-dynamic'
+
+// Search engines accept up to 50,000 URLs per sitemap
+const MAX_LISTING_URLS = 45000
+
+const STATIC_PAGES = ['/', '/listings', '/search', '/pricing', '/contact', '/privacy', '/terms']
+
+// GET /sitemap.xml - Static pages, active listings and dealer storefronts
+export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
+  const baseUrl = process.env.NEXTAUTH_URL || 'http://localhost:3000'
+
+  const [listings, storefronts] = await Promise.all([
+    prisma.listing.findMany({
+      where: { status: 'active' },
+      select: { id: true, updatedAt: true },
+      orderBy: { updatedAt: 'desc' },
+      take: MAX_LISTING_URLS,
+    }),
+    listPublicStorefronts(),
+  ])
+
+  return [
+    ...STATIC_PAGES.map(path => ({ url: `${baseUrl}${path}`, changeFrequency: 'daily' as const })),
+    ...storefronts.map(storefront => ({
+      url: `${baseUrl}/dealer/${storefront.slug}`,
+      lastModified: storefront.updatedAt,
+      changeFrequency: 'daily' as const,
+    })),
+    ...listings.map(listing => ({
+      url: `${baseUrl}/listings/${listing.id}`,
+      lastModified: listing.updatedAt,
+      changeFrequency: 'weekly' as const,
+    })),
+  ]
+}
@@ -0,0 +1,285 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+
+interface MeetingLocation {
+  id: string
+  name: string
+  address: string
+  city: string
+  locationType: string
+  hasParking?: boolean
+  hasCCTV?: boolean
+}
+
+interface Slot {
+  id: string
+  startsAt: string
+  endsAt: string
+  status: string
+  location: MeetingLocation
+}
+
+interface Appointment {
+  id: string
+  type: 'viewing' | 'test_drive'
+  status: string
+  startsAt: string
+  endsAt: string
+  role: 'buyer' | 'seller' | null
+  actions: string[]
+  location: MeetingLocation
+  buyer: { name: string }
+  seller: { name: string }
+}
+
+interface AppointmentState {
+  role: 'buyer' | 'seller' | null
+  city: string
+  canBook: boolean
+  slots: Slot[]
+  appointments: Appointment[]
+}
+
+interface AppointmentBookingProps {
+  listingId: string
+}
+
+const DURATIONS = [30, 60, 90, 120]
+
+const ACTION_LABELS: Record<string, string> = {
+  cancel: 'Cancel',
+  complete: 'Mark as done',
+  no_show: 'Report no-show',
+}
+
+const STATUS_LABELS: Record<string, string> = {
+  booked: 'Booked',
+  canceled: 'Cancelled',
+  completed: 'Completed',
+  no_show: 'No-show',
+}
+
+function formatTime(value: string): string {
+  return new Date(value).toLocaleString([], { weekday: 'short', day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' })
+}
+
+// Viewing and test-drive times at safe meeting places: sellers publish
+// times, buyers book one, both manage their appointments
+export function AppointmentBooking({ listingId }: AppointmentBookingProps) {
+  const [state, setState] = useState<AppointmentState | null>(null)
+  const [locations, setLocations] = useState<MeetingLocation[]>([])
+  const [locationId, setLocationId] = useState('')
+  const [startsAt, setStartsAt] = useState('')
+  const [duration, setDuration] = useState(60)
+  const [type, setType] = useState<'viewing' | 'test_drive'>('viewing')
+  const [submitting, setSubmitting] = useState(false)
+
+  const load = () => {
+    fetch(`/api/listings/${listingId}/appointments`)
+      .then(response => response.ok ? response.json() : null)
+      .then(setState)
+      .catch(error => console.error('Error fetching appointments:', error))
+  }
+
+  useEffect(load, [listingId])
+
+  useEffect(() => {
+    if (state?.role !== 'seller' || !state.city) return
+    fetch(`/api/safety/locations?city=${encodeURIComponent(state.city)}`)
+      .then(response => response.ok ? response.json() : { locations: [] })
+      .then(result => setLocations(result.locations))
+      .catch(error => console.error('Error fetching safe locations:', error))
+  }, [state?.role, state?.city])
+
+  const send = async (url: string, method: string, body?: Record<string, unknown>) => {
+    setSubmitting(true)
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        ...(body && { body: JSON.stringify(body) }),
+      })
+      const result = await response.json()
+      if (!response.ok) {
+        throw new Error(result.details?.[0]?.message || result.error || 'Failed to update appointments')
+      }
+      load()
+      return true
+    } catch (error) {
+      console.error('Error updating appointments:', error)
+      alert(`Error: ${error instanceof Error ? error.message : 'Failed to update appointments'}`)
+      return false
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const publish = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const start = new Date(startsAt)
+    const end = new Date(start.getTime() + duration * 60 * 1000)
+    if (await send(`/api/listings/${listingId}/appointments`, 'POST', {
+      locationId,
+      slots: [{ startsAt: start.toISOString(), endsAt: end.toISOString() }],
+    })) {
+      setStartsAt('')
+    }
+  }
+
+  const book = (slot: Slot) => {
+    if (!confirm(`Book a ${type === 'test_drive' ? 'test drive' : 'viewing'} on ${formatTime(slot.startsAt)} at ${slot.location.name}?`)) return
+    send('/api/appointments', 'POST', { slotId: slot.id, type })
+  }
+
+  const update = (appointment: Appointment, action: string) => {
+    if (action === 'cancel' && !confirm('Cancel this appointment?')) return
+    if (action === 'no_show' && !confirm(`Report that the ${appointment.role === 'buyer' ? 'seller' : 'buyer'} did not show up?`)) return
+    send(`/api/appointments/${appointment.id}`, 'POST', { action })
+  }
+
+  if (!state || (state.role !== 'seller' && state.slots.length === 0 && state.appointments.length === 0)) {
+    return null
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6">
+      <h3 className="text-lg font-semibold text-gray-900 mb-1">Viewing &amp; Test Drive</h3>
+      <p className="text-xs text-gray-500 mb-4">Meetings take place at verified safe locations such as police stations and shopping centres.</p>
+
+      {state.appointments.length > 0 && (
+        <div className="space-y-3 mb-4">
+          {state.appointments.map(appointment => (
+            <div key={appointment.id} className="border border-gray-200 rounded-lg p-3 text-sm">
+              <div className="flex items-center justify-between mb-1">
+                <span className="font-medium text-gray-900">
+                  {appointment.type === 'test_drive' ? 'Test drive' : 'Viewing'} · {formatTime(appointment.startsAt)}
+                </span>
+                <span className="text-xs px-2 py-1 rounded-full bg-gray-100 text-gray-700">
+                  {STATUS_LABELS[appointment.status] || appointment.status}
+                </span>
+              </div>
+              <p className="text-xs text-gray-600">{appointment.location.name}, {appointment.location.address}</p>
+              <p className="text-xs text-gray-500 mb-2">
+                With {appointment.role === 'seller' ? appointment.buyer.name : appointment.seller.name}
+              </p>
+              <div className="flex flex-wrap gap-2">
+                {appointment.status === 'booked' && (
+                  <a
+                    href={`/api/appointments/${appointment.id}`}
+                    className="px-3 py-1 bg-gray-100 text-gray-700 rounded text-xs hover:bg-gray-200"
+                  >
+                    Add to calendar
+                  </a>
+                )}
+                {appointment.actions.map(action => (
+                  <button
+                    key={action}
+                    onClick={() => update(appointment, action)}
+                    disabled={submitting}
+                    className={`px-3 py-1 rounded text-xs disabled:opacity-50 ${
+                      action === 'complete' ? 'bg-green-600 text-white hover:bg-green-700' : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+                    }`}
+                  >
+                    {ACTION_LABELS[action]}
+                  </button>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {state.role === 'seller' && (
+        <form onSubmit={publish} className="space-y-2 mb-4">
+          <select
+            value={locationId}
+            onChange={(e) => setLocationId(e.target.value)}
+            required
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+          >
+            <option value="">Choose a safe location in {state.city}</option>
+            {locations.map(location => (
+              <option key={location.id} value={location.id}>{location.name}</option>
+            ))}
+          </select>
+          <div className="flex gap-2">
+            <input
+              type="datetime-local"
+              value={startsAt}
+              onChange={(e) => setStartsAt(e.target.value)}
+              required
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm"
+            />
+            <select
+              value={duration}
+              onChange={(e) => setDuration(Number(e.target.value))}
+              className="px-2 py-2 border border-gray-300 rounded-lg text-sm"
+              aria-label="Duration"
+            >
+              {DURATIONS.map(minutes => (
+                <option key={minutes} value={minutes}>{minutes} min</option>
+              ))}
+            </select>
+          </div>
+          <button
+            type="submit"
+            disabled={submitting || !locationId || !startsAt}
+            className="w-full bg-blue-600 text-white py-2 px-4 rounded-lg hover:bg-blue-700 text-sm font-medium disabled:opacity-50"
+          >
+            Add available time
+          </button>
+        </form>
+      )}
+
+      {state.slots.length > 0 && (
+        <div>
+          {state.canBook && (
+            <select
+              value={type}
+              onChange={(e) => setType(e.target.value as 'viewing' | 'test_drive')}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm mb-2"
+              aria-label="Appointment type"
+            >
+              <option value="viewing">Viewing</option>
+              <option value="test_drive">Test drive</option>
+            </select>
+          )}
+          <ul className="space-y-2">
+            {state.slots.map(slot => (
+              <li key={slot.id} className="flex items-center justify-between text-sm border border-gray-100 rounded-lg p-2">
+                <div>
+                  <div className="text-gray-900">{formatTime(slot.startsAt)}</div>
+                  <div className="text-xs text-gray-500">{slot.location.name}</div>
+                </div>
+                {state.role === 'seller' ? (
+                  slot.status === 'open' ? (
+                    <button
+                      onClick={() => send(`/api/listings/${listingId}/appointments?slotId=${slot.id}`, 'DELETE')}
+                      disabled={submitting}
+                      className="px-3 py-1 bg-gray-200 text-gray-700 rounded text-xs hover:bg-gray-300 disabled:opacity-50"
+                    >
+                      Remove
+                    </button>
+                  ) : (
+                    <span className="text-xs text-gray-500">Booked</span>
+                  )
+                ) : state.canBook ? (
+                  <button
+                    onClick={() => book(slot)}
+                    disabled={submitting}
+                    className="px-3 py-1 bg-blue-600 text-white rounded text-xs hover:bg-blue-700 disabled:opacity-50"
+                  >
+                    Book
+                  </button>
+                ) : !state.role ? (
+                  <span className="text-xs text-gray-500">Sign in to book</span>
+                ) : null}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,224 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import Image from 'next/image'
+import { FavoriteButton } from './favorite-button'
+
+interface Listing {
+  id: string
+  title: string
+  price: number
+  year: number
+  mileage: number
+  fuelType: string
+  transmission: string
+  city: string
+  images: string[]
+}
+
+interface FacetValue {
+  value: string
+  count: number
+}
+
+interface Facets {
+  make: FacetValue[]
+  fuelType: FacetValue[]
+  transmission: FacetValue[]
+  bodyType: FacetValue[]
+}
+
+interface Pagination {
+  page: number
+  limit: number
+  total: number
+  pages: number
+}
+
+interface DealerInventoryProps {
+  dealerId: string
+}
+
+const FILTER_KEYS = ['search', 'make', 'fuelType', 'transmission', 'bodyType', 'minPrice', 'maxPrice', 'minYear', 'maxYear'] as const
+
+type Filters = Record<typeof FILTER_KEYS[number], string>
+
+const emptyFilters: Filters = {
+  search: '',
+  make: '',
+  fuelType: '',
+  transmission: '',
+  bodyType: '',
+  minPrice: '',
+  maxPrice: '',
+  minYear: '',
+  maxYear: '',
+}
+
+const emptyFacets: Facets = { make: [], fuelType: [], transmission: [], bodyType: [] }
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent'
+
+// The dealer's own cars with the marketplace search, filters and facet counts
+// scoped to the dealer through the `seller` query parameter
+export function DealerInventory({ dealerId }: DealerInventoryProps) {
+  const [listings, setListings] = useState<Listing[]>([])
+  const [facets, setFacets] = useState<Facets>(emptyFacets)
+  const [filters, setFilters] = useState<Filters>(emptyFilters)
+  const [sort, setSort] = useState('newest')
+  const [page, setPage] = useState(1)
+  const [pagination, setPagination] = useState<Pagination>({ page: 1, limit: 12, total: 0, pages: 1 })
+  const [loading, setLoading] = useState(true)
+
+  const buildParams = useCallback(() => {
+    const params = new URLSearchParams({ seller: dealerId })
+    FILTER_KEYS.forEach(key => {
+      if (filters[key]) params.append(key, filters[key])
+    })
+    return params
+  }, [dealerId, filters])
+
+  useEffect(() => {
+    const params = buildParams()
+    params.append('sort', filters.search && sort === 'newest' ? 'relevance' : sort)
+    params.append('page', page.toString())
+
+    setLoading(true)
+    fetch(`/api/listings?${params.toString()}`)
+      .then(response => response.ok ? response.json() : { listings: [], pagination: null })
+      .then(data => {
+        setListings(data.listings || [])
+        if (data.pagination) setPagination(data.pagination)
+      })
+      .catch(error => console.error('Error fetching dealer inventory:', error))
+      .finally(() => setLoading(false))
+  }, [buildParams, filters.search, sort, page])
+
+  useEffect(() => {
+    fetch(`/api/listings/facets?${buildParams().toString()}`)
+      .then(response => response.ok ? response.json() : emptyFacets)
+      .then(setFacets)
+      .catch(error => console.error('Error fetching facets:', error))
+  }, [buildParams])
+
+  const handleFilterChange = (key: keyof Filters, value: string) => {
+    setFilters(prev => ({ ...prev, [key]: value }))
+    setPage(1)
+  }
+
+  const facetSelect = (key: 'make' | 'fuelType' | 'transmission' | 'bodyType', label: string) => (
+    <select
+      value={filters[key]}
+      onChange={(e) => handleFilterChange(key, e.target.value)}
+      className={inputClass}
+      aria-label={label}
+    >
+      <option value="">{label}</option>
+      {facets[key].map(facet => (
+        <option key={facet.value} value={facet.value}>{facet.value} ({facet.count})</option>
+      ))}
+    </select>
+  )
+
+  return (
+    <div>
+      <div className="bg-white rounded-lg shadow-md p-4 mb-6">
+        <div className="grid md:grid-cols-4 gap-3">
+          <input
+            type="text"
+            value={filters.search}
+            onChange={(e) => handleFilterChange('search', e.target.value)}
+            placeholder="Kërko në inventar..."
+            className={`${inputClass} md:col-span-2`}
+          />
+          {facetSelect('make', 'Të gjitha Markat')}
+          {facetSelect('fuelType', 'Çdo Karburant')}
+          {facetSelect('transmission', 'Çdo Transmision')}
+          {facetSelect('bodyType', 'Çdo Karroceri')}
+          <div className="grid grid-cols-2 gap-2">
+            <input type="number" value={filters.minPrice} onChange={(e) => handleFilterChange('minPrice', e.target.value)} placeholder="Min €" className={inputClass} />
+            <input type="number" value={filters.maxPrice} onChange={(e) => handleFilterChange('maxPrice', e.target.value)} placeholder="Max €" className={inputClass} />
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <input type="number" value={filters.minYear} onChange={(e) => handleFilterChange('minYear', e.target.value)} placeholder="Nga viti" className={inputClass} />
+            <input type="number" value={filters.maxYear} onChange={(e) => handleFilterChange('maxYear', e.target.value)} placeholder="Deri" className={inputClass} />
+          </div>
+        </div>
+      </div>
+
+      <div className="flex justify-between items-center mb-4">
+        <p className="text-gray-600">{pagination.total} makina në shitje</p>
+        <select
+          value={sort}
+          onChange={(e) => { setSort(e.target.value); setPage(1) }}
+          className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+          aria-label="Rendit"
+        >
+          <option value="newest">Më të Rejat</option>
+          <option value="price_asc">Çmimi: Nga më i Ulëti</option>
+          <option value="price_desc">Çmimi: Nga më i Larti</option>
+          <option value="mileage_asc">Kilometrazhi: Nga më i Ulëti</option>
+          <option value="year_desc">Viti: Nga më të Rejat</option>
+        </select>
+      </div>
+
+      {loading ? (
+        <div className="text-center py-12">
+          <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        </div>
+      ) : listings.length === 0 ? (
+        <p className="text-center text-gray-600 py-12">Asnjë makinë nuk përputhet me filtrat.</p>
+      ) : (
+        <div className="grid md:grid-cols-2 xl:grid-cols-3 gap-6">
+          {listings.map(listing => (
+            <div key={listing.id} className="bg-white rounded-lg shadow-md overflow-hidden hover:shadow-lg transition-shadow">
+              <a href={`/listings/${listing.id}`} className="block h-48 bg-gradient-to-br from-gray-100 to-gray-200">
+                {listing.images.length > 0 && (
+                  <Image
+                    src={listing.images[0]}
+                    alt={listing.title}
+                    width={300}
+                    height={200}
+                    className="w-full h-48 object-cover"
+                  />
+                )}
+              </a>
+              <div className="p-4">
+                <div className="flex items-start justify-between">
+                  <a href={`/listings/${listing.id}`} className="text-lg font-semibold text-gray-900 hover:text-blue-600">
+                    {listing.title}
+                  </a>
+                  <FavoriteButton listingId={listing.id} className="p-1 ml-2" />
+                </div>
+                <div className="text-2xl font-bold text-blue-600 my-2">€{listing.price.toLocaleString()}</div>
+                <div className="text-sm text-gray-600">
+                  {listing.year} · {listing.mileage.toLocaleString()} km · {listing.fuelType} · {listing.transmission}
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {!loading && pagination.pages > 1 && (
+        <div className="mt-8 flex justify-center gap-2">
+          <button
+            onClick={() => setPage(page - 1)}
+            disabled={pagination.page <= 1}
+            className="px-3 py-2 text-sm border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+          >
+            Previous
+          </button>
+          <span className="px-3 py-2 text-sm text-gray-600">{pagination.page} / {pagination.pages}</span>
+          <button
+            onClick={() => setPage(page + 1)}
+            disabled={pagination.page >= pagination.pages}
+            className="px-3 py-2 text-sm border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+          >
+            Next
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
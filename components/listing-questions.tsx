@@ -0,0 +1,178 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+
+interface ListingQuestion {
+  id: string
+  question: string
+  answer: string | null
+  answerStatus?: string | null // Only sent to the seller
+  answeredAt: string | null
+  createdAt: string
+  status: string
+  askerName: string
+  mine: boolean
+}
+
+interface QuestionsState {
+  isSeller: boolean
+  canAsk: boolean
+  questions: ListingQuestion[]
+}
+
+interface ListingQuestionsProps {
+  listingId: string
+}
+
+// Public questions to the seller with their answers; the seller answers
+// inline, buyers see their own questions while they are being reviewed
+export function ListingQuestions({ listingId }: ListingQuestionsProps) {
+  const [state, setState] = useState<QuestionsState | null>(null)
+  const [question, setQuestion] = useState('')
+  const [answers, setAnswers] = useState<Record<string, string>>({})
+  const [notice, setNotice] = useState('')
+  const [submitting, setSubmitting] = useState(false)
+
+  const load = () => {
+    fetch(`/api/listings/${listingId}/questions`)
+      .then(response => response.ok ? response.json() : null)
+      .then(setState)
+      .catch(error => console.error('Error fetching questions:', error))
+  }
+
+  useEffect(load, [listingId])
+
+  const send = async (url: string, method: string, body?: Record<string, unknown>) => {
+    setSubmitting(true)
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        ...(body && { body: JSON.stringify(body) }),
+      })
+      const result = await response.json()
+      if (!response.ok) {
+        throw new Error(result.details?.[0]?.message || result.error || 'Failed to save')
+      }
+      load()
+      return result
+    } catch (error) {
+      console.error('Error saving question:', error)
+      alert(`Error: ${error instanceof Error ? error.message : 'Failed to save'}`)
+      return null
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const ask = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const result = await send(`/api/listings/${listingId}/questions`, 'POST', { question })
+    if (result) {
+      setQuestion('')
+      setNotice(result.question.status === 'published'
+        ? 'Your question is live. The seller has been notified.'
+        : result.question.status === 'pending'
+          ? 'Your question will appear once it has been reviewed.'
+          : 'Your question could not be published. Please keep it about the car.')
+    }
+  }
+
+  const answer = (questionId: string) =>
+    send(`/api/listings/${listingId}/questions/${questionId}`, 'POST', { answer: answers[questionId] })
+
+  const remove = (questionId: string) => {
+    if (!confirm('Remove this question from the listing?')) return
+    send(`/api/listings/${listingId}/questions/${questionId}`, 'DELETE')
+  }
+
+  if (!state) return null
+
+  return (
+    <div id="questions" className="mb-8">
+      <h2 className="text-xl font-semibold text-gray-900 mb-4">Questions &amp; Answers</h2>
+
+      {state.canAsk && (
+        <form onSubmit={ask} className="mb-6">
+          <textarea
+            value={question}
+            onChange={(e) => setQuestion(e.target.value)}
+            maxLength={300}
+            rows={2}
+            placeholder="Ask the seller, e.g. is the timing belt done? Are customs paid?"
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm mb-2"
+          />
+          <div className="flex items-center justify-between">
+            <span className="text-xs text-gray-500">Questions and answers are public.</span>
+            <button
+              type="submit"
+              disabled={submitting || question.trim().length < 5}
+              className="bg-blue-600 text-white py-2 px-4 rounded-lg hover:bg-blue-700 text-sm disabled:opacity-50"
+            >
+              Ask
+            </button>
+          </div>
+          {notice && <p className="text-sm text-gray-600 mt-2">{notice}</p>}
+        </form>
+      )}
+
+      {state.questions.length === 0 ? (
+        <p className="text-sm text-gray-500">No questions yet.</p>
+      ) : (
+        <ul className="space-y-4">
+          {state.questions.map(item => (
+            <li key={item.id} className="border-b border-gray-100 pb-4">
+              <div className="flex items-start justify-between">
+                <p className="text-gray-900">
+                  <span className="font-semibold mr-1">Q:</span>{item.question}
+                </p>
+                {state.isSeller && (
+                  <button
+                    onClick={() => remove(item.id)}
+                    disabled={submitting}
+                    className="text-xs text-gray-400 hover:text-red-600 ml-2"
+                  >
+                    Remove
+                  </button>
+                )}
+              </div>
+              <p className="text-xs text-gray-500 mt-1">
+                {item.mine ? 'You' : item.askerName} · {new Date(item.createdAt).toLocaleDateString()}
+                {item.status === 'pending' && ' · Awaiting review'}
+                {item.status === 'rejected' && ' · Not published'}
+              </p>
+
+              {item.answer && (
+                <p className="text-gray-700 mt-2 pl-4 border-l-2 border-blue-200">
+                  <span className="font-semibold mr-1">A:</span>{item.answer}
+                  {item.answerStatus === 'pending' && <span className="text-xs text-gray-500 ml-2">Awaiting review</span>}
+                  {item.answerStatus === 'rejected' && <span className="text-xs text-gray-500 ml-2">Not published</span>}
+                </p>
+              )}
+
+              {state.isSeller && (
+                <div className="flex gap-2 mt-2">
+                  <input
+                    type="text"
+                    value={answers[item.id] ?? item.answer ?? ''}
+                    onChange={(e) => setAnswers({ ...answers, [item.id]: e.target.value })}
+                    maxLength={1000}
+                    placeholder="Answer publicly"
+                    className="flex-1 px-3 py-1 border border-gray-300 rounded text-sm"
+                  />
+                  <button
+                    onClick={() => answer(item.id)}
+                    disabled={submitting || !answers[item.id]?.trim()}
+                    className="px-3 py-1 bg-blue-600 text-white rounded text-sm hover:bg-blue-700 disabled:opacity-50"
+                  >
+                    {item.answer ? 'Update' : 'Answer'}
+                  </button>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
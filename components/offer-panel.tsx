@@ -0,0 +1,283 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+
+interface OfferEvent {
+  id: string
+  actorRole: 'buyer' | 'seller' | 'system'
+  action: string
+  amount: number | null
+  message: string | null
+  createdAt: string
+}
+
+interface Offer {
+  id: string
+  status: string
+  amount: number
+  currency: string
+  awaiting: 'buyer' | 'seller'
+  expiresAt: string
+  escrowTransactionId: string | null
+  role: 'buyer' | 'seller' | null
+  actions: string[]
+  buyer: { id: string; name: string }
+  events: OfferEvent[]
+}
+
+interface OfferState {
+  role: 'buyer' | 'seller' | null
+  canOffer: boolean
+  offers: Offer[]
+}
+
+interface OfferPanelProps {
+  listingId: string
+  currency?: string
+}
+
+const EXPIRY_OPTIONS = [
+  { hours: 24, label: '1 day' },
+  { hours: 48, label: '2 days' },
+  { hours: 72, label: '3 days' },
+  { hours: 168, label: '1 week' },
+]
+
+const EVENT_LABELS: Record<string, string> = {
+  offer: 'offered',
+  counter: 'countered with',
+  accept: 'accepted',
+  decline: 'declined',
+  withdraw: 'withdrew the offer',
+  expire: 'Offer expired',
+}
+
+// Make-an-offer form for buyers and the negotiation history with
+// accept/decline/counter buttons for whichever side the offer is waiting on
+export function OfferPanel({ listingId, currency = 'EUR' }: OfferPanelProps) {
+  const [state, setState] = useState<OfferState | null>(null)
+  const [amount, setAmount] = useState('')
+  const [message, setMessage] = useState('')
+  const [expiresInHours, setExpiresInHours] = useState(48)
+  const [counterAmounts, setCounterAmounts] = useState<Record<string, string>>({})
+  const [escrow, setEscrow] = useState(false)
+  const [submitting, setSubmitting] = useState(false)
+
+  const load = () => {
+    fetch(`/api/listings/${listingId}/offers`)
+      .then(response => response.ok ? response.json() : null)
+      .then(setState)
+      .catch(error => console.error('Error fetching offers:', error))
+  }
+
+  useEffect(load, [listingId])
+
+  const submit = async (url: string, body: Record<string, unknown>) => {
+    setSubmitting(true)
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      })
+      const result = await response.json()
+      if (!response.ok) {
+        throw new Error(result.details?.[0]?.message || result.error || 'Failed to update the offer')
+      }
+      if (result.escrow && !result.escrow.success) {
+        alert(`Offer accepted, but escrow could not be opened: ${result.escrow.error}`)
+      }
+      setAmount('')
+      setMessage('')
+      setCounterAmounts({})
+      load()
+    } catch (error) {
+      console.error('Error updating offer:', error)
+      alert(`Error: ${error instanceof Error ? error.message : 'Failed to update the offer'}`)
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const makeOffer = (e: React.FormEvent) => {
+    e.preventDefault()
+    submit(`/api/listings/${listingId}/offers`, { amount: Number(amount), message, expiresInHours })
+  }
+
+  const respond = (offer: Offer, action: string) => {
+    if (action === 'accept' && !confirm(`Accept ${offer.amount.toLocaleString()} ${offer.currency}? The car will be reserved for the buyer.`)) return
+    if (action === 'decline' && !confirm('Decline this offer?')) return
+    if (action === 'withdraw' && !confirm('Withdraw your offer?')) return
+
+    submit(`/api/offers/${offer.id}`, {
+      action,
+      ...(action === 'counter' && { amount: Number(counterAmounts[offer.id]), expiresInHours }),
+      ...(action === 'accept' && { escrow }),
+    })
+  }
+
+  if (!state || (!state.canOffer && state.offers.length === 0)) {
+    return null
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6">
+      <h3 className="text-lg font-semibold text-gray-900 mb-4">
+        {state.role === 'seller' ? 'Offers' : 'Make an Offer'}
+      </h3>
+
+      {state.canOffer && (
+        <form onSubmit={makeOffer} className="space-y-3 mb-4">
+          <div className="flex gap-2">
+            <input
+              type="number"
+              min="1"
+              required
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              placeholder={`Your price (${currency})`}
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm"
+            />
+            <select
+              value={expiresInHours}
+              onChange={(e) => setExpiresInHours(Number(e.target.value))}
+              className="px-2 py-2 border border-gray-300 rounded-lg text-sm"
+              aria-label="Offer valid for"
+            >
+              {EXPIRY_OPTIONS.map(option => (
+                <option key={option.hours} value={option.hours}>{option.label}</option>
+              ))}
+            </select>
+          </div>
+          <textarea
+            value={message}
+            onChange={(e) => setMessage(e.target.value)}
+            maxLength={500}
+            rows={2}
+            placeholder="Message to the seller (optional)"
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+          />
+          <button
+            type="submit"
+            disabled={submitting}
+            className="w-full bg-green-600 text-white py-2 px-4 rounded-lg hover:bg-green-700 text-sm font-medium disabled:opacity-50"
+          >
+            Send Offer
+          </button>
+        </form>
+      )}
+
+      <div className="space-y-4">
+        {state.offers.map(offer => (
+          <div key={offer.id} className="border border-gray-200 rounded-lg p-3">
+            <div className="flex items-center justify-between mb-2">
+              <span className="font-semibold text-gray-900">
+                {offer.amount.toLocaleString()} {offer.currency}
+              </span>
+              <span className="text-xs px-2 py-1 rounded-full bg-gray-100 text-gray-700 capitalize">
+                {offer.status === 'open'
+                  ? offer.awaiting === offer.role ? 'Your turn' : `Waiting for ${offer.awaiting}`
+                  : offer.status}
+              </span>
+            </div>
+            {state.role === 'seller' && (
+              <p className="text-xs text-gray-500 mb-2">From {offer.buyer.name}</p>
+            )}
+            {offer.status === 'open' && (
+              <p className="text-xs text-gray-500 mb-2">
+                Valid until {new Date(offer.expiresAt).toLocaleString()}
+              </p>
+            )}
+
+            <ul className="text-xs text-gray-600 space-y-1 mb-3">
+              {offer.events.map(event => (
+                <li key={event.id}>
+                  <span className="text-gray-400">{new Date(event.createdAt).toLocaleDateString()} </span>
+                  {event.actorRole === 'system'
+                    ? event.message || EVENT_LABELS[event.action]
+                    : <>
+                        <span className="capitalize">{event.actorRole === offer.role ? 'You' : event.actorRole}</span>{' '}
+                        {EVENT_LABELS[event.action]}
+                        {event.amount !== null && event.action !== 'accept' ? ` ${event.amount.toLocaleString()} ${offer.currency}` : ''}
+                        {event.message ? `: “${event.message}”` : ''}
+                      </>}
+                </li>
+              ))}
+            </ul>
+
+            {offer.actions.includes('counter') && (
+              <div className="flex gap-2 mb-2">
+                <input
+                  type="number"
+                  min="1"
+                  value={counterAmounts[offer.id] || ''}
+                  onChange={(e) => setCounterAmounts({ ...counterAmounts, [offer.id]: e.target.value })}
+                  placeholder="Counter amount"
+                  className="flex-1 px-2 py-1 border border-gray-300 rounded text-sm"
+                />
+                <button
+                  onClick={() => respond(offer, 'counter')}
+                  disabled={submitting || !counterAmounts[offer.id]}
+                  className="px-3 py-1 bg-blue-600 text-white rounded text-sm hover:bg-blue-700 disabled:opacity-50"
+                >
+                  Counter
+                </button>
+              </div>
+            )}
+
+            {offer.actions.includes('accept') && offer.role === 'buyer' && (
+              <label className="flex items-center text-xs text-gray-600 mb-2">
+                <input
+                  type="checkbox"
+                  checked={escrow}
+                  onChange={(e) => setEscrow(e.target.checked)}
+                  className="mr-2"
+                />
+                Pay through escrow
+              </label>
+            )}
+
+            <div className="flex gap-2">
+              {offer.actions.includes('accept') && (
+                <button
+                  onClick={() => respond(offer, 'accept')}
+                  disabled={submitting}
+                  className="flex-1 bg-green-600 text-white py-1 px-3 rounded text-sm hover:bg-green-700 disabled:opacity-50"
+                >
+                  Accept
+                </button>
+              )}
+              {offer.actions.includes('decline') && (
+                <button
+                  onClick={() => respond(offer, 'decline')}
+                  disabled={submitting}
+                  className="flex-1 bg-gray-200 text-gray-700 py-1 px-3 rounded text-sm hover:bg-gray-300 disabled:opacity-50"
+                >
+                  Decline
+                </button>
+              )}
+              {offer.actions.includes('withdraw') && (
+                <button
+                  onClick={() => respond(offer, 'withdraw')}
+                  disabled={submitting}
+                  className="flex-1 bg-gray-200 text-gray-700 py-1 px-3 rounded text-sm hover:bg-gray-300 disabled:opacity-50"
+                >
+                  Withdraw
+                </button>
+              )}
+              {offer.actions.includes('open_escrow') && (
+                <button
+                  onClick={() => respond(offer, 'open_escrow')}
+                  disabled={submitting}
+                  className="flex-1 bg-blue-600 text-white py-1 px-3 rounded text-sm hover:bg-blue-700 disabled:opacity-50"
+                >
+                  Open escrow
+                </button>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,81 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts'
+
+interface PricePoint {
+  date: string
+  price: number
+  reason: string | null
+}
+
+interface Revision {
+  version: number
+  editedAt: string
+  changes: Record<string, { from: unknown; to: unknown }>
+  flags: string[]
+}
+
+interface PriceHistoryProps {
+  listingId: string
+}
+
+export function PriceHistory({ listingId }: PriceHistoryProps) {
+  const [points, setPoints] = useState<PricePoint[]>([])
+  const [revisions, setRevisions] = useState<Revision[]>([])
+
+  useEffect(() => {
+    fetch(`/api/listings/${listingId}/price-history`)
+      .then(response => response.ok ? response.json() : { points: [] })
+      .then(data => setPoints(data.points || []))
+      .catch(error => console.error('Error fetching price history:', error))
+
+    fetch(`/api/listings/${listingId}/history`)
+      .then(response => response.ok ? response.json() : { revisions: [] })
+      .then(data => setRevisions(data.revisions || []))
+      .catch(error => console.error('Error fetching listing history:', error))
+  }, [listingId])
+
+  const mileageEdits = revisions.filter(revision => revision.flags.includes('mileage_decreased'))
+
+  if (points.length < 2 && mileageEdits.length === 0) {
+    return null
+  }
+
+  // Extend the last price to today so the step line reaches the present
+  const chartData = [...points, { ...points[points.length - 1], date: new Date().toISOString() }]
+    .map(point => ({ ...point, label: new Date(point.date).toLocaleDateString('sq-AL') }))
+
+  return (
+    <div>
+      <h2 className="text-xl font-semibold text-gray-900 mb-4">Price History</h2>
+
+      {points.length >= 2 && (
+        <div className="h-48">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={chartData}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="label" tick={{ fontSize: 12 }} />
+              <YAxis tick={{ fontSize: 12 }} tickFormatter={(value: number) => `€${value.toLocaleString()}`} width={80} />
+              <Tooltip formatter={(value) => [`€${Number(value).toLocaleString()}`, 'Price']} />
+              <Line type="stepAfter" dataKey="price" stroke="#2563eb" strokeWidth={2} dot />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+
+      {mileageEdits.length > 0 && (
+        <div className="mt-4 bg-yellow-50 border border-yellow-200 rounded-lg p-4 text-sm text-yellow-800">
+          <p className="font-medium mb-1">The seller lowered the mileage after publishing:</p>
+          <ul className="list-disc list-inside">
+            {mileageEdits.map(revision => (
+              <li key={revision.version}>
+                {new Date(revision.editedAt).toLocaleDateString('sq-AL')}: {Number(revision.changes.mileage?.from).toLocaleString()} km → {Number(revision.changes.mileage?.to).toLocaleString()} km
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,110 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+
+interface SaleState {
+  status: string
+  reservedUntil: string | null
+  role: 'seller' | 'buyer' | 'admin' | null
+  actions: string[]
+  currency?: string
+  salePrice?: number | null
+}
+
+interface SaleStatusProps {
+  listingId: string
+}
+
+// Status banner for reserved, pending and sold cars, plus the buyer's
+// confirm/decline buttons when the seller has recorded a sale to them
+export function SaleStatus({ listingId }: SaleStatusProps) {
+  const [state, setState] = useState<SaleState | null>(null)
+  const [submitting, setSubmitting] = useState(false)
+
+  useEffect(() => {
+    fetch(`/api/listings/${listingId}/status`)
+      .then(response => response.ok ? response.json() : null)
+      .then(setState)
+      .catch(error => console.error('Error fetching listing status:', error))
+  }, [listingId])
+
+  const respond = async (action: 'confirm_sale' | 'decline_sale') => {
+    const question = action === 'confirm_sale'
+      ? 'Confirm that you bought this car?'
+      : 'Decline this sale? The seller will be told it was not you.'
+    if (!confirm(question)) return
+
+    setSubmitting(true)
+    try {
+      const response = await fetch(`/api/listings/${listingId}/status`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action }),
+      })
+      const result = await response.json()
+      if (!response.ok) throw new Error(result.error || 'Failed to update the sale')
+      setState(result.state)
+    } catch (error) {
+      console.error('Error updating sale:', error)
+      alert(`Error: ${error instanceof Error ? error.message : 'Failed to update the sale'}`)
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  if (!state || state.status === 'active') {
+    return null
+  }
+
+  if (state.actions.includes('confirm_sale')) {
+    return (
+      <div className="p-4 bg-blue-50 border border-blue-200 rounded-lg mb-6">
+        <p className="text-sm text-blue-900 mb-3">
+          The seller has recorded that you bought this car
+          {state.salePrice ? ` for ${state.salePrice.toLocaleString()} ${state.currency}` : ''}.
+          Please confirm or decline.
+        </p>
+        <div className="flex gap-2">
+          <button
+            onClick={() => respond('confirm_sale')}
+            disabled={submitting}
+            className="flex-1 bg-blue-600 text-white py-2 px-4 rounded-lg hover:bg-blue-700 text-sm disabled:opacity-50"
+          >
+            Confirm purchase
+          </button>
+          <button
+            onClick={() => respond('decline_sale')}
+            disabled={submitting}
+            className="flex-1 bg-gray-200 text-gray-700 py-2 px-4 rounded-lg hover:bg-gray-300 text-sm disabled:opacity-50"
+          >
+            Decline
+          </button>
+        </div>
+      </div>
+    )
+  }
+
+  const banners: Record<string, { className: string; text: string }> = {
+    reserved: {
+      className: 'bg-yellow-50 border-yellow-200 text-yellow-800',
+      text: state.reservedUntil
+        ? `Reserved until ${new Date(state.reservedUntil).toLocaleDateString()}. You can still contact the seller in case it becomes available.`
+        : 'Reserved',
+    },
+    pending_sale: {
+      className: 'bg-purple-50 border-purple-200 text-purple-800',
+      text: 'Sale pending. The seller is waiting for the buyer to confirm.',
+    },
+    sold: {
+      className: 'bg-gray-100 border-gray-200 text-gray-800',
+      text: state.role === 'buyer' ? 'You bought this car.' : 'This car has been sold.',
+    },
+  }
+  const banner = banners[state.status]
+
+  return banner ? (
+    <div className={`p-4 border rounded-lg mb-6 text-sm ${banner.className}`}>
+      {banner.text}
+    </div>
+  ) : null
+}
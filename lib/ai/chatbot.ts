@@ -3,6 +3,7 @@
 import { AIProviderFactory } from './base';
 import { aiConfig, albanianLanguageConfig } from './config';
 import { prisma } from '@/lib/prisma';
+import { AnsweredQuestion, getAnsweredQuestions } from '@/lib/listings/questions';
 
 export interface ChatbotRequest {
   message: string;
@@ -400,7 +401,9 @@ Return in format:
   }
 
   private async generateAIResponse(intentAnalysis: IntentAnalysis, context: any, language: string): Promise<ChatbotResponse> {
-    const prompt = this.buildResponsePrompt(intentAnalysis, context, language);
+    // The seller's public answers are the most reliable facts about a specific car
+    const listingQuestions = context.listingId ? await getAnsweredQuestions(context.listingId) : [];
+    const prompt = this.buildResponsePrompt(intentAnalysis, context, language, listingQuestions);
 
     try {
       const response = await this.provider.generateText(prompt, {
@@ -417,8 +420,14 @@ Return in format:
     }
   }
 
-  private buildResponsePrompt(intentAnalysis: IntentAnalysis, context: any, language: string): string {
+  private buildResponsePrompt(
+    intentAnalysis: IntentAnalysis,
+    context: any,
+    language: string,
+    listingQuestions: AnsweredQuestion[] = []
+  ): string {
     const { intent, entities, sentiment, urgency } = intentAnalysis;
+    const faq = listingQuestions.map(({ question, answer }) => `- ${question} → ${answer}`).join('\n');
 
     if (language === 'sq') {
       return `Si asistent i ekspert për tregun shqiptar të automjeteve, përgjigjuni në këtë pyetje:
@@ -429,6 +438,7 @@ Sentimenti: ${sentiment}
 Urgjenca: ${urgency}
 
 ${context.listingId ? `Lidhur me listingun: ${context.listingId}` : ''}
+${faq ? `Pyetje të përgjigjura nga shitësi për këtë makinë (përdorini si fakte, mos shpikni të tjera):\n${faq}` : ''}
 
 Jepni një përgjigje të dobishme dhe profesionale në shqip. Përfshini:
 1. Përgjigje direkte në pyetje
@@ -446,6 +456,7 @@ Sentiment: ${sentiment}
 Urgency: ${urgency}
 
 ${context.listingId ? `Related to listing: ${context.listingId}` : ''}
+${faq ? `Questions the seller has answered about this car (treat as facts, do not invent others):\n${faq}` : ''}
 
 Provide a helpful and professional response in English. Include:
 1. Direct answer to the question
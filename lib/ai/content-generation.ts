@@ -3,6 +3,7 @@
 import { AIProviderFactory } from './base';
 import { aiConfig, albanianLanguageConfig } from './config';
 import { prisma } from '@/lib/prisma';
+import { answeredQuestionsQuery } from '@/lib/listings/questions';
 
 export interface ContentGenerationRequest {
   type: 'listing_description' | 'seo_title' | 'social_post' | 'email_template' | 'ad_copy';
@@ -128,6 +129,9 @@ export class ContentGenerationService {
       long: 'rreth 400 fjalë'
     };
 
+    const equipment = this.formatEquipmentList(listing, isAlbanian);
+    const answers = this.formatAnsweredQuestions(listing);
+
     if (isAlbanian) {
       return `Krijoni një përshkrim ${toneDescriptions[tone]} në shqip për këtë automjet në tregun shqiptar. Përshkrimi duhet të jetë ${lengthGuides[length]}.
 DETAJET E AUTOMJETIT:
@@ -141,12 +145,13 @@ DETAJET E AUTOMJETIT:
 - Ngjyra: ${listing.color || 'N/A'}
 - Vendndodhja: ${listing.city}${listing.region ? `, ${listing.region}` : ''}
 - Çmimi: ${(listing.price / 100).toLocaleString()} EUR
-
+${equipment ? `\nPAJISJET (të konfirmuara nga shitësi):\n${equipment}\n` : ''}
+${answers ? `\nPYETJE TË SHPESHTA (përgjigjur nga shitësi):\n${answers}\n` : ''}
 ${listing.description ? `PËRSHKRIMI AKTUAL: "${listing.description}"` : ''}
 
 KËRKESAT:
 1. Filloni me një titull tërheqës
-2. Theksoni veçoritë kryesore
+2. Theksoni veçoritë kryesore; përmendni vetëm pajisjet e listuara më sipër dhe përfshini faktet nga përgjigjet e shitësit
 3. Përmenndni gjendjen e automjetit
 4. Shtoni detaje për sigurinë dhe komfortin
 5. Përfundoni me një thirrje për veprim
@@ -184,12 +189,13 @@ VEHICLE DETAILS:
 - Color: ${listing.color || 'N/A'}
 - Location: ${listing.city}${listing.region ? `, ${listing.region}` : ''}
 - Price: ${(listing.price / 100).toLocaleString()} EUR
-
+${equipment ? `\nEQUIPMENT (confirmed by the seller):\n${equipment}\n` : ''}
+${answers ? `\nFREQUENT QUESTIONS (answered by the seller):\n${answers}\n` : ''}
 ${listing.description ? `CURRENT DESCRIPTION: "${listing.description}"` : ''}
 
 REQUIREMENTS:
 1. Start with an engaging headline
-2. Highlight key features
+2. Highlight key features; only mention equipment listed above and work in facts from the seller's answers
 3. Mention vehicle condition
 4. Add safety and comfort details
 5. End with call to action
@@ -454,6 +460,29 @@ Return 3 versions:`;
     };
   }
 
+  // Listing features arrive either as included ListingFeature rows
+  // ({ feature: { labelSq, labelEn } }) or as formatted API features ({ label, labelEn })
+  private formatEquipmentList(listing: any, isAlbanian: boolean): string {
+    const features: any[] = Array.isArray(listing?.features) ? listing.features : [];
+
+    return features
+      .map(item => item?.feature ?? item)
+      .map(feature => isAlbanian ? (feature?.labelSq ?? feature?.label) : feature?.labelEn)
+      .filter((label): label is string => typeof label === 'string' && label.length > 0)
+      .map(label => `- ${label}`)
+      .join('\n');
+  }
+
+  // Answered public Q&A, when the listing was loaded with `questions: answeredQuestionsQuery`
+  private formatAnsweredQuestions(listing: any): string {
+    const questions: any[] = Array.isArray(listing?.questions) ? listing.questions : [];
+
+    return questions
+      .filter(item => item?.question && item?.answer)
+      .map(item => `- ${item.question} → ${item.answer}`)
+      .join('\n');
+  }
+
   private getMaxTokensForLength(length: string): number {
     const tokenLimits: Record<string, number> = {
       short: 150,
@@ -679,7 +708,10 @@ Return 3 versions:`;
       try {
         const listing = await prisma.listing.findUnique({
           where: { id: listingId },
-          include: { user: true },
+          include: {
+            user: true,
+            questions: answeredQuestionsQuery,
+          },
         });
 
         if (listing) {
@@ -3,6 +3,7 @@
 import { AIProviderFactory } from './base';
 import { aiConfig } from './config';
 import { prisma } from '@/lib/prisma';
+import { screenListingImages } from '@/lib/listings/image-hashes';
 import crypto from 'crypto';
 
 export interface FraudAnalysisResult {
@@ -414,6 +415,24 @@ export class FraudDetectionService {
       });
     }
 
+    // Same photos (re-cropped or re-compressed) on another seller's listing
+    try {
+      const matches = await screenListingImages(listing);
+      if (matches.length > 0) {
+        const copiedImages = new Set(matches.map(match => match.imageUrl)).size;
+        const otherListings = Array.from(new Set(matches.map(match => match.matchedListingId)));
+        flags.push({
+          type: 'duplicate_images',
+          severity: copiedImages >= 3 ? 'critical' : 'high',
+          description: `${copiedImages} foto gjenden edhe në shpallje të shitësve të tjerë`,
+          evidence: { copiedImages, otherListings },
+          confidence: 0.85,
+        });
+      }
+    } catch (error) {
+      console.error(`Image hash screening failed for listing ${listing.id}:`, error);
+    }
+
     return { flags };
   }
 
@@ -6,6 +6,9 @@ import { engagementService } from './EngagementService'
 import { listingLifecycleService } from './ListingLifecycleService'
 import { socialMediaService } from './SocialMediaService'
 import { leadNurturingService } from './LeadNurturingService'
+import { sendAppointmentReminders } from '../listings/appointments'
+import { rollupListingViews } from '../listings/views'
+import { purgeAbandonedAttachments } from '../messaging/attachments'
 
 interface AutomationJobPayload {
   type: string
@@ -80,6 +83,22 @@ export class AutomationScheduler {
         executionCount: 0,
         failures: 0
       },
+      // Appointment Reminders - Every hour at quarter past
+      {
+        name: 'appointment_reminders',
+        schedule: '15 * * * *',
+        enabled: true,
+        executionCount: 0,
+        failures: 0
+      },
+      // Listing View Rollup - Every hour
+      {
+        name: 'listing_view_rollup',
+        schedule: '5 * * * *',
+        enabled: true,
+        executionCount: 0,
+        failures: 0
+      },
       // Social Media Posts - Three times daily
       {
         name: 'social_media_posts',
@@ -223,6 +242,14 @@ export class AutomationScheduler {
         await listingLifecycleService.processListingLifecycle()
         break
 
+      case 'appointment_reminders':
+        await sendAppointmentReminders()
+        break
+
+      case 'listing_view_rollup':
+        await rollupListingViews()
+        break
+
       case 'social_media_posts':
         await socialMediaService.processScheduledPosts()
         break
@@ -306,6 +333,10 @@ export class AutomationScheduler {
         }
       })
 
+      // Attachments uploaded but never sent with a message
+      const purgedAttachments = await purgeAbandonedAttachments()
+      console.log(`Purged ${purgedAttachments} unsent message attachments`)
+
       console.log('✅ Cleanup tasks completed')
     } catch (error) {
       console.error('❌ Cleanup tasks failed:', error)
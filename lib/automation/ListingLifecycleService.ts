@@ -1,10 +1,18 @@
 import { PrismaClient } from '@prisma/client'
 import { emailService } from '../email'
 import { smsService } from '../sms'
+import { STALE_DRAFT_DAYS, draftImages, removeUnreferencedUploads } from '../listings/drafts'
+import { releaseExpiredReservations } from '../listings/sale-workflow'
+import { expireStaleOffers } from '../listings/offers'
+import { notifyUnansweredQuestions } from '../listings/questions'
+import { renewalLink } from '../listings/renewal'
+import { getListingViewStats } from '../listings/views'
 
 interface ListingPerformanceMetrics {
   listingId: string
   viewCount: number
+  viewsLast7Days: number
+  viewsLast30Days: number
   favoriteCount: number
   messageCount: number
   daysSinceListed: number
@@ -32,6 +40,10 @@ export class ListingLifecycleService {
       await this.processRelistingSuggestions()
       await this.processSeasonalOptimization()
       await this.cleanupExpiredListings()
+      await this.releaseLapsedReservations()
+      await this.expireLapsedOffers()
+      await this.remindUnansweredQuestions()
+      await this.cleanupStaleDrafts()
 
       console.log('✅ Completed listing lifecycle processing')
     } catch (error) {
@@ -108,12 +120,13 @@ export class ListingLifecycleService {
       const user = listing.user
       const preferences = user.automationPreferences
 
-      if (!preferences?.emailNotifications) return
+      if (preferences && !preferences.emailEnabled) return
 
       const emailTemplate = emailService.getListingExpiryAlbanianEmail(
         user.name || 'Shfrytëzues',
         listing,
-        daysLeft
+        daysLeft,
+        renewalLink(listing)
       )
 
       const success = await emailService.sendEmail({
@@ -127,7 +140,7 @@ export class ListingLifecycleService {
         await this.logNotification(listing.userId, 'lifecycle', 'email', `expiry_${daysLeft}day`)
 
         // Send SMS for urgent reminders (1 day)
-        if (daysLeft === 1 && preferences.smsNotifications && user.phone) {
+        if (daysLeft === 1 && preferences?.smsEnabled && user.phone) {
           const smsTemplate = smsService.getListingExpirySms(listing.title, daysLeft)
           await smsService.sendSms({
             to: user.phone,
@@ -181,21 +194,16 @@ export class ListingLifecycleService {
   // Analyze listing performance and generate suggestions
   private async analyzeListingPerformance(listing: any): Promise<ListingPerformanceMetrics> {
     try {
-      // Get interaction data
-      const interactions = await this.prisma.userInteraction.findMany({
-        where: {
-          type: 'view',
-          listingId: listing.id
-        }
-      })
+      // Get deduplicated view counts from the daily rollup
+      const views = (await getListingViewStats([listing.id])).get(listing.id)!
 
       const daysSinceListed = Math.floor((Date.now() - listing.createdAt.getTime()) / (1000 * 60 * 60 * 24))
-      const viewCount = interactions.length
+      const viewCount = views.total
       const favoriteCount = listing.favorites.length
       const messageCount = listing.messages.length
 
-      // Calculate metrics
-      const viewsPerDay = daysSinceListed > 0 ? viewCount / daysSinceListed : 0
+      // Calculate metrics; the daily rate reflects the last 30 days, not the launch week
+      const viewsPerDay = daysSinceListed > 0 ? views.last30Days / Math.min(daysSinceListed, 30) : 0
       const conversionRate = viewCount > 0 ? (messageCount / viewCount) * 100 : 0
 
       // Generate suggestions based on performance
@@ -229,6 +237,8 @@ export class ListingLifecycleService {
       return {
         listingId: listing.id,
         viewCount,
+        viewsLast7Days: views.last7Days,
+        viewsLast30Days: views.last30Days,
         favoriteCount,
         messageCount,
         daysSinceListed,
@@ -243,6 +253,8 @@ export class ListingLifecycleService {
       return {
         listingId: listing.id,
         viewCount: 0,
+        viewsLast7Days: 0,
+        viewsLast30Days: 0,
         favoriteCount: 0,
         messageCount: 0,
         daysSinceListed: 0,
@@ -349,6 +361,7 @@ export class ListingLifecycleService {
               <h3 style="margin-top: 0; color: #1e40af;">📊 Statistikat e shpalljes:</h3>
               <ul style="color: #1e3a8a; line-height: 1.8;">
                 <li><strong>${metrics.viewCount}</strong> shikime në ${metrics.daysSinceListed} ditë</li>
+                <li><strong>${metrics.viewsLast7Days}</strong> shikime në 7 ditët e fundit, <strong>${metrics.viewsLast30Days}</strong> në 30 ditët e fundit</li>
                 <li><strong>${metrics.favoriteCount}</strong> shtim në të preferuarat</li>
                 <li><strong>${metrics.messageCount}</strong> mesazhe nga të interesuarit</li>
                 <li>Shkalla e konvertimit: <strong>${metrics.conversionRate.toFixed(1)}%</strong></li>
@@ -418,7 +431,7 @@ export class ListingLifecycleService {
       const user = listing.user
       const preferences = user.automationPreferences
 
-      if (!preferences?.emailNotifications) return
+      if (preferences && !preferences.emailEnabled) return
 
       // Check if relisting suggestion already sent
       const existingSuggestion = await this.prisma.notificationLog.findFirst({
@@ -458,6 +471,8 @@ export class ListingLifecycleService {
     html: string
     text: string
   } {
+    const relistUrl = renewalLink(listing)
+
     return {
       subject: `🔄 Rilistoni makinën: ${listing.title}`,
       html: `
@@ -483,7 +498,7 @@ export class ListingLifecycleService {
             </div>
 
             <div style="text-align: center; margin: 30px 0;">
-              <a href="${process.env.NEXTAUTH_URL}/dashboard"
+              <a href="${relistUrl}"
                  style="background: #7c3aed; color: white; padding: 15px 30px; text-decoration: none; border-radius: 6px; font-weight: bold; font-size: 16px;">
                 Rilistoni Tani
               </a>
@@ -500,7 +515,7 @@ export class ListingLifecycleService {
           </div>
         </div>
       `,
-      text: `Rilistoni "${listing.title}" për pozicionim më të mirë dhe më shumë shikime. Filloni: ${process.env.NEXTAUTH_URL}/dashboard`
+      text: `Rilistoni "${listing.title}" për pozicionim më të mirë dhe më shumë shikime. Rilistoni me një klikim: ${relistUrl}`
     }
   }
 
@@ -686,6 +701,67 @@ export class ListingLifecycleService {
     }
   }
 
+  // Put cars back on the market when their reservation runs out
+  private async releaseLapsedReservations(): Promise<void> {
+    try {
+      const released = await releaseExpiredReservations()
+      console.log(`🔓 Released ${released} lapsed reservations`)
+    } catch (error) {
+      console.error('Error releasing lapsed reservations:', error)
+    }
+  }
+
+  // Close offers nobody answered before they ran out
+  private async expireLapsedOffers(): Promise<void> {
+    try {
+      const expired = await expireStaleOffers()
+      console.log(`⌛ Expired ${expired} unanswered offers`)
+    } catch (error) {
+      console.error('Error expiring lapsed offers:', error)
+    }
+  }
+
+  // Let sellers know about public questions waiting for an answer
+  private async remindUnansweredQuestions(): Promise<void> {
+    try {
+      const sent = await notifyUnansweredQuestions()
+      console.log(`❓ Sent ${sent} unanswered question emails`)
+    } catch (error) {
+      console.error('Error sending unanswered question emails:', error)
+    }
+  }
+
+  // Delete drafts untouched for STALE_DRAFT_DAYS and the photos only they used
+  private async cleanupStaleDrafts(): Promise<void> {
+    try {
+      const cutoff = new Date(Date.now() - STALE_DRAFT_DAYS * 24 * 60 * 60 * 1000)
+
+      const staleDrafts = await this.prisma.listingDraft.findMany({
+        where: { updatedAt: { lt: cutoff } },
+        select: { id: true, userId: true, images: true }
+      })
+
+      if (staleDrafts.length === 0) return
+
+      // Re-check the cutoff so a draft autosaved meanwhile survives
+      const result = await this.prisma.listingDraft.deleteMany({
+        where: {
+          id: { in: staleDrafts.map(draft => draft.id) },
+          updatedAt: { lt: cutoff }
+        }
+      })
+
+      let removedImages = 0
+      for (const draft of staleDrafts) {
+        removedImages += await removeUnreferencedUploads(draft.userId, draftImages(draft.images))
+      }
+
+      console.log(`🧹 Deleted ${result.count} stale drafts and ${removedImages} orphaned photos`)
+    } catch (error) {
+      console.error('Error cleaning up stale drafts:', error)
+    }
+  }
+
   // Log notification delivery
   private async logNotification(userId: string, type: string, channel: string, subtype: string): Promise<void> {
     try {
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest'
+import { CalendarEvent, buildCalendarEvent } from './calendar'
+
+const event: CalendarEvent = {
+  uid: 'appointment-1@automarket',
+  start: new Date('2026-05-04T09:30:00Z'),
+  end: new Date('2026-05-04T10:00:00Z'),
+  summary: 'Test-drive: BMW 320d, 2018',
+}
+
+function contentLines(ics: string): string[] {
+  return ics.split('\r\n').filter(Boolean)
+}
+
+// Join folded continuation lines back into content lines (RFC 5545 3.1)
+function unfold(ics: string): string[] {
+  return contentLines(ics.replace(/\r\n /g, ''))
+}
+
+describe('buildCalendarEvent', () => {
+  it('writes UTC times and CRLF line endings', () => {
+    const ics = buildCalendarEvent(event)
+
+    expect(ics.endsWith('\r\n')).toBe(true)
+    expect(ics).not.toMatch(/[^\r]\n/)
+    expect(unfold(ics)).toEqual(expect.arrayContaining(['DTSTART:20260504T093000Z', 'DTEND:20260504T100000Z']))
+  })
+
+  it('escapes commas, semicolons, backslashes and newlines', () => {
+    const ics = buildCalendarEvent({ ...event, location: 'Rruga e Kavajës; Tirana, AL', description: 'Bring\nthe papers \\ keys' })
+
+    expect(unfold(ics)).toEqual(expect.arrayContaining([
+      'LOCATION:Rruga e Kavajës\\; Tirana\\, AL',
+      'DESCRIPTION:Bring\\nthe papers \\\\ keys',
+    ]))
+  })
+
+  it('folds lines longer than 75 octets', () => {
+    const ics = buildCalendarEvent({ ...event, description: 'Takim te pika e sigurt e shitjes. '.repeat(6) })
+
+    for (const line of contentLines(ics)) {
+      expect(Buffer.byteLength(line, 'utf8')).toBeLessThanOrEqual(75)
+    }
+    expect(unfold(ics)).toContain(`DESCRIPTION:${'Takim te pika e sigurt e shitjes. '.repeat(6)}`)
+  })
+
+  it('does not split a multi-byte character when folding', () => {
+    const description = 'ë'.repeat(100)
+    const ics = buildCalendarEvent({ ...event, description })
+
+    for (const line of contentLines(ics)) {
+      expect(Buffer.byteLength(line, 'utf8')).toBeLessThanOrEqual(75)
+      expect(line).not.toContain('�')
+    }
+    expect(unfold(ics)).toContain(`DESCRIPTION:${description}`)
+  })
+
+  it('cancels without an alarm', () => {
+    const lines = unfold(buildCalendarEvent({ ...event, sequence: 2 }, 'CANCEL'))
+
+    expect(lines).toEqual(expect.arrayContaining(['METHOD:CANCEL', 'STATUS:CANCELLED', 'SEQUENCE:2']))
+    expect(lines).not.toContain('BEGIN:VALARM')
+  })
+})
@@ -1,8 +1,21 @@
+import { Listing } from '@prisma/client'
+
+// The listing fields a template mentions or links to
+type EmailListing = Pick<Listing, 'id' | 'title'>
+
+interface EmailAttachment {
+  filename: string
+  content: string
+  contentType: string
+}
+
 interface EmailOptions {
   to: string
+  replyTo?: string
   subject: string
   html: string
   text?: string
+  attachments?: EmailAttachment[]
 }
 
 interface EmailTemplate {
@@ -29,22 +42,24 @@ class EmailService {
     this.fromName = process.env.FROM_NAME || 'AutoMarket Shqipëria'
   }
 
-  async sendEmail({ to, subject, html, text }: EmailOptions): Promise<boolean> {
+  async sendEmail({ to, replyTo, subject, html, text, attachments }: EmailOptions): Promise<boolean> {
     try {
       // For development, just log the email
       if (process.env.NODE_ENV === 'development') {
         console.log('📧 Email would be sent:')
         console.log(`To: ${to}`)
+        if (replyTo) console.log(`Reply-To: ${replyTo}`)
         console.log(`Subject: ${subject}`)
         console.log(`Content: ${text || 'HTML content'}`)
+        attachments?.forEach(attachment => console.log(`Attachment: ${attachment.filename}`))
         return true
       }
 
       // TODO: Implement actual email sending based on available service
       if (process.env.SENDGRID_API_KEY) {
-        return await this.sendWithSendGrid({ to, subject, html, text })
+        return await this.sendWithSendGrid({ to, replyTo, subject, html, text, attachments })
       } else if (process.env.RESEND_API_KEY) {
-        return await this.sendWithResend({ to, subject, html, text })
+        return await this.sendWithResend({ to, replyTo, subject, html, text, attachments })
       } else {
         // Fallback to console log for now
         console.log('⚠️ No email service configured. Email would be sent:', { to, subject })
@@ -57,7 +72,7 @@ class EmailService {
     }
   }
 
-  private async sendWithSendGrid({ to, subject, html, text }: EmailOptions): Promise<boolean> {
+  private async sendWithSendGrid({ to, replyTo, subject, html, text, attachments }: EmailOptions): Promise<boolean> {
     // SendGrid implementation
     const response = await fetch('https://api.sendgrid.com/v3/mail/send', {
       method: 'POST',
@@ -68,18 +83,27 @@ class EmailService {
       body: JSON.stringify({
         personalizations: [{ to: [{ email: to }] }],
         from: { email: this.fromEmail, name: this.fromName },
+        ...(replyTo ? { reply_to: { email: replyTo } } : {}),
         subject,
         content: [
           ...(text ? [{ type: 'text/plain', value: text }] : []),
           { type: 'text/html', value: html }
-        ]
+        ],
+        ...(attachments?.length ? {
+          attachments: attachments.map(attachment => ({
+            filename: attachment.filename,
+            type: attachment.contentType,
+            content: Buffer.from(attachment.content).toString('base64'),
+            disposition: 'attachment'
+          }))
+        } : {})
       })
     })
 
     return response.ok
   }
 
-  private async sendWithResend({ to, subject, html, text }: EmailOptions): Promise<boolean> {
+  private async sendWithResend({ to, replyTo, subject, html, text, attachments }: EmailOptions): Promise<boolean> {
     // Resend implementation
     const response = await fetch('https://api.resend.com/emails', {
       method: 'POST',
@@ -90,9 +114,16 @@ class EmailService {
       body: JSON.stringify({
         from: `${this.fromName} <${this.fromEmail}>`,
         to: [to],
+        ...(replyTo ? { reply_to: replyTo } : {}),
         subject,
         html,
-        ...(text ? { text } : {})
+        ...(text ? { text } : {}),
+        ...(attachments?.length ? {
+          attachments: attachments.map(attachment => ({
+            filename: attachment.filename,
+            content: Buffer.from(attachment.content).toString('base64')
+          }))
+        } : {})
       })
     })
 
@@ -314,7 +345,7 @@ class EmailService {
   }
 
   // Price Drop Alert Templates
-  getPriceDropAlertEmail(userName: string, listing: any, oldPrice: number, newPrice: number): EmailTemplate {
+  getPriceDropAlertEmail(userName: string, listing: EmailListing & Pick<Listing, 'year' | 'mileage' | 'city'>, oldPrice: number, newPrice: number): EmailTemplate {
     const dropAmount = oldPrice - newPrice;
     const dropPercentage = Math.round((dropAmount / oldPrice) * 100);
 
@@ -531,7 +562,7 @@ class EmailService {
   }
 
   // Listing Expiry Warning Template
-  getListingExpiryAlbanianEmail(userName: string, listing: any, daysLeft: number): EmailTemplate {
+  getListingExpiryAlbanianEmail(userName: string, listing: Pick<Listing, 'title'>, daysLeft: number, renewUrl: string): EmailTemplate {
     return {
       subject: `⚠️ Shpallja juaj skadon për ${daysLeft} ditë: ${listing.title}`,
       html: `
@@ -551,10 +582,11 @@ class EmailService {
             </div>
 
             <div style="text-align: center; margin: 30px 0;">
-              <a href="${process.env.NEXTAUTH_URL}/dashboard"
+              <a href="${renewUrl}"
                  style="background: #f59e0b; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; font-weight: bold;">
                 Rinovoni shpalljen
               </a>
+              <p style="color: #6b7280; font-size: 13px; margin-top: 12px;">Shpallja rinovohet me një klikim për 90 ditë të tjera, duke ruajtur të preferuarat dhe historikun e çmimit.</p>
             </div>
 
             <div style="background: #eff6ff; padding: 15px; border-radius: 8px; border-left: 4px solid #2563eb;">
@@ -566,7 +598,252 @@ class EmailService {
           </div>
         </div>
       `,
-      text: `Shpallja "${listing.title}" skadon për ${daysLeft} ditë. Rinovoni: ${process.env.NEXTAUTH_URL}/dashboard`
+      text: `Shpallja "${listing.title}" skadon për ${daysLeft} ditë. Rinovoni me një klikim: ${renewUrl}`
+    }
+  }
+
+  // Sale Workflow Templates
+  getFavoriteStatusEmail(userName: string, listing: EmailListing & Pick<Listing, 'make' | 'model'>, status: 'reserved' | 'sold'): EmailTemplate {
+    const reserved = status === 'reserved'
+    const heading = reserved ? '🔖 Makina u rezervua' : '🏁 Makina u shit'
+
+    return {
+      subject: `${heading}: ${listing.title}`,
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+          <div style="background: ${reserved ? '#f59e0b' : '#6b7280'}; color: white; padding: 20px; text-align: center;">
+            <h1 style="margin: 0; font-size: 20px;">${heading}</h1>
+            <p style="margin: 5px 0 0 0;">Makina që e keni në listën tuaj të preferuarave</p>
+          </div>
+
+          <div style="padding: 30px;">
+            <p>Përshëndetje ${userName},</p>
+
+            <p>${reserved
+              ? `"<strong>${listing.title}</strong>" është rezervuar nga një blerës tjetër. Nëse rezervimi anulohet, makina do të jetë sërish në shitje.`
+              : `"<strong>${listing.title}</strong>" është shitur dhe nuk është më në dispozicion.`}</p>
+
+            <div style="text-align: center; margin: 30px 0;">
+              <a href="${process.env.NEXTAUTH_URL}/${reserved ? `listings/${listing.id}` : `search?make=${encodeURIComponent(listing.make)}&model=${encodeURIComponent(listing.model)}`}"
+                 style="background: #2563eb; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; font-weight: bold;">
+                ${reserved ? 'Shiko makinën' : 'Shiko makina të ngjashme'}
+              </a>
+            </div>
+
+            <p>Përshëndetje të ngrohta,<br>
+            Ekipi AutoMarket Shqipëria</p>
+          </div>
+        </div>
+      `,
+      text: reserved
+        ? `"${listing.title}" është rezervuar. Shiko: ${process.env.NEXTAUTH_URL}/listings/${listing.id}`
+        : `"${listing.title}" është shitur. Shiko makina të ngjashme: ${process.env.NEXTAUTH_URL}/search`
+    }
+  }
+
+  getSaleConfirmationRequestEmail(buyerName: string, listing: EmailListing, salePrice: number, currency: string): EmailTemplate {
+    return {
+      subject: `Konfirmoni blerjen: ${listing.title}`,
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+          <div style="background: #2563eb; color: white; padding: 20px; text-align: center;">
+            <h1 style="margin: 0; font-size: 20px;">Konfirmoni blerjen</h1>
+          </div>
+
+          <div style="padding: 30px;">
+            <p>Përshëndetje ${buyerName},</p>
+
+            <p>Shitësi ka shënuar se ju keni blerë "<strong>${listing.title}</strong>" për <strong>${salePrice.toLocaleString()} ${currency}</strong>.</p>
+
+            <p>Ju lutem konfirmoni blerjen, ose refuzojeni nëse nuk është e saktë.</p>
+
+            <div style="text-align: center; margin: 30px 0;">
+              <a href="${process.env.NEXTAUTH_URL}/listings/${listing.id}"
+                 style="background: #2563eb; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; font-weight: bold;">
+                Konfirmo ose refuzo
+              </a>
+            </div>
+
+            <p>Përshëndetje të ngrohta,<br>
+            Ekipi AutoMarket Shqipëria</p>
+          </div>
+        </div>
+      `,
+      text: `Shitësi ka shënuar se keni blerë "${listing.title}" për ${salePrice.toLocaleString()} ${currency}. Konfirmoni: ${process.env.NEXTAUTH_URL}/listings/${listing.id}`
+    }
+  }
+
+  getSaleOutcomeEmail(sellerName: string, listing: Pick<Listing, 'title'>, confirmed: boolean): EmailTemplate {
+    return {
+      subject: confirmed ? `✅ Blerësi konfirmoi shitjen: ${listing.title}` : `Blerësi refuzoi shitjen: ${listing.title}`,
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+          <div style="padding: 30px;">
+            <p>Përshëndetje ${sellerName},</p>
+
+            <p>${confirmed
+              ? `Blerësi konfirmoi blerjen e "<strong>${listing.title}</strong>". Shpallja u shënua si e shitur dhe komisioni u regjistrua në llogarinë tuaj.`
+              : `Blerësi refuzoi shitjen e "<strong>${listing.title}</strong>". Shpallja është sërish aktive.`}</p>
+
+            <div style="text-align: center; margin: 30px 0;">
+              <a href="${process.env.NEXTAUTH_URL}/my-listings"
+                 style="background: #2563eb; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; font-weight: bold;">
+                Shpalljet e mia
+              </a>
+            </div>
+
+            <p>Përshëndetje të ngrohta,<br>
+            Ekipi AutoMarket Shqipëria</p>
+          </div>
+        </div>
+      `,
+      text: confirmed
+        ? `Blerësi konfirmoi blerjen e "${listing.title}". ${process.env.NEXTAUTH_URL}/my-listings`
+        : `Blerësi refuzoi shitjen e "${listing.title}". Shpallja është sërish aktive.`
+    }
+  }
+
+  getOfferUpdateEmail(
+    userName: string,
+    listing: EmailListing,
+    notice: 'offer' | 'counter' | 'accept' | 'decline' | 'withdraw' | 'expire' | 'closed',
+    amount: number,
+    currency: string,
+    expiresAt?: Date
+  ): EmailTemplate {
+    const price = `${amount.toLocaleString()} ${currency}`
+    const notices = {
+      offer: { subject: `💬 Ofertë e re: ${price}`, body: `Keni marrë një ofertë prej <strong>${price}</strong> për "<strong>${listing.title}</strong>".` },
+      counter: { subject: `🔁 Kundërofertë: ${price}`, body: `Pala tjetër propozoi <strong>${price}</strong> për "<strong>${listing.title}</strong>".` },
+      accept: { subject: `✅ Oferta u pranua: ${price}`, body: `Oferta prej <strong>${price}</strong> për "<strong>${listing.title}</strong>" u pranua. Makina është rezervuar për blerësin.` },
+      decline: { subject: `Oferta u refuzua`, body: `Oferta prej <strong>${price}</strong> për "<strong>${listing.title}</strong>" u refuzua.` },
+      withdraw: { subject: `Oferta u tërhoq`, body: `Blerësi e tërhoqi ofertën prej <strong>${price}</strong> për "<strong>${listing.title}</strong>".` },
+      expire: { subject: `⏰ Oferta skadoi`, body: `Oferta prej <strong>${price}</strong> për "<strong>${listing.title}</strong>" skadoi pa përgjigje.` },
+      closed: { subject: `Makina u rezervua për një blerës tjetër`, body: `"<strong>${listing.title}</strong>" u rezervua për një blerës tjetër, prandaj oferta juaj prej <strong>${price}</strong> u mbyll.` },
+    }
+    const { subject, body } = notices[notice]
+    const respondBy = expiresAt && (notice === 'offer' || notice === 'counter')
+      ? `<p>Mund të pranoni, refuzoni ose bëni kundërofertë deri më ${expiresAt.toLocaleString('sq-AL')}.</p>`
+      : ''
+
+    return {
+      subject: `${subject} - ${listing.title}`,
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+          <div style="padding: 30px;">
+            <p>Përshëndetje ${userName},</p>
+
+            <p>${body}</p>
+            ${respondBy}
+
+            <div style="text-align: center; margin: 30px 0;">
+              <a href="${process.env.NEXTAUTH_URL}/listings/${listing.id}"
+                 style="background: #2563eb; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; font-weight: bold;">
+                Shiko negocimin
+              </a>
+            </div>
+
+            <p>Përshëndetje të ngrohta,<br>
+            Ekipi AutoMarket Shqipëria</p>
+          </div>
+        </div>
+      `,
+      text: `${body.replace(/<[^>]+>/g, '')} ${process.env.NEXTAUTH_URL}/listings/${listing.id}`
+    }
+  }
+
+  getAppointmentEmail(
+    userName: string,
+    listing: EmailListing,
+    notice: 'booked' | 'reminder' | 'canceled' | 'no_show',
+    appointment: { type: string; startsAt: Date; locationName: string; address: string; city: string; counterpartName: string }
+  ): EmailTemplate {
+    const what = appointment.type === 'test_drive' ? 'Test-drive' : 'Shikim'
+    const when = appointment.startsAt.toLocaleString('sq-AL', { dateStyle: 'full', timeStyle: 'short' })
+    const where = `${appointment.locationName}, ${appointment.address}, ${appointment.city}`
+    const notices = {
+      booked: { subject: `📅 Takim i rezervuar: ${listing.title}`, body: `${what} i "<strong>${listing.title}</strong>" me ${appointment.counterpartName} u rezervua.` },
+      reminder: { subject: `⏰ Kujtesë për takimin: ${listing.title}`, body: `Kujtesë: keni ${what.toLowerCase()} të "<strong>${listing.title}</strong>" me ${appointment.counterpartName}.` },
+      canceled: { subject: `❌ Takimi u anulua: ${listing.title}`, body: `${what} i "<strong>${listing.title}</strong>" me ${appointment.counterpartName} u anulua.` },
+      no_show: { subject: `Mungesë në takim: ${listing.title}`, body: `${appointment.counterpartName} raportoi se nuk u paraqitët në takimin për "<strong>${listing.title}</strong>". Mungesat ulin pikët e besueshmërisë suaj.` },
+    }
+    const { subject, body } = notices[notice]
+
+    return {
+      subject,
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+          <div style="padding: 30px;">
+            <p>Përshëndetje ${userName},</p>
+
+            <p>${body}</p>
+
+            <div style="background: #f8fafc; padding: 20px; border-radius: 8px; margin: 20px 0;">
+              <p style="margin: 0 0 8px 0;"><strong>Kur:</strong> ${when}</p>
+              <p style="margin: 0;"><strong>Ku:</strong> ${where}</p>
+            </div>
+
+            ${notice === 'booked' || notice === 'reminder' ? `
+            <p style="color: #6b7280;">Ftesa për kalendarin është bashkëngjitur. Takohuni vetëm në vendin e caktuar dhe mos paguani paraprakisht.</p>
+            ` : ''}
+
+            <div style="text-align: center; margin: 30px 0;">
+              <a href="${process.env.NEXTAUTH_URL}/listings/${listing.id}"
+                 style="background: #2563eb; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; font-weight: bold;">
+                Shiko shpalljen
+              </a>
+            </div>
+
+            <p>Përshëndetje të ngrohta,<br>
+            Ekipi AutoMarket Shqipëria</p>
+          </div>
+        </div>
+      `,
+      text: `${body.replace(/<[^>]+>/g, '')} Kur: ${when}. Ku: ${where}.`
+    }
+  }
+
+  getListingQuestionEmail(
+    userName: string,
+    listing: EmailListing,
+    notice: 'new' | 'reminder' | 'answered',
+    questions: Array<{ question: string; answer: string | null }>
+  ): EmailTemplate {
+    const notices = {
+      new: { subject: `❓ Pyetje e re për "${listing.title}"`, intro: 'Një blerës pyeti publikisht për makinën tuaj. Përgjigja juaj do të shfaqet në shpallje për të gjithë blerësit.', button: 'Përgjigjuni' },
+      reminder: { subject: `⏰ Pyetje pa përgjigje për "${listing.title}"`, intro: 'Këto pyetje presin ende përgjigjen tuaj. Shpalljet me përgjigje shiten më shpejt.', button: 'Përgjigjuni' },
+      answered: { subject: `💬 Shitësi iu përgjigj pyetjes suaj`, intro: `Shitësi i "${listing.title}" iu përgjigj pyetjes suaj.`, button: 'Shiko shpalljen' },
+    }
+    const { subject, intro, button } = notices[notice]
+    const items = questions.map(({ question, answer }) => `
+              <div style="background: #f8fafc; padding: 15px; border-radius: 8px; margin: 10px 0;">
+                <p style="margin: 0;"><strong>P:</strong> ${question}</p>
+                ${answer ? `<p style="margin: 8px 0 0 0;"><strong>Përgjigje:</strong> ${answer}</p>` : ''}
+              </div>`).join('')
+
+    return {
+      subject,
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+          <div style="padding: 30px;">
+            <p>Përshëndetje ${userName},</p>
+
+            <p>${intro}</p>
+            ${items}
+
+            <div style="text-align: center; margin: 30px 0;">
+              <a href="${process.env.NEXTAUTH_URL}/listings/${listing.id}#questions"
+                 style="background: #2563eb; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; font-weight: bold;">
+                ${button}
+              </a>
+            </div>
+
+            <p>Përshëndetje të ngrohta,<br>
+            Ekipi AutoMarket Shqipëria</p>
+          </div>
+        </div>
+      `,
+      text: `${intro} ${questions.map(({ question, answer }) => `P: ${question}${answer ? ` Përgjigje: ${answer}` : ''}`).join(' ')} ${process.env.NEXTAUTH_URL}/listings/${listing.id}#questions`
     }
   }
 
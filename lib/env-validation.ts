@@ -24,7 +24,8 @@ const envConfig: EnvConfig = {
     'OPENAI_API_KEY',
     'HUGGINGFACE_API_KEY',
     'GOOGLE_CLIENT_ID',
-    'GOOGLE_CLIENT_SECRET'
+    'GOOGLE_CLIENT_SECRET',
+    'URL_SIGNING_SECRET'
   ],
 
   // Required only in production
@@ -0,0 +1,572 @@
+// Viewing and test-drive appointments at safe meeting locations
+//
+// A seller publishes slots for a car at one of the SafetyLocation rows; a
+// buyer books an open slot as a viewing or a test drive. Both sides get an
+// email with an .ics invitation when the booking is made or cancelled and a
+// reminder with the invitation REMINDER_HOURS before it starts.
+//
+//   slot open ──book──▶ booked ──buyer cancels──▶ open again
+//                         ├──seller cancels──▶ slot canceled
+//                         └──after the meeting──▶ completed | no_show
+//
+// After the meeting either side can report that the other did not turn up.
+// A no-show costs the absent party NO_SHOW_TRUST_PENALTY trust points and is
+// counted in User.noShowCount, which review reputations expose.
+
+import { Appointment, AppointmentSlot, Prisma, User } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { buildCalendarEvent, CalendarMethod } from '../calendar'
+import { emailService } from '../email'
+import { smsService } from '../sms'
+
+export const APPOINTMENT_TYPES = ['viewing', 'test_drive'] as const
+export const APPOINTMENT_ACTIONS = ['cancel', 'complete', 'no_show'] as const
+
+export type AppointmentType = typeof APPOINTMENT_TYPES[number]
+export type AppointmentAction = typeof APPOINTMENT_ACTIONS[number]
+export type AppointmentParty = 'buyer' | 'seller'
+
+export const MIN_SLOT_MINUTES = 15
+export const MAX_SLOT_MINUTES = 4 * 60
+export const MAX_SLOTS_PER_REQUEST = 20
+export const MAX_BOOKING_DAYS_AHEAD = 60
+export const REMINDER_HOURS = 24
+export const NO_SHOW_REPORT_DAYS = 7
+export const NO_SHOW_TRUST_PENALTY = 5
+export const MAX_NOTE_LENGTH = 300
+
+const SLOT_STATUSES_ON_LISTING = ['active', 'reserved']
+const HOUR_MS = 60 * 60 * 1000
+const DAY_MS = 24 * HOUR_MS
+
+export class AppointmentError extends Error {
+  constructor(message: string, public status: number = 409, public field?: string) {
+    super(message)
+    this.name = 'AppointmentError'
+  }
+}
+
+const slotInclude = {
+  location: true,
+  listing: { select: { id: true, title: true, userId: true, status: true } },
+  seller: { select: { id: true, name: true, email: true, phone: true } },
+} satisfies Prisma.AppointmentSlotInclude
+
+const appointmentInclude = {
+  slot: { include: slotInclude },
+  buyer: { select: { id: true, name: true, email: true, phone: true } },
+} satisfies Prisma.AppointmentInclude
+
+type SlotWithDetails = Prisma.AppointmentSlotGetPayload<{ include: typeof slotInclude }>
+type AppointmentWithDetails = Prisma.AppointmentGetPayload<{ include: typeof appointmentInclude }>
+
+function partyOf(appointment: AppointmentWithDetails, userId: string): AppointmentParty | null {
+  if (appointment.buyerId === userId) return 'buyer'
+  if (appointment.slot.sellerId === userId) return 'seller'
+  return null
+}
+
+function otherParty(party: AppointmentParty): AppointmentParty {
+  return party === 'buyer' ? 'seller' : 'buyer'
+}
+
+/**
+ * Actions the user may take on the appointment right now: cancel before it
+ * starts; afterwards mark it completed or report the other side absent.
+ */
+export function availableAppointmentActions(
+  appointment: AppointmentWithDetails,
+  userId: string,
+  now: Date = new Date()
+): AppointmentAction[] {
+  const party = partyOf(appointment, userId)
+  if (!party) return []
+
+  if (appointment.status === 'booked' && appointment.slot.startsAt > now) return ['cancel']
+
+  const reportable = appointment.slot.endsAt <= now &&
+    now.getTime() - appointment.slot.endsAt.getTime() <= NO_SHOW_REPORT_DAYS * DAY_MS
+  if (!reportable) return []
+
+  const actions: AppointmentAction[] = []
+  if (appointment.status === 'booked') actions.push('complete')
+  const absentFlagged = party === 'buyer' ? appointment.sellerNoShow : appointment.buyerNoShow
+  const selfFlagged = party === 'buyer' ? appointment.buyerNoShow : appointment.sellerNoShow
+  // Someone reported absent cannot turn around and report the one who showed up
+  if ((appointment.status === 'booked' || appointment.status === 'no_show') && !absentFlagged && !selfFlagged) {
+    actions.push('no_show')
+  }
+  return actions
+}
+
+function locationOf(slot: SlotWithDetails) {
+  return {
+    id: slot.location.id,
+    name: slot.location.name,
+    address: slot.location.address,
+    city: slot.location.city,
+    locationType: slot.location.locationType,
+    hasParking: slot.location.hasParking,
+    hasCCTV: slot.location.hasCCTV,
+    latitude: slot.location.latitude,
+    longitude: slot.location.longitude,
+  }
+}
+
+export function formatSlot(slot: SlotWithDetails) {
+  return {
+    id: slot.id,
+    startsAt: slot.startsAt,
+    endsAt: slot.endsAt,
+    status: slot.status,
+    location: locationOf(slot),
+  }
+}
+
+export function formatAppointment(appointment: AppointmentWithDetails, userId: string) {
+  return {
+    id: appointment.id,
+    type: appointment.type,
+    status: appointment.status,
+    note: appointment.note,
+    startsAt: appointment.slot.startsAt,
+    endsAt: appointment.slot.endsAt,
+    buyerNoShow: appointment.buyerNoShow,
+    sellerNoShow: appointment.sellerNoShow,
+    role: partyOf(appointment, userId),
+    actions: availableAppointmentActions(appointment, userId),
+    location: locationOf(appointment.slot),
+    listing: { id: appointment.slot.listing.id, title: appointment.slot.listing.title },
+    buyer: { id: appointment.buyer.id, name: appointment.buyer.name || 'Buyer' },
+    seller: { id: appointment.slot.seller.id, name: appointment.slot.seller.name || 'Seller' },
+  }
+}
+
+function parseDate(value: unknown, field: string): Date {
+  const date = new Date(String(value))
+  if (value === undefined || value === null || value === '' || isNaN(date.getTime())) {
+    throw new AppointmentError('Enter a valid date and time', 400, field)
+  }
+  return date
+}
+
+function parseNote(value: unknown): string | null {
+  if (value === undefined || value === null) return null
+  const note = String(value).trim()
+  if (note.length > MAX_NOTE_LENGTH) {
+    throw new AppointmentError(`Note must be at most ${MAX_NOTE_LENGTH} characters`, 400, 'note')
+  }
+  return note || null
+}
+
+// Open future slots of a listing, plus the appointments on it the viewer takes part in
+export async function getAppointmentState(listingId: string, viewer: Pick<User, 'id'> | null) {
+  const listing = await prisma.listing.findUnique({
+    where: { id: listingId },
+    select: { id: true, userId: true, status: true, city: true },
+  })
+  if (!listing || listing.status === 'deleted') return null
+
+  const now = new Date()
+  const role: AppointmentParty | null = viewer ? (listing.userId === viewer.id ? 'seller' : 'buyer') : null
+
+  const slots = await prisma.appointmentSlot.findMany({
+    where: {
+      listingId,
+      startsAt: { gt: now },
+      status: role === 'seller' ? { in: ['open', 'booked'] } : 'open',
+    },
+    include: slotInclude,
+    orderBy: { startsAt: 'asc' },
+  })
+
+  const appointments = viewer
+    ? await prisma.appointment.findMany({
+        where: {
+          slot: { listingId },
+          ...(role === 'buyer' && { buyerId: viewer.id }),
+        },
+        include: appointmentInclude,
+        orderBy: { slot: { startsAt: 'desc' } },
+        take: 50,
+      })
+    : []
+
+  return {
+    role,
+    city: listing.city,
+    canBook: role === 'buyer' && SLOT_STATUSES_ON_LISTING.includes(listing.status) &&
+      !appointments.some(appointment => appointment.status === 'booked' && appointment.slot.startsAt > now),
+    slots: slots.map(formatSlot),
+    appointments: appointments.map(appointment => formatAppointment(appointment, viewer!.id)),
+  }
+}
+
+// Every appointment the user has booked or hosts, soonest first
+export async function listAppointments(userId: string) {
+  const appointments = await prisma.appointment.findMany({
+    where: { OR: [{ buyerId: userId }, { slot: { sellerId: userId } }] },
+    include: appointmentInclude,
+    orderBy: { slot: { startsAt: 'asc' } },
+  })
+  return appointments.map(appointment => formatAppointment(appointment, userId))
+}
+
+export interface SlotInput {
+  startsAt?: string
+  endsAt?: string
+}
+
+/**
+ * Publish availability for the seller's car at a safe location. Slots must be
+ * in the future and may not overlap the seller's other open or booked slots.
+ */
+export async function publishSlots(
+  listingId: string,
+  seller: Pick<User, 'id'>,
+  locationId: string | undefined,
+  input: SlotInput[]
+) {
+  const listing = await prisma.listing.findUnique({ where: { id: listingId } })
+  if (!listing || listing.status === 'deleted') {
+    throw new AppointmentError('Listing not found', 404)
+  }
+  if (listing.userId !== seller.id) {
+    throw new AppointmentError('You can only publish times for your own listings', 403)
+  }
+  if (!SLOT_STATUSES_ON_LISTING.includes(listing.status)) {
+    throw new AppointmentError(`A listing that is ${listing.status.replace('_', ' ')} cannot take appointments`)
+  }
+
+  const location = locationId
+    ? await prisma.safetyLocation.findFirst({ where: { id: locationId, isActive: true } })
+    : null
+  if (!location) {
+    throw new AppointmentError('Choose one of the safe meeting locations', 400, 'locationId')
+  }
+
+  if (!Array.isArray(input) || input.length === 0 || input.length > MAX_SLOTS_PER_REQUEST) {
+    throw new AppointmentError(`Publish between 1 and ${MAX_SLOTS_PER_REQUEST} times at once`, 400, 'slots')
+  }
+
+  const now = new Date()
+  const slots = input.map(({ startsAt, endsAt }) => {
+    const start = parseDate(startsAt, 'startsAt')
+    const end = parseDate(endsAt, 'endsAt')
+    const minutes = (end.getTime() - start.getTime()) / 60000
+    if (start <= now || start.getTime() - now.getTime() > MAX_BOOKING_DAYS_AHEAD * DAY_MS) {
+      throw new AppointmentError(`Times must be within the next ${MAX_BOOKING_DAYS_AHEAD} days`, 400, 'startsAt')
+    }
+    if (minutes < MIN_SLOT_MINUTES || minutes > MAX_SLOT_MINUTES) {
+      throw new AppointmentError(`A slot lasts ${MIN_SLOT_MINUTES} minutes to ${MAX_SLOT_MINUTES / 60} hours`, 400, 'endsAt')
+    }
+    return { start, end }
+  }).sort((a, b) => a.start.getTime() - b.start.getTime())
+
+  for (let i = 1; i < slots.length; i++) {
+    if (slots[i].start < slots[i - 1].end) {
+      throw new AppointmentError('Times overlap each other', 400, 'slots')
+    }
+  }
+
+  const clash = await prisma.appointmentSlot.findFirst({
+    where: {
+      sellerId: seller.id,
+      status: { in: ['open', 'booked'] },
+      OR: slots.map(slot => ({ startsAt: { lt: slot.end }, endsAt: { gt: slot.start } })),
+    },
+  })
+  if (clash) {
+    throw new AppointmentError(`You already have a slot at ${clash.startsAt.toISOString()}`, 400, 'slots')
+  }
+
+  await prisma.appointmentSlot.createMany({
+    data: slots.map(slot => ({
+      sellerId: seller.id,
+      listingId,
+      locationId: location.id,
+      startsAt: slot.start,
+      endsAt: slot.end,
+    })),
+  })
+
+  return slots.length
+}
+
+// Withdraw an open slot; booked ones must be cancelled through the appointment
+export async function cancelSlot(slotId: string, seller: Pick<User, 'id'>) {
+  const slot = await prisma.appointmentSlot.findUnique({ where: { id: slotId } })
+  if (!slot || slot.sellerId !== seller.id) {
+    throw new AppointmentError('Slot not found', 404)
+  }
+
+  const updated = await prisma.appointmentSlot.updateMany({
+    where: { id: slot.id, status: 'open' },
+    data: { status: 'canceled' },
+  })
+  if (updated.count === 0) {
+    throw new AppointmentError('Only open slots can be removed; cancel the booking instead')
+  }
+}
+
+/**
+ * Book an open slot for the buyer. Counts the meeting on the location and
+ * sends both sides the invitation.
+ */
+export async function bookSlot(
+  slotId: string,
+  buyer: Pick<User, 'id' | 'isBlocked'>,
+  input: { type?: string; note?: string }
+) {
+  if (buyer.isBlocked) {
+    throw new AppointmentError('Your account is blocked', 403)
+  }
+
+  const type = input.type ?? 'viewing'
+  if (!(APPOINTMENT_TYPES as readonly string[]).includes(type)) {
+    throw new AppointmentError(`Type must be one of ${APPOINTMENT_TYPES.join(', ')}`, 400, 'type')
+  }
+  const note = parseNote(input.note)
+
+  const slot = await prisma.appointmentSlot.findUnique({ where: { id: slotId }, include: slotInclude })
+  const now = new Date()
+  if (!slot || slot.status === 'canceled') {
+    throw new AppointmentError('Slot not found', 404)
+  }
+  if (slot.sellerId === buyer.id) {
+    throw new AppointmentError('You cannot book your own listing', 403)
+  }
+  if (slot.status !== 'open' || slot.startsAt <= now || !SLOT_STATUSES_ON_LISTING.includes(slot.listing.status)) {
+    throw new AppointmentError('This time is no longer available')
+  }
+
+  const upcoming = await prisma.appointment.findFirst({
+    where: { buyerId: buyer.id, status: 'booked', slot: { listingId: slot.listingId, startsAt: { gt: now } } },
+  })
+  if (upcoming) {
+    throw new AppointmentError('You already have an appointment for this car; cancel it to pick another time')
+  }
+
+  const appointment = await prisma.$transaction(async tx => {
+    // Guard on the open status so two buyers cannot take the same time
+    const taken = await tx.appointmentSlot.updateMany({
+      where: { id: slot.id, status: 'open' },
+      data: { status: 'booked' },
+    })
+    if (taken.count === 0) {
+      throw new AppointmentError('Someone else just booked this time')
+    }
+
+    await tx.safetyLocation.update({
+      where: { id: slot.locationId },
+      data: { meetingCount: { increment: 1 }, lastUsed: slot.startsAt },
+    })
+
+    return tx.appointment.create({
+      data: { slotId: slot.id, buyerId: buyer.id, type, note },
+      include: appointmentInclude,
+    })
+  })
+
+  await notifyAppointment(appointment, 'buyer', 'booked')
+  await notifyAppointment(appointment, 'seller', 'booked')
+  return formatAppointment(appointment, buyer.id)
+}
+
+async function recordNoShow(tx: Prisma.TransactionClient, userId: string) {
+  const user = await tx.user.findUnique({ where: { id: userId }, select: { trustScore: true } })
+  if (!user) return
+  await tx.user.update({
+    where: { id: userId },
+    data: {
+      noShowCount: { increment: 1 },
+      trustScore: Math.max(0, user.trustScore - NO_SHOW_TRUST_PENALTY),
+    },
+  })
+}
+
+/**
+ * Cancel an upcoming appointment, mark a past one completed, or report that
+ * the other party did not show up.
+ */
+export async function updateAppointment(appointmentId: string, user: Pick<User, 'id'>, action: AppointmentAction) {
+  const appointment = await prisma.appointment.findUnique({ where: { id: appointmentId }, include: appointmentInclude })
+  if (!appointment) {
+    throw new AppointmentError('Appointment not found', 404)
+  }
+
+  const party = partyOf(appointment, user.id)
+  if (!party) {
+    throw new AppointmentError('You are not part of this appointment', 403)
+  }
+  if (!availableAppointmentActions(appointment, user.id).includes(action)) {
+    throw new AppointmentError(action === 'cancel'
+      ? 'Only upcoming appointments can be cancelled'
+      : `You cannot ${action === 'complete' ? 'complete' : 'report a no-show for'} this appointment now`)
+  }
+
+  const now = new Date()
+  await prisma.$transaction(async tx => {
+    const guard: Prisma.AppointmentWhereInput = { id: appointment.id, status: appointment.status }
+
+    if (action === 'cancel') {
+      const updated = await tx.appointment.updateMany({
+        where: guard,
+        data: { status: 'canceled', canceledById: user.id, canceledAt: now },
+      })
+      if (updated.count === 0) {
+        throw new AppointmentError('The appointment was changed meanwhile; please reload and try again')
+      }
+      // A buyer cancelling frees the time for others; a seller cancelling withdraws it
+      await tx.appointmentSlot.update({
+        where: { id: appointment.slotId },
+        data: { status: party === 'buyer' ? 'open' : 'canceled' },
+      })
+      await tx.safetyLocation.update({
+        where: { id: appointment.slot.locationId },
+        data: { meetingCount: { decrement: 1 } },
+      })
+      return
+    }
+
+    if (action === 'complete') {
+      const updated = await tx.appointment.updateMany({ where: guard, data: { status: 'completed' } })
+      if (updated.count === 0) {
+        throw new AppointmentError('The appointment was changed meanwhile; please reload and try again')
+      }
+      return
+    }
+
+    const absent = otherParty(party)
+    const flag = absent === 'buyer' ? 'buyerNoShow' : 'sellerNoShow'
+    const updated = await tx.appointment.updateMany({
+      where: { ...guard, [flag]: false },
+      data: { status: 'no_show', [flag]: true },
+    })
+    if (updated.count === 0) {
+      throw new AppointmentError('The appointment was changed meanwhile; please reload and try again')
+    }
+    await recordNoShow(tx, absent === 'buyer' ? appointment.buyerId : appointment.slot.sellerId)
+  })
+
+  const updated = await prisma.appointment.findUniqueOrThrow({ where: { id: appointment.id }, include: appointmentInclude })
+  if (action === 'cancel') {
+    await notifyAppointment(updated, otherParty(party), 'canceled')
+  } else if (action === 'no_show') {
+    await notifyAppointment(updated, otherParty(party), 'no_show')
+  }
+  return formatAppointment(updated, user.id)
+}
+
+/**
+ * Send the reminder with the calendar invitation for appointments starting
+ * within REMINDER_HOURS. Returns the number of appointments reminded.
+ */
+export async function sendAppointmentReminders(now: Date = new Date()): Promise<number> {
+  const due = await prisma.appointment.findMany({
+    where: {
+      status: 'booked',
+      reminderSentAt: null,
+      slot: { startsAt: { gt: now, lte: new Date(now.getTime() + REMINDER_HOURS * HOUR_MS) } },
+    },
+    include: appointmentInclude,
+  })
+
+  let reminded = 0
+  for (const appointment of due) {
+    const claimed = await prisma.appointment.updateMany({
+      where: { id: appointment.id, reminderSentAt: null },
+      data: { reminderSentAt: now },
+    })
+    if (claimed.count === 0) continue
+
+    await notifyAppointment(appointment, 'buyer', 'reminder')
+    await notifyAppointment(appointment, 'seller', 'reminder')
+    reminded++
+  }
+  return reminded
+}
+
+/**
+ * The appointment as an iCalendar invitation. The UID is stable so a
+ * cancellation replaces the invitation already in the calendar.
+ */
+export function appointmentCalendar(
+  appointment: Pick<Appointment, 'id' | 'type' | 'note' | 'status'> & { slot: AppointmentSlot & Pick<SlotWithDetails, 'location' | 'listing'> },
+  method: CalendarMethod = appointment.status === 'canceled' ? 'CANCEL' : 'REQUEST'
+): string {
+  const { slot } = appointment
+  const what = appointment.type === 'test_drive' ? 'Test-drive' : 'Shikim'
+  return buildCalendarEvent({
+    uid: `appointment-${appointment.id}@automarket.al`,
+    start: slot.startsAt,
+    end: slot.endsAt,
+    summary: `${what}: ${slot.listing.title}`,
+    description: [
+      `${what} i makinës "${slot.listing.title}" në një vend takimi të sigurt.`,
+      appointment.note,
+      'Mos paguani paraprakisht dhe kontrolloni dokumentet e automjetit.',
+    ].filter(Boolean).join('\n'),
+    location: `${slot.location.name}, ${slot.location.address}, ${slot.location.city}`,
+    url: `${process.env.NEXTAUTH_URL}/listings/${slot.listing.id}`,
+    sequence: method === 'CANCEL' ? 1 : 0,
+  }, method)
+}
+
+// The .ics download is only for the two parties
+export async function getAppointmentCalendar(appointmentId: string, user: Pick<User, 'id'>) {
+  const appointment = await prisma.appointment.findUnique({ where: { id: appointmentId }, include: appointmentInclude })
+  if (!appointment || !partyOf(appointment, user.id)) {
+    throw new AppointmentError('Appointment not found', 404)
+  }
+  return appointmentCalendar(appointment)
+}
+
+type AppointmentNotice = 'booked' | 'reminder' | 'canceled' | 'no_show'
+
+async function logNotification(userId: string, type: string, category: string, recipientInfo: string, sent: boolean, subject?: string) {
+  await prisma.notificationLog.create({
+    data: { userId, type, category, status: sent ? 'sent' : 'failed', recipientInfo, subject },
+  })
+}
+
+// Notification failures never undo a booking or cancellation that has already been committed
+async function notifyAppointment(
+  appointment: AppointmentWithDetails,
+  to: AppointmentParty,
+  notice: AppointmentNotice
+): Promise<void> {
+  try {
+    const recipient = to === 'buyer' ? appointment.buyer : appointment.slot.seller
+    const counterpart = to === 'buyer' ? appointment.slot.seller : appointment.buyer
+    const preferences = await prisma.automationPreferences.findUnique({ where: { userId: recipient.id } })
+    const { slot } = appointment
+
+    if (!preferences || preferences.emailEnabled) {
+      const template = emailService.getAppointmentEmail(recipient.name || 'Shfrytëzues', slot.listing, notice, {
+        type: appointment.type,
+        startsAt: slot.startsAt,
+        locationName: slot.location.name,
+        address: slot.location.address,
+        city: slot.location.city,
+        counterpartName: counterpart.name || (to === 'buyer' ? 'shitësi' : 'blerësi'),
+      })
+      const attachments = notice === 'no_show' ? [] : [{
+        filename: 'takimi.ics',
+        content: appointmentCalendar(appointment, notice === 'canceled' ? 'CANCEL' : 'REQUEST'),
+        contentType: `text/calendar; method=${notice === 'canceled' ? 'CANCEL' : 'REQUEST'}`,
+      }]
+      const sent = await emailService.sendEmail({ to: recipient.email, ...template, attachments })
+      await logNotification(recipient.id, 'email', `appointment_${notice}`, recipient.email, sent, template.subject)
+    }
+
+    const phone = preferences?.smsNumber || recipient.phone
+    if (notice === 'reminder' && preferences?.smsEnabled && phone) {
+      const template = smsService.getAppointmentReminderSms(slot.listing.title, slot.startsAt, slot.location.name)
+      const sent = await smsService.sendSms({ to: phone, message: template.message, messageType: 'alert' })
+      await logNotification(recipient.id, 'sms', `appointment_${notice}`, phone, sent)
+    }
+  } catch (error) {
+    console.error('Error sending appointment notifications:', error)
+  }
+}
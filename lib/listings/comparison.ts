@@ -0,0 +1,210 @@
+// Side-by-side listing comparison
+//
+// Loads up to MAX_COMPARED_LISTINGS listings in the order they were asked
+// for, converts every amount to EUR and lines the specs up as rows. Each row
+// that has a "better" direction marks the best listing(s), so the comparison
+// page only has to render. The listing IDs in the URL are the whole state,
+// which keeps a comparison shareable.
+
+import { prisma } from '@/lib/prisma'
+import { Currency, currencyService } from '../currency'
+import { AlbanianReviewSystem } from '../security/review-system'
+import { PUBLIC_LISTING_STATUSES } from '../search/listing-search'
+import { CostOfOwnership, estimateCostOfOwnership } from './cost-of-ownership'
+import { formatListingFeatures } from './features'
+
+export const MIN_COMPARED_LISTINGS = 2
+export const MAX_COMPARED_LISTINGS = 4
+
+export type ComparisonValue = number | string | null
+
+export interface ComparisonRow {
+  key: string
+  better: 'lower' | 'higher' | null
+  values: ComparisonValue[]
+  best: number[] // Indexes into listings; empty when there is nothing to choose
+}
+
+export interface ComparedListing {
+  id: string
+  title: string
+  status: string
+  price: number // EUR
+  originalPrice: number
+  originalCurrency: string
+  make: string
+  model: string
+  year: number
+  mileage: number
+  fuelType: string
+  transmission: string
+  bodyType: string
+  color: string | null
+  city: string
+  image: string | null
+  market: {
+    marketPriceScore: number | null
+    recommendedPrice: number | null // EUR
+    priceDelta: number | null       // Asking price minus recommended price, EUR
+    priceDeltaPercent: number | null
+  }
+  costOfOwnership: CostOfOwnership
+  seller: {
+    id: string
+    name: string
+    memberSince: Date
+    reputation: Awaited<ReturnType<typeof AlbanianReviewSystem.getUserReputation>>
+  }
+}
+
+export interface ListingComparison {
+  listings: ComparedListing[]
+  rows: ComparisonRow[]
+  features: { key: string; label: string; labelEn: string; listings: boolean[] }[]
+  missing: string[]
+}
+
+/**
+ * Parse `?ids=a,b,c` into distinct listing IDs. Returns an error message when
+ * the count is out of range.
+ */
+export function parseComparisonIds(value: string | null): { ids: string[] } | { error: string } {
+  const ids = Array.from(new Set((value || '').split(',').map(id => id.trim()).filter(Boolean)))
+
+  if (ids.length < MIN_COMPARED_LISTINGS || ids.length > MAX_COMPARED_LISTINGS) {
+    return { error: `Select between ${MIN_COMPARED_LISTINGS} and ${MAX_COMPARED_LISTINGS} listings to compare` }
+  }
+  return { ids }
+}
+
+export function comparisonPath(ids: string[]): string {
+  return `/compare?ids=${ids.map(encodeURIComponent).join(',')}`
+}
+
+async function toEur(cents: number, currency: string): Promise<number> {
+  const amount = cents / 100
+  return currency === 'EUR' ? Math.round(amount) : currencyService.convertCurrency(amount, currency as Currency, 'EUR')
+}
+
+function bestIndexes(values: ComparisonValue[], better: ComparisonRow['better']): number[] {
+  if (!better) return []
+
+  const numbers = values.filter((value): value is number => typeof value === 'number')
+  // A single value or a tie across every listing is not worth highlighting
+  if (numbers.length < 2 || numbers.every(value => value === numbers[0])) return []
+
+  const target = better === 'lower' ? Math.min(...numbers) : Math.max(...numbers)
+  return values.flatMap((value, index) => value === target ? [index] : [])
+}
+
+function row(key: string, better: ComparisonRow['better'], values: ComparisonValue[]): ComparisonRow {
+  return { key, better, values, best: bestIndexes(values, better) }
+}
+
+// Withdrawn, rejected and deleted listings drop out of a shared comparison as missing
+export async function buildListingComparison(ids: string[]): Promise<ListingComparison> {
+  const records = await prisma.listing.findMany({
+    where: { id: { in: ids }, status: { in: [...PUBLIC_LISTING_STATUSES] } },
+    include: {
+      user: { select: { id: true, name: true, createdAt: true } },
+      features: {
+        include: { feature: true },
+        orderBy: { feature: { sortOrder: 'asc' } },
+      },
+    },
+  })
+
+  const byId = new Map(records.map(record => [record.id, record]))
+  const found = ids.flatMap(id => byId.get(id) ?? [])
+  const missing = ids.filter(id => !byId.has(id))
+
+  const sellerIds = Array.from(new Set(found.map(listing => listing.userId)))
+  const reputations = new Map(
+    await Promise.all(sellerIds.map(async id => [id, await AlbanianReviewSystem.getUserReputation(id)] as const))
+  )
+
+  const listings: ComparedListing[] = []
+  for (const listing of found) {
+    const price = await toEur(listing.price, listing.currency)
+    const recommendedPrice = listing.recommendedPrice !== null
+      ? await toEur(listing.recommendedPrice, listing.currency)
+      : null
+    const priceDelta = recommendedPrice !== null ? price - recommendedPrice : null
+    const images = Array.isArray(listing.images) ? listing.images as string[] : []
+
+    listings.push({
+      id: listing.id,
+      title: listing.title,
+      status: listing.status,
+      price,
+      originalPrice: listing.price / 100,
+      originalCurrency: listing.currency,
+      make: listing.make,
+      model: listing.model,
+      year: listing.year,
+      mileage: listing.mileage,
+      fuelType: listing.fuelType,
+      transmission: listing.transmission,
+      bodyType: listing.bodyType,
+      color: listing.color,
+      city: listing.city,
+      image: images[0] ?? null,
+      market: {
+        marketPriceScore: listing.marketPriceScore,
+        recommendedPrice,
+        priceDelta,
+        priceDeltaPercent: priceDelta !== null && recommendedPrice
+          ? Math.round((priceDelta / recommendedPrice) * 1000) / 10
+          : null,
+      },
+      costOfOwnership: estimateCostOfOwnership(listing, price),
+      seller: {
+        id: listing.user.id,
+        name: listing.user.name || 'Anonymous',
+        memberSince: listing.user.createdAt,
+        reputation: reputations.get(listing.userId)!,
+      },
+    })
+  }
+
+  const column = <T extends ComparisonValue>(pick: (listing: ComparedListing) => T) => listings.map(pick)
+
+  const rows = [
+    row('price', 'lower', column(l => l.price)),
+    row('year', 'higher', column(l => l.year)),
+    row('mileage', 'lower', column(l => l.mileage)),
+    row('fuelType', null, column(l => l.fuelType)),
+    row('transmission', null, column(l => l.transmission)),
+    row('bodyType', null, column(l => l.bodyType)),
+    row('color', null, column(l => l.color)),
+    row('city', null, column(l => l.city)),
+    row('featureCount', 'higher', found.map(listing => listing.features.length)),
+    row('marketPriceScore', 'higher', column(l => l.market.marketPriceScore)),
+    row('recommendedPrice', null, column(l => l.market.recommendedPrice)),
+    row('priceDeltaPercent', 'lower', column(l => l.market.priceDeltaPercent)),
+    row('costOfOwnership', 'lower', column(l => l.costOfOwnership.total)),
+    row('costPerKm', 'lower', column(l => l.costOfOwnership.perKm)),
+    row('sellerRating', 'higher', column(l => l.seller.reputation.totalReviews > 0 ? l.seller.reputation.averageRating : null)),
+    row('sellerReviews', 'higher', column(l => l.seller.reputation.totalReviews)),
+    row('sellerTrustScore', 'higher', column(l => l.seller.reputation.trustScore)),
+    row('sellerNoShows', 'lower', column(l => l.seller.reputation.noShows)),
+  ]
+
+  // Union of equipment across the compared cars, in catalogue order
+  const features = new Map<string, ListingComparison['features'][number]>()
+  found.forEach((listing, index) => {
+    for (const feature of formatListingFeatures(listing.features)) {
+      if (!features.has(feature.key)) {
+        features.set(feature.key, { ...feature, listings: found.map(() => false) })
+      }
+      features.get(feature.key)!.listings[index] = true
+    }
+  })
+
+  return {
+    listings,
+    rows,
+    features: Array.from(features.values()).map(({ key, label, labelEn, listings }) => ({ key, label, labelEn, listings })),
+    missing,
+  }
+}
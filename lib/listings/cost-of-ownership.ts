@@ -0,0 +1,106 @@
+// Annual cost of ownership estimate for a listing
+//
+// A rough, deterministic estimate for comparing cars side by side, not a
+// quote: energy at Albanian pump and household electricity prices, mandatory
+// third-party insurance, circulation tax, maintenance that grows with age and
+// mileage, and the value the car is expected to lose over the next year.
+// All amounts are in EUR per year at ANNUAL_DISTANCE_KM.
+
+import { canonicalFuelType } from '../search/albanian-dictionary'
+
+export const ANNUAL_DISTANCE_KM = 15000
+
+interface EnergyProfile {
+  consumptionPer100Km: number // Litres, kg (CNG) or kWh (Electric)
+  unitPrice: number           // EUR per litre, kg or kWh
+  unit: 'l' | 'kg' | 'kWh'
+  circulationTax: number      // EUR per year
+  maintenanceFactor: number
+  depreciationSurcharge: number // Added to the yearly depreciation rate
+}
+
+const ENERGY_PROFILES: Record<string, EnergyProfile> = {
+  Petrol: { consumptionPer100Km: 7.5, unitPrice: 1.85, unit: 'l', circulationTax: 40, maintenanceFactor: 1, depreciationSurcharge: 0 },
+  Diesel: { consumptionPer100Km: 6, unitPrice: 1.75, unit: 'l', circulationTax: 60, maintenanceFactor: 1.1, depreciationSurcharge: 0.01 },
+  Hybrid: { consumptionPer100Km: 5, unitPrice: 1.85, unit: 'l', circulationTax: 20, maintenanceFactor: 0.9, depreciationSurcharge: 0 },
+  LPG: { consumptionPer100Km: 9.5, unitPrice: 0.8, unit: 'l', circulationTax: 40, maintenanceFactor: 1.05, depreciationSurcharge: 0.01 },
+  CNG: { consumptionPer100Km: 4.5, unitPrice: 1.3, unit: 'kg', circulationTax: 40, maintenanceFactor: 1.05, depreciationSurcharge: 0.01 },
+  Electric: { consumptionPer100Km: 17, unitPrice: 0.12, unit: 'kWh', circulationTax: 0, maintenanceFactor: 0.6, depreciationSurcharge: 0.03 },
+}
+
+const THIRD_PARTY_INSURANCE_EUR = 110
+const BASE_MAINTENANCE_EUR = 350
+const MAINTENANCE_PER_YEAR_OF_AGE_EUR = 35
+const HIGH_MILEAGE_KM = 150000
+const HIGH_MILEAGE_MAINTENANCE_EUR = 150
+
+export interface CostOfOwnership {
+  annualDistanceKm: number
+  energy: number
+  insurance: number
+  circulationTax: number
+  maintenance: number
+  depreciation: number
+  total: number
+  perKm: number
+  assumptions: {
+    consumptionPer100Km: number
+    consumptionUnit: string
+    unitPrice: number
+    depreciationRate: number
+  }
+}
+
+function depreciationRate(age: number): number {
+  if (age <= 3) return 0.15
+  if (age <= 6) return 0.1
+  return 0.07
+}
+
+/**
+ * Estimate the yearly running cost of a car. `priceEur` is the asking price
+ * in EUR, used for depreciation.
+ */
+export function estimateCostOfOwnership(
+  listing: { fuelType: string; year: number; mileage: number },
+  priceEur: number,
+  referenceYear = new Date().getFullYear()
+): CostOfOwnership {
+  const profile = ENERGY_PROFILES[canonicalFuelType(listing.fuelType)] ?? ENERGY_PROFILES.Petrol
+  const age = Math.max(0, referenceYear - listing.year)
+
+  // Older engines burn a little more
+  const consumption = profile.consumptionPer100Km * (1 + Math.min(age, 20) * 0.005)
+  const energy = (ANNUAL_DISTANCE_KM / 100) * consumption * profile.unitPrice
+
+  const maintenance = (
+    BASE_MAINTENANCE_EUR +
+    age * MAINTENANCE_PER_YEAR_OF_AGE_EUR +
+    (listing.mileage > HIGH_MILEAGE_KM ? HIGH_MILEAGE_MAINTENANCE_EUR : 0)
+  ) * profile.maintenanceFactor
+
+  const rate = depreciationRate(age) + profile.depreciationSurcharge
+  const depreciation = priceEur * rate
+
+  const costs = {
+    energy: Math.round(energy),
+    insurance: THIRD_PARTY_INSURANCE_EUR,
+    circulationTax: profile.circulationTax,
+    maintenance: Math.round(maintenance),
+    depreciation: Math.round(depreciation),
+  }
+  const total = costs.energy + costs.insurance + costs.circulationTax + costs.maintenance + costs.depreciation
+
+  return {
+    annualDistanceKm: ANNUAL_DISTANCE_KM,
+    ...costs,
+    total,
+    perKm: Math.round((total / ANNUAL_DISTANCE_KM) * 100) / 100,
+    assumptions: {
+      consumptionPer100Km: Math.round(consumption * 10) / 10,
+      consumptionUnit: profile.unit,
+      unitPrice: profile.unitPrice,
+      depreciationRate: rate,
+    },
+  }
+}
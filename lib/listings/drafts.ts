@@ -0,0 +1,166 @@
+// Sell wizard drafts
+//
+// Drafts hold whatever the seller has typed so far, so nothing here enforces
+// listing rules; that happens in validateListingInput when the draft is
+// published. Values are only bounded and whitelisted so a draft cannot be used
+// as arbitrary JSON storage.
+
+import { unlink } from 'fs/promises'
+import path from 'path'
+import { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { resolveFeatureKey } from './features'
+import { MAX_LISTING_IMAGES, inputRecord, isUploadedImagePath } from './validation'
+import { forgetUploadedImage } from './image-hashes'
+
+export const MAX_DRAFTS_PER_USER = 10
+export const STALE_DRAFT_DAYS = 30
+export const SELL_WIZARD_STEPS = 4
+
+const MAX_DRAFT_VALUE_LENGTH = 5000
+
+// Text inputs of app/sell/page.tsx
+export const DRAFT_FIELDS = [
+  'vin', 'make', 'model', 'year', 'mileage', 'fuelType', 'transmission', 'bodyType', 'color', 'doors',
+  'title', 'description', 'price', 'currency',
+  'city', 'country',
+  'sellerName', 'email', 'phone',
+] as const
+
+export type DraftFields = Partial<Record<typeof DRAFT_FIELDS[number], string>>
+
+export interface DraftInput {
+  title: string | null
+  data: DraftFields & { features: string[] }
+  images: string[]
+  currentStep: number
+}
+
+export interface FormattedDraft {
+  id: string
+  title: string | null
+  currentStep: number
+  data: DraftFields & { features: string[] }
+  images: string[]
+  createdAt: Date
+  updatedAt: Date
+}
+
+export function draftImages(images: unknown): string[] {
+  return Array.isArray(images) ? images.filter(isUploadedImagePath) : []
+}
+
+/**
+ * Keep only known sell form fields, as strings, plus catalogue features and
+ * uploaded image paths.
+ */
+export function sanitizeDraftInput(body: unknown): DraftInput {
+  const request = inputRecord(body)
+  const input = inputRecord(request.data)
+  const data: DraftInput['data'] = { features: [] }
+
+  for (const field of DRAFT_FIELDS) {
+    const value = input[field]
+    if (typeof value === 'string' || typeof value === 'number') {
+      data[field] = String(value).slice(0, MAX_DRAFT_VALUE_LENGTH)
+    }
+  }
+
+  if (Array.isArray(input.features)) {
+    data.features = Array.from(new Set(
+      input.features
+        .map((feature: unknown) => typeof feature === 'string' ? resolveFeatureKey(feature) : undefined)
+        .filter((key: string | undefined): key is string => !!key)
+    ))
+  }
+
+  const step = Number(request.currentStep)
+
+  return {
+    title: data.title?.trim() || (data.make || data.model ? `${data.make || ''} ${data.model || ''}`.trim() : null),
+    data,
+    images: draftImages(request.images).slice(0, MAX_LISTING_IMAGES),
+    currentStep: Number.isInteger(step) ? Math.min(SELL_WIZARD_STEPS, Math.max(1, step)) : 1,
+  }
+}
+
+export function formatDraft(draft: Prisma.ListingDraftGetPayload<{}>): FormattedDraft {
+  const data = (draft.data && typeof draft.data === 'object' && !Array.isArray(draft.data) ? draft.data : {}) as DraftFields & { features?: string[] }
+
+  return {
+    id: draft.id,
+    title: draft.title,
+    currentStep: draft.currentStep,
+    data: { ...data, features: Array.isArray(data.features) ? data.features : [] },
+    images: draftImages(draft.images),
+    createdAt: draft.createdAt,
+    updatedAt: draft.updatedAt,
+  }
+}
+
+/**
+ * Delete an uploaded file from public/uploads. Returns false when the file was
+ * already gone.
+ */
+export async function removeUpload(imagePath: string): Promise<boolean> {
+  if (!isUploadedImagePath(imagePath)) return false
+
+  try {
+    await unlink(path.join(process.cwd(), 'public', imagePath))
+    await forgetUploadedImage(imagePath)
+    return true
+  } catch (error) {
+    if (error instanceof Error && (error as NodeJS.ErrnoException).code === 'ENOENT') return false
+    throw error
+  }
+}
+
+/**
+ * Keep only the images this user uploaded, so a draft cannot claim (and later
+ * delete) somebody else's photos by path. Order is preserved.
+ */
+export async function ownedUploads(userId: string, images: string[]): Promise<string[]> {
+  if (images.length === 0) return []
+
+  const owned = await prisma.imageHash.findMany({
+    where: { imageUrl: { in: images }, userId },
+    select: { imageUrl: true },
+  })
+  const ownedUrls = new Set(owned.map(hash => hash.imageUrl))
+
+  return images.filter(image => ownedUrls.has(image))
+}
+
+// Listings (array or legacy comma separated images), drafts and dealer storefronts
+async function isUploadReferenced(image: string): Promise<boolean> {
+  const [listingUses, draftUses, storefrontUses] = await Promise.all([
+    prisma.listing.count({
+      where: {
+        OR: [
+          { images: { array_contains: [image] } },
+          { images: { string_contains: image } },
+        ],
+      },
+    }),
+    prisma.listingDraft.count({ where: { images: { array_contains: [image] } } }),
+    prisma.dealerStorefront.count({ where: { OR: [{ logoUrl: image }, { bannerUrl: image }] } }),
+  ])
+
+  return listingUses + draftUses + storefrontUses > 0
+}
+
+/**
+ * Delete uploads of this user that nothing references any more, e.g. after
+ * their draft is discarded. Returns how many files were removed.
+ */
+export async function removeUnreferencedUploads(userId: string, images: string[]): Promise<number> {
+  let removed = 0
+
+  for (const image of await ownedUploads(userId, Array.from(new Set(images)))) {
+    if (!await isUploadReferenced(image) && await removeUpload(image)) {
+      removed++
+    }
+  }
+
+  return removed
+}
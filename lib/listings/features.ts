@@ -0,0 +1,162 @@
+// Vehicle equipment catalogue
+//
+// The catalogue is defined here so labels and synonyms are versioned with the
+// code; syncFeatureCatalogue() mirrors it into marketplace_features, which the
+// listing-to-feature relation references. Keys are stable and used in URLs
+// (?features=navigation,leather_seats), so never rename an existing key.
+
+import { prisma } from '@/lib/prisma'
+import { foldAlbanian } from '../search/albanian-dictionary'
+
+export const FEATURE_CATEGORIES = {
+  safety: { labelSq: 'Siguria', labelEn: 'Safety' },
+  comfort: { labelSq: 'Komoditeti', labelEn: 'Comfort' },
+  multimedia: { labelSq: 'Multimedia', labelEn: 'Multimedia' },
+  exterior: { labelSq: 'Pamja e jashtme', labelEn: 'Exterior' },
+} as const
+
+export type FeatureCategory = keyof typeof FEATURE_CATEGORIES
+
+export interface FeatureDefinition {
+  key: string
+  category: FeatureCategory
+  labelSq: string
+  labelEn: string
+  synonyms: string[]
+}
+
+export const FEATURE_CATALOGUE: FeatureDefinition[] = [
+  // Safety
+  { key: 'abs', category: 'safety', labelSq: 'ABS', labelEn: 'ABS', synonyms: ['antibllokim'] },
+  { key: 'esp', category: 'safety', labelSq: 'Kontroll stabiliteti (ESP)', labelEn: 'Stability control (ESP)', synonyms: ['esc', 'stability control'] },
+  { key: 'side_airbags', category: 'safety', labelSq: 'Airbag anësore', labelEn: 'Side airbags', synonyms: ['airbags', 'airbag'] },
+  { key: 'parking_sensors', category: 'safety', labelSq: 'Sensorë parkimi', labelEn: 'Parking sensors', synonyms: ['pdc', 'park assist', 'sensore'] },
+  { key: 'rear_camera', category: 'safety', labelSq: 'Kamerë e pasme', labelEn: 'Rear camera', synonyms: ['reversing camera', 'backup camera', 'kamera'] },
+  { key: 'blind_spot_monitor', category: 'safety', labelSq: 'Monitorim i këndit të verbër', labelEn: 'Blind spot monitor', synonyms: ['blind spot'] },
+  { key: 'lane_assist', category: 'safety', labelSq: 'Asistent i korsisë', labelEn: 'Lane assist', synonyms: ['lane keeping'] },
+  { key: 'isofix', category: 'safety', labelSq: 'ISOFIX', labelEn: 'ISOFIX', synonyms: [] },
+
+  // Comfort
+  { key: 'air_conditioning', category: 'comfort', labelSq: 'Kondicioner', labelEn: 'Air conditioning', synonyms: ['ac', 'a/c', 'klima'] },
+  { key: 'climate_control', category: 'comfort', labelSq: 'Klimë automatike', labelEn: 'Climate control', synonyms: ['klimatronik', 'climatronic', 'dual zone'] },
+  { key: 'leather_seats', category: 'comfort', labelSq: 'Sedilje lëkure', labelEn: 'Leather seats', synonyms: ['leather', 'lëkurë', 'lekure'] },
+  { key: 'heated_seats', category: 'comfort', labelSq: 'Sedilje me ngrohje', labelEn: 'Heated seats', synonyms: ['seat heating'] },
+  { key: 'electric_seats', category: 'comfort', labelSq: 'Sedilje elektrike', labelEn: 'Electric seats', synonyms: ['power seats'] },
+  { key: 'cruise_control', category: 'comfort', labelSq: 'Cruise control', labelEn: 'Cruise control', synonyms: ['tempomat'] },
+  { key: 'adaptive_cruise_control', category: 'comfort', labelSq: 'Cruise control adaptiv', labelEn: 'Adaptive cruise control', synonyms: ['acc', 'distronic'] },
+  { key: 'keyless_entry', category: 'comfort', labelSq: 'Hyrje pa çelës', labelEn: 'Keyless entry', synonyms: ['keyless', 'keyless go'] },
+  { key: 'electric_windows', category: 'comfort', labelSq: 'Xhama elektrikë', labelEn: 'Electric windows', synonyms: ['power windows'] },
+
+  // Multimedia
+  { key: 'navigation', category: 'multimedia', labelSq: 'Navigacion GPS', labelEn: 'Navigation', synonyms: ['gps', 'nav', 'navi', 'sat nav', 'navigacion'] },
+  { key: 'bluetooth', category: 'multimedia', labelSq: 'Bluetooth', labelEn: 'Bluetooth', synonyms: [] },
+  { key: 'apple_carplay', category: 'multimedia', labelSq: 'Apple CarPlay / Android Auto', labelEn: 'Apple CarPlay / Android Auto', synonyms: ['carplay', 'android auto'] },
+  { key: 'touchscreen', category: 'multimedia', labelSq: 'Ekran me prekje', labelEn: 'Touchscreen', synonyms: ['touch screen', 'ekran'] },
+  { key: 'premium_audio', category: 'multimedia', labelSq: 'Sistem audio premium', labelEn: 'Premium audio', synonyms: ['harman kardon', 'bose', 'bang olufsen'] },
+  { key: 'head_up_display', category: 'multimedia', labelSq: 'Head-up display', labelEn: 'Head-up display', synonyms: ['hud'] },
+
+  // Exterior
+  { key: 'alloy_wheels', category: 'exterior', labelSq: 'Disqe alumini', labelEn: 'Alloy wheels', synonyms: ['alloys', 'rims', 'cerqe', 'felga'] },
+  { key: 'sunroof', category: 'exterior', labelSq: 'Tavan panoramik', labelEn: 'Sunroof / panoramic roof', synonyms: ['panoramic roof', 'panorama', 'panoramik', 'tavan xhami'] },
+  { key: 'led_headlights', category: 'exterior', labelSq: 'Fenerë LED', labelEn: 'LED headlights', synonyms: ['led', 'matrix led'] },
+  { key: 'xenon_headlights', category: 'exterior', labelSq: 'Fenerë xenon', labelEn: 'Xenon headlights', synonyms: ['xenon', 'bi-xenon'] },
+  { key: 'tow_bar', category: 'exterior', labelSq: 'Grep rimorkioje', labelEn: 'Tow bar', synonyms: ['towbar', 'tow hitch', 'grep'] },
+  { key: 'roof_rails', category: 'exterior', labelSq: 'Shina çatie', labelEn: 'Roof rails', synonyms: [] },
+  { key: 'tinted_windows', category: 'exterior', labelSq: 'Xhama të errësuar', labelEn: 'Tinted windows', synonyms: ['privacy glass'] },
+]
+
+export const MAX_LISTING_FEATURES = FEATURE_CATALOGUE.length
+
+interface FeatureRecord {
+  id: string
+  category: string
+  labelSq: string
+  labelEn: string
+}
+
+export interface FormattedFeature {
+  key: string
+  category: string
+  label: string // Albanian
+  labelEn: string
+}
+
+export function getFeatureDefinition(key: string): FeatureDefinition | undefined {
+  return FEATURE_CATALOGUE.find(feature => feature.key === key)
+}
+
+/**
+ * Resolve a key, label or synonym in either language to a catalogue key:
+ * "leather" -> leather_seats, "Sensorë parkimi" -> parking_sensors.
+ */
+export function resolveFeatureKey(value: string): string | undefined {
+  const folded = foldAlbanian(value).replace(/[_-]+/g, ' ')
+  return FEATURE_CATALOGUE.find(feature =>
+    [feature.key.replace(/_/g, ' '), feature.labelSq, feature.labelEn, ...feature.synonyms]
+      .some(name => foldAlbanian(name) === folded)
+  )?.key
+}
+
+/**
+ * Parse a comma-separated feature filter. Unknown values are kept as typed so
+ * they match nothing rather than silently widening the search.
+ */
+export function parseFeatureList(value: string | null): string[] | undefined {
+  const keys = (value || '')
+    .split(',')
+    .map(item => item.trim())
+    .filter(Boolean)
+    .map(item => resolveFeatureKey(item) ?? item)
+
+  return keys.length > 0 ? Array.from(new Set(keys)) : undefined
+}
+
+export function groupFeaturesByCategory(features: FeatureDefinition[] = FEATURE_CATALOGUE) {
+  return (Object.keys(FEATURE_CATEGORIES) as FeatureCategory[]).map(category => ({
+    category,
+    ...FEATURE_CATEGORIES[category],
+    features: features.filter(feature => feature.category === category),
+  }))
+}
+
+export function formatListingFeatures(features: { feature: FeatureRecord }[]): FormattedFeature[] {
+  return features.map(({ feature }) => ({
+    key: feature.id,
+    category: feature.category,
+    label: feature.labelSq,
+    labelEn: feature.labelEn,
+  }))
+}
+
+let catalogueSync: Promise<void> | null = null
+
+/**
+ * Upsert the catalogue into marketplace_features once per process so listing
+ * features can reference it. Safe to call before every write.
+ */
+export function syncFeatureCatalogue(): Promise<void> {
+  if (!catalogueSync) {
+    catalogueSync = prisma
+      .$transaction(
+        FEATURE_CATALOGUE.map((feature, index) => {
+          const data = {
+            category: feature.category,
+            labelSq: feature.labelSq,
+            labelEn: feature.labelEn,
+            sortOrder: index,
+          }
+          return prisma.feature.upsert({
+            where: { id: feature.key },
+            create: { id: feature.key, ...data },
+            update: data,
+          })
+        })
+      )
+      .then(() => undefined)
+      .catch(error => {
+        catalogueSync = null // Retry on the next write
+        throw error
+      })
+  }
+  return catalogueSync
+}
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest'
+import sharp from 'sharp'
+import { DHASH_MAX_DISTANCE, PHASH_MAX_DISTANCE, duplicateDistances, fingerprintImage, hammingDistance, phashBands } from './image-hashes'
+
+// Flip the lowest `bits` bits of a hex hash
+function flipBits(hash: string, bits: number): string {
+  const chars = hash.split('')
+  for (let bit = 0; bit < bits; bit++) {
+    const i = chars.length - 1 - Math.floor(bit / 4)
+    chars[i] = (parseInt(chars[i], 16) ^ (1 << (bit % 4))).toString(16)
+  }
+  return chars.join('')
+}
+
+// A test card with a gradient background and two solid shapes, as PNG
+async function testImage(size: number): Promise<Buffer> {
+  const pixels = Buffer.alloc(size * size)
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const [u, v] = [x / size, y / size]
+      let value = 40 + 120 * u
+      if ((u - 0.3) ** 2 + (v - 0.4) ** 2 < 0.04) value = 230
+      if (u > 0.6 && v > 0.55 && v < 0.85) value = 10
+      pixels[y * size + x] = value
+    }
+  }
+  return sharp(pixels, { raw: { width: size, height: size, channels: 1 } }).png().toBuffer()
+}
+
+const hashA = { phash: '0123456789abcdef', dhash: 'fedcba9876543210' }
+
+describe('hammingDistance', () => {
+  it('counts differing bits', () => {
+    expect(hammingDistance('0000', '0000')).toBe(0)
+    expect(hammingDistance('000f', '0000')).toBe(4)
+    expect(hammingDistance('ffff', '0000')).toBe(16)
+  })
+})
+
+describe('phashBands', () => {
+  it('tags each byte with its position so equal bytes only match in place', () => {
+    expect(phashBands('00ff000000000001')).toEqual([0, 256 + 255, 512, 768, 1024, 1280, 1536, 1792 + 1])
+  })
+
+  it('leaves hashes within PHASH_MAX_DISTANCE sharing a band', () => {
+    // Spread the flipped bits so no two land in the same byte
+    const near = hashA.phash.split('').map((char, i) => i % 2 === 0 && i < 14 ? (parseInt(char, 16) ^ 1).toString(16) : char).join('')
+    expect(hammingDistance(hashA.phash, near)).toBe(PHASH_MAX_DISTANCE)
+
+    const bands = new Set(phashBands(hashA.phash))
+    expect(phashBands(near).some(band => bands.has(band))).toBe(true)
+  })
+})
+
+describe('duplicateDistances', () => {
+  it('matches hashes within both thresholds', () => {
+    const near = { phash: flipBits(hashA.phash, PHASH_MAX_DISTANCE), dhash: flipBits(hashA.dhash, DHASH_MAX_DISTANCE) }
+
+    expect(duplicateDistances(hashA, near)).toEqual({ phashDistance: PHASH_MAX_DISTANCE, dhashDistance: DHASH_MAX_DISTANCE })
+  })
+
+  it('rejects a pair that is too far apart by either hash', () => {
+    expect(duplicateDistances(hashA, { ...hashA, phash: flipBits(hashA.phash, PHASH_MAX_DISTANCE + 1) })).toBeNull()
+    expect(duplicateDistances(hashA, { ...hashA, dhash: flipBits(hashA.dhash, DHASH_MAX_DISTANCE + 1) })).toBeNull()
+  })
+})
+
+describe('fingerprintImage', () => {
+  it('recognises a resized, re-compressed copy but not a mirrored one', async () => {
+    const image = await testImage(256)
+    const original = await fingerprintImage(image)
+    const copy = await fingerprintImage(await sharp(image).resize(180).jpeg({ quality: 60 }).toBuffer())
+    const mirrored = await fingerprintImage(await sharp(image).flop().toBuffer())
+
+    expect(duplicateDistances(original, copy)).not.toBeNull()
+    expect(duplicateDistances(original, mirrored)).toBeNull()
+  })
+})
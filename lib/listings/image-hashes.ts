@@ -0,0 +1,337 @@
+// Perceptual image hashes
+//
+// Every uploaded photo gets a pHash (low frequencies of a DCT over a 32x32
+// grayscale thumbnail) and a dHash (brightness gradient of a 9x8 one). Both
+// stay within a few bits across re-compression, resizing and light crops, so
+// a photo lifted from another seller's listing is recognised even when the
+// file itself differs.
+//
+// Lookups split the pHash into eight bytes tagged with their position. Two
+// hashes within PHASH_MAX_DISTANCE bits must share at least one byte, so the
+// GIN-indexed band column narrows the candidates before the exact Hamming
+// check. Listings created before hashing existed are hashed from disk the
+// next time they are screened.
+
+import { readFile } from 'fs/promises'
+import path from 'path'
+import sharp from 'sharp'
+import { Listing, Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { isUploadedImagePath } from './validation'
+
+export const PHASH_MAX_DISTANCE = 7  // Bits; eight bands guarantee recall up to 7
+export const DHASH_MAX_DISTANCE = 12 // Second opinion that keeps false positives down
+
+const PHASH_SIZE = 32
+const PHASH_LOW_FREQUENCIES = 8
+
+export interface ImageFingerprint {
+  phash: string
+  dhash: string
+  width: number | null
+  height: number | null
+}
+
+export interface DuplicateImageMatch {
+  imageUrl: string
+  matchedImageUrl: string
+  matchedListingId: string
+  matchedUserId: string
+  matchedListingTitle: string
+  matchedListingCreatedAt: Date
+  phashDistance: number
+  dhashDistance: number
+}
+
+type HashedListing = Pick<Listing, 'id' | 'userId' | 'title' | 'createdAt'> & { images: Prisma.JsonValue }
+
+// Grayscale pixels of the image squashed to width x height, after EXIF rotation
+async function grayscalePixels(image: Buffer, width: number, height: number): Promise<number[]> {
+  const { data, info } = await sharp(image)
+    .rotate()
+    .greyscale()
+    .resize(width, height, { fit: 'fill' })
+    .raw()
+    .toBuffer({ resolveWithObject: true })
+
+  const pixels: number[] = []
+  for (let i = 0; i < width * height; i++) {
+    pixels.push(data[i * info.channels])
+  }
+  return pixels
+}
+
+function bitsToHex(bits: boolean[]): string {
+  let hex = ''
+  for (let i = 0; i < bits.length; i += 4) {
+    const nibble = (bits[i] ? 8 : 0) | (bits[i + 1] ? 4 : 0) | (bits[i + 2] ? 2 : 0) | (bits[i + 3] ? 1 : 0)
+    hex += nibble.toString(16)
+  }
+  return hex
+}
+
+const DCT_COSINES = Array.from({ length: PHASH_LOW_FREQUENCIES }, (_, u) =>
+  Array.from({ length: PHASH_SIZE }, (_, x) => Math.cos(((2 * x + 1) * u * Math.PI) / (2 * PHASH_SIZE)))
+)
+
+function dctScale(u: number): number {
+  return u === 0 ? Math.sqrt(1 / PHASH_SIZE) : Math.sqrt(2 / PHASH_SIZE)
+}
+
+// Top-left 8x8 block of the 2D DCT-II, computed separably
+function lowFrequencyDct(pixels: number[]): number[] {
+  const rows: number[][] = []
+  for (let y = 0; y < PHASH_SIZE; y++) {
+    rows.push(DCT_COSINES.map((cosines, u) => {
+      let sum = 0
+      for (let x = 0; x < PHASH_SIZE; x++) sum += pixels[y * PHASH_SIZE + x] * cosines[x]
+      return sum * dctScale(u)
+    }))
+  }
+
+  const coefficients: number[] = []
+  for (let v = 0; v < PHASH_LOW_FREQUENCIES; v++) {
+    for (let u = 0; u < PHASH_LOW_FREQUENCIES; u++) {
+      let sum = 0
+      for (let y = 0; y < PHASH_SIZE; y++) sum += rows[y][u] * DCT_COSINES[v][y]
+      coefficients.push(sum * dctScale(v))
+    }
+  }
+  return coefficients
+}
+
+async function perceptualHash(image: Buffer): Promise<string> {
+  const coefficients = lowFrequencyDct(await grayscalePixels(image, PHASH_SIZE, PHASH_SIZE))
+
+  // The DC term is overall brightness and would skew the median
+  const sorted = coefficients.slice(1).sort((a, b) => a - b)
+  const median = (sorted[31] + sorted[32]) / 2
+  return bitsToHex(coefficients.map(value => value > median))
+}
+
+async function differenceHash(image: Buffer): Promise<string> {
+  const pixels = await grayscalePixels(image, 9, 8)
+  const bits: boolean[] = []
+  for (let y = 0; y < 8; y++) {
+    for (let x = 0; x < 8; x++) {
+      bits.push(pixels[y * 9 + x] > pixels[y * 9 + x + 1])
+    }
+  }
+  return bitsToHex(bits)
+}
+
+export async function fingerprintImage(image: Buffer): Promise<ImageFingerprint> {
+  const [metadata, phash, dhash] = await Promise.all([
+    sharp(image).metadata(),
+    perceptualHash(image),
+    differenceHash(image),
+  ])
+  return { phash, dhash, width: metadata.width ?? null, height: metadata.height ?? null }
+}
+
+export function hammingDistance(a: string, b: string): number {
+  let distance = 0
+  for (let i = 0; i < a.length; i++) {
+    let diff = parseInt(a[i], 16) ^ parseInt(b[i], 16)
+    while (diff) {
+      distance += diff & 1
+      diff >>= 1
+    }
+  }
+  return distance
+}
+
+export function phashBands(phash: string): number[] {
+  return Array.from({ length: 8 }, (_, band) => band * 256 + parseInt(phash.slice(band * 2, band * 2 + 2), 16))
+}
+
+/**
+ * Hamming distances of two photos' hashes when they are near-identical by
+ * both pHash and dHash, otherwise null.
+ */
+export function duplicateDistances(
+  a: Pick<ImageFingerprint, 'phash' | 'dhash'>,
+  b: Pick<ImageFingerprint, 'phash' | 'dhash'>
+): { phashDistance: number; dhashDistance: number } | null {
+  const phashDistance = hammingDistance(a.phash, b.phash)
+  const dhashDistance = hammingDistance(a.dhash, b.dhash)
+  if (phashDistance > PHASH_MAX_DISTANCE || dhashDistance > DHASH_MAX_DISTANCE) return null
+  return { phashDistance, dhashDistance }
+}
+
+function hashData(imageUrl: string, fingerprint: ImageFingerprint) {
+  return { imageUrl, ...fingerprint, phashBands: phashBands(fingerprint.phash) }
+}
+
+/**
+ * Store the hash of a photo just written by /api/upload. It is attached to a
+ * listing when the listing is screened.
+ */
+export async function recordUploadedImage(imageUrl: string, image: Buffer, userId: string | null): Promise<void> {
+  const fingerprint = await fingerprintImage(image)
+  await prisma.imageHash.create({
+    data: { ...hashData(imageUrl, fingerprint), userId },
+  })
+}
+
+// Hashes of uploads that were never used on a listing, e.g. a discarded draft's photos
+export async function forgetUploadedImage(imageUrl: string): Promise<void> {
+  await prisma.imageHash.deleteMany({ where: { imageUrl, listingId: null } })
+}
+
+/**
+ * Make the listing's hash rows match its current photos: attach hashes
+ * recorded at upload, hash anything missing from disk and drop rows for
+ * photos no longer on the listing.
+ */
+export async function indexListingImages(listing: HashedListing) {
+  const images = Array.from(new Set(
+    (Array.isArray(listing.images) ? listing.images : []).filter(isUploadedImagePath)
+  ))
+
+  await prisma.imageHash.deleteMany({
+    where: { listingId: listing.id, imageUrl: { notIn: images } },
+  })
+
+  const indexed = new Set(
+    (await prisma.imageHash.findMany({ where: { listingId: listing.id }, select: { imageUrl: true } }))
+      .map(hash => hash.imageUrl)
+  )
+
+  for (const imageUrl of images.filter(image => !indexed.has(image))) {
+    const uploaded = await prisma.imageHash.findFirst({
+      where: { imageUrl, listingId: null },
+      orderBy: { createdAt: 'desc' },
+    })
+
+    if (uploaded) {
+      await prisma.imageHash.update({
+        where: { id: uploaded.id },
+        data: { listingId: listing.id, userId: uploaded.userId ?? listing.userId },
+      })
+      continue
+    }
+
+    try {
+      const image = await readFile(path.join(process.cwd(), 'public', imageUrl))
+      await prisma.imageHash.create({
+        data: { ...hashData(imageUrl, await fingerprintImage(image)), listingId: listing.id, userId: listing.userId },
+      })
+    } catch (error) {
+      console.warn(`Could not hash ${imageUrl} for listing ${listing.id}:`, error)
+    }
+  }
+
+  return prisma.imageHash.findMany({ where: { listingId: listing.id } })
+}
+
+/**
+ * Photos of the listing that also appear, near-identically, on listings of
+ * other sellers. The same seller reusing photos across their own cars is
+ * not reported here.
+ */
+export async function findDuplicateImages(listing: HashedListing): Promise<DuplicateImageMatch[]> {
+  const hashes = await indexListingImages(listing)
+  const matches: DuplicateImageMatch[] = []
+
+  for (const hash of hashes) {
+    // Not limited: a popular band can share a byte with many unrelated photos,
+    // and any cut before the Hamming check could drop the real duplicate
+    const candidates = await prisma.imageHash.findMany({
+      where: {
+        phashBands: { hasSome: hash.phashBands },
+        listing: {
+          id: { not: listing.id },
+          userId: { not: listing.userId },
+          status: { notIn: ['deleted', 'rejected'] },
+        },
+      },
+      select: {
+        imageUrl: true,
+        phash: true,
+        dhash: true,
+        listing: { select: { id: true, userId: true, title: true, createdAt: true } },
+      },
+    })
+
+    for (const candidate of candidates) {
+      if (!candidate.listing) continue
+      const distances = duplicateDistances(hash, candidate)
+      if (!distances) continue
+
+      matches.push({
+        imageUrl: hash.imageUrl,
+        matchedImageUrl: candidate.imageUrl,
+        matchedListingId: candidate.listing.id,
+        matchedUserId: candidate.listing.userId,
+        matchedListingTitle: candidate.listing.title,
+        matchedListingCreatedAt: candidate.listing.createdAt,
+        ...distances,
+      })
+    }
+  }
+
+  return matches
+}
+
+/**
+ * Raise one `duplicate_images` FraudAlert per other listing sharing photos
+ * with this one, unless an open alert already links the two.
+ */
+export async function raiseDuplicateImageAlerts(listing: HashedListing, matches: DuplicateImageMatch[]): Promise<number> {
+  const byListing = new Map<string, DuplicateImageMatch[]>()
+  for (const match of matches) {
+    byListing.set(match.matchedListingId, [...(byListing.get(match.matchedListingId) ?? []), match])
+  }
+
+  let raised = 0
+  for (const [matchedListingId, listingMatches] of Array.from(byListing.entries())) {
+    const openAlerts = await prisma.fraudAlert.findMany({
+      where: {
+        alertType: 'duplicate_images',
+        listingId: { in: [listing.id, matchedListingId] },
+        status: { in: ['pending', 'investigating'] },
+      },
+      select: { evidence: true },
+    })
+    const alreadyLinked = openAlerts.some(alert => {
+      const listingIds = (alert.evidence as { listingIds?: string[] } | null)?.listingIds ?? []
+      return listingIds.includes(listing.id) && listingIds.includes(matchedListingId)
+    })
+    if (alreadyLinked) continue
+
+    const other = listingMatches[0]
+    const photos = new Set(listingMatches.map(match => match.imageUrl)).size
+    const original = other.matchedListingCreatedAt < listing.createdAt ? matchedListingId : listing.id
+
+    await prisma.fraudAlert.create({
+      data: {
+        listingId: listing.id,
+        userId: listing.userId,
+        alertType: 'duplicate_images',
+        severity: photos >= 3 ? 'critical' : 'high',
+        description: `${photos} foto të njëjta me shpalljen "${other.matchedListingTitle}" të një shitësi tjetër`,
+        evidence: {
+          listingIds: [listing.id, matchedListingId],
+          userIds: [listing.userId, other.matchedUserId],
+          originalListingId: original,
+          matches: listingMatches.map(({ imageUrl, matchedImageUrl, phashDistance, dhashDistance }) => ({
+            imageUrl, matchedImageUrl, phashDistance, dhashDistance,
+          })),
+        },
+      },
+    })
+    raised++
+  }
+
+  return raised
+}
+
+// Hash the listing's photos, look for them on other sellers' listings and raise alerts
+export async function screenListingImages(listing: HashedListing): Promise<DuplicateImageMatch[]> {
+  const matches = await findDuplicateImages(listing)
+  if (matches.length > 0) {
+    await raiseDuplicateImageAlerts(listing, matches)
+  }
+  return matches
+}
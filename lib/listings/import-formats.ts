@@ -0,0 +1,251 @@
+// Dealer feed parsing
+//
+// Turns a CSV or XML inventory file into plain records keyed by listing field,
+// one per car. Nothing is validated here beyond the file structure; rows are
+// checked by lib/listings/inventory-import.ts. Both formats are documented in
+// DEALER_IMPORT.md.
+
+export type ImportFormat = 'csv' | 'xml'
+
+export const IMPORT_FIELDS = [
+  'stockNumber', 'vin',
+  'title', 'description', 'price', 'currency',
+  'make', 'model', 'year', 'mileage', 'fuelType', 'transmission', 'bodyType', 'color',
+  'city', 'region', 'country',
+  'features', 'images',
+] as const
+
+export type ImportField = typeof IMPORT_FIELDS[number]
+
+export type ImportRecord = Partial<Record<ImportField, string | string[]>>
+
+export interface ParsedFeedRow {
+  row: number // CSV line or XML <vehicle> position, 1-based, as shown to the dealer
+  record: ImportRecord
+}
+
+export interface ParsedFeed {
+  format: ImportFormat
+  rows: ParsedFeedRow[]
+  ignoredColumns: string[]
+}
+
+export class FeedFormatError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'FeedFormatError'
+  }
+}
+
+// Header spellings seen in dealer management system exports, folded to
+// lowercase letters and digits
+const FIELD_ALIASES: Record<ImportField, string[]> = {
+  stockNumber: ['stocknumber', 'stockno', 'stock', 'stockid', 'sku', 'reference', 'ref'],
+  vin: ['vin', 'vinnumber', 'chassis', 'chassisnumber', 'shasia'],
+  title: ['title', 'titulli', 'name'],
+  description: ['description', 'pershkrimi', 'comments'],
+  price: ['price', 'cmimi', 'saleprice'],
+  currency: ['currency', 'monedha'],
+  make: ['make', 'brand', 'marka'],
+  model: ['model', 'modeli'],
+  year: ['year', 'viti', 'modelyear', 'firstregistration'],
+  mileage: ['mileage', 'km', 'kilometers', 'kilometres', 'kilometrazhi', 'odometer'],
+  fuelType: ['fueltype', 'fuel', 'karburanti'],
+  transmission: ['transmission', 'gearbox', 'kambio'],
+  bodyType: ['bodytype', 'body', 'karroceria'],
+  color: ['color', 'colour', 'ngjyra'],
+  city: ['city', 'qyteti', 'location'],
+  region: ['region', 'rajoni'],
+  country: ['country', 'shteti'],
+  features: ['features', 'equipment', 'options', 'pajisjet'],
+  images: ['images', 'image', 'photos', 'fotot'],
+}
+
+const LIST_FIELDS: ImportField[] = ['features', 'images']
+
+function foldHeader(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, '')
+}
+
+export function resolveImportField(name: string): ImportField | undefined {
+  const folded = foldHeader(name)
+  return IMPORT_FIELDS.find(field => FIELD_ALIASES[field].includes(folded))
+}
+
+// Lists inside a single CSV cell or XML element: "navigation|leather seats"
+function splitList(value: string): string[] {
+  return value.split(/[|;,\n]/).map(item => item.trim()).filter(Boolean)
+}
+
+export function detectImportFormat(content: string, hint?: string | null): ImportFormat {
+  const declared = (hint || '').toLowerCase()
+  if (declared.includes('xml')) return 'xml'
+  if (declared.includes('csv')) return 'csv'
+  return content.replace(/^\uFEFF/, '').trimStart().startsWith('<') ? 'xml' : 'csv'
+}
+
+export function parseFeed(content: string, format: ImportFormat): ParsedFeed {
+  return format === 'xml' ? parseInventoryXml(content) : parseInventoryCsv(content)
+}
+
+/**
+ * RFC 4180 CSV with either comma or semicolon delimiters (Excel in sq/de/it
+ * locales exports semicolons). Returns every line as an array of cells with
+ * the 1-based line it started on.
+ */
+export function parseCsv(content: string): { line: number; cells: string[] }[] {
+  const text = content.replace(/^\uFEFF/, '')
+  const firstLine = text.slice(0, text.search(/\r?\n|$/))
+  const delimiter = (firstLine.match(/;/g)?.length ?? 0) > (firstLine.match(/,/g)?.length ?? 0) ? ';' : ','
+
+  const rows: { line: number; cells: string[] }[] = []
+  let cells: string[] = []
+  let cell = ''
+  let quoted = false
+  let line = 1
+  let rowLine = 1
+
+  const endRow = () => {
+    cells.push(cell)
+    if (cells.some(value => value.trim() !== '')) rows.push({ line: rowLine, cells })
+    cells = []
+    cell = ''
+  }
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        if (char === '\n') line++
+        cell += char
+      }
+    } else if (char === '"' && cell.trim() === '') {
+      quoted = true
+      cell = ''
+    } else if (char === delimiter) {
+      cells.push(cell)
+      cell = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      endRow()
+      line++
+      rowLine = line
+    } else {
+      cell += char
+    }
+  }
+
+  if (quoted) {
+    throw new FeedFormatError(`Unterminated quoted value starting on line ${rowLine}`)
+  }
+  if (cell !== '' || cells.length > 0) endRow()
+
+  return rows
+}
+
+function toRecord(entries: [string, string | string[]][], ignored: Set<string>): ImportRecord {
+  const record: ImportRecord = {}
+
+  for (const [name, raw] of entries) {
+    const field = resolveImportField(name)
+    if (!field) {
+      ignored.add(name)
+      continue
+    }
+
+    if (LIST_FIELDS.includes(field)) {
+      const items = (Array.isArray(raw) ? raw : [raw]).flatMap(splitList)
+      if (items.length > 0) record[field] = items
+    } else {
+      const value = (Array.isArray(raw) ? raw.join(' ') : raw).trim()
+      if (value) record[field] = value
+    }
+  }
+
+  return record
+}
+
+export function parseInventoryCsv(content: string): ParsedFeed {
+  const [header, ...lines] = parseCsv(content)
+  if (!header) {
+    throw new FeedFormatError('The file is empty')
+  }
+
+  const columns = header.cells.map(name => name.trim())
+  const fields = columns.map(resolveImportField)
+  if (!fields.includes('stockNumber') && !fields.includes('vin')) {
+    throw new FeedFormatError('The header must include a stock_number or vin column')
+  }
+
+  const ignored = new Set<string>()
+  const rows = lines.map(({ line, cells }) => ({
+    row: line,
+    record: toRecord(columns.map((name, index) => [name, cells[index] ?? '']), ignored),
+  }))
+
+  return { format: 'csv', rows, ignoredColumns: Array.from(ignored).filter(Boolean) }
+}
+
+function decodeXmlText(value: string): string {
+  const cdata = value.match(/^\s*<!\[CDATA\[([\s\S]*)\]\]>\s*$/)
+  if (cdata) return cdata[1]
+
+  return value
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(parseInt(dec, 10)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&')
+}
+
+/**
+ * The documented XML format: an <inventory> root with one <vehicle> per car.
+ * Fields are child elements; <features> and <images> hold repeated
+ * <feature>/<image> children.
+ */
+export function parseInventoryXml(content: string): ParsedFeed {
+  const text = content.replace(/^\uFEFF/, '').replace(/<!--[\s\S]*?-->/g, '')
+
+  if (!/<inventory[\s>]/.test(text)) {
+    throw new FeedFormatError('The XML root element must be <inventory>')
+  }
+
+  const ignored = new Set<string>()
+  const rows: ParsedFeedRow[] = []
+  const vehiclePattern = /<vehicle(?:\s[^>]*)?>([\s\S]*?)<\/vehicle>/g
+  let vehicle: RegExpExecArray | null
+
+  while ((vehicle = vehiclePattern.exec(text)) !== null) {
+    const entries: [string, string | string[]][] = []
+    const elementPattern = /<([A-Za-z_][\w.-]*)(?:\s[^>]*)?(?:\/>|>([\s\S]*?)<\/\1>)/g
+    let element: RegExpExecArray | null
+
+    while ((element = elementPattern.exec(vehicle[1])) !== null) {
+      const [, name, body = ''] = element
+      const children = Array.from(body.matchAll(/<([A-Za-z_][\w.-]*)(?:\s[^>]*)?>([\s\S]*?)<\/\1>/g))
+
+      entries.push([
+        name,
+        children.length > 0 && !body.includes('<![CDATA[')
+          ? children.map(child => decodeXmlText(child[2]).trim())
+          : decodeXmlText(body),
+      ])
+    }
+
+    rows.push({ row: rows.length + 1, record: toRecord(entries, ignored) })
+  }
+
+  if (rows.length === 0 && /<vehicle[\s>]/.test(text)) {
+    throw new FeedFormatError('Every <vehicle> element must be closed with </vehicle>')
+  }
+
+  return { format: 'xml', rows, ignoredColumns: Array.from(ignored) }
+}
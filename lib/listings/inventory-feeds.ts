@@ -0,0 +1,287 @@
+// Outbound dealer inventory feeds
+//
+// Exports a dealer's active listings for external catalogues: a Facebook
+// automotive catalog CSV, a Google vehicle listing feed (RSS 2.0 with g:
+// attributes) and a generic JSON feed. Each dealer gets one signed URL per
+// format that stays valid until the dealer rotates it; see /api/feeds.
+
+import { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { Currency, currencyService } from '../currency'
+import { regionalService } from '../regional'
+import { socialSharingService } from '../social-sharing'
+import { signValue, verifySignedValue } from '../security/url-signing'
+import { MAX_LISTING_IMAGES, SUPPORTED_LISTING_CURRENCIES } from './validation'
+
+export const FEED_FORMATS = ['facebook', 'google', 'json'] as const
+
+export type FeedFormat = typeof FEED_FORMATS[number]
+
+// Currency each catalogue expects unless the feed URL asks for another one
+export const FEED_DEFAULT_CURRENCY: Record<FeedFormat, Currency> = {
+  facebook: 'EUR',
+  google: 'EUR',
+  json: 'EUR',
+}
+
+const FEED_CONTENT_TYPES: Record<FeedFormat, string> = {
+  facebook: 'text/csv; charset=utf-8',
+  google: 'application/xml; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+}
+
+const FEED_SIGNING_PURPOSE = 'inventory-feed'
+
+interface FeedDealer {
+  id: string
+  name: string | null
+  feedTokenVersion: number
+}
+
+type FeedListing = Prisma.ListingGetPayload<{ include: { features: { include: { feature: true } } } }>
+
+interface PreparedListing {
+  listing: FeedListing
+  price: number // In the feed currency, whole units
+  url: string
+  images: string[] // Absolute URLs
+  latitude?: number
+  longitude?: number
+}
+
+// Catalogue vocabularies for the canonical values stored on Listing
+const FACEBOOK_FUEL_TYPES: Record<string, string> = {
+  Petrol: 'PETROL', Diesel: 'DIESEL', Electric: 'ELECTRIC', Hybrid: 'HYBRID',
+}
+const FACEBOOK_TRANSMISSIONS: Record<string, string> = {
+  Manual: 'MANUAL', Automatic: 'AUTOMATIC', 'Semi-automatic': 'AUTOMATIC', CVT: 'AUTOMATIC',
+}
+const FACEBOOK_BODY_STYLES: Record<string, string> = {
+  Sedan: 'SEDAN', Hatchback: 'HATCHBACK', SUV: 'SUV', Wagon: 'WAGON', Coupe: 'COUPE',
+  Convertible: 'CONVERTIBLE', Van: 'VAN', Pickup: 'PICKUP',
+}
+const GOOGLE_ENGINES: Record<string, string> = {
+  Petrol: 'gasoline', Diesel: 'diesel', Electric: 'electric', Hybrid: 'hybrid', CNG: 'natural gas',
+}
+
+function baseUrl(): string {
+  return (process.env.NEXTAUTH_URL || '').replace(/\/+$/, '')
+}
+
+function feedSignatureValue(dealer: FeedDealer): string {
+  return `${dealer.id}:${dealer.feedTokenVersion}`
+}
+
+export function verifyFeedSignature(dealer: FeedDealer, signature: string | null): boolean {
+  return verifySignedValue(FEED_SIGNING_PURPOSE, feedSignatureValue(dealer), signature)
+}
+
+export function getFeedUrls(dealer: FeedDealer): Record<FeedFormat, string> {
+  const signature = signValue(FEED_SIGNING_PURPOSE, feedSignatureValue(dealer))
+
+  return Object.fromEntries(
+    FEED_FORMATS.map(format => [format, `${baseUrl()}/api/feeds/${dealer.id}/${format}?sig=${signature}`])
+  ) as Record<FeedFormat, string>
+}
+
+export function parseFeedCurrency(value: string | null, format: FeedFormat): Currency | undefined {
+  if (!value) return FEED_DEFAULT_CURRENCY[format]
+  const currency = value.toUpperCase()
+  return (SUPPORTED_LISTING_CURRENCIES as readonly string[]).includes(currency) ? currency as Currency : undefined
+}
+
+async function convertPrice(listing: FeedListing, currency: Currency): Promise<number> {
+  const amount = listing.price / 100
+  const from = listing.currency as Currency
+
+  return from === currency ? Math.round(amount) : currencyService.convertCurrency(amount, from, currency)
+}
+
+async function prepareListings(dealerId: string, currency: Currency): Promise<PreparedListing[]> {
+  const listings = await prisma.listing.findMany({
+    where: { userId: dealerId, status: 'active' },
+    include: {
+      features: {
+        include: { feature: true },
+        orderBy: { feature: { sortOrder: 'asc' } },
+      },
+    },
+    orderBy: { updatedAt: 'desc' },
+  })
+
+  const prepared: PreparedListing[] = []
+  for (const listing of listings) {
+    const coordinates = regionalService.findRegionByName(listing.city)?.coordinates
+    prepared.push({
+      listing,
+      price: await convertPrice(listing, currency),
+      url: `${baseUrl()}/listings/${listing.id}`,
+      images: (Array.isArray(listing.images) ? listing.images as string[] : []).map(image => `${baseUrl()}${image}`),
+      latitude: coordinates?.lat,
+      longitude: coordinates?.lng,
+    })
+  }
+  return prepared
+}
+
+function marketplacePost(item: PreparedListing, currency: Currency) {
+  const { listing } = item
+  return socialSharingService.generateFacebookMarketplacePost({
+    ...listing,
+    price: item.price,
+    currency,
+    color: listing.color ?? undefined,
+    images: item.images,
+  })
+}
+
+function csvCell(value: string | number | undefined | null): string {
+  const text = value === undefined || value === null ? '' : String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+function xmlText(value: string | number): string {
+  return String(value)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+}
+
+function buildFacebookCsv(items: PreparedListing[], currency: Currency): string {
+  const imageColumns = Array.from({ length: MAX_LISTING_IMAGES }, (_, index) => `image[${index}].url`)
+  const header = [
+    'vehicle_id', 'title', 'description', 'url', 'make', 'model', 'year',
+    'mileage.value', 'mileage.unit', ...imageColumns,
+    'body_style', 'transmission', 'fuel_type', 'exterior_color', 'state_of_vehicle', 'vin',
+    'price', 'address.city', 'address.region', 'address.country', 'latitude', 'longitude', 'availability',
+  ]
+
+  const rows = items.map(item => {
+    const { listing } = item
+    const post = marketplacePost(item, currency)
+    return [
+      listing.id,
+      post.title,
+      post.description,
+      item.url,
+      listing.make,
+      listing.model,
+      listing.year,
+      listing.mileage,
+      'KM',
+      ...imageColumns.map((_, index) => item.images[index]),
+      FACEBOOK_BODY_STYLES[listing.bodyType] ?? 'OTHER',
+      FACEBOOK_TRANSMISSIONS[listing.transmission] ?? 'OTHER',
+      FACEBOOK_FUEL_TYPES[listing.fuelType] ?? 'OTHER',
+      listing.color,
+      'USED',
+      listing.vin,
+      `${item.price} ${currency}`,
+      listing.city,
+      listing.region,
+      listing.country,
+      item.latitude,
+      item.longitude,
+      'available',
+    ]
+  })
+
+  return [header, ...rows].map(row => row.map(csvCell).join(',')).join('\r\n') + '\r\n'
+}
+
+function buildGoogleXml(dealer: FeedDealer, items: PreparedListing[], currency: Currency): string {
+  const element = (name: string, value: string | number | null | undefined) =>
+    value === null || value === undefined || value === '' ? '' : `      <g:${name}>${xmlText(value)}</g:${name}>\n`
+
+  const entries = items.map(item => {
+    const { listing } = item
+    const post = marketplacePost(item, currency)
+    return [
+      '    <item>\n',
+      element('id', listing.id),
+      element('title', post.title),
+      element('description', post.description),
+      element('link', item.url),
+      element('image_link', item.images[0]),
+      ...item.images.slice(1).map(image => element('additional_image_link', image)),
+      element('price', `${item.price} ${currency}`),
+      element('condition', 'used'),
+      element('brand', listing.make),
+      element('model', listing.model),
+      element('year', listing.year),
+      element('mileage', `${listing.mileage} km`),
+      element('vin', listing.vin),
+      element('color', listing.color),
+      element('body_style', listing.bodyType.toLowerCase()),
+      element('engine', GOOGLE_ENGINES[listing.fuelType] ?? 'other'),
+      element('availability', 'in stock'),
+      '    </item>\n',
+    ].join('')
+  })
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>\n',
+    '<rss version="2.0" xmlns:g="http://base.google.com/ns/1.0">\n',
+    '  <channel>\n',
+    `    <title>${xmlText(dealer.name || 'AutoMarket dealer')}</title>\n`,
+    `    <link>${xmlText(`${baseUrl()}/listings`)}</link>\n`,
+    '    <description>Vehicle inventory</description>\n',
+    ...entries,
+    '  </channel>\n',
+    '</rss>\n',
+  ].join('')
+}
+
+function buildJson(dealer: FeedDealer, items: PreparedListing[], currency: Currency): string {
+  return JSON.stringify({
+    dealer: { id: dealer.id, name: dealer.name },
+    generatedAt: new Date().toISOString(),
+    currency,
+    count: items.length,
+    listings: items.map(({ listing, price, url, images }) => ({
+      id: listing.id,
+      stockNumber: listing.stockNumber,
+      vin: listing.vin,
+      url,
+      title: listing.title,
+      description: listing.description,
+      make: listing.make,
+      model: listing.model,
+      year: listing.year,
+      mileage: listing.mileage,
+      fuelType: listing.fuelType,
+      transmission: listing.transmission,
+      bodyType: listing.bodyType,
+      color: listing.color,
+      city: listing.city,
+      region: listing.region,
+      country: listing.country,
+      price,
+      originalPrice: { amount: listing.price / 100, currency: listing.currency },
+      images,
+      features: listing.features.map(({ feature }) => feature.id),
+      updatedAt: listing.updatedAt,
+    })),
+  })
+}
+
+/**
+ * Render a dealer's active inventory in the given catalogue format, with all
+ * prices in `currency`.
+ */
+export async function buildInventoryFeed(
+  dealer: FeedDealer,
+  format: FeedFormat,
+  currency: Currency = FEED_DEFAULT_CURRENCY[format]
+): Promise<{ body: string; contentType: string }> {
+  const items = await prepareListings(dealer.id, currency)
+
+  const body =
+    format === 'facebook' ? buildFacebookCsv(items, currency) :
+    format === 'google' ? buildGoogleXml(dealer, items, currency) :
+    buildJson(dealer, items, currency)
+
+  return { body, contentType: FEED_CONTENT_TYPES[format] }
+}
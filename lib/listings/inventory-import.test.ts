@@ -0,0 +1,127 @@
+import { describe, expect, it } from 'vitest'
+import { ImportRecord, ParsedFeed } from './import-formats'
+import { ExistingListing, planImport, plannedAction } from './inventory-import'
+
+const record: ImportRecord = {
+  stockNumber: 'A-100',
+  title: 'VW Golf 7 1.6 TDI',
+  description: 'Well kept, full service history and two sets of tyres.',
+  price: '9900',
+  make: 'Volkswagen',
+  model: 'Golf',
+  year: '2016',
+  mileage: '158000',
+  fuelType: 'Diesel',
+  transmission: 'Manual',
+  bodyType: 'Hatchback',
+  city: 'Tiranë',
+  images: ['/uploads/golf-1.jpg'],
+}
+
+function existing(status: string, overrides: Partial<ExistingListing> = {}): ExistingListing {
+  return {
+    id: `listing-${status}`,
+    userId: 'dealer',
+    status,
+    stockNumber: 'A-100',
+    title: record.title,
+    description: record.description,
+    price: 990000,
+    currency: 'EUR',
+    make: 'Volkswagen',
+    model: 'Golf',
+    year: 2016,
+    mileage: 158000,
+    fuelType: 'Diesel',
+    transmission: 'Manual',
+    bodyType: 'Hatchback',
+    color: null,
+    vin: null,
+    city: 'Tiranë',
+    region: null,
+    country: 'AL',
+    images: ['/uploads/golf-1.jpg'],
+    features: [],
+    importedAt: new Date('2026-05-01T00:00:00Z'),
+    ...overrides,
+  } as unknown as ExistingListing
+}
+
+function feed(...records: ImportRecord[]): ParsedFeed {
+  return { format: 'csv', rows: records.map((record, i) => ({ row: i + 2, record })), ignoredColumns: [] }
+}
+
+describe('planImport', () => {
+  it('creates listings for new stock numbers', () => {
+    const { planned, errors } = planImport([], feed(record), true)
+
+    expect(errors).toEqual([])
+    expect(planned).toHaveLength(1)
+    expect(plannedAction(planned[0])).toBe('create')
+  })
+
+  it('leaves a listing that matches the feed unchanged', () => {
+    const { planned } = planImport([existing('active')], feed(record), true)
+
+    expect(plannedAction(planned[0])).toBe('unchanged')
+    expect(planned[0]).toMatchObject({ rescreen: false, relist: false })
+  })
+
+  it('sends content changes to a published listing back to review', () => {
+    const { planned } = planImport([existing('active')], feed({ ...record, price: '9500' }), true)
+
+    expect(plannedAction(planned[0])).toBe('update')
+    expect(planned[0]).toMatchObject({ rescreen: true, updates: { status: 'pending_review' } })
+    expect(planned[0].changes.status).toEqual({ from: 'active', to: 'pending_review' })
+  })
+
+  it('updates other fields without screening again', () => {
+    const { planned } = planImport([existing('active')], feed({ ...record, color: 'Black' }), true)
+
+    expect(planned[0].rescreen).toBe(false)
+    expect(planned[0].updates.status).toBeUndefined()
+  })
+
+  it('rejects content changes to reserved, pending sale and sold listings', () => {
+    for (const status of ['reserved', 'pending_sale', 'sold']) {
+      const { planned, errors } = planImport([existing(status)], feed({ ...record, price: '9500' }), true)
+
+      expect(planned).toEqual([])
+      expect(errors[0].errors[0].field).toBe('status')
+    }
+  })
+
+  it('edits a withdrawn listing but leaves it withdrawn', () => {
+    const { planned } = planImport([existing('withdrawn')], feed({ ...record, price: '9500' }), true)
+
+    expect(planned[0]).toMatchObject({ rescreen: false, relist: false })
+    expect(planned[0].updates.status).toBeUndefined()
+  })
+
+  it('relists an expired car that is back in the feed instead of setting it active', () => {
+    const { planned } = planImport([existing('expired')], feed(record), true)
+
+    expect(plannedAction(planned[0])).toBe('update')
+    expect(planned[0].relist).toBe(true)
+    expect(planned[0].updates.status).toBeUndefined()
+  })
+
+  it('expires feed-managed listings missing from the feed, unless no row is valid', () => {
+    const dropped = existing('active', { id: 'dropped', stockNumber: 'B-200' })
+    const manual = existing('active', { id: 'manual', stockNumber: 'C-300', importedAt: null })
+
+    expect(planImport([dropped, manual], feed(record), true).expiring.map(listing => listing.id)).toEqual(['dropped'])
+    expect(planImport([dropped, manual], feed(record), false).expiring).toEqual([])
+
+    const invalid = planImport([dropped], feed({ stockNumber: 'A-100' }), true)
+    expect(invalid.expiring).toEqual([])
+    expect(invalid.notes).toHaveLength(1)
+  })
+
+  it('reports duplicate keys and rows without one', () => {
+    const { errors } = planImport([], feed(record, record, { ...record, stockNumber: undefined }), true)
+
+    expect(errors.map(error => error.row)).toEqual([3, 4])
+    expect(errors[1].errors[0].field).toBe('stockNumber')
+  })
+})
@@ -0,0 +1,407 @@
+// Dealer inventory import
+//
+// Applies a parsed dealer feed to the dealer's listings. Rows are matched to
+// existing listings by stock number, then VIN; valid rows are created through
+// the publish pipeline or updated with a revision, and feed-managed listings
+// missing from the feed are expired. Updates follow the same status rules as
+// seller edits: content changes re-screen a published listing, reserved cars
+// cannot be swapped for another one, and an expired car that is back in the
+// feed is relisted. A dry run builds the same plan and only writes the import
+// log entry.
+
+import { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { ImportFormat, ImportRecord, ParsedFeed } from './import-formats'
+import { ListingInput, ListingValidationError, normalizeVin, validateListingInput } from './validation'
+import { createAndPublishListing, PublishDecision, SCREENED_LISTING_FIELDS, screenListing } from './publish-pipeline'
+import { diffFeatures, diffListing, ListingChanges, recordListingEdit } from './revisions'
+import { syncFeatureCatalogue } from './features'
+import { renewListing } from './renewal'
+import { MODERATION_STATUSES } from './sale-workflow'
+import { screenListingImages } from './image-hashes'
+
+export const DEALER_PLANS = ['dealer', 'enterprise']
+export const MAX_IMPORT_ROWS = 1000
+export const MAX_IMPORT_FILE_BYTES = 5 * 1024 * 1024
+
+const MAX_STOCK_NUMBER_LENGTH = 64
+
+// Feed-managed listings in these states are expired when dropped from a feed
+const EXPIRABLE_STATUSES = ['active', 'pending_review']
+
+// Listings whose content a feed may change, as for seller edits; expired ones
+// are relisted
+const EDITABLE_STATUSES: readonly string[] = ['withdrawn', 'expired', ...MODERATION_STATUSES]
+
+export type ImportAction = 'create' | 'update' | 'unchanged' | 'expire'
+
+export interface ImportRowError {
+  row: number
+  key: string | null // Stock number or VIN, when the row had one
+  errors: ListingValidationError[]
+}
+
+export interface ImportChange {
+  action: ImportAction
+  row: number | null // null for expired listings, which are not in the feed
+  key: string
+  listingId: string | null
+  title: string
+  fields?: string[] // Changed fields of an update
+  status?: PublishDecision // Publish decision of a created, re-screened or relisted listing
+}
+
+export interface ImportReport {
+  importId: string
+  format: ImportFormat
+  dryRun: boolean
+  expireMissing: boolean
+  totalRows: number
+  summary: Record<'created' | 'updated' | 'unchanged' | 'expired' | 'failed', number>
+  changes: ImportChange[]
+  errors: ImportRowError[]
+  ignoredColumns: string[]
+  notes: string[]
+}
+
+export interface ImportOptions {
+  dryRun: boolean
+  expireMissing: boolean
+  fileName?: string
+}
+
+export type ExistingListing = Prisma.ListingGetPayload<{ include: { features: { select: { featureId: true } } } }>
+
+export interface PlannedRow {
+  row: number
+  key: string
+  stockNumber?: string
+  input: ListingInput
+  features?: string[] // Only when the feed sent a features column
+  existing: ExistingListing | null
+  changes: ListingChanges
+  updates: Prisma.ListingUpdateInput
+  rescreen: boolean // Published listing whose content changed
+  relist: boolean // Expired listing that is back in the feed
+}
+
+export interface ImportPlan {
+  planned: PlannedRow[]
+  errors: ImportRowError[]
+  expiring: ExistingListing[]
+  notes: string[]
+}
+
+export function hasDealerPlan(user: { plan: string }): boolean {
+  return DEALER_PLANS.includes(user.plan)
+}
+
+function rowKey(stockNumber?: string, vin?: string): string {
+  return stockNumber || vin || ''
+}
+
+// Values of a stored listing in the shape validateListingInput expects, so a
+// feed may leave out columns it does not manage
+function listingAsInput(listing: ExistingListing): Record<string, unknown> {
+  return {
+    title: listing.title,
+    description: listing.description,
+    price: listing.price / 100,
+    currency: listing.currency,
+    make: listing.make,
+    model: listing.model,
+    year: listing.year,
+    mileage: listing.mileage,
+    fuelType: listing.fuelType,
+    transmission: listing.transmission,
+    bodyType: listing.bodyType,
+    color: listing.color ?? undefined,
+    vin: listing.vin ?? undefined,
+    city: listing.city,
+    region: listing.region ?? undefined,
+    country: listing.country,
+    images: Array.isArray(listing.images) ? listing.images : [],
+    features: listing.features.map(feature => feature.featureId),
+  }
+}
+
+function defaultTitle(record: ImportRecord): string | undefined {
+  const parts = [record.make, record.model, record.year].filter(Boolean)
+  return parts.length > 0 ? parts.join(' ') : undefined
+}
+
+/**
+ * Validate every row against the dealer's current (not deleted) listings and
+ * work out what importing the feed would do, without writing anything.
+ */
+export function planImport(listings: ExistingListing[], feed: ParsedFeed, expireMissing: boolean): ImportPlan {
+  const byStockNumber = new Map<string, ExistingListing>()
+  const byVin = new Map<string, ExistingListing>()
+  for (const listing of listings) {
+    if (listing.stockNumber) byStockNumber.set(listing.stockNumber, listing)
+    if (listing.vin) byVin.set(listing.vin, listing)
+  }
+
+  const planned: PlannedRow[] = []
+  const errors: ImportRowError[] = []
+  const seenKeys = new Set<string>()
+  const seenListingIds = new Set<string>()
+
+  for (const { row, record } of feed.rows) {
+    const rowErrors: ListingValidationError[] = []
+    const stockNumber = typeof record.stockNumber === 'string' ? record.stockNumber : undefined
+    const vin = normalizeVin(record.vin)
+    const key = rowKey(stockNumber, vin)
+
+    if (!stockNumber && !vin) {
+      rowErrors.push({ field: 'stockNumber', message: 'Each row needs a stock number or a valid VIN' })
+    }
+    if (stockNumber && stockNumber.length > MAX_STOCK_NUMBER_LENGTH) {
+      rowErrors.push({ field: 'stockNumber', message: `Stock number must be at most ${MAX_STOCK_NUMBER_LENGTH} characters` })
+    }
+
+    for (const [field, value] of [['stockNumber', stockNumber], ['vin', vin]] as const) {
+      if (!value) continue
+      if (seenKeys.has(`${field}:${value}`)) {
+        rowErrors.push({ field, message: `${value} appears more than once in the feed` })
+      }
+      seenKeys.add(`${field}:${value}`)
+    }
+
+    const existing = (stockNumber && byStockNumber.get(stockNumber)) || (vin && byVin.get(vin)) || null
+
+    // A car that is still in the feed is never expired, even if its row is invalid
+    if (existing) seenListingIds.add(existing.id)
+
+    const validation = validateListingInput({
+      ...(existing ? listingAsInput(existing) : { title: defaultTitle(record) }),
+      ...record,
+    })
+
+    if (!validation.valid) rowErrors.push(...validation.errors)
+
+    const changes: ListingChanges = existing && validation.valid ? diffListing(existing, validation.data) : {}
+    const contentChanged = SCREENED_LISTING_FIELDS.some(field => changes[field])
+
+    if (existing?.status === 'sold') {
+      rowErrors.push({ field: 'status', message: `Listing ${existing.id} is already marked as sold` })
+    } else if (existing && contentChanged && !EDITABLE_STATUSES.includes(existing.status)) {
+      rowErrors.push({ field: 'status', message: `Listing ${existing.id} is ${existing.status.replace('_', ' ')} and cannot be edited` })
+    }
+
+    if (rowErrors.length > 0 || !validation.valid) {
+      errors.push({ row, key: key || null, errors: rowErrors })
+      continue
+    }
+
+    const { features, ...fields } = validation.data
+    const updates: Prisma.ListingUpdateInput = { ...fields }
+    const rescreen = !!existing && contentChanged && (MODERATION_STATUSES as readonly string[]).includes(existing.status)
+    // A car that comes back after being dropped from an earlier feed is
+    // relisted, and screened again, rather than simply set active
+    const relist = existing?.status === 'expired'
+
+    if (existing) {
+      const featureChange = record.features !== undefined
+        ? diffFeatures(existing.features.map(feature => feature.featureId), features)
+        : undefined
+      if (featureChange) changes.features = featureChange
+
+      if (stockNumber && existing.stockNumber !== stockNumber) {
+        updates.stockNumber = stockNumber
+      }
+
+      if (rescreen && existing.status !== 'pending_review') {
+        updates.status = 'pending_review'
+        changes.status = { from: existing.status, to: 'pending_review' }
+      }
+    }
+
+    planned.push({
+      row,
+      key,
+      stockNumber,
+      input: validation.data,
+      features: record.features !== undefined ? features : undefined,
+      existing,
+      changes,
+      updates,
+      rescreen,
+      relist,
+    })
+  }
+
+  const notes: string[] = []
+  let expiring: ExistingListing[] = []
+
+  if (expireMissing && planned.length === 0) {
+    notes.push('The feed has no valid rows, so no listings were expired')
+  } else if (expireMissing) {
+    expiring = listings.filter(listing =>
+      listing.importedAt !== null &&
+      EXPIRABLE_STATUSES.includes(listing.status) &&
+      !seenListingIds.has(listing.id)
+    )
+  }
+
+  return { planned, errors, expiring, notes }
+}
+
+export function plannedAction(plan: PlannedRow): ImportAction {
+  if (!plan.existing) return 'create'
+  return Object.keys(plan.changes).length > 0 || plan.updates.stockNumber || plan.relist ? 'update' : 'unchanged'
+}
+
+/**
+ * Import a dealer feed for a user. Per-row failures are reported rather than
+ * thrown; the whole report is stored in marketplace_listing_imports.
+ */
+export async function importInventory(userId: string, feed: ParsedFeed, options: ImportOptions): Promise<ImportReport> {
+  const listings = await prisma.listing.findMany({
+    where: { userId, status: { not: 'deleted' } },
+    include: { features: { select: { featureId: true } } },
+  })
+  const { planned, errors, expiring, notes } = planImport(listings, feed, options.expireMissing)
+  const changes: ImportChange[] = []
+  const importedAt = new Date()
+
+  if (!options.dryRun && planned.some(plan => plan.input.features.length > 0)) {
+    await syncFeatureCatalogue()
+  }
+
+  for (const plan of planned) {
+    const action = plannedAction(plan)
+    const change: ImportChange = {
+      action,
+      row: plan.row,
+      key: plan.key,
+      listingId: plan.existing?.id ?? null,
+      title: plan.input.title,
+      ...(action === 'update' && { fields: [...Object.keys(plan.changes), ...(plan.relist ? ['status'] : [])] }),
+    }
+
+    if (!options.dryRun) {
+      try {
+        if (!plan.existing) {
+          // Soft-deleted listings keep their stock number; release it for the new listing
+          if (plan.stockNumber) {
+            await prisma.listing.updateMany({
+              where: { userId, stockNumber: plan.stockNumber, status: 'deleted' },
+              data: { stockNumber: null },
+            })
+          }
+
+          const result = await createAndPublishListing(userId, plan.input, { stockNumber: plan.stockNumber, importedAt })
+          change.listingId = result.listing.id
+          change.status = result.decision
+        } else {
+          const listingId = plan.existing.id
+
+          let updated = await prisma.$transaction(async (tx) => {
+            const listing = await tx.listing.update({
+              where: { id: listingId },
+              data: {
+                ...(action === 'update' && plan.updates),
+                ...(action === 'update' && plan.features && {
+                  features: {
+                    deleteMany: {},
+                    create: plan.features.map(featureId => ({ featureId })),
+                  },
+                }),
+                importedAt,
+              },
+            })
+
+            await recordListingEdit(tx, listingId, { id: userId, role: 'seller' }, plan.changes)
+
+            return listing
+          })
+
+          if (plan.relist) {
+            const relisted = await renewListing(listingId, { id: userId, role: 'user' })
+            change.status = relisted.status as PublishDecision
+          } else if (plan.rescreen) {
+            const result = await screenListing(updated)
+            updated = result.listing
+            change.status = result.decision
+          }
+
+          // Swapped-in photos are checked against other sellers' listings
+          if (plan.changes.images) {
+            try {
+              await screenListingImages(updated)
+            } catch (hashError) {
+              console.error(`Image hash screening failed for listing ${listingId}:`, hashError)
+            }
+          }
+        }
+      } catch (error) {
+        console.error(`Inventory import failed for row ${plan.row}:`, error)
+        errors.push({ row: plan.row, key: plan.key, errors: [{ field: 'row', message: 'The row could not be saved' }] })
+        continue
+      }
+    }
+
+    changes.push(change)
+  }
+
+  for (const listing of expiring) {
+    if (!options.dryRun) {
+      await prisma.$transaction(async (tx) => {
+        await tx.listing.update({
+          where: { id: listing.id },
+          data: { status: 'expired' },
+        })
+
+        await recordListingEdit(tx, listing.id, { id: userId, role: 'seller' }, {
+          status: { from: listing.status, to: 'expired' },
+        })
+      })
+    }
+
+    changes.push({
+      action: 'expire',
+      row: null,
+      key: rowKey(listing.stockNumber ?? undefined, listing.vin ?? undefined),
+      listingId: listing.id,
+      title: listing.title,
+    })
+  }
+
+  errors.sort((a, b) => a.row - b.row)
+
+  const count = (action: ImportAction) => changes.filter(change => change.action === action).length
+  const summary = {
+    created: count('create'),
+    updated: count('update'),
+    unchanged: count('unchanged'),
+    expired: count('expire'),
+    failed: errors.length,
+  }
+
+  const record = await prisma.listingImport.create({
+    data: {
+      userId,
+      format: feed.format,
+      fileName: options.fileName,
+      dryRun: options.dryRun,
+      expireMissing: options.expireMissing,
+      totalRows: feed.rows.length,
+      ...summary,
+      rowErrors: errors.length > 0 ? (errors as unknown as Prisma.InputJsonValue) : undefined,
+    },
+  })
+
+  return {
+    importId: record.id,
+    format: feed.format,
+    dryRun: options.dryRun,
+    expireMissing: options.expireMissing,
+    totalRows: feed.rows.length,
+    summary,
+    changes,
+    errors,
+    ignoredColumns: feed.ignoredColumns,
+    notes,
+  }
+}
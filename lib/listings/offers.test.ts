@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest'
+import { Listing, Offer } from '@prisma/client'
+import { availableOfferActions } from './offers'
+
+const now = new Date('2026-06-01T12:00:00Z')
+const later = new Date('2026-06-02T12:00:00Z')
+const earlier = new Date('2026-05-31T12:00:00Z')
+
+function offer(
+  overrides: Partial<Offer> = {},
+  listing: Partial<Pick<Listing, 'status' | 'buyerId' | 'reservedUntil'>> = {}
+): Offer & { listing: Pick<Listing, 'status' | 'buyerId' | 'reservedUntil'> } {
+  return {
+    id: 'offer-1',
+    listingId: 'listing-1',
+    buyerId: 'buyer',
+    sellerId: 'seller',
+    amount: 1_500_000,
+    currency: 'EUR',
+    status: 'open',
+    awaiting: 'seller',
+    expiresAt: later,
+    respondedAt: null,
+    escrowTransactionId: null,
+    createdAt: earlier,
+    updatedAt: earlier,
+    ...overrides,
+    listing: { status: 'active', buyerId: null, reservedUntil: null, ...listing },
+  }
+}
+
+describe('availableOfferActions', () => {
+  it('lets the awaited party answer an open offer', () => {
+    expect(availableOfferActions(offer(), 'seller', now)).toEqual(['accept', 'decline', 'counter'])
+    expect(availableOfferActions(offer(), 'buyer', now)).toEqual(['withdraw'])
+  })
+
+  it('switches sides after a counter-offer', () => {
+    const countered = offer({ awaiting: 'buyer' })
+
+    expect(availableOfferActions(countered, 'buyer', now)).toEqual(['accept', 'decline', 'counter', 'withdraw'])
+    expect(availableOfferActions(countered, 'seller', now)).toEqual([])
+  })
+
+  it('offers nothing to outsiders', () => {
+    expect(availableOfferActions(offer(), 'someone-else', now)).toEqual([])
+  })
+
+  it('offers nothing once the proposal has lapsed or been closed', () => {
+    expect(availableOfferActions(offer({ expiresAt: now }), 'seller', now)).toEqual([])
+    for (const status of ['declined', 'withdrawn', 'expired']) {
+      expect(availableOfferActions(offer({ status }), 'seller', now)).toEqual([])
+      expect(availableOfferActions(offer({ status }), 'buyer', now)).toEqual([])
+    }
+  })
+
+  it('lets the buyer open an escrow while the car is reserved for them', () => {
+    const accepted = offer({ status: 'accepted' }, { status: 'reserved', buyerId: 'buyer', reservedUntil: later })
+
+    expect(availableOfferActions(accepted, 'buyer', now)).toEqual(['open_escrow'])
+    expect(availableOfferActions(accepted, 'seller', now)).toEqual([])
+  })
+
+  it('does not open an escrow twice', () => {
+    const accepted = offer(
+      { status: 'accepted', escrowTransactionId: 'escrow-1' },
+      { status: 'reserved', buyerId: 'buyer', reservedUntil: later }
+    )
+
+    expect(availableOfferActions(accepted, 'buyer', now)).toEqual([])
+  })
+
+  it('does not open an escrow after the reservation ends or goes to someone else', () => {
+    const lapsed = offer({ status: 'accepted' }, { status: 'reserved', buyerId: 'buyer', reservedUntil: earlier })
+    const released = offer({ status: 'accepted' }, { status: 'active' })
+    const otherBuyer = offer({ status: 'accepted' }, { status: 'reserved', buyerId: 'another-buyer', reservedUntil: later })
+
+    expect(availableOfferActions(lapsed, 'buyer', now)).toEqual([])
+    expect(availableOfferActions(released, 'buyer', now)).toEqual([])
+    expect(availableOfferActions(otherBuyer, 'buyer', now)).toEqual([])
+  })
+})
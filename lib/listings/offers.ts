@@ -0,0 +1,458 @@
+// Buyer offers and counter-offers
+//
+//   buyer ──offer──▶ open (awaiting seller) ──counter──▶ open (awaiting buyer) ──counter──▶ …
+//                      │
+//                      ├──accept (awaiting party)──▶ accepted ──▶ listing reserved for the buyer
+//                      │                                 └──reservation ends──▶ expired
+//                      ├──decline (awaiting party)──▶ declined
+//                      ├──withdraw (buyer)─────────▶ withdrawn
+//                      └──expiresAt passes─────────▶ expired
+//
+// One Offer row per negotiation holds the proposal currently on the table and
+// whose turn it is; every step is appended to OfferEvent. Accepting reserves
+// the car through the sale workflow, closes the other open offers on it and,
+// if asked, opens an escrow for the agreed price. The counterpart is told of
+// each step by email, and by SMS for new proposals and acceptances.
+
+import { Listing, Offer, Prisma, User } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { emailService } from '../email'
+import { smsService } from '../sms'
+import { EscrowService } from '../security/escrow-service'
+import { DEFAULT_RESERVATION_DAYS, SaleTransitionError, transitionListing } from './sale-workflow'
+
+export const OFFER_ACTIONS = ['accept', 'decline', 'counter', 'withdraw', 'open_escrow'] as const
+
+export type OfferAction = typeof OFFER_ACTIONS[number]
+
+export type OfferParty = 'buyer' | 'seller'
+
+type OfferNotice = 'offer' | 'counter' | 'accept' | 'decline' | 'withdraw' | 'expire' | 'closed'
+
+export const DEFAULT_OFFER_HOURS = 48
+export const MAX_OFFER_HOURS = 7 * 24
+export const MAX_OFFER_MESSAGE_LENGTH = 500
+
+export class OfferError extends Error {
+  constructor(message: string, public status: number = 409, public field?: string) {
+    super(message)
+    this.name = 'OfferError'
+  }
+}
+
+export interface OfferInput {
+  amount?: number          // Listing currency units
+  message?: string
+  expiresInHours?: number
+  escrow?: boolean         // Open an escrow when accepting
+}
+
+const offerInclude = {
+  listing: { select: { id: true, title: true, price: true, currency: true, status: true, images: true, userId: true, buyerId: true, reservedUntil: true } },
+  buyer: { select: { id: true, name: true, email: true, phone: true } },
+  seller: { select: { id: true, name: true, email: true, phone: true } },
+  events: { orderBy: { createdAt: 'asc' } },
+} satisfies Prisma.OfferInclude
+
+type OfferWithDetails = Prisma.OfferGetPayload<{ include: typeof offerInclude }>
+
+type Contact = Pick<User, 'id' | 'name' | 'email' | 'phone'>
+
+function partyOf(offer: Pick<Offer, 'buyerId' | 'sellerId'>, userId: string): OfferParty | null {
+  if (offer.buyerId === userId) return 'buyer'
+  if (offer.sellerId === userId) return 'seller'
+  return null
+}
+
+function otherParty(party: OfferParty): OfferParty {
+  return party === 'buyer' ? 'seller' : 'buyer'
+}
+
+/**
+ * Actions the user may take on the offer right now. Only the party the
+ * current proposal is waiting on can accept, decline or counter it, and an
+ * escrow can only be opened while the car is still reserved for the buyer.
+ */
+export function availableOfferActions(
+  offer: Offer & { listing: Pick<Listing, 'status' | 'buyerId' | 'reservedUntil'> },
+  userId: string,
+  now: Date = new Date()
+): OfferAction[] {
+  const party = partyOf(offer, userId)
+  if (!party) return []
+
+  if (offer.status === 'accepted') {
+    const { status, buyerId, reservedUntil } = offer.listing
+    const reservedForBuyer = status === 'reserved' && buyerId === offer.buyerId && (!reservedUntil || reservedUntil > now)
+    return party === 'buyer' && reservedForBuyer && !offer.escrowTransactionId ? ['open_escrow'] : []
+  }
+  if (offer.status !== 'open' || offer.expiresAt <= now) return []
+
+  const actions: OfferAction[] = offer.awaiting === party ? ['accept', 'decline', 'counter'] : []
+  if (party === 'buyer') actions.push('withdraw')
+  return actions
+}
+
+function parseOfferAmount(value: unknown): number {
+  const amount = Number(value)
+  if (value === undefined || value === null || value === '' || !Number.isFinite(amount) || amount <= 0) {
+    throw new OfferError('Enter a positive amount', 400, 'amount')
+  }
+  return Math.round(amount * 100)
+}
+
+function parseExpiry(value: unknown, now: Date): Date {
+  const hours = value === undefined || value === null || value === '' ? DEFAULT_OFFER_HOURS : Math.floor(Number(value))
+  if (!Number.isFinite(hours) || hours < 1 || hours > MAX_OFFER_HOURS) {
+    throw new OfferError(`An offer can stay open for 1 to ${MAX_OFFER_HOURS} hours`, 400, 'expiresInHours')
+  }
+  return new Date(now.getTime() + hours * 60 * 60 * 1000)
+}
+
+function parseMessage(value: unknown): string | null {
+  if (value === undefined || value === null) return null
+  const message = String(value).trim()
+  if (message.length > MAX_OFFER_MESSAGE_LENGTH) {
+    throw new OfferError(`Message must be at most ${MAX_OFFER_MESSAGE_LENGTH} characters`, 400, 'message')
+  }
+  return message || null
+}
+
+export function formatOffer(offer: OfferWithDetails, userId: string) {
+  const images = Array.isArray(offer.listing.images) ? offer.listing.images as string[] : []
+  const party = partyOf(offer, userId)
+
+  return {
+    id: offer.id,
+    status: offer.status,
+    amount: offer.amount / 100,
+    currency: offer.currency,
+    awaiting: offer.awaiting,
+    expiresAt: offer.expiresAt,
+    createdAt: offer.createdAt,
+    respondedAt: offer.respondedAt,
+    escrowTransactionId: offer.escrowTransactionId,
+    role: party,
+    actions: availableOfferActions(offer, userId),
+    listing: {
+      id: offer.listing.id,
+      title: offer.listing.title,
+      price: offer.listing.price / 100,
+      status: offer.listing.status,
+      image: images[0] ?? null,
+    },
+    buyer: { id: offer.buyer.id, name: offer.buyer.name || 'Buyer' },
+    seller: { id: offer.seller.id, name: offer.seller.name || 'Seller' },
+    events: offer.events.map(event => ({
+      id: event.id,
+      actorRole: event.actorRole,
+      action: event.action,
+      amount: event.amount !== null ? event.amount / 100 : null,
+      message: event.message,
+      createdAt: event.createdAt,
+    })),
+  }
+}
+
+// Offers on one listing (the seller sees all, a buyer their own) or, without
+// a listing, every negotiation the user takes part in
+export async function listOffers(userId: string, listingId?: string) {
+  await expireStaleOffers()
+
+  const offers = await prisma.offer.findMany({
+    where: {
+      ...(listingId && { listingId }),
+      OR: [{ buyerId: userId }, { sellerId: userId }],
+    },
+    include: offerInclude,
+    orderBy: { updatedAt: 'desc' },
+  })
+  return offers.map(offer => formatOffer(offer, userId))
+}
+
+// What the listing page shows: whether the viewer may make an offer and the negotiations they can see
+export async function getOfferState(listingId: string, viewer: Pick<User, 'id'> | null) {
+  const listing = await prisma.listing.findUnique({
+    where: { id: listingId },
+    select: { id: true, userId: true, status: true },
+  })
+  if (!listing || listing.status === 'deleted') return null
+
+  const role: OfferParty | null = viewer ? (listing.userId === viewer.id ? 'seller' : 'buyer') : null
+  const offers = viewer ? await listOffers(viewer.id, listingId) : []
+
+  return {
+    role,
+    canOffer: role === 'buyer' && listing.status === 'active' && !offers.some(offer => offer.status === 'open'),
+    offers,
+  }
+}
+
+export async function createOffer(listingId: string, buyer: Pick<User, 'id' | 'isBlocked'>, input: OfferInput) {
+  if (buyer.isBlocked) {
+    throw new OfferError('Your account is blocked', 403)
+  }
+
+  const listing = await prisma.listing.findUnique({ where: { id: listingId } })
+  if (!listing || listing.status === 'deleted') {
+    throw new OfferError('Listing not found', 404)
+  }
+  if (listing.userId === buyer.id) {
+    throw new OfferError('You cannot make an offer on your own listing', 403)
+  }
+  if (listing.status !== 'active') {
+    throw new OfferError('This car is not taking offers right now')
+  }
+
+  const now = new Date()
+  const amount = parseOfferAmount(input.amount)
+  const expiresAt = parseExpiry(input.expiresInHours, now)
+  const message = parseMessage(input.message)
+
+  await expireStaleOffers(now)
+  const open = await prisma.offer.findFirst({
+    where: { listingId, buyerId: buyer.id, status: 'open' },
+  })
+  if (open) {
+    throw new OfferError('You already have an open offer on this car; counter or withdraw it instead')
+  }
+
+  const offer = await prisma.offer.create({
+    data: {
+      listingId,
+      buyerId: buyer.id,
+      sellerId: listing.userId,
+      amount,
+      currency: listing.currency,
+      expiresAt,
+      events: {
+        create: { actorId: buyer.id, actorRole: 'buyer', action: 'offer', amount, message },
+      },
+    },
+    include: offerInclude,
+  })
+
+  await notifyOffer(offer, 'seller', 'offer')
+  return formatOffer(offer, buyer.id)
+}
+
+async function openEscrow(offer: Offer) {
+  const result = await EscrowService.createEscrowTransaction(
+    offer.listingId,
+    offer.buyerId,
+    offer.sellerId,
+    offer.amount,
+    offer.currency
+  )
+  if (result.success && result.escrowId) {
+    await prisma.offer.update({
+      where: { id: offer.id },
+      data: { escrowTransactionId: result.escrowId },
+    })
+  }
+  return result
+}
+
+/**
+ * Apply a buyer or seller response. Throws OfferError when the action is not
+ * allowed or its input is invalid.
+ */
+export async function respondToOffer(
+  offerId: string,
+  user: Pick<User, 'id'>,
+  action: OfferAction,
+  input: OfferInput = {}
+) {
+  await expireStaleOffers()
+
+  const offer = await prisma.offer.findUnique({ where: { id: offerId }, include: offerInclude })
+  if (!offer) {
+    throw new OfferError('Offer not found', 404)
+  }
+
+  const party = partyOf(offer, user.id)
+  if (!party) {
+    throw new OfferError('You are not part of this negotiation', 403)
+  }
+  if (!availableOfferActions(offer, user.id).includes(action)) {
+    throw new OfferError(offer.status === 'open'
+      ? `You cannot ${action.replace('_', ' ')} this offer now`
+      : `This offer is ${offer.status}`)
+  }
+
+  if (action === 'open_escrow') {
+    const escrow = await openEscrow(offer)
+    if (!escrow.success) {
+      throw new OfferError(escrow.error || 'Failed to open escrow', 400)
+    }
+    const updated = await prisma.offer.findUniqueOrThrow({ where: { id: offer.id }, include: offerInclude })
+    return { offer: formatOffer(updated, user.id), escrow }
+  }
+
+  const now = new Date()
+  const message = parseMessage(input.message)
+  const data: Prisma.OfferUncheckedUpdateManyInput = { respondedAt: now }
+  let amount: number | null = null
+
+  switch (action) {
+    case 'counter':
+      amount = parseOfferAmount(input.amount)
+      if (amount === offer.amount) {
+        throw new OfferError('A counter-offer needs a different amount; accept the offer instead', 400, 'amount')
+      }
+      data.amount = amount
+      data.awaiting = otherParty(party)
+      data.expiresAt = parseExpiry(input.expiresInHours, now)
+      break
+    case 'accept':
+      amount = offer.amount
+      data.status = 'accepted'
+      break
+    case 'decline':
+      data.status = 'declined'
+      break
+    case 'withdraw':
+      data.status = 'withdrawn'
+      break
+  }
+
+  // The car is held for the buyer before the offer is marked accepted, so a
+  // listing that was reserved or sold meanwhile cannot end up with two buyers
+  if (action === 'accept') {
+    try {
+      await transitionListing(offer.listingId, { id: offer.sellerId, role: 'user' }, 'reserve', {
+        buyerEmail: offer.buyer.email,
+        days: DEFAULT_RESERVATION_DAYS,
+      })
+    } catch (error) {
+      if (error instanceof SaleTransitionError) {
+        throw new OfferError('This car is no longer available')
+      }
+      throw error
+    }
+  }
+
+  try {
+    await prisma.$transaction(async tx => {
+      // Guard on the proposal we validated so a simultaneous counter and accept cannot both apply
+      const updated = await tx.offer.updateMany({
+        where: { id: offer.id, status: 'open', amount: offer.amount, awaiting: offer.awaiting },
+        data,
+      })
+      if (updated.count === 0) {
+        throw new OfferError('The offer was changed meanwhile; please reload and try again')
+      }
+
+      await tx.offerEvent.create({
+        data: { offerId: offer.id, actorId: user.id, actorRole: party, action, amount, message },
+      })
+    })
+  } catch (error) {
+    if (action === 'accept') {
+      await transitionListing(offer.listingId, { id: offer.sellerId, role: 'user' }, 'release')
+        .catch(releaseError => console.error(`Error releasing listing ${offer.listingId}:`, releaseError))
+    }
+    throw error
+  }
+
+  const updated = await prisma.offer.findUniqueOrThrow({ where: { id: offer.id }, include: offerInclude })
+  await notifyOffer(updated, otherParty(party), action)
+
+  let escrow: Awaited<ReturnType<typeof openEscrow>> | null = null
+  if (action === 'accept') {
+    await closeCompetingOffers(updated)
+    if (input.escrow) {
+      escrow = await openEscrow(updated)
+    }
+  }
+
+  const result = escrow?.success
+    ? await prisma.offer.findUniqueOrThrow({ where: { id: offer.id }, include: offerInclude })
+    : updated
+  return { offer: formatOffer(result, user.id), escrow }
+}
+
+// Once the car is reserved for one buyer, the other negotiations on it end
+async function closeCompetingOffers(accepted: Offer): Promise<void> {
+  const competing = await prisma.offer.findMany({
+    where: { listingId: accepted.listingId, status: 'open', id: { not: accepted.id } },
+    include: offerInclude,
+  })
+
+  for (const offer of competing) {
+    const closed = await prisma.offer.updateMany({
+      where: { id: offer.id, status: 'open' },
+      data: { status: 'declined', respondedAt: new Date() },
+    })
+    if (closed.count === 0) continue
+
+    await prisma.offerEvent.create({
+      data: { offerId: offer.id, actorRole: 'system', action: 'decline', message: 'Reserved for another buyer' },
+    })
+    await notifyOffer(offer, 'buyer', 'closed')
+  }
+}
+
+/**
+ * Mark open offers whose expiresAt has passed as expired and tell the party
+ * who made the lapsed proposal. Returns the number of offers expired.
+ */
+export async function expireStaleOffers(now: Date = new Date()): Promise<number> {
+  const stale = await prisma.offer.findMany({
+    where: { status: 'open', expiresAt: { lte: now } },
+    include: offerInclude,
+  })
+
+  let expired = 0
+  for (const offer of stale) {
+    const updated = await prisma.offer.updateMany({
+      where: { id: offer.id, status: 'open', expiresAt: { lte: now } },
+      data: { status: 'expired' },
+    })
+    if (updated.count === 0) continue
+
+    await prisma.offerEvent.create({
+      data: { offerId: offer.id, actorRole: 'system', action: 'expire', amount: offer.amount },
+    })
+    await notifyOffer(offer, otherParty(offer.awaiting as OfferParty), 'expire')
+    expired++
+  }
+  return expired
+}
+
+async function logNotification(userId: string, type: string, category: string, recipientInfo: string, sent: boolean, subject?: string) {
+  await prisma.notificationLog.create({
+    data: { userId, type, category, status: sent ? 'sent' : 'failed', recipientInfo, subject },
+  })
+}
+
+// Notification failures never undo a step that has already been committed
+async function notifyOffer(offer: OfferWithDetails, to: OfferParty, notice: OfferNotice): Promise<void> {
+  try {
+    const recipient: Contact = to === 'buyer' ? offer.buyer : offer.seller
+    const preferences = await prisma.automationPreferences.findUnique({ where: { userId: recipient.id } })
+    const amount = offer.amount / 100
+
+    if (!preferences || preferences.emailEnabled) {
+      const template = emailService.getOfferUpdateEmail(
+        recipient.name || 'Shfrytëzues',
+        offer.listing,
+        notice,
+        amount,
+        offer.currency,
+        offer.expiresAt
+      )
+      const sent = await emailService.sendEmail({ to: recipient.email, ...template })
+      await logNotification(recipient.id, 'email', `offer_${notice}`, recipient.email, sent, template.subject)
+    }
+
+    const phone = preferences?.smsNumber || recipient.phone
+    if (preferences?.smsEnabled && phone && (notice === 'offer' || notice === 'counter' || notice === 'accept')) {
+      const template = smsService.getOfferSms(offer.listing.title, notice, amount, offer.currency)
+      const sent = await smsService.sendSms({ to: phone, message: template.message, messageType: 'alert' })
+      await logNotification(recipient.id, 'sms', `offer_${notice}`, phone, sent)
+    }
+  } catch (error) {
+    console.error('Error sending offer notifications:', error)
+  }
+}
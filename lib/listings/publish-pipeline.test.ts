@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest'
+import { FraudAnalysisResult } from '@/lib/ai/fraud-detection'
+import { ModerationOutcome, decidePublication } from './publish-pipeline'
+
+const approved: ModerationOutcome = { approved: true, moderationScore: 0.05, flags: [], action: 'approved' }
+
+function fraud(recommendation: FraudAnalysisResult['recommendation'], types: string[] = []): FraudAnalysisResult {
+  return {
+    recommendation,
+    flags: types.map(type => ({ type, severity: 'high' })),
+  } as unknown as FraudAnalysisResult
+}
+
+describe('decidePublication', () => {
+  it('publishes when moderation and fraud detection both pass', () => {
+    expect(decidePublication(approved, fraud('approve'))).toEqual({ decision: 'active', reasons: [] })
+  })
+
+  it('holds for review when fraud analysis did not run', () => {
+    expect(decidePublication(approved, null)).toEqual({ decision: 'pending_review', reasons: ['fraud:analysis_unavailable'] })
+  })
+
+  it('holds for review when either check is unsure', () => {
+    const flagged: ModerationOutcome = { approved: false, moderationScore: 0.5, flags: ['spam'], action: 'flagged' }
+
+    expect(decidePublication(flagged, fraud('approve'))).toEqual({ decision: 'pending_review', reasons: ['moderation:spam'] })
+    expect(decidePublication(approved, fraud('review', ['price_anomaly'])).decision).toBe('pending_review')
+    expect(decidePublication(approved, fraud('investigate', ['duplicate_images'])).reasons).toEqual(['fraud:duplicate_images'])
+  })
+
+  it('lets a rejection from either check win', () => {
+    const rejected: ModerationOutcome = { approved: false, moderationScore: 0.95, flags: ['scam'], action: 'rejected' }
+
+    expect(decidePublication(rejected, fraud('approve')).decision).toBe('rejected')
+    expect(decidePublication(approved, fraud('reject', ['stolen_vehicle']))).toEqual({
+      decision: 'rejected',
+      reasons: ['fraud:stolen_vehicle'],
+    })
+  })
+})
@@ -0,0 +1,161 @@
+// Listing publish pipeline
+//
+// New listings are stored as `pending_review`, then screened by content
+// moderation, fraud detection and pricing analysis before the pipeline decides
+// whether they go live, wait for a moderator or are rejected.
+
+import { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { ContentModerationService } from '@/lib/security/content-moderation'
+import { fraudDetectionService, FraudAnalysisResult } from '@/lib/ai/fraud-detection'
+import { IntelligentPricingService, PricingAnalysis } from '@/lib/ai/pricing'
+import { ListingInput } from './validation'
+import { syncFeatureCatalogue } from './features'
+
+export type PublishDecision = 'active' | 'pending_review' | 'rejected'
+
+// Edits to these send a published listing back through screening
+export const SCREENED_LISTING_FIELDS = ['title', 'description', 'price', 'make', 'model', 'year', 'mileage', 'vin', 'images'] as const
+
+export interface ModerationOutcome {
+  approved: boolean
+  moderationScore: number
+  flags: string[]
+  action: 'approved' | 'flagged' | 'rejected' | 'requires_review'
+}
+
+export interface PublishResult {
+  listing: Prisma.ListingGetPayload<{}>
+  decision: PublishDecision
+  reasons: string[]
+  moderation: ModerationOutcome
+  fraud: FraudAnalysisResult | null
+  pricing: PricingAnalysis | null
+}
+
+const pricingService = new IntelligentPricingService()
+
+/**
+ * Combine the screening results into a single publish decision. Any hard
+ * rejection wins; anything short of a clean pass from both moderation and
+ * fraud detection is held for review. Pricing is advisory only.
+ */
+export function decidePublication(
+  moderation: ModerationOutcome,
+  fraud: FraudAnalysisResult | null
+): { decision: PublishDecision; reasons: string[] } {
+  const reasons: string[] = []
+
+  if (moderation.action !== 'approved') {
+    reasons.push(...moderation.flags.map(flag => `moderation:${flag}`))
+  }
+
+  if (!fraud) {
+    reasons.push('fraud:analysis_unavailable')
+  } else if (fraud.recommendation !== 'approve') {
+    reasons.push(...fraud.flags.map(flag => `fraud:${flag.type}`))
+  }
+
+  if (moderation.action === 'rejected' || fraud?.recommendation === 'reject') {
+    return { decision: 'rejected', reasons }
+  }
+
+  if (
+    moderation.action !== 'approved' ||
+    !fraud ||
+    fraud.recommendation === 'review' ||
+    fraud.recommendation === 'investigate'
+  ) {
+    return { decision: 'pending_review', reasons }
+  }
+
+  return { decision: 'active', reasons }
+}
+
+/**
+ * Run moderation, fraud and pricing checks for an already persisted listing
+ * and store the outcome on it.
+ */
+export async function screenListing(listing: Prisma.ListingGetPayload<{}>): Promise<PublishResult> {
+  const moderation = await ContentModerationService.moderateContent(
+    'listing',
+    listing.id,
+    `${listing.title}\n\n${listing.description}`,
+    listing.userId
+  )
+
+  let fraud: FraudAnalysisResult | null = null
+  try {
+    fraud = await fraudDetectionService.analyzeListing(listing.id)
+  } catch (error) {
+    console.error(`Fraud analysis failed for listing ${listing.id}:`, error)
+  }
+
+  let pricing: PricingAnalysis | null = null
+  try {
+    pricing = await pricingService.analyzePricing({
+      ...listing,
+      region: listing.region || undefined,
+      images: Array.isArray(listing.images) ? (listing.images as string[]) : undefined,
+    })
+  } catch (error) {
+    console.error(`Pricing analysis failed for listing ${listing.id}:`, error)
+  }
+
+  const { decision, reasons } = decidePublication(moderation, fraud)
+
+  const updated = await prisma.listing.update({
+    where: { id: listing.id },
+    data: {
+      status: decision,
+      fraudRiskScore: fraud?.riskScore ?? null,
+      contentModerationFlags: {
+        decision,
+        reasons,
+        moderation: {
+          action: moderation.action,
+          score: moderation.moderationScore,
+          flags: moderation.flags,
+        },
+        fraud: fraud
+          ? {
+              riskLevel: fraud.riskLevel,
+              recommendation: fraud.recommendation,
+              flags: fraud.flags.map(f => ({ type: f.type, severity: f.severity })),
+            }
+          : null,
+        pricing: pricing
+          ? {
+              marketPosition: pricing.marketPosition,
+              recommendedPrice: pricing.recommendedPrice,
+            }
+          : null,
+        screenedAt: new Date().toISOString(),
+      },
+    },
+  })
+
+  return { listing: updated, decision, reasons, moderation, fraud, pricing }
+}
+
+export async function createAndPublishListing(
+  userId: string,
+  input: ListingInput,
+  options: { stockNumber?: string; importedAt?: Date } = {}
+): Promise<PublishResult> {
+  const { features, ...fields } = input
+  if (features.length > 0) await syncFeatureCatalogue()
+
+  const listing = await prisma.listing.create({
+    data: {
+      ...fields,
+      userId,
+      stockNumber: options.stockNumber,
+      importedAt: options.importedAt,
+      status: 'pending_review',
+      features: { create: features.map(featureId => ({ featureId })) },
+    },
+  })
+
+  return screenListing(listing)
+}
@@ -0,0 +1,330 @@
+// Public questions and answers on listings
+//
+// Any signed-in buyer can ask; the seller is the only one who answers. A
+// question goes through ContentModerationService first and is shown once it
+// is approved, either automatically or by a moderator. Until then only the
+// asker sees it. Answers are moderated the same way and only the seller sees
+// one before it is published.
+//
+// The seller hears about each published question, and gets one reminder for
+// questions still open after UNANSWERED_REMINDER_HOURS; the asker hears about
+// the published answer. Answered questions are reused as the listing's FAQ:
+// structured data on the listing page, the description generator's prompt
+// and the support chatbot's context.
+
+import { Prisma, User } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { emailService } from '../email'
+import { ContentModerationService } from '../security/content-moderation'
+import { PUBLIC_LISTING_STATUSES, canViewListing } from '../search/listing-search'
+
+export const MAX_QUESTION_LENGTH = 300
+export const MIN_QUESTION_LENGTH = 5
+export const MAX_ANSWER_LENGTH = 1000
+export const MAX_OPEN_QUESTIONS_PER_ASKER = 3
+export const UNANSWERED_REMINDER_HOURS = 48
+
+export class QuestionError extends Error {
+  constructor(message: string, public status: number = 409, public field?: string) {
+    super(message)
+    this.name = 'QuestionError'
+  }
+}
+
+// Published, answered questions of a listing, for `include` on listing queries
+export const answeredQuestionsQuery = {
+  where: { status: 'published', answerStatus: 'published' },
+  select: { question: true, answer: true },
+  orderBy: { answeredAt: 'desc' },
+  take: 20,
+} satisfies Prisma.Listing$questionsArgs
+
+export type AnsweredQuestion = { question: string; answer: string | null }
+
+export async function getAnsweredQuestions(listingId: string): Promise<AnsweredQuestion[]> {
+  return prisma.listingQuestion.findMany({ ...answeredQuestionsQuery, where: { ...answeredQuestionsQuery.where, listingId } })
+}
+
+// schema.org FAQPage for the listing page
+export function faqStructuredData(questions: AnsweredQuestion[]) {
+  return {
+    '@context': 'https://schema.org',
+    '@type': 'FAQPage',
+    mainEntity: questions.map(({ question, answer }) => ({
+      '@type': 'Question',
+      name: question,
+      acceptedAnswer: { '@type': 'Answer', text: answer },
+    })),
+  }
+}
+
+type QuestionWithAsker = Prisma.ListingQuestionGetPayload<{ include: { asker: { select: { id: true; name: true } } } }>
+
+// The seller also sees an answer that is still in moderation or was rejected
+function formatQuestion(question: QuestionWithAsker, viewerId: string | null, isSeller: boolean) {
+  const answerVisible = isSeller || question.answerStatus === 'published'
+  return {
+    id: question.id,
+    question: question.question,
+    answer: answerVisible ? question.answer : null,
+    ...(isSeller && { answerStatus: question.answerStatus }),
+    answeredAt: answerVisible ? question.answeredAt : null,
+    createdAt: question.createdAt,
+    status: question.status,
+    askerName: question.asker.name?.split(' ')[0] || 'Buyer',
+    mine: question.askerId === viewerId,
+  }
+}
+
+/**
+ * Questions shown on the listing: published ones for everybody plus the
+ * viewer's own that are still in moderation or were rejected. Null when the
+ * viewer cannot see the listing itself.
+ */
+export async function getListingQuestions(listingId: string, viewer: Pick<User, 'id' | 'role'> | null) {
+  const listing = await prisma.listing.findUnique({
+    where: { id: listingId },
+    select: { id: true, userId: true, status: true },
+  })
+  if (!listing || !canViewListing(listing, viewer)) return null
+
+  const questions = await prisma.listingQuestion.findMany({
+    where: {
+      listingId,
+      OR: [
+        { status: 'published' },
+        ...(viewer ? [{ askerId: viewer.id, status: { in: ['pending', 'rejected'] } }] : []),
+      ],
+    },
+    include: { asker: { select: { id: true, name: true } } },
+    orderBy: { createdAt: 'desc' },
+  })
+
+  const isSeller = viewer?.id === listing.userId
+  return {
+    isSeller,
+    canAsk: !!viewer && !isSeller && (PUBLIC_LISTING_STATUSES as readonly string[]).includes(listing.status),
+    questions: questions.map(question => formatQuestion(question, viewer?.id ?? null, isSeller)),
+  }
+}
+
+/**
+ * Ask a question on a public listing. It is published at once if moderation
+ * approves it, hidden if rejected, and otherwise waits for a moderator.
+ */
+export async function askQuestion(listingId: string, asker: Pick<User, 'id' | 'isBlocked'>, text: unknown) {
+  if (asker.isBlocked) {
+    throw new QuestionError('Your account is blocked', 403)
+  }
+
+  const question = typeof text === 'string' ? text.trim().replace(/\s+/g, ' ') : ''
+  if (question.length < MIN_QUESTION_LENGTH || question.length > MAX_QUESTION_LENGTH) {
+    throw new QuestionError(`A question is ${MIN_QUESTION_LENGTH} to ${MAX_QUESTION_LENGTH} characters`, 400, 'question')
+  }
+
+  const listing = await prisma.listing.findUnique({
+    where: { id: listingId },
+    include: { user: { select: { id: true, name: true, email: true } } },
+  })
+  if (!listing || !(PUBLIC_LISTING_STATUSES as readonly string[]).includes(listing.status)) {
+    throw new QuestionError('Listing not found', 404)
+  }
+  if (listing.userId === asker.id) {
+    throw new QuestionError('Add details to the description instead of asking yourself', 403)
+  }
+
+  const open = await prisma.listingQuestion.count({
+    where: { listingId, askerId: asker.id, answer: null, status: { in: ['pending', 'published'] } },
+  })
+  if (open >= MAX_OPEN_QUESTIONS_PER_ASKER) {
+    throw new QuestionError(`Wait for the seller to answer your ${open} open questions first`, 429)
+  }
+
+  const created = await prisma.listingQuestion.create({
+    data: { listingId, askerId: asker.id, question },
+  })
+
+  const moderation = await ContentModerationService.moderateContent('question', created.id, question, asker.id)
+  const status = moderation.action === 'approved' ? 'published' : moderation.action === 'rejected' ? 'rejected' : 'pending'
+
+  const saved = await prisma.listingQuestion.update({
+    where: { id: created.id },
+    data: { status },
+    include: { asker: { select: { id: true, name: true } } },
+  })
+
+  if (status === 'published') {
+    await notifySellerOfQuestions(listing.user, listing, [saved])
+  }
+
+  return formatQuestion(saved, asker.id, false)
+}
+
+/**
+ * The seller answers (or edits the answer to) a published question. Every
+ * version of the answer is moderated like a question; the asker is emailed
+ * the first time an answer is published.
+ */
+export async function answerQuestion(questionId: string, seller: Pick<User, 'id'>, text: unknown) {
+  const answer = typeof text === 'string' ? text.trim() : ''
+  if (!answer || answer.length > MAX_ANSWER_LENGTH) {
+    throw new QuestionError(`An answer is 1 to ${MAX_ANSWER_LENGTH} characters`, 400, 'answer')
+  }
+
+  const question = await prisma.listingQuestion.findUnique({
+    where: { id: questionId },
+    include: {
+      listing: { select: { id: true, userId: true, title: true } },
+      asker: { select: { id: true, name: true, email: true } },
+    },
+  })
+  if (!question || question.status !== 'published') {
+    throw new QuestionError('Question not found', 404)
+  }
+  if (question.listing.userId !== seller.id) {
+    throw new QuestionError('Only the seller can answer questions', 403)
+  }
+
+  // Hide the previous answer until the new one is approved
+  await prisma.listingQuestion.update({
+    where: { id: question.id },
+    data: { answer, answerStatus: 'pending', answeredAt: question.answeredAt ?? new Date() },
+  })
+
+  const moderation = await ContentModerationService.moderateContent('answer', question.id, answer, seller.id)
+  const answerStatus = moderation.action === 'approved' ? 'published' : moderation.action === 'rejected' ? 'rejected' : 'pending'
+
+  const saved = await prisma.listingQuestion.update({
+    where: { id: question.id },
+    data: { answerStatus },
+    include: { asker: { select: { id: true, name: true } } },
+  })
+
+  if (answerStatus === 'published' && !question.answerNotifiedAt) {
+    await notifyAskerOfAnswer(question.asker, question.listing, { ...question, answer })
+  }
+
+  return formatQuestion(saved, seller.id, true)
+}
+
+// The seller (or an admin) hides an off-topic question from the listing
+export async function hideQuestion(questionId: string, user: Pick<User, 'id' | 'role'>) {
+  const question = await prisma.listingQuestion.findUnique({
+    where: { id: questionId },
+    include: { listing: { select: { userId: true } } },
+  })
+  if (!question || question.status === 'hidden') {
+    throw new QuestionError('Question not found', 404)
+  }
+  if (question.listing.userId !== user.id && user.role !== 'admin') {
+    throw new QuestionError('Only the seller can remove questions', 403)
+  }
+
+  await prisma.listingQuestion.update({ where: { id: question.id }, data: { status: 'hidden' } })
+}
+
+async function logNotification(userId: string, category: string, recipientInfo: string, sent: boolean, subject?: string) {
+  await prisma.notificationLog.create({
+    data: { userId, type: 'email', category, status: sent ? 'sent' : 'failed', recipientInfo, subject },
+  })
+}
+
+async function notifyAskerOfAnswer(
+  asker: Pick<User, 'id' | 'name' | 'email'>,
+  listing: { id: string; title: string },
+  question: { id: string; question: string; answer: string | null }
+): Promise<void> {
+  try {
+    const preferences = await prisma.automationPreferences.findUnique({ where: { userId: asker.id } })
+    if (!preferences || preferences.emailEnabled) {
+      const template = emailService.getListingQuestionEmail(
+        asker.name || 'Shfrytëzues',
+        listing,
+        'answered',
+        [{ question: question.question, answer: question.answer }]
+      )
+      const sent = await emailService.sendEmail({ to: asker.email, ...template })
+      await logNotification(asker.id, 'question_answered', asker.email, sent, template.subject)
+    }
+
+    await prisma.listingQuestion.update({ where: { id: question.id }, data: { answerNotifiedAt: new Date() } })
+  } catch (error) {
+    console.error('Error notifying asker:', error)
+  }
+}
+
+async function notifySellerOfQuestions(
+  seller: Pick<User, 'id' | 'name' | 'email'>,
+  listing: { id: string; title: string },
+  questions: { id: string; question: string }[],
+  notice: 'new' | 'reminder' = 'new'
+): Promise<void> {
+  try {
+    const preferences = await prisma.automationPreferences.findUnique({ where: { userId: seller.id } })
+    if (!preferences || preferences.emailEnabled) {
+      const template = emailService.getListingQuestionEmail(
+        seller.name || 'Shfrytëzues',
+        listing,
+        notice,
+        questions.map(question => ({ question: question.question, answer: null }))
+      )
+      const sent = await emailService.sendEmail({ to: seller.email, ...template })
+      await logNotification(seller.id, `question_${notice}`, seller.email, sent, template.subject)
+    }
+
+    await prisma.listingQuestion.updateMany({
+      where: { id: { in: questions.map(question => question.id) } },
+      data: notice === 'new' ? { notifiedAt: new Date() } : { remindedAt: new Date() },
+    })
+  } catch (error) {
+    console.error('Error notifying seller of questions:', error)
+  }
+}
+
+/**
+ * Tell sellers about questions published since they were last told (for
+ * example after manual moderation) and remind them once about questions left
+ * unanswered for UNANSWERED_REMINDER_HOURS. One email per listing per run,
+ * plus one per answer approved by a moderator since the last run. Returns the
+ * number of emails sent.
+ */
+export async function notifyUnansweredQuestions(now: Date = new Date()): Promise<number> {
+  const cutoff = new Date(now.getTime() - UNANSWERED_REMINDER_HOURS * 60 * 60 * 1000)
+  const batches: Array<['new' | 'reminder', Prisma.ListingQuestionWhereInput]> = [
+    ['new', { notifiedAt: null }],
+    ['reminder', { notifiedAt: { lte: cutoff }, remindedAt: null }],
+  ]
+
+  let emails = 0
+  for (const [notice, where] of batches) {
+    const questions = await prisma.listingQuestion.findMany({
+      where: { status: 'published', answer: null, listing: { status: { not: 'deleted' } }, ...where },
+      include: { listing: { select: { id: true, title: true, user: { select: { id: true, name: true, email: true } } } } },
+      orderBy: { createdAt: 'asc' },
+    })
+
+    const byListing = new Map<string, typeof questions>()
+    for (const question of questions) {
+      byListing.set(question.listingId, [...(byListing.get(question.listingId) ?? []), question])
+    }
+
+    for (const listingQuestions of Array.from(byListing.values())) {
+      const { listing } = listingQuestions[0]
+      await notifySellerOfQuestions(listing.user, listing, listingQuestions, notice)
+      emails++
+    }
+  }
+
+  const answered = await prisma.listingQuestion.findMany({
+    where: { status: 'published', answerStatus: 'published', answerNotifiedAt: null, listing: { status: { not: 'deleted' } } },
+    include: {
+      listing: { select: { id: true, title: true } },
+      asker: { select: { id: true, name: true, email: true } },
+    },
+  })
+  for (const question of answered) {
+    await notifyAskerOfAnswer(question.asker, question.listing, question)
+    emails++
+  }
+  return emails
+}
@@ -0,0 +1,79 @@
+import { beforeAll, describe, expect, it } from 'vitest'
+import { LISTING_LIFETIME_DAYS, renewalActionFor, renewalLink, renewalOptions, verifyRenewalLink } from './renewal'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const now = new Date('2026-06-01T12:00:00Z')
+
+function daysFromNow(days: number): Date {
+  return new Date(now.getTime() + days * DAY_MS)
+}
+
+function listing(status: string, expiresInDays: number) {
+  return { id: 'listing-1', status, expiresAt: daysFromNow(expiresInDays) }
+}
+
+describe('renewalActionFor', () => {
+  it('renews an active listing only inside the renewal window', () => {
+    expect(renewalActionFor(listing('active', 14), now)).toBe('renew')
+    expect(renewalActionFor(listing('active', 15), now)).toBeNull()
+  })
+
+  it('relists expired and withdrawn listings', () => {
+    expect(renewalActionFor(listing('expired', -3), now)).toBe('relist')
+    expect(renewalActionFor(listing('withdrawn', 40), now)).toBe('relist')
+  })
+
+  it('never renews sold or moderated listings', () => {
+    for (const status of ['sold', 'reserved', 'pending_review', 'rejected']) {
+      expect(renewalActionFor(listing(status, 1), now)).toBeNull()
+    }
+  })
+})
+
+describe('renewalOptions', () => {
+  it('keeps the unused days when renewing early', () => {
+    expect(renewalOptions(listing('active', 10), 'premium', now)).toEqual({
+      action: 'renew',
+      fee: 0,
+      newExpiresAt: daysFromNow(10 + LISTING_LIFETIME_DAYS),
+    })
+  })
+
+  it('starts a fresh lifetime when relisting and charges basic plans', () => {
+    expect(renewalOptions(listing('expired', -30), 'basic', now)).toEqual({
+      action: 'relist',
+      fee: 2.99,
+      newExpiresAt: daysFromNow(LISTING_LIFETIME_DAYS),
+    })
+  })
+
+  it('offers nothing outside the window', () => {
+    expect(renewalOptions(listing('active', 60), 'basic', now)).toEqual({ action: null, fee: null, newExpiresAt: null })
+  })
+})
+
+describe('renewal links', () => {
+  beforeAll(() => {
+    process.env.URL_SIGNING_SECRET = 'test-secret'
+    process.env.NEXTAUTH_URL = 'https://automarket.test'
+  })
+
+  function params(link: string) {
+    const url = new URL(link)
+    return [url.searchParams.get('expires'), url.searchParams.get('token')] as const
+  }
+
+  it('verify for the listing state they were issued for', () => {
+    const renewable = listing('active', 5)
+
+    expect(verifyRenewalLink(renewable, ...params(renewalLink(renewable)))).toBe(true)
+  })
+
+  it('stop working once the listing has been renewed', () => {
+    const renewable = listing('active', 5)
+    const link = renewalLink(renewable)
+
+    expect(verifyRenewalLink({ ...renewable, expiresAt: daysFromNow(95) }, ...params(link))).toBe(false)
+    expect(verifyRenewalLink({ ...renewable, id: 'listing-2' }, ...params(link))).toBe(false)
+  })
+})
@@ -0,0 +1,203 @@
+// Listing renewal and relisting
+//
+// A listing is live for LISTING_LIFETIME_DAYS. Within RENEWAL_WINDOW_DAYS of
+// expiry the seller can renew it, which pushes expiresAt out by another
+// lifetime. An expired or withdrawn listing is relisted instead: the same row
+// goes back through the publish pipeline's screening, so favourites, price
+// history and revisions stay with the car. Premium and dealer plans renew for
+// free; basic pays RENEWAL_FEES through Stripe Checkout and the renewal is
+// applied when the payment comes back.
+//
+// Expiry emails carry a one-click renewal link signed with the listing's
+// current expiresAt, so a link stops working once it has been used.
+
+import { Listing, User } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { signExpiringValue, verifyExpiringValue } from '../security/url-signing'
+import { EditorRole, recordListingEdit } from './revisions'
+import { screenListing } from './publish-pipeline'
+
+export const LISTING_LIFETIME_DAYS = 90 // Same as the Listing.expiresAt default
+export const RENEWAL_WINDOW_DAYS = 14
+export const RENEWAL_LINK_DAYS = 30
+
+// Renewal fee by subscription tier, in EUR cents
+export const RENEWAL_FEES: Record<string, number> = {
+  basic: 299,    // €2.99 per renewal
+  premium: 0,
+  dealer: 0,
+  enterprise: 0
+}
+
+const RELISTABLE_STATUSES = ['expired', 'withdrawn']
+const RENEWAL_LINK_PURPOSE = 'listing-renewal'
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export type RenewalAction = 'renew' | 'relist'
+
+export function renewalFeeFor(plan: string): number {
+  return RENEWAL_FEES[plan] ?? RENEWAL_FEES.basic
+}
+
+export class RenewalError extends Error {
+  constructor(message: string, public status: number = 409) {
+    super(message)
+    this.name = 'RenewalError'
+  }
+}
+
+type RenewableListing = Pick<Listing, 'id' | 'status' | 'expiresAt'>
+
+/**
+ * Whether the listing can be renewed or relisted right now, and how. Sold and
+ * moderated listings cannot; active ones only inside the renewal window.
+ */
+export function renewalActionFor(listing: RenewableListing, now: Date = new Date()): RenewalAction | null {
+  if (RELISTABLE_STATUSES.includes(listing.status)) return 'relist'
+  if (listing.status === 'active' && listing.expiresAt.getTime() - now.getTime() <= RENEWAL_WINDOW_DAYS * DAY_MS) {
+    return 'renew'
+  }
+  return null
+}
+
+export function renewalOptions(listing: RenewableListing, plan: string, now: Date = new Date()) {
+  const action = renewalActionFor(listing, now)
+  return {
+    action,
+    fee: action ? renewalFeeFor(plan) / 100 : null, // EUR
+    newExpiresAt: action ? renewedExpiry(listing, action, now) : null,
+  }
+}
+
+// Renewing early keeps the unused days; relisting starts a fresh lifetime
+function renewedExpiry(listing: RenewableListing, action: RenewalAction, now: Date): Date {
+  const from = action === 'renew' && listing.expiresAt > now ? listing.expiresAt : now
+  return new Date(from.getTime() + LISTING_LIFETIME_DAYS * DAY_MS)
+}
+
+export interface RenewalPayment {
+  stripePaymentId: string
+  amount: number // EUR cents
+}
+
+/**
+ * Renew or relist the listing for its seller (or an admin). `expectedExpiresAt`
+ * pins the listing state a signed link or a checkout was issued for, so the
+ * same link or payment cannot renew twice. A paid plan must pass the payment,
+ * which is recorded alongside the renewal.
+ */
+export async function renewListing(
+  listingId: string,
+  user: Pick<User, 'id' | 'role'>,
+  options: { payment?: RenewalPayment; expectedExpiresAt?: Date } = {}
+) {
+  const listing = await prisma.listing.findUnique({
+    where: { id: listingId },
+    include: { user: { select: { id: true, plan: true } } },
+  })
+
+  if (!listing || listing.status === 'deleted') {
+    throw new RenewalError('Listing not found', 404)
+  }
+  if (listing.userId !== user.id && user.role !== 'admin') {
+    throw new RenewalError('You can only renew your own listings', 403)
+  }
+  if (options.expectedExpiresAt && options.expectedExpiresAt.getTime() !== listing.expiresAt.getTime()) {
+    throw new RenewalError('This listing has already been renewed')
+  }
+
+  const now = new Date()
+  const action = renewalActionFor(listing, now)
+  if (!action) {
+    throw new RenewalError(listing.status === 'active'
+      ? `Listings can be renewed in the last ${RENEWAL_WINDOW_DAYS} days before they expire`
+      : `A listing that is ${listing.status.replace('_', ' ')} cannot be renewed`)
+  }
+
+  // Admins renew on the seller's behalf without charging
+  const editorRole: EditorRole = listing.userId === user.id ? 'seller' : 'admin'
+  const fee = editorRole === 'admin' ? 0 : renewalFeeFor(listing.user.plan)
+  if (fee > 0 && (!options.payment || options.payment.amount < fee)) {
+    throw new RenewalError('Payment required to renew this listing', 402)
+  }
+
+  const expiresAt = renewedExpiry(listing, action, now)
+  const status = action === 'relist' ? 'pending_review' : 'active'
+
+  const result = await prisma.$transaction(async tx => {
+    // Guard on the state we validated so a double click renews once
+    const updated = await tx.listing.updateMany({
+      where: { id: listing.id, status: listing.status, expiresAt: listing.expiresAt },
+      data: {
+        status,
+        expiresAt,
+        renewedAt: now,
+        renewalCount: { increment: 1 },
+        ...(action === 'relist' && {
+          bumpedAt: now, // Back near the top of the newest results
+          withdrawnAt: null,
+          buyerId: null,
+          reservedUntil: null,
+          reservationDeposit: null,
+          saleRequestedAt: null,
+          soldPrice: null,
+        }),
+      },
+    })
+    if (updated.count === 0) {
+      throw new RenewalError('The listing was changed meanwhile; please reload and try again')
+    }
+
+    if (action === 'relist') {
+      await recordListingEdit(tx, listing.id, { id: user.id, role: editorRole }, {
+        status: { from: listing.status, to: status },
+      })
+    }
+
+    if (options.payment) {
+      await tx.payment.create({
+        data: {
+          stripePaymentId: options.payment.stripePaymentId,
+          userId: listing.userId,
+          listingId: listing.id,
+          amount: options.payment.amount,
+          currency: 'eur',
+          status: 'succeeded',
+          type: 'listing_renewal',
+          description: `${action === 'relist' ? 'Relist' : 'Renewal'} of ${listing.title}`,
+        },
+      })
+    }
+
+    return { action, expiresAt, fee: options.payment ? options.payment.amount / 100 : 0 }
+  })
+
+  if (action === 'renew') return { ...result, status }
+
+  // A relisted car may have been edited while off the market, so it is
+  // moderated and fraud-checked again like a new listing
+  const screened = await screenListing(await prisma.listing.findUniqueOrThrow({ where: { id: listing.id } }))
+  return { ...result, status: screened.decision }
+}
+
+function renewalLinkValue(listing: Pick<Listing, 'id' | 'expiresAt'>): string {
+  return `${listing.id}:${listing.expiresAt.getTime()}`
+}
+
+// One-click link for expiry and relisting emails; works without signing in
+export function renewalLink(listing: Pick<Listing, 'id' | 'expiresAt'>): string {
+  const { expires, signature } = signExpiringValue(
+    RENEWAL_LINK_PURPOSE,
+    renewalLinkValue(listing),
+    RENEWAL_LINK_DAYS * 24 * 60 * 60
+  )
+  return `${process.env.NEXTAUTH_URL}/api/listings/${listing.id}/renew?expires=${expires}&token=${signature}`
+}
+
+export function verifyRenewalLink(
+  listing: Pick<Listing, 'id' | 'expiresAt'>,
+  expires: string | null,
+  token: string | null
+): boolean {
+  return verifyExpiringValue(RENEWAL_LINK_PURPOSE, renewalLinkValue(listing), expires, token)
+}
@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest'
+import { diffListing, publicChanges } from './revisions'
+
+describe('diffListing', () => {
+  it('only reports tracked fields that were sent and differ', () => {
+    const before = { title: 'Golf', price: 990000, vin: null, images: ['/uploads/a.jpg'] }
+
+    expect(diffListing(before, { title: 'Golf', price: 950000, images: ['/uploads/a.jpg'] })).toEqual({
+      price: { from: 990000, to: 950000 },
+    })
+  })
+})
+
+describe('publicChanges', () => {
+  it('leaves out fields that are not public on the listing', () => {
+    const changes = {
+      price: { from: 9900, to: 9500 },
+      vin: { from: null, to: 'WVWZZZAUZFW000001' },
+      features: { from: [], to: ['abs'] },
+    }
+
+    expect(publicChanges(changes)).toEqual({ price: changes.price, features: changes.features })
+  })
+})
@@ -0,0 +1,221 @@
+// Listing edit history and price timeline
+//
+// Every edit made through PUT /api/listings/[id] is stored as a numbered
+// revision holding only the fields that changed. Price changes are mirrored
+// into PriceHistory so the price timeline and the pricing service read the
+// same table, and a lowered odometer reading raises a FraudAlert for moderators.
+
+import { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { PUBLIC_LISTING_FIELDS } from '@/lib/search/listing-search'
+
+export const TRACKED_LISTING_FIELDS = [
+  'title', 'description', 'price', 'currency',
+  'make', 'model', 'year', 'mileage', 'fuelType', 'transmission', 'bodyType', 'color', 'vin',
+  'city', 'region', 'country', 'images', 'status',
+] as const
+
+export type TrackedListingField = typeof TRACKED_LISTING_FIELDS[number]
+
+export interface FieldChange {
+  from: unknown
+  to: unknown
+}
+
+export type ListingChanges = Partial<Record<TrackedListingField | 'features', FieldChange>>
+
+export type RevisionFlag = 'mileage_decreased' | 'vehicle_changed'
+
+// buyer and system only appear on status changes from the sale workflow
+export type EditorRole = 'seller' | 'admin' | 'buyer' | 'system'
+
+export interface PricePoint {
+  date: Date
+  price: number // EUR
+  reason: string | null
+}
+
+export interface PriceTimeline {
+  listingId: string
+  currency: string
+  currentPrice: number
+  points: PricePoint[]
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null)
+}
+
+/**
+ * Compare a stored listing with the values about to be written. Only fields
+ * present in `updates` are considered, so partial updates diff correctly.
+ */
+export function diffListing(
+  before: Partial<Record<TrackedListingField, unknown>>,
+  updates: Partial<Record<TrackedListingField, unknown>>
+): ListingChanges {
+  const changes: ListingChanges = {}
+
+  for (const field of TRACKED_LISTING_FIELDS) {
+    if (!(field in updates)) continue
+    if (!sameValue(before[field], updates[field])) {
+      changes[field] = { from: before[field] ?? null, to: updates[field] ?? null }
+    }
+  }
+
+  return changes
+}
+
+export function diffFeatures(before: string[], after: string[]): FieldChange | undefined {
+  const from = [...before].sort()
+  const to = [...after].sort()
+  return sameValue(from, to) ? undefined : { from, to }
+}
+
+export function revisionFlags(changes: ListingChanges): RevisionFlag[] {
+  const flags: RevisionFlag[] = []
+
+  const mileage = changes.mileage
+  if (mileage && typeof mileage.from === 'number' && typeof mileage.to === 'number' && mileage.to < mileage.from) {
+    flags.push('mileage_decreased')
+  }
+
+  // Re-using a listing for a different car keeps its favourites and history
+  if (changes.make || changes.model || changes.year || changes.vin) {
+    flags.push('vehicle_changed')
+  }
+
+  return flags
+}
+
+/**
+ * Store a revision for an edit inside the caller's transaction. Returns null
+ * when nothing changed.
+ */
+export async function recordListingEdit(
+  tx: Prisma.TransactionClient,
+  listingId: string,
+  editor: { id: string | null; role: EditorRole },
+  changes: ListingChanges
+) {
+  if (Object.keys(changes).length === 0) return null
+
+  const flags = revisionFlags(changes)
+
+  // Lock the listing row so concurrent edits take version numbers in turn
+  await tx.$queryRaw`SELECT id FROM marketplace_listings WHERE id = ${listingId} FOR UPDATE`
+  const latest = await tx.listingRevision.aggregate({ where: { listingId }, _max: { version: true } })
+  const version = (latest._max.version ?? 0) + 1
+
+  const revision = await tx.listingRevision.create({
+    data: {
+      listingId,
+      version,
+      editorId: editor.id,
+      editorRole: editor.role,
+      changes: changes as Prisma.InputJsonValue,
+      flags: flags.length > 0 ? flags : undefined,
+    },
+  })
+
+  const price = changes.price
+  if (price && typeof price.from === 'number' && typeof price.to === 'number') {
+    await tx.priceHistory.create({
+      data: {
+        listingId,
+        oldPrice: price.from,
+        newPrice: price.to,
+        changeReason: editor.role === 'admin' ? 'moderator' : 'manual',
+        metadata: { revisionId: revision.id, version, editorId: editor.id },
+      },
+    })
+  }
+
+  if (flags.includes('mileage_decreased') && editor.role === 'seller') {
+    const { from, to } = changes.mileage as { from: number; to: number }
+    await tx.fraudAlert.create({
+      data: {
+        listingId,
+        userId: editor.id,
+        alertType: 'mileage_rollback',
+        severity: 'high',
+        description: `Kilometrazhi u ul nga ${from} në ${to} km pas publikimit`,
+        evidence: { revisionId: revision.id, version, from, to },
+      },
+    })
+  }
+
+  return revision
+}
+
+// Prices are stored in cents; history is shown in the listing currency units
+function toDisplayChanges(changes: Prisma.JsonValue): ListingChanges {
+  const result = { ...(changes as ListingChanges) }
+  if (result.price) {
+    result.price = {
+      from: typeof result.price.from === 'number' ? result.price.from / 100 : result.price.from,
+      to: typeof result.price.to === 'number' ? result.price.to / 100 : result.price.to,
+    }
+  }
+  return result
+}
+
+// Changes to fields that are not public on the listing itself (e.g. vin) are
+// left out of the history buyers see
+export function publicChanges(changes: ListingChanges): ListingChanges {
+  return Object.fromEntries(
+    Object.entries(changes).filter(([field]) =>
+      field === 'features' || (PUBLIC_LISTING_FIELDS as readonly string[]).includes(field)
+    )
+  )
+}
+
+/**
+ * Edit history for a listing, oldest first. Editor identities are only
+ * included for moderators; buyers see what changed in public fields and when,
+ * and revisions that only touched private fields are left out for them.
+ */
+export async function getListingHistory(listingId: string, options: { includeEditors: boolean; includePrivateFields: boolean }) {
+  const revisions = await prisma.listingRevision.findMany({
+    where: { listingId },
+    orderBy: { version: 'asc' },
+    include: { editor: { select: { id: true, name: true, email: true } } },
+  })
+
+  return revisions
+    .map(revision => {
+      const changes = toDisplayChanges(revision.changes)
+      return {
+        version: revision.version,
+        editedAt: revision.createdAt,
+        editorRole: revision.editorRole,
+        changes: options.includePrivateFields ? changes : publicChanges(changes),
+        flags: (revision.flags as RevisionFlag[] | null) ?? [],
+        ...(options.includeEditors && { editor: revision.editor }),
+      }
+    })
+    .filter(revision => Object.keys(revision.changes).length > 0 || revision.flags.length > 0)
+}
+
+/**
+ * Price points for charting: the price at publication followed by every
+ * recorded change.
+ */
+export async function getPriceTimeline(listing: { id: string; price: number; currency: string; createdAt: Date }): Promise<PriceTimeline> {
+  const changes = await prisma.priceHistory.findMany({
+    where: { listingId: listing.id },
+    orderBy: { createdAt: 'asc' },
+  })
+
+  const initialPrice = changes.length > 0 ? changes[0].oldPrice : listing.price
+
+  return {
+    listingId: listing.id,
+    currency: listing.currency,
+    currentPrice: listing.price / 100,
+    points: [
+      { date: listing.createdAt, price: initialPrice / 100, reason: null },
+      ...changes.map(change => ({ date: change.createdAt, price: change.newPrice / 100, reason: change.changeReason })),
+    ],
+  }
+}
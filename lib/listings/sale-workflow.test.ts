@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest'
+import { Listing } from '@prisma/client'
+import { availableSaleActions, commissionRateFor } from './sale-workflow'
+
+const seller = { id: 'seller', role: 'user' }
+const buyer = { id: 'buyer', role: 'user' }
+const admin = { id: 'moderator', role: 'admin' }
+
+function listing(status: string, buyerId: string | null = null): Listing {
+  return { id: 'listing-1', userId: 'seller', status, buyerId } as Listing
+}
+
+describe('availableSaleActions', () => {
+  it('lets the seller reserve, sell or withdraw an active listing', () => {
+    expect(availableSaleActions(listing('active'), seller)).toEqual(['reserve', 'request_sale', 'mark_sold', 'withdraw'])
+  })
+
+  it('leaves marking a reserved car sold to its buyer when they have an account', () => {
+    expect(availableSaleActions(listing('reserved'), seller)).toEqual(['release', 'request_sale', 'mark_sold', 'withdraw'])
+    expect(availableSaleActions(listing('reserved', 'buyer'), seller)).toEqual(['release', 'request_sale', 'withdraw'])
+  })
+
+  it('lets only the buyer confirm or decline a pending sale', () => {
+    const pending = listing('pending_sale', 'buyer')
+
+    expect(availableSaleActions(pending, buyer)).toEqual(['confirm_sale', 'decline_sale'])
+    expect(availableSaleActions(pending, seller)).toEqual(['cancel_sale'])
+    expect(availableSaleActions(pending, admin)).toEqual(['cancel_sale'])
+  })
+
+  it('allows nothing on sold listings or for outsiders', () => {
+    expect(availableSaleActions(listing('sold', 'buyer'), seller)).toEqual([])
+    expect(availableSaleActions(listing('active'), { id: 'someone', role: 'user' })).toEqual([])
+    expect(availableSaleActions(listing('active'), null)).toEqual([])
+  })
+
+  it('only offers withdrawal on an expired listing', () => {
+    expect(availableSaleActions(listing('expired'), seller)).toEqual(['withdraw'])
+  })
+})
+
+describe('commissionRateFor', () => {
+  it('falls back to the basic rate for unknown plans', () => {
+    expect(commissionRateFor('dealer')).toBe(0.035)
+    expect(commissionRateFor('legacy')).toBe(0.05)
+  })
+})
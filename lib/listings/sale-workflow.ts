@@ -0,0 +1,408 @@
+// Listing sale workflow
+//
+//   active ──reserve──▶ reserved ──release / lapse──▶ active
+//     │                    │
+//     └────request_sale────┴──▶ pending_sale ──confirm_sale (buyer)──▶ sold
+//                                    └──decline_sale / cancel_sale──▶ active
+//
+//   active, reserved, expired ──withdraw──▶ withdrawn
+//
+// A sale to someone without an account is recorded by the seller with
+// mark_sold, which goes straight to sold; a reserved buyer with an account
+// always has to confirm. Every transition is stored as a listing revision,
+// reaching sold creates the Commission, and buyers who favourited the car are
+// emailed when it is reserved or sold.
+
+import { Listing, Prisma, User } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { Currency, currencyService } from '../currency'
+import { emailService } from '../email'
+import { EditorRole, recordListingEdit } from './revisions'
+
+export const SALE_ACTIONS = [
+  'reserve', 'release', 'request_sale', 'cancel_sale', 'confirm_sale', 'decline_sale', 'mark_sold', 'withdraw',
+] as const
+
+export type SaleAction = typeof SALE_ACTIONS[number]
+
+type SaleActor = 'seller' | 'buyer'
+
+interface TransitionRule {
+  from: string[]
+  to: string
+  actor: SaleActor
+}
+
+const TRANSITIONS: Record<SaleAction, TransitionRule> = {
+  reserve: { from: ['active'], to: 'reserved', actor: 'seller' },
+  release: { from: ['reserved'], to: 'active', actor: 'seller' },
+  request_sale: { from: ['active', 'reserved'], to: 'pending_sale', actor: 'seller' },
+  cancel_sale: { from: ['pending_sale'], to: 'active', actor: 'seller' },
+  confirm_sale: { from: ['pending_sale'], to: 'sold', actor: 'buyer' },
+  decline_sale: { from: ['pending_sale'], to: 'active', actor: 'buyer' },
+  mark_sold: { from: ['active', 'reserved'], to: 'sold', actor: 'seller' },
+  withdraw: { from: ['active', 'reserved', 'expired'], to: 'withdrawn', actor: 'seller' },
+}
+
+// Review statuses set by moderators rather than through sale actions
+export const MODERATION_STATUSES = ['active', 'pending_review', 'rejected'] as const
+
+export const DEFAULT_RESERVATION_DAYS = 3
+export const MAX_RESERVATION_DAYS = 14
+export const COMMISSION_DUE_DAYS = 30
+
+// Commission rates by subscription tier
+export const COMMISSION_RATES: Record<string, number> = {
+  basic: 0.05,     // 5% for basic users
+  premium: 0.04,   // 4% for premium users
+  dealer: 0.035,   // 3.5% for dealer users
+  enterprise: 0.03 // 3% for enterprise users
+}
+
+export function commissionRateFor(plan: string): number {
+  return COMMISSION_RATES[plan] ?? COMMISSION_RATES.basic
+}
+
+export class SaleTransitionError extends Error {
+  constructor(message: string, public status: number = 409, public field?: string) {
+    super(message)
+    this.name = 'SaleTransitionError'
+  }
+}
+
+export interface SaleTransitionInput {
+  buyerEmail?: string
+  deposit?: number   // Listing currency units
+  days?: number      // Reservation length
+  salePrice?: number // Listing currency units; defaults to the asking price
+}
+
+type SaleListing = Listing & { user: Pick<User, 'id' | 'name' | 'email' | 'plan'> }
+
+function roleOf(listing: Listing, user: Pick<User, 'id' | 'role'>): SaleActor | 'admin' | null {
+  if (listing.userId === user.id) return 'seller'
+  if (listing.buyerId === user.id) return 'buyer'
+  if (user.role === 'admin') return 'admin'
+  return null
+}
+
+/**
+ * Actions the user may take on the listing right now. Admins may act for the
+ * seller but never confirm a purchase on the buyer's behalf.
+ */
+export function availableSaleActions(listing: Listing, user: Pick<User, 'id' | 'role'> | null): SaleAction[] {
+  if (!user) return []
+  const role = roleOf(listing, user)
+  if (!role) return []
+
+  return SALE_ACTIONS.filter(action => {
+    const rule = TRANSITIONS[action]
+    if (!rule.from.includes(listing.status)) return false
+    if (rule.actor === 'buyer') return role === 'buyer'
+    if (role !== 'seller' && role !== 'admin') return false
+    // A reserved buyer with an account confirms the sale themselves
+    if (action === 'mark_sold') return !listing.buyerId
+    return true
+  })
+}
+
+function parseAmount(value: unknown, field: string): number | undefined {
+  if (value === undefined || value === null || value === '') return undefined
+  const amount = Number(value)
+  if (!Number.isFinite(amount) || amount <= 0) {
+    throw new SaleTransitionError(`${field} must be a positive amount`, 400, field)
+  }
+  return Math.round(amount * 100)
+}
+
+async function findBuyer(email: string | undefined, listing: Listing): Promise<User | null> {
+  if (!email) return null
+
+  const buyer = await prisma.user.findUnique({ where: { email: email.trim().toLowerCase() } })
+  if (!buyer) {
+    throw new SaleTransitionError('No account found for this buyer email', 400, 'buyerEmail')
+  }
+  if (buyer.id === listing.userId) {
+    throw new SaleTransitionError('The buyer cannot be the seller', 400, 'buyerEmail')
+  }
+  if (buyer.isBlocked) {
+    throw new SaleTransitionError('This buyer account is blocked', 400, 'buyerEmail')
+  }
+  return buyer
+}
+
+// Commission is tracked in EUR cents whatever the listing currency
+async function commissionBase(listing: Listing, salePrice: number): Promise<number> {
+  if (listing.currency === 'EUR') return salePrice
+  return currencyService.convertCurrency(salePrice, listing.currency as Currency, 'EUR')
+}
+
+/**
+ * Apply a sale action for `user`. Throws SaleTransitionError when the action
+ * is not allowed or its input is invalid.
+ */
+export async function transitionListing(
+  listingId: string,
+  user: Pick<User, 'id' | 'role'>,
+  action: SaleAction,
+  input: SaleTransitionInput = {}
+) {
+  const listing: SaleListing | null = await prisma.listing.findUnique({
+    where: { id: listingId },
+    include: { user: { select: { id: true, name: true, email: true, plan: true } } },
+  })
+
+  if (!listing || listing.status === 'deleted') {
+    throw new SaleTransitionError('Listing not found', 404)
+  }
+
+  const role = roleOf(listing, user)
+  if (!role) {
+    throw new SaleTransitionError('You cannot change the status of this listing', 403)
+  }
+  if (!availableSaleActions(listing, user).includes(action)) {
+    throw new SaleTransitionError(`Cannot ${action.replace('_', ' ')} a listing that is ${listing.status.replace('_', ' ')}`)
+  }
+
+  const rule = TRANSITIONS[action]
+  const now = new Date()
+  const data: Prisma.ListingUncheckedUpdateManyInput = { status: rule.to }
+  let commission: { salePrice: number; amount: number; rate: number; dueDate: Date } | null = null
+
+  switch (action) {
+    case 'reserve': {
+      const days = input.days === undefined ? DEFAULT_RESERVATION_DAYS : Math.floor(Number(input.days))
+      if (!Number.isFinite(days) || days < 1 || days > MAX_RESERVATION_DAYS) {
+        throw new SaleTransitionError(`A reservation lasts 1 to ${MAX_RESERVATION_DAYS} days`, 400, 'days')
+      }
+      const buyer = await findBuyer(input.buyerEmail, listing)
+      data.buyerId = buyer?.id ?? null
+      data.reservedUntil = new Date(now.getTime() + days * 24 * 60 * 60 * 1000)
+      data.reservationDeposit = parseAmount(input.deposit, 'deposit') ?? null
+      break
+    }
+
+    case 'request_sale': {
+      const buyer = await findBuyer(input.buyerEmail, listing)
+      const buyerId = buyer?.id ?? listing.buyerId
+      if (!buyerId) {
+        throw new SaleTransitionError('Enter the buyer\'s account email, or mark the car as sold without a buyer', 400, 'buyerEmail')
+      }
+      data.buyerId = buyerId
+      data.soldPrice = parseAmount(input.salePrice, 'salePrice') ?? listing.price
+      data.saleRequestedAt = now
+      break
+    }
+
+    case 'mark_sold':
+    case 'confirm_sale': {
+      const salePrice = action === 'mark_sold'
+        ? parseAmount(input.salePrice, 'salePrice') ?? listing.price
+        : listing.soldPrice ?? listing.price
+      const rate = commissionRateFor(listing.user.plan)
+      const base = await commissionBase(listing, salePrice)
+      commission = {
+        salePrice: base,
+        amount: Math.round(base * rate),
+        rate,
+        dueDate: new Date(now.getTime() + COMMISSION_DUE_DAYS * 24 * 60 * 60 * 1000),
+      }
+      data.soldPrice = salePrice
+      data.soldDate = now
+      data.commissionRate = rate
+      data.reservedUntil = null
+      break
+    }
+
+    case 'release':
+    case 'cancel_sale':
+    case 'decline_sale':
+      data.buyerId = null
+      data.reservedUntil = null
+      data.reservationDeposit = null
+      data.soldPrice = null
+      data.saleRequestedAt = null
+      break
+
+    case 'withdraw':
+      data.withdrawnAt = now
+      data.reservedUntil = null
+      break
+  }
+
+  const editorRole: EditorRole = role === 'admin' ? 'admin' : role
+
+  await prisma.$transaction(async tx => {
+    // Guard on the status we validated so concurrent actions cannot both apply
+    const updated = await tx.listing.updateMany({
+      where: { id: listing.id, status: listing.status },
+      data,
+    })
+    if (updated.count === 0) {
+      throw new SaleTransitionError('The listing was changed meanwhile; please reload and try again')
+    }
+
+    await recordListingEdit(tx, listing.id, { id: user.id, role: editorRole }, {
+      status: { from: listing.status, to: rule.to },
+    })
+    if (rule.to === 'active' || rule.to === 'withdrawn') {
+      await lapseAcceptedOffers(tx, listing.id)
+    }
+
+    if (commission) {
+      await tx.commission.create({
+        data: {
+          listingId: listing.id,
+          sellerId: listing.userId,
+          salePrice: commission.salePrice,
+          commissionRate: commission.rate,
+          commissionAmount: commission.amount,
+          dueDate: commission.dueDate,
+          status: 'pending',
+        },
+      })
+
+      await tx.user.update({
+        where: { id: listing.userId },
+        data: { totalCommissionOwed: { increment: commission.amount } },
+      })
+    }
+  })
+
+  const result = await prisma.listing.findUniqueOrThrow({ where: { id: listing.id } })
+  await notifySaleTransition(listing, result, action)
+
+  return { listing: result, commission }
+}
+
+async function sendTo(
+  recipient: Pick<User, 'id' | 'name' | 'email'>,
+  category: string,
+  template: { subject: string; html: string; text?: string }
+): Promise<void> {
+  const preferences = await prisma.automationPreferences.findUnique({ where: { userId: recipient.id } })
+  if (preferences && !preferences.emailEnabled) return
+
+  const sent = await emailService.sendEmail({ to: recipient.email, ...template })
+  await prisma.notificationLog.create({
+    data: {
+      userId: recipient.id,
+      type: 'email',
+      category,
+      status: sent ? 'sent' : 'failed',
+      recipientInfo: recipient.email,
+      subject: template.subject,
+    },
+  })
+}
+
+// Email failures never undo a transition that has already been committed
+async function notifySaleTransition(before: SaleListing, after: Listing, action: SaleAction): Promise<void> {
+  try {
+    if (after.status === 'reserved' || after.status === 'sold') {
+      const favorites = await prisma.favorite.findMany({
+        where: { listingId: after.id, userId: { notIn: [after.userId, ...(after.buyerId ? [after.buyerId] : [])] } },
+        include: { user: { select: { id: true, name: true, email: true } } },
+      })
+      for (const favorite of favorites) {
+        await sendTo(
+          favorite.user,
+          `favorite_${after.status}`,
+          emailService.getFavoriteStatusEmail(favorite.user.name || 'Shfrytëzues', after, after.status)
+        )
+      }
+    }
+
+    if (action === 'request_sale' && after.buyerId) {
+      const buyer = await prisma.user.findUnique({ where: { id: after.buyerId } })
+      if (buyer) {
+        await sendTo(
+          buyer,
+          'sale_confirmation',
+          emailService.getSaleConfirmationRequestEmail(buyer.name || 'Shfrytëzues', after, (after.soldPrice ?? after.price) / 100, after.currency)
+        )
+      }
+    }
+
+    if (action === 'confirm_sale' || action === 'decline_sale') {
+      await sendTo(
+        before.user,
+        'sale_outcome',
+        emailService.getSaleOutcomeEmail(before.user.name || 'Shfrytëzues', after, action === 'confirm_sale')
+      )
+    }
+  } catch (error) {
+    console.error('Error sending sale workflow notifications:', error)
+  }
+}
+
+// An accepted offer only holds while the car is reserved for its buyer
+async function lapseAcceptedOffers(tx: Prisma.TransactionClient, listingId: string): Promise<void> {
+  const accepted = await tx.offer.findMany({ where: { listingId, status: 'accepted' }, select: { id: true } })
+  for (const offer of accepted) {
+    await tx.offer.update({ where: { id: offer.id }, data: { status: 'expired' } })
+    await tx.offerEvent.create({
+      data: { offerId: offer.id, actorRole: 'system', action: 'expire', message: 'The reservation ended' },
+    })
+  }
+}
+
+/**
+ * Put reservations whose reservedUntil has passed back on the market.
+ * Offers accepted for them expire with the reservation.
+ * Returns the number of listings released.
+ */
+export async function releaseExpiredReservations(now: Date = new Date()): Promise<number> {
+  const lapsed = await prisma.listing.findMany({
+    where: { status: 'reserved', reservedUntil: { lt: now } },
+    select: { id: true },
+  })
+
+  let released = 0
+  for (const { id } of lapsed) {
+    await prisma.$transaction(async tx => {
+      const updated = await tx.listing.updateMany({
+        where: { id, status: 'reserved', reservedUntil: { lt: now } },
+        data: { status: 'active', buyerId: null, reservedUntil: null, reservationDeposit: null },
+      })
+      if (updated.count === 0) return
+
+      await recordListingEdit(tx, id, { id: null, role: 'system' }, { status: { from: 'reserved', to: 'active' } })
+      await lapseAcceptedOffers(tx, id)
+      released++
+    })
+  }
+  return released
+}
+
+/**
+ * Sale state for the listing page: public status plus, for the seller, the
+ * buyer and admins, the reservation and pending sale details and the actions
+ * they can take.
+ */
+export async function getSaleState(listingId: string, user: Pick<User, 'id' | 'role'> | null) {
+  const listing = await prisma.listing.findUnique({
+    where: { id: listingId },
+    include: { buyer: { select: { id: true, name: true, email: true } } },
+  })
+  if (!listing || listing.status === 'deleted') return null
+
+  const role = user ? roleOf(listing, user) : null
+  const involved = role !== null
+
+  return {
+    listingId: listing.id,
+    status: listing.status,
+    reservedUntil: listing.status === 'reserved' ? listing.reservedUntil : null,
+    role,
+    actions: availableSaleActions(listing, user),
+    ...(involved && {
+      currency: listing.currency,
+      buyer: listing.buyer,
+      reservationDeposit: listing.reservationDeposit !== null ? listing.reservationDeposit / 100 : null,
+      salePrice: listing.soldPrice !== null ? listing.soldPrice / 100 : null,
+      saleRequestedAt: listing.saleRequestedAt,
+      soldDate: listing.soldDate,
+    }),
+  }
+}
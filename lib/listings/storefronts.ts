@@ -0,0 +1,260 @@
+// Dealer storefronts
+//
+// A dealer whose business registration has been verified
+// (UserVerification.businessVerified) gets a public page at /dealer/[slug]
+// with its verified business details, rating summary and searchable
+// inventory. The dealer edits the logo, banner, about text, opening hours and
+// vanity slug; the business name and address always come from verification.
+// A renamed slug keeps redirecting from its old URL.
+
+import { Prisma, User } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { AlbanianReviewSystem } from '../security/review-system'
+import { isUploadedImagePath } from './validation'
+
+export const WEEKDAYS = ['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun'] as const
+
+export type Weekday = typeof WEEKDAYS[number]
+export type OpeningHours = Partial<Record<Weekday, string | null>>
+
+export const MAX_ABOUT_LENGTH = 2000
+export const MAX_PREVIOUS_SLUGS = 5
+
+const SLUG_PATTERN = /^[a-z0-9](?:[a-z0-9-]{1,48}[a-z0-9])$/
+const HOURS_PATTERN = /^([01]\d|2[0-3]):[0-5]\d-([01]\d|2[0-3]):[0-5]\d$/
+const RESERVED_SLUGS = ['new', 'edit', 'settings', 'admin', 'api', 'search', 'dealers', 'automarket']
+
+export class StorefrontError extends Error {
+  constructor(message: string, public status: number = 400, public field?: string) {
+    super(message)
+    this.name = 'StorefrontError'
+  }
+}
+
+const dealerInclude = {
+  verification: true,
+  storefront: true,
+} satisfies Prisma.UserInclude
+
+type DealerWithStorefront = Prisma.UserGetPayload<{ include: typeof dealerInclude }>
+
+export function isVerifiedDealer(user: { isBlocked: boolean; verification: { businessVerified: boolean } | null }): boolean {
+  return !user.isBlocked && !!user.verification?.businessVerified
+}
+
+// "Auto Shkodra sh.p.k." → "auto-shkodra-shpk"
+export function slugify(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/ë/g, 'e')
+    .replace(/ç/g, 'c')
+    .normalize('NFKD')
+    .replace(/[̀-ͯ]/g, '')
+    .replace(/\./g, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 50)
+    .replace(/-+$/g, '')
+}
+
+async function slugTaken(slug: string, exceptUserId?: string): Promise<boolean> {
+  const existing = await prisma.dealerStorefront.findFirst({
+    where: {
+      OR: [{ slug }, { previousSlugs: { has: slug } }],
+      ...(exceptUserId && { userId: { not: exceptUserId } }),
+    },
+    select: { id: true },
+  })
+  return !!existing
+}
+
+async function availableSlug(base: string): Promise<string> {
+  const root = SLUG_PATTERN.test(base) && !RESERVED_SLUGS.includes(base) ? base : `dealer-${base || 'auto'}`.slice(0, 50)
+  for (let suffix = 1; ; suffix++) {
+    const candidate = suffix === 1 ? root : `${root.slice(0, 46)}-${suffix}`
+    if (!(await slugTaken(candidate))) return candidate
+  }
+}
+
+/**
+ * The dealer's storefront, created with a slug from the business name the
+ * first time it is asked for. Throws StorefrontError for unverified users.
+ */
+export async function ensureStorefront(userId: string) {
+  const user = await prisma.user.findUnique({ where: { id: userId }, include: dealerInclude })
+  if (!user) {
+    throw new StorefrontError('User not found', 404)
+  }
+  if (!isVerifiedDealer(user)) {
+    throw new StorefrontError('Storefronts are available once your business registration is verified', 403)
+  }
+  if (user.storefront) return user.storefront
+
+  const slug = await availableSlug(slugify(user.verification?.businessName || user.name || ''))
+  return prisma.dealerStorefront.create({ data: { userId, slug } })
+}
+
+function parseOptionalText(value: unknown, field: string, maxLength: number): string | null | undefined {
+  if (value === undefined) return undefined
+  if (value === null || value === '') return null
+  if (typeof value !== 'string' || value.trim().length > maxLength) {
+    throw new StorefrontError(`Must be at most ${maxLength} characters`, 400, field)
+  }
+  return value.trim() || null
+}
+
+function parseImage(value: unknown, field: string): string | null | undefined {
+  if (value === undefined) return undefined
+  if (value === null || value === '') return null
+  if (!isUploadedImagePath(value)) {
+    throw new StorefrontError('Upload the image first', 400, field)
+  }
+  return value
+}
+
+function parseOpeningHours(value: unknown): OpeningHours | undefined {
+  if (value === undefined) return undefined
+  if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+    throw new StorefrontError('Opening hours must list each weekday', 400, 'openingHours')
+  }
+
+  const hours: OpeningHours = {}
+  for (const day of WEEKDAYS) {
+    const entry = (value as Record<string, unknown>)[day]
+    if (entry === undefined || entry === null || entry === '') {
+      hours[day] = null
+      continue
+    }
+    if (typeof entry !== 'string' || !HOURS_PATTERN.test(entry.replace(/\s/g, ''))) {
+      throw new StorefrontError(`Use HH:MM-HH:MM for ${day}`, 400, 'openingHours')
+    }
+    hours[day] = entry.replace(/\s/g, '')
+  }
+  return hours
+}
+
+export interface StorefrontInput {
+  slug?: unknown
+  logoUrl?: unknown
+  bannerUrl?: unknown
+  about?: unknown
+  openingHours?: unknown
+  phone?: unknown
+  website?: unknown
+}
+
+export async function updateStorefront(user: Pick<User, 'id'>, input: StorefrontInput) {
+  const storefront = await ensureStorefront(user.id)
+
+  const website = parseOptionalText(input.website, 'website', 200)
+  if (website && !/^https?:\/\/[^\s]+\.[^\s]+$/.test(website)) {
+    throw new StorefrontError('Enter a full web address starting with http:// or https://', 400, 'website')
+  }
+
+  const data: Prisma.DealerStorefrontUpdateInput = {
+    logoUrl: parseImage(input.logoUrl, 'logoUrl'),
+    bannerUrl: parseImage(input.bannerUrl, 'bannerUrl'),
+    about: parseOptionalText(input.about, 'about', MAX_ABOUT_LENGTH),
+    phone: parseOptionalText(input.phone, 'phone', 30),
+    website,
+  }
+
+  const openingHours = parseOpeningHours(input.openingHours)
+  if (openingHours) data.openingHours = openingHours
+
+  if (input.slug !== undefined && input.slug !== storefront.slug) {
+    const slug = typeof input.slug === 'string' ? input.slug.trim().toLowerCase() : ''
+    if (!SLUG_PATTERN.test(slug) || RESERVED_SLUGS.includes(slug)) {
+      throw new StorefrontError('Use 3 to 50 lowercase letters, digits and dashes', 400, 'slug')
+    }
+    if (await slugTaken(slug, user.id)) {
+      throw new StorefrontError('This address is already taken', 409, 'slug')
+    }
+    data.slug = slug
+    // Keep the old address working, and let the dealer take back one of its own
+    data.previousSlugs = [storefront.slug, ...storefront.previousSlugs.filter(previous => previous !== slug)]
+      .slice(0, MAX_PREVIOUS_SLUGS)
+  }
+
+  return prisma.dealerStorefront.update({ where: { id: storefront.id }, data })
+}
+
+function ratingDistribution(ratings: { rating: number; _count: { _all: number } }[]) {
+  return [5, 4, 3, 2, 1].map(stars => ({
+    stars,
+    count: ratings.find(rating => rating.rating === stars)?._count._all ?? 0,
+  }))
+}
+
+function formatStorefront(dealer: DealerWithStorefront) {
+  const { storefront, verification } = dealer
+  return {
+    slug: storefront!.slug,
+    dealerId: dealer.id,
+    name: verification?.businessName || dealer.name || 'Dealer',
+    address: verification?.businessAddress || null,
+    city: verification?.city || null,
+    logoUrl: storefront!.logoUrl,
+    bannerUrl: storefront!.bannerUrl,
+    about: storefront!.about,
+    openingHours: (storefront!.openingHours ?? null) as OpeningHours | null,
+    phone: storefront!.phone,
+    website: storefront!.website,
+    memberSince: dealer.createdAt,
+    badges: {
+      business: !!verification?.businessVerified,
+      phone: !!verification?.phoneVerified,
+      id: !!verification?.idVerified,
+      address: !!verification?.addressVerified,
+      bank: !!verification?.bankVerified,
+    },
+  }
+}
+
+/**
+ * Public storefront by slug. A former slug resolves with `redirectTo` set to
+ * the current one; unverified or blocked dealers have no storefront.
+ */
+export async function getStorefrontBySlug(slug: string) {
+  const storefront = await prisma.dealerStorefront.findFirst({
+    where: { OR: [{ slug }, { previousSlugs: { has: slug } }] },
+    include: { user: { include: dealerInclude } },
+  })
+  if (!storefront || !isVerifiedDealer(storefront.user)) return null
+  if (storefront.slug !== slug) return { redirectTo: storefront.slug, storefront: null }
+
+  const [reputation, ratings, activeListings, soldListings] = await Promise.all([
+    AlbanianReviewSystem.getUserReputation(storefront.userId),
+    prisma.review.groupBy({
+      by: ['rating'],
+      where: { targetId: storefront.userId },
+      _count: { _all: true },
+    }),
+    prisma.listing.count({ where: { userId: storefront.userId, status: 'active' } }),
+    prisma.listing.count({ where: { userId: storefront.userId, status: 'sold' } }),
+  ])
+
+  return {
+    redirectTo: null,
+    storefront: {
+      ...formatStorefront(storefront.user),
+      rating: { ...reputation, distribution: ratingDistribution(ratings) },
+      inventory: { active: activeListings, sold: soldListings },
+    },
+  }
+}
+
+// Storefront settings for the dealer's own editor
+export async function getStorefrontSettings(userId: string) {
+  await ensureStorefront(userId)
+  const dealer = await prisma.user.findUniqueOrThrow({ where: { id: userId }, include: dealerInclude })
+  return formatStorefront(dealer)
+}
+
+// Slugs and last change of every visible storefront, for the sitemap
+export async function listPublicStorefronts() {
+  return prisma.dealerStorefront.findMany({
+    where: { user: { isBlocked: false, verification: { businessVerified: true } } },
+    select: { slug: true, updatedAt: true },
+  })
+}
@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest'
+import { Listing } from '@prisma/client'
+import { MAX_LISTING_IMAGES, inputRecord, isUploadedImagePath, listingFormValues, normalizeVin, validateListingInput } from './validation'
+
+const form = {
+  title: 'BMW 320d M Sport, full service history',
+  description: 'One owner, serviced every year at the dealer, new tyres and brakes.',
+  price: '15500',
+  make: 'BMW',
+  model: '320d',
+  year: '2018',
+  mileage: '142000',
+  fuelType: 'nafte',
+  transmission: 'automatik',
+  bodyType: 'sedan',
+  city: 'Tiranë',
+  images: ['/uploads/a1.jpg', '/uploads/a2.jpg'],
+  features: ['ABS', 'kamera'],
+}
+
+function errorFields(body: unknown): string[] {
+  const result = validateListingInput(body)
+  return result.valid ? [] : result.errors.map(error => error.field)
+}
+
+describe('validateListingInput', () => {
+  it('converts a valid form to listing input', () => {
+    const result = validateListingInput(form)
+
+    expect(result.valid).toBe(true)
+    if (!result.valid) return
+    expect(result.data).toMatchObject({
+      price: 1550000,
+      currency: 'EUR',
+      country: 'AL',
+      year: 2018,
+      mileage: 142000,
+      fuelType: 'Diesel',
+      features: ['abs', 'rear_camera'],
+    })
+  })
+
+  it('reports every missing required field', () => {
+    expect(errorFields({})).toEqual(expect.arrayContaining([
+      'title', 'description', 'make', 'model', 'fuelType', 'transmission', 'bodyType', 'city', 'price', 'year', 'mileage', 'images',
+    ]))
+    expect(errorFields(null)).toContain('title')
+    expect(errorFields(['not', 'an', 'object'])).toContain('title')
+  })
+
+  it('bounds price, year and mileage', () => {
+    expect(errorFields({ ...form, price: 0 })).toEqual(['price'])
+    expect(errorFields({ ...form, price: { amount: 100 } })).toEqual(['price'])
+    expect(errorFields({ ...form, year: 1949 })).toEqual(['year'])
+    expect(errorFields({ ...form, year: new Date().getFullYear() + 2 })).toEqual(['year'])
+    expect(errorFields({ ...form, mileage: -1 })).toEqual(['mileage'])
+  })
+
+  it('only accepts uploaded images, up to the limit', () => {
+    expect(errorFields({ ...form, images: ['https://example.com/car.jpg'] })).toEqual(['images'])
+    expect(errorFields({ ...form, images: Array.from({ length: MAX_LISTING_IMAGES + 1 }, (_, i) => `/uploads/${i}.jpg`) })).toEqual(['images'])
+  })
+
+  it('rejects unknown features and unsupported currencies or countries', () => {
+    expect(errorFields({ ...form, features: ['flux capacitor'] })).toEqual(['features'])
+    expect(errorFields({ ...form, currency: 'USD' })).toEqual(['currency'])
+    expect(errorFields({ ...form, country: 'IT' })).toEqual(['country'])
+  })
+
+  it('checks the VIN shape and, where mandatory, its check digit', () => {
+    expect(errorFields({ ...form, vin: '1HGCM82633A004352' })).toEqual([])
+    expect(errorFields({ ...form, vin: '1HGCM82643A004352' })).toEqual(['vin'])
+    expect(errorFields({ ...form, vin: 'NOT-A-VIN' })).toEqual(['vin'])
+  })
+})
+
+describe('normalizeVin', () => {
+  it('upper-cases a well-formed VIN and rejects I, O and Q', () => {
+    expect(normalizeVin(' 1hgcm82633a004352 ')).toBe('1HGCM82633A004352')
+    expect(normalizeVin('1HGCM82633A00435O')).toBeUndefined()
+    expect(normalizeVin(17)).toBeUndefined()
+  })
+})
+
+describe('isUploadedImagePath', () => {
+  it('accepts only files directly under /uploads', () => {
+    expect(isUploadedImagePath('/uploads/photo-1.webp')).toBe(true)
+    expect(isUploadedImagePath('/uploads/../secret')).toBe(false)
+    expect(isUploadedImagePath('//evil.example/uploads/a.jpg')).toBe(false)
+  })
+})
+
+describe('inputRecord', () => {
+  it('reads anything but a plain object as empty', () => {
+    expect(inputRecord({ a: 1 })).toEqual({ a: 1 })
+    expect(inputRecord('text')).toEqual({})
+    expect(inputRecord([1])).toEqual({})
+    expect(inputRecord(undefined)).toEqual({})
+  })
+})
+
+describe('listingFormValues', () => {
+  it('round-trips a stored listing through validation unchanged', () => {
+    const result = validateListingInput(form)
+    if (!result.valid) throw new Error('fixture should be valid')
+    const { features, ...fields } = result.data
+    const stored = { ...fields, color: null, vin: null, region: null, images: fields.images } as unknown as Listing
+
+    const again = validateListingInput(listingFormValues(stored, features))
+
+    expect(again).toEqual({ valid: true, data: result.data })
+  })
+})
@@ -0,0 +1,227 @@
+// Listing input validation shared by listing creation and editing
+
+import { Listing } from '@prisma/client'
+import { canonicalBodyType, canonicalFuelType, canonicalTransmission } from '../search/albanian-dictionary'
+import { resolveFeatureKey } from './features'
+import { decodeVin, isWellFormedVin, normalizeVinInput } from '../vin/decoder'
+
+export const SUPPORTED_LISTING_COUNTRIES = ['AL', 'XK', 'MK'] as const
+export const SUPPORTED_LISTING_CURRENCIES = ['EUR', 'ALL'] as const
+export const MAX_LISTING_IMAGES = 10
+
+export interface ListingInput {
+  title: string
+  description: string
+  price: number // cents
+  currency: string
+  make: string
+  model: string
+  year: number
+  mileage: number
+  fuelType: string
+  transmission: string
+  bodyType: string
+  color?: string
+  vin?: string
+  city: string
+  region?: string
+  country: string
+  images: string[]
+  features: string[] // Catalogue keys from lib/listings/features
+}
+
+export interface ListingValidationError {
+  field: string
+  message: string
+}
+
+export type ListingValidationResult =
+  | { valid: true; data: ListingInput }
+  | { valid: false; errors: ListingValidationError[] }
+
+const REQUIRED_TEXT_FIELDS = ['title', 'description', 'make', 'model', 'fuelType', 'transmission', 'bodyType', 'city'] as const
+
+function text(value: unknown): string | undefined {
+  if (typeof value !== 'string') return undefined
+  const trimmed = value.trim()
+  return trimmed ? trimmed : undefined
+}
+
+/**
+ * A parsed JSON body as a record to read fields from; anything but a plain
+ * object reads as empty.
+ */
+export function inputRecord(value: unknown): Record<string, unknown> {
+  return value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : {}
+}
+
+function integer(value: unknown): number | undefined {
+  const parsed = typeof value === 'number' ? value : typeof value === 'string' && value.trim() ? Number(value) : NaN
+  return Number.isFinite(parsed) ? Math.round(parsed) : undefined
+}
+
+/**
+ * Upper-case a VIN and check its shape: 17 characters, no I, O or Q. Returns
+ * undefined when the value is not a well-formed VIN.
+ */
+export function normalizeVin(value: unknown): string | undefined {
+  const raw = text(value)
+  const vin = raw ? normalizeVinInput(raw) : undefined
+  return vin && isWellFormedVin(vin) ? vin : undefined
+}
+
+/**
+ * Images must be paths previously returned by POST /api/upload so a listing
+ * cannot hot-link arbitrary external URLs.
+ */
+export function isUploadedImagePath(value: unknown): value is string {
+  return typeof value === 'string' && /^\/uploads\/[\w.-]+$/.test(value)
+}
+
+/**
+ * Validate a listing payload as sent by the sell form. Prices arrive in EUR
+ * (or ALL) units and are converted to cents.
+ */
+export function validateListingInput(body: unknown): ListingValidationResult {
+  const errors: ListingValidationError[] = []
+  const input = inputRecord(body)
+
+  for (const field of REQUIRED_TEXT_FIELDS) {
+    if (!text(input[field])) {
+      errors.push({ field, message: `${field} is required` })
+    }
+  }
+
+  const title = text(input.title)
+  if (title && (title.length < 10 || title.length > 120)) {
+    errors.push({ field: 'title', message: 'Title must be between 10 and 120 characters' })
+  }
+
+  const description = text(input.description)
+  if (description && (description.length < 30 || description.length > 5000)) {
+    errors.push({ field: 'description', message: 'Description must be between 30 and 5000 characters' })
+  }
+
+  const price = typeof input.price === 'number' ? input.price : typeof input.price === 'string' ? parseFloat(input.price) : NaN
+  if (!Number.isFinite(price) || price <= 0) {
+    errors.push({ field: 'price', message: 'Price must be a positive number' })
+  }
+
+  const currentYear = new Date().getFullYear()
+  const year = integer(input.year)
+  if (year === undefined || year < 1950 || year > currentYear + 1) {
+    errors.push({ field: 'year', message: `Year must be between 1950 and ${currentYear + 1}` })
+  }
+
+  const mileage = integer(input.mileage)
+  if (mileage === undefined || mileage < 0 || mileage > 2000000) {
+    errors.push({ field: 'mileage', message: 'Mileage must be between 0 and 2,000,000 km' })
+  }
+
+  const currency = text(input.currency)?.toUpperCase() || 'EUR'
+  if (!(SUPPORTED_LISTING_CURRENCIES as readonly string[]).includes(currency)) {
+    errors.push({ field: 'currency', message: `Currency must be one of ${SUPPORTED_LISTING_CURRENCIES.join(', ')}` })
+  }
+
+  const country = text(input.country)?.toUpperCase() || 'AL'
+  if (!(SUPPORTED_LISTING_COUNTRIES as readonly string[]).includes(country)) {
+    errors.push({ field: 'country', message: `Country must be one of ${SUPPORTED_LISTING_COUNTRIES.join(', ')}` })
+  }
+
+  const images: unknown[] = Array.isArray(input.images) ? input.images : input.images ? [input.images] : []
+  if (images.length === 0) {
+    errors.push({ field: 'images', message: 'At least one image is required' })
+  } else if (images.length > MAX_LISTING_IMAGES) {
+    errors.push({ field: 'images', message: `A listing can have at most ${MAX_LISTING_IMAGES} images` })
+  } else if (!images.every(isUploadedImagePath)) {
+    errors.push({ field: 'images', message: 'Images must be uploaded through /api/upload' })
+  }
+
+  const vin = normalizeVin(input.vin)
+  if (text(input.vin) && !vin) {
+    errors.push({ field: 'vin', message: 'VIN must be 17 letters and digits (no I, O or Q)' })
+  } else if (vin && !decodeVin(vin).valid) {
+    errors.push({ field: 'vin', message: 'VIN check digit does not match; please check the VIN for typos' })
+  }
+
+  const features = validateFeatureList(input.features, errors)
+
+  if (errors.length > 0) {
+    return { valid: false, errors }
+  }
+
+  return {
+    valid: true,
+    data: {
+      title: title!,
+      description: description!,
+      price: Math.round(price * 100),
+      currency,
+      make: text(input.make)!,
+      model: text(input.model)!,
+      year: year!,
+      mileage: mileage!,
+      fuelType: canonicalFuelType(text(input.fuelType)!),
+      transmission: canonicalTransmission(text(input.transmission)!),
+      bodyType: canonicalBodyType(text(input.bodyType)!),
+      color: text(input.color),
+      vin,
+      city: text(input.city)!,
+      region: text(input.region),
+      country,
+      images: images as string[],
+      features,
+    },
+  }
+}
+
+/**
+ * A stored listing in the shape the sell form sends. Edits are merged over
+ * this and validated as a whole listing, so a partial update cannot slip an
+ * invalid price or a hot-linked image past validateListingInput.
+ */
+export function listingFormValues(listing: Listing, features: string[]): Record<string, unknown> {
+  return {
+    title: listing.title,
+    description: listing.description,
+    price: listing.price / 100,
+    currency: listing.currency,
+    make: listing.make,
+    model: listing.model,
+    year: listing.year,
+    mileage: listing.mileage,
+    fuelType: listing.fuelType,
+    transmission: listing.transmission,
+    bodyType: listing.bodyType,
+    color: listing.color,
+    vin: listing.vin,
+    city: listing.city,
+    region: listing.region,
+    country: listing.country,
+    images: Array.isArray(listing.images) ? listing.images : listing.images ? [listing.images] : [],
+    features,
+  }
+}
+
+/**
+ * Resolve submitted features to catalogue keys, recording an error for any
+ * value that is not in the catalogue. Missing features mean none were ticked.
+ */
+export function validateFeatureList(value: unknown, errors: ListingValidationError[]): string[] {
+  if (value === undefined || value === null) return []
+  if (!Array.isArray(value)) {
+    errors.push({ field: 'features', message: 'Features must be a list' })
+    return []
+  }
+
+  const keys: string[] = []
+  for (const item of value) {
+    const key = typeof item === 'string' ? resolveFeatureKey(item) : undefined
+    if (!key) {
+      errors.push({ field: 'features', message: `Unknown feature: ${String(item)}` })
+    } else if (!keys.includes(key)) {
+      keys.push(key)
+    }
+  }
+  return keys
+}
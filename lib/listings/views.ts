@@ -0,0 +1,135 @@
+// Listing view tracking
+//
+// The listing page reports each view to POST /api/listings/[id]/views, which
+// records it as a UserInteraction of type "view". A view counts once per
+// visitor per VIEW_SESSION_MINUTES: a signed-in user is identified by their
+// account, an anonymous visitor by a long-lived cookie. Crawlers and the
+// seller looking at their own listing are not counted.
+//
+// Raw views are rolled up hourly into ListingViewDaily (views and unique
+// visitors per listing per UTC day), which is what sellers' stats read.
+
+import { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { PUBLIC_LISTING_STATUSES } from '../search/listing-search'
+
+export const VIEW_SESSION_MINUTES = 30
+export const VISITOR_COOKIE = 'am_visitor'
+
+// Matches search engine crawlers, link preview fetchers, monitoring and
+// headless browsers, and HTTP libraries
+const BOT_USER_AGENT = /bot|crawl|spider|slurp|mediapartners|facebookexternalhit|whatsapp|telegram|preview|monitor|lighthouse|headless|phantom|curl|wget|python|java\/|go-http|okhttp|axios|node-fetch|httpclient/i
+
+export function isBotUserAgent(userAgent: string | null): boolean {
+  return !userAgent || BOT_USER_AGENT.test(userAgent)
+}
+
+export interface ViewContext {
+  userId: string | null
+  visitorId: string
+  ipAddress: string | null
+  userAgent: string | null
+  referrer?: string | null
+}
+
+export type ViewResult = { counted: true } | { counted: false; reason: 'bot' | 'own_listing' | 'duplicate' | 'not_found' }
+
+/**
+ * Record a view of the listing unless it comes from a bot, from the seller,
+ * or repeats this visitor's view within the session window.
+ */
+export async function recordListingView(listingId: string, context: ViewContext, now: Date = new Date()): Promise<ViewResult> {
+  if (isBotUserAgent(context.userAgent)) {
+    return { counted: false, reason: 'bot' }
+  }
+
+  const listing = await prisma.listing.findFirst({
+    where: { id: listingId, status: { in: [...PUBLIC_LISTING_STATUSES] } },
+    select: { id: true, userId: true },
+  })
+  if (!listing) {
+    return { counted: false, reason: 'not_found' }
+  }
+  if (listing.userId === context.userId) {
+    return { counted: false, reason: 'own_listing' }
+  }
+
+  const recent = await prisma.userInteraction.findFirst({
+    where: {
+      listingId,
+      visitorId: context.visitorId,
+      type: 'view',
+      createdAt: { gte: new Date(now.getTime() - VIEW_SESSION_MINUTES * 60 * 1000) },
+    },
+    select: { id: true },
+  })
+  if (recent) {
+    return { counted: false, reason: 'duplicate' }
+  }
+
+  await prisma.userInteraction.create({
+    data: {
+      listingId,
+      userId: context.userId,
+      visitorId: context.visitorId,
+      type: 'view',
+      ipAddress: context.ipAddress,
+      userAgent: context.userAgent?.slice(0, 500),
+      ...(context.referrer && { metadata: { referrer: context.referrer.slice(0, 500) } }),
+    },
+  })
+
+  return { counted: true }
+}
+
+function startOfUtcDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()))
+}
+
+/**
+ * Recount the daily view totals from the start of the day before `now`, so
+ * views recorded around midnight land in the right day. Idempotent; returns
+ * the number of listing-days written.
+ */
+export async function rollupListingViews(now: Date = new Date()): Promise<number> {
+  const from = new Date(startOfUtcDay(now).getTime() - 24 * 60 * 60 * 1000)
+
+  return prisma.$executeRaw`
+    INSERT INTO marketplace_listing_view_daily ("listingId", date, views, "uniqueVisitors", "updatedAt")
+    SELECT "listingId", DATE("createdAt"), COUNT(*), COUNT(DISTINCT "visitorId"), NOW()
+    FROM marketplace_user_interactions
+    WHERE type = 'view' AND "createdAt" >= ${from}
+    GROUP BY "listingId", DATE("createdAt")
+    ON CONFLICT ("listingId", date) DO UPDATE
+      SET views = EXCLUDED.views, "uniqueVisitors" = EXCLUDED."uniqueVisitors", "updatedAt" = NOW()
+  `
+}
+
+export interface ListingViewStats {
+  total: number
+  last7Days: number
+  last30Days: number
+}
+
+/**
+ * Views of each listing from the daily rollup: all time and over the last 7
+ * and 30 days including today. Listings without views are zero.
+ */
+export async function getListingViewStats(listingIds: string[], now: Date = new Date()): Promise<Map<string, ListingViewStats>> {
+  const today = startOfUtcDay(now)
+  const since = (days: number) => new Date(today.getTime() - (days - 1) * 24 * 60 * 60 * 1000)
+  const where = (extra: Prisma.ListingViewDailyWhereInput = {}) => ({ listingId: { in: listingIds }, ...extra })
+
+  const [total, last7Days, last30Days] = listingIds.length === 0 ? [[], [], []] : await Promise.all([
+    prisma.listingViewDaily.groupBy({ by: ['listingId'], where: where(), _sum: { views: true } }),
+    prisma.listingViewDaily.groupBy({ by: ['listingId'], where: where({ date: { gte: since(7) } }), _sum: { views: true } }),
+    prisma.listingViewDaily.groupBy({ by: ['listingId'], where: where({ date: { gte: since(30) } }), _sum: { views: true } }),
+  ])
+
+  const sum = (rows: typeof total, listingId: string) => rows.find(row => row.listingId === listingId)?._sum.views ?? 0
+  return new Map(listingIds.map(listingId => [listingId, {
+    total: sum(total, listingId),
+    last7Days: sum(last7Days, listingId),
+    last30Days: sum(last30Days, listingId),
+  }]))
+}
@@ -0,0 +1,233 @@
+// Message attachments
+//
+// Buyers and sellers can send photos and PDFs with a message (extra shots of
+// a rust spot, the service book). Files pass the same type and size checks
+// as /api/upload. Images are re-encoded with sharp after applying their EXIF
+// rotation, which drops the EXIF data itself (GPS position, camera serial),
+// and get a WebP thumbnail; PDFs must carry the PDF signature.
+//
+// Attachments are uploaded first and belong to the uploader until a message
+// claims them (see sendMessage). The files live outside public/ and are only
+// served to the uploader and, once scam screening has let the message
+// through, the participants of the message's conversation.
+// Uploads never sent with a message are purged by the daily cleanup task.
+
+import { mkdir, readFile, unlink, writeFile } from 'fs/promises'
+import path from 'path'
+import sharp from 'sharp'
+import { MessageAttachment, Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { MAX_UPLOAD_SIZE, UPLOAD_IMAGE_TYPES, UploadedFile, uniqueUploadName, validateUploadFile } from '../uploads'
+import { DELIVERED_STATUSES } from './scam-screening'
+
+export const MAX_ATTACHMENTS_PER_MESSAGE = 5
+export const MAX_PDF_SIZE = 10 * 1024 * 1024 // 10MB
+export const ATTACHMENT_TYPES = [...UPLOAD_IMAGE_TYPES, 'application/pdf']
+
+const THUMBNAIL_SIZE = 320
+const ABANDONED_AFTER_HOURS = 24
+
+export class AttachmentError extends Error {
+  constructor(message: string, public status: number = 400, public field?: string) {
+    super(message)
+    this.name = 'AttachmentError'
+  }
+}
+
+function storageDir(): string {
+  return process.env.MESSAGE_ATTACHMENTS_DIR || path.join(process.cwd(), 'storage', 'message-attachments')
+}
+
+// Storage keys are generated names, but never let one escape the directory
+function storagePath(key: string): string {
+  return path.join(storageDir(), path.basename(key))
+}
+
+export function formatAttachment(attachment: MessageAttachment) {
+  return {
+    id: attachment.id,
+    kind: attachment.kind,
+    fileName: attachment.fileName,
+    mimeType: attachment.mimeType,
+    size: attachment.size,
+    width: attachment.width,
+    height: attachment.height,
+    url: `/api/messages/attachments/${attachment.id}`,
+    thumbnailUrl: attachment.thumbnailKey ? `/api/messages/attachments/${attachment.id}?size=thumbnail` : null,
+  }
+}
+
+function cleanFileName(name: string): string {
+  const cleaned = path.basename(name).replace(/[^\p{L}\p{N} ._()-]/gu, '_').trim()
+  return cleaned.slice(-120) || 'attachment'
+}
+
+// Re-encode in the original format; sharp writes no metadata unless asked to
+async function stripImage(buffer: Buffer, mimeType: string) {
+  const image = sharp(buffer).rotate()
+  switch (mimeType) {
+    case 'image/png':
+      return image.png().toBuffer({ resolveWithObject: true })
+    case 'image/webp':
+      return image.webp({ quality: 90 }).toBuffer({ resolveWithObject: true })
+    case 'image/gif':
+      return image.gif().toBuffer({ resolveWithObject: true })
+    default:
+      return image.jpeg({ quality: 90 }).toBuffer({ resolveWithObject: true })
+  }
+}
+
+/**
+ * Validate, clean and store one uploaded file as a pending attachment of
+ * the uploader.
+ */
+export async function storeAttachment(uploaderId: string, file: UploadedFile) {
+  const isPdf = file.type === 'application/pdf'
+  const invalid = validateUploadFile(file, {
+    allowedTypes: ATTACHMENT_TYPES,
+    maxSize: isPdf ? MAX_PDF_SIZE : MAX_UPLOAD_SIZE,
+    typeLabel: 'images and PDFs',
+  })
+  if (invalid) {
+    throw new AttachmentError(invalid, 400, 'files')
+  }
+
+  const original = Buffer.from(await file.arrayBuffer())
+  const baseName = uniqueUploadName(file.name, isPdf ? 'pdf' : 'jpg').replace(/\.[^.]+$/, '')
+  let data: Buffer
+  let thumbnail: Buffer | null = null
+  let width: number | null = null
+  let height: number | null = null
+  let storageKey: string
+
+  if (isPdf) {
+    if (original.subarray(0, 5).toString('latin1') !== '%PDF-') {
+      throw new AttachmentError(`Not a PDF document: ${file.name}`, 400, 'files')
+    }
+    data = original
+    storageKey = `${baseName}.pdf`
+  } else {
+    try {
+      const stripped = await stripImage(original, file.type)
+      data = stripped.data
+      width = stripped.info.width
+      height = stripped.info.height
+      thumbnail = await sharp(data)
+        .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: 'inside', withoutEnlargement: true })
+        .webp({ quality: 75 })
+        .toBuffer()
+    } catch (error) {
+      console.warn(`Could not process image ${file.name}:`, error)
+      throw new AttachmentError(`Not a readable image: ${file.name}`, 400, 'files')
+    }
+    storageKey = `${baseName}.${file.type.split('/')[1]}`
+  }
+
+  await mkdir(storageDir(), { recursive: true })
+  await writeFile(storagePath(storageKey), data)
+  const thumbnailKey = thumbnail ? `${baseName}.thumb.webp` : null
+  if (thumbnail && thumbnailKey) {
+    await writeFile(storagePath(thumbnailKey), thumbnail)
+  }
+
+  const attachment = await prisma.messageAttachment.create({
+    data: {
+      uploaderId,
+      kind: isPdf ? 'pdf' : 'image',
+      fileName: cleanFileName(file.name),
+      mimeType: file.type,
+      size: data.length,
+      width,
+      height,
+      storageKey,
+      thumbnailKey,
+    },
+  })
+
+  return formatAttachment(attachment)
+}
+
+export function parseAttachmentIds(value: unknown): string[] {
+  if (value === undefined || value === null) return []
+  if (!Array.isArray(value) || !value.every(id => typeof id === 'string')) {
+    throw new AttachmentError('Attachments must be a list of attachment IDs', 400, 'attachmentIds')
+  }
+  const ids = Array.from(new Set(value as string[]))
+  if (ids.length > MAX_ATTACHMENTS_PER_MESSAGE) {
+    throw new AttachmentError(`A message has at most ${MAX_ATTACHMENTS_PER_MESSAGE} attachments`, 400, 'attachmentIds')
+  }
+  return ids
+}
+
+// Attach the uploader's pending attachments to their message
+export async function claimAttachments(
+  tx: Prisma.TransactionClient,
+  messageId: string,
+  uploaderId: string,
+  attachmentIds: string[]
+): Promise<void> {
+  if (attachmentIds.length === 0) return
+
+  const { count } = await tx.messageAttachment.updateMany({
+    where: { id: { in: attachmentIds }, uploaderId, messageId: null },
+    data: { messageId },
+  })
+  if (count !== attachmentIds.length) {
+    throw new AttachmentError('Some attachments were not found or were already sent', 400, 'attachmentIds')
+  }
+}
+
+/**
+ * The attachment's file, or its thumbnail, for the uploader or a participant
+ * of the conversation it was sent in. Attachments of held or rejected
+ * messages stay with the uploader.
+ */
+export async function getAttachmentFile(attachmentId: string, userId: string, thumbnail = false) {
+  const attachment = await prisma.messageAttachment.findFirst({
+    where: {
+      id: attachmentId,
+      OR: [
+        { uploaderId: userId },
+        {
+          message: {
+            screeningStatus: { in: DELIVERED_STATUSES },
+            conversation: { participants: { some: { userId } } },
+          },
+        },
+      ],
+    },
+  })
+  if (!attachment) {
+    throw new AttachmentError('Attachment not found', 404)
+  }
+
+  const key = thumbnail && attachment.thumbnailKey ? attachment.thumbnailKey : attachment.storageKey
+  try {
+    return {
+      attachment,
+      data: await readFile(storagePath(key)),
+      mimeType: key === attachment.thumbnailKey ? 'image/webp' : attachment.mimeType,
+    }
+  } catch (error) {
+    console.error(`Attachment file missing for ${attachment.id}:`, error)
+    throw new AttachmentError('Attachment not found', 404)
+  }
+}
+
+// Delete uploads that were never sent with a message
+export async function purgeAbandonedAttachments(): Promise<number> {
+  const cutoff = new Date(Date.now() - ABANDONED_AFTER_HOURS * 60 * 60 * 1000)
+  const abandoned = await prisma.messageAttachment.findMany({
+    where: { messageId: null, createdAt: { lt: cutoff } },
+  })
+
+  for (const attachment of abandoned) {
+    for (const key of [attachment.storageKey, attachment.thumbnailKey]) {
+      if (key) await unlink(storagePath(key)).catch(() => undefined)
+    }
+  }
+  const { count } = await prisma.messageAttachment.deleteMany({
+    where: { id: { in: abandoned.map(attachment => attachment.id) }, messageId: null },
+  })
+  return count
+}
@@ -0,0 +1,232 @@
+// Anonymous contact relay
+//
+// Buyers and sellers reach each other through the platform until both decide
+// to share their real contact details. Each participant of a conversation
+// gets an alias address (reply+<alias>@RELAY_EMAIL_DOMAIN) and an extension
+// on the relay phone number; the other side sees only those, or a masked
+// number when no relay number is configured and the owner does not hide it.
+// Email sent to an alias is threaded into the conversation by the inbound
+// email webhook, and message notifications use the sender's alias as their
+// Reply-To so replying from a mail client lands in the same thread.
+//
+// Real details are revealed once both participants opt in for the
+// conversation. A participant who never chose follows their
+// allowDirectContact privacy setting.
+
+import crypto from 'crypto'
+import { Prisma, User } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { PrivacyProtectionService } from '../security/privacy-protection'
+
+export const RELAY_EMAIL_DOMAIN = process.env.RELAY_EMAIL_DOMAIN || 'relay.automarket.al'
+
+const RELAY_ALIAS_PATTERN = new RegExp(`reply\\+([a-f0-9]{16})@${RELAY_EMAIL_DOMAIN.replace(/\./g, '\\.')}`, 'gi')
+
+export class ContactRelayError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message)
+    this.name = 'ContactRelayError'
+  }
+}
+
+export interface ContactDetails {
+  email: string | null
+  phone: string | null
+  relayed: boolean // False once both sides shared their real details
+}
+
+type ContactUser = Pick<User, 'id' | 'email' | 'phone' | 'hidePhoneNumber' | 'allowDirectContact'>
+
+const contactUserSelect = {
+  id: true,
+  email: true,
+  phone: true,
+  hidePhoneNumber: true,
+  allowDirectContact: true,
+} satisfies Prisma.UserSelect
+
+export function relayEmailAddress(alias: string): string {
+  return `reply+${alias}@${RELAY_EMAIL_DOMAIN}`
+}
+
+export function sharesContact(
+  participant: { shareContact: boolean | null },
+  user: Pick<User, 'allowDirectContact'>
+): boolean {
+  return participant.shareContact ?? user.allowDirectContact
+}
+
+function maskedPhone(user: ContactUser): string | null {
+  return user.phone && !user.hidePhoneNumber ? PrivacyProtectionService.maskPhoneNumber(user.phone) : null
+}
+
+/**
+ * The participant's alias and phone extension, assigned on first use
+ * (conversations started before the relay existed have none yet).
+ */
+export async function ensureRelayIdentity(conversationId: string, userId: string) {
+  const where = { conversationId_userId: { conversationId, userId } }
+  const participant = await prisma.conversationParticipant.findUnique({ where })
+  if (!participant) {
+    throw new ContactRelayError('Conversation not found', 404)
+  }
+  if (participant.relayAlias && participant.relayExtension) {
+    return { relayAlias: participant.relayAlias, relayExtension: participant.relayExtension }
+  }
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      const updated = await prisma.conversationParticipant.update({
+        where,
+        data: {
+          relayAlias: participant.relayAlias ?? crypto.randomBytes(8).toString('hex'),
+          relayExtension: participant.relayExtension ?? String(crypto.randomInt(100000, 1000000)),
+        },
+      })
+      return { relayAlias: updated.relayAlias!, relayExtension: updated.relayExtension! }
+    } catch (error) {
+      // Another participant already holds the generated extension or alias
+      const conflict = error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002'
+      if (!conflict || attempt >= 4) throw error
+    }
+  }
+}
+
+async function relayedContact(conversationId: string, user: ContactUser): Promise<ContactDetails> {
+  const { relayAlias, relayExtension } = await ensureRelayIdentity(conversationId, user.id)
+  const relayPhone = process.env.RELAY_PHONE_NUMBER
+
+  return {
+    email: relayEmailAddress(relayAlias),
+    phone: relayPhone ? `${relayPhone} ext. ${relayExtension}` : maskedPhone(user),
+    relayed: true,
+  }
+}
+
+/**
+ * How the viewer can reach the other participant of a conversation: real
+ * details when both opted in, relay alias and extension otherwise.
+ */
+export async function getCounterpartContact(conversationId: string, viewerId: string) {
+  const participants = await prisma.conversationParticipant.findMany({
+    where: { conversationId },
+    include: { user: { select: contactUserSelect } },
+  })
+  const own = participants.find(participant => participant.userId === viewerId)
+  const counterpart = participants.find(participant => participant.userId !== viewerId)
+  if (!own) {
+    throw new ContactRelayError('Conversation not found', 404)
+  }
+
+  const sharing = {
+    mine: sharesContact(own, own.user),
+    theirs: counterpart ? sharesContact(counterpart, counterpart.user) : false,
+  }
+  if (!counterpart) {
+    return { contact: { email: null, phone: null, relayed: true } as ContactDetails, sharing }
+  }
+
+  const contact: ContactDetails = sharing.mine && sharing.theirs
+    ? { email: counterpart.user.email, phone: counterpart.user.phone, relayed: false }
+    : await relayedContact(conversationId, counterpart.user)
+
+  return { contact, sharing }
+}
+
+/**
+ * Seller contact shown on a listing. Never the raw details: the relay once
+ * the viewer has a conversation about the listing, otherwise at most a
+ * masked number and a prompt to write a message.
+ */
+export async function getListingContact(
+  sellerId: string,
+  listingId: string,
+  viewerId: string | null
+): Promise<ContactDetails & { conversationId: string | null }> {
+  if (viewerId) {
+    const conversation = await prisma.conversation.findUnique({
+      where: { listingId_buyerId: { listingId, buyerId: viewerId } },
+      select: { id: true },
+    })
+    if (conversation) {
+      const { contact } = await getCounterpartContact(conversation.id, viewerId)
+      return { ...contact, conversationId: conversation.id }
+    }
+  }
+
+  const seller = await prisma.user.findUnique({ where: { id: sellerId }, select: contactUserSelect })
+  return {
+    email: null,
+    phone: seller ? maskedPhone(seller) : null,
+    relayed: true,
+    conversationId: null,
+  }
+}
+
+export interface InboundEmail {
+  to?: unknown
+  from?: unknown
+  text?: unknown
+}
+
+function emailAddressOf(value: string): string {
+  const match = /<([^>]+)>/.exec(value)
+  return (match ? match[1] : value).trim().toLowerCase()
+}
+
+// The new part of a reply: everything above the quoted original and signature
+export function stripQuotedReply(text: string): string {
+  const lines: string[] = []
+  for (const line of text.replace(/\r\n/g, '\n').split('\n')) {
+    if (
+      line.startsWith('>') ||
+      /^On .+ wrote:\s*$/i.test(line) ||
+      /^Më .+ shkroi:\s*$/i.test(line) ||
+      /^-{2,}\s*Original Message/i.test(line) ||
+      line === '-- '
+    ) {
+      break
+    }
+    lines.push(line)
+  }
+  return lines.join('\n').trim()
+}
+
+/**
+ * Work out which conversation an email to a relay alias belongs to and who
+ * wrote it. Only the other participant of that conversation, writing from
+ * their account's address, can post through the alias.
+ */
+export async function resolveInboundEmail(email: InboundEmail) {
+  const recipients = (Array.isArray(email.to) ? email.to : [email.to]).filter((to): to is string => typeof to === 'string')
+  const alias = recipients
+    .flatMap(to => Array.from(to.matchAll(RELAY_ALIAS_PATTERN), match => match[1].toLowerCase()))[0]
+  if (!alias) {
+    throw new ContactRelayError('No relay address among the recipients', 404)
+  }
+
+  const recipient = await prisma.conversationParticipant.findUnique({
+    where: { relayAlias: alias },
+    include: {
+      conversation: {
+        include: { participants: { include: { user: true } } },
+      },
+    },
+  })
+  if (!recipient) {
+    throw new ContactRelayError('Unknown relay address', 404)
+  }
+
+  const sender = recipient.conversation.participants.find(participant => participant.userId !== recipient.userId)
+  const from = typeof email.from === 'string' ? emailAddressOf(email.from) : ''
+  if (!sender || sender.user.email.toLowerCase() !== from) {
+    throw new ContactRelayError('The sender is not part of this conversation', 403)
+  }
+
+  const content = stripQuotedReply(typeof email.text === 'string' ? email.text : '')
+  if (!content) {
+    throw new ContactRelayError('The email has no reply text')
+  }
+
+  return { sender: sender.user, conversationId: recipient.conversationId, content }
+}
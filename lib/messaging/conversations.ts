@@ -0,0 +1,535 @@
+// Buyer-seller conversations
+//
+// Every message belongs to a Conversation between one buyer and the seller
+// of a listing, so two buyers writing about the same car never see each
+// other's messages. A buyer starts the conversation by writing about a
+// listing; after that both sides write to the conversation.
+//
+// Inbox state lives on ConversationParticipant: each side has its own unread
+// count, can archive the conversation (a new message brings it back) and can
+// mute it, which stops email notifications. The recipient is emailed on the
+// first unread message only, not on every message of a burst.
+//
+// New messages, read receipts and typing indicators are also published as
+// real-time events (see realtime.ts) for GET /api/messages/stream.
+// Photos and PDFs are uploaded beforehand and sent with a message by their
+// IDs (see attachments.ts); a message with attachments may have no text.
+// Participants reach each other through the contact relay (contact-relay.ts)
+// until both share their real details.
+//
+// Every message is screened for scam patterns first (scam-screening.ts). A
+// held message is visible to its sender only and reaches the recipient, as
+// if just sent, when a moderator releases it.
+
+import { Prisma, User } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { emailService } from '../email'
+import { PUBLIC_LISTING_STATUSES, normalizeListingImages } from '../search/listing-search'
+import { ensureRelayIdentity, relayEmailAddress, sharesContact } from './contact-relay'
+import { claimAttachments, formatAttachment, parseAttachmentIds } from './attachments'
+import { DELIVERED_STATUSES, recordScreeningOutcome, refundScreeningPenalty, scamWarning, screenMessage } from './scam-screening'
+import {
+  MessageEvent, MessageEventInput, compareEvents, getMessageEventBus, isMissedEvent, messageEventId, parseEventId, publishMessageEvent,
+} from './realtime'
+
+export const MAX_MESSAGE_LENGTH = 2000
+export const CONVERSATION_ACTIONS = ['read', 'archive', 'unarchive', 'mute', 'unmute', 'share_contact', 'unshare_contact'] as const
+
+export type ConversationAction = typeof CONVERSATION_ACTIONS[number]
+
+export class ConversationError extends Error {
+  constructor(message: string, public status: number = 409, public field?: string) {
+    super(message)
+    this.name = 'ConversationError'
+  }
+}
+
+const messageInclude = {
+  sender: { select: { id: true, name: true } },
+  attachments: { orderBy: { createdAt: 'asc' } },
+} satisfies Prisma.MessageInclude
+
+type MessageWithSender = Prisma.MessageGetPayload<{ include: typeof messageInclude }>
+
+const conversationInclude = {
+  listing: { select: { id: true, title: true, price: true, images: true, userId: true, status: true } },
+  participants: { include: { user: { select: { id: true, name: true, allowDirectContact: true } } } },
+  messages: {
+    where: { screeningStatus: { in: DELIVERED_STATUSES } },
+    orderBy: { createdAt: 'desc' },
+    take: 1,
+    include: messageInclude,
+  },
+} satisfies Prisma.ConversationInclude
+
+type ConversationWithDetails = Prisma.ConversationGetPayload<{ include: typeof conversationInclude }>
+
+const deliveryInclude = {
+  listing: { select: { id: true, title: true } },
+  participants: { include: { user: { select: { id: true, name: true, email: true } } } },
+} satisfies Prisma.ConversationInclude
+
+type ConversationForDelivery = Prisma.ConversationGetPayload<{ include: typeof deliveryInclude }>
+
+// Delivered messages, plus the user's own held or rejected ones
+function visibleTo(userId: string): Prisma.MessageWhereInput {
+  return { OR: [{ screeningStatus: { in: DELIVERED_STATUSES } }, { senderId: userId }] }
+}
+
+export function formatMessage(message: MessageWithSender, viewerId: string) {
+  return {
+    id: message.id,
+    conversationId: message.conversationId,
+    content: message.content,
+    createdAt: message.createdAt,
+    read: message.read,
+    senderId: message.senderId,
+    sender: { id: message.sender.id, name: message.sender.name || 'User' },
+    attachments: message.attachments.map(formatAttachment),
+    mine: message.senderId === viewerId,
+    status: message.screeningStatus === 'held' || message.screeningStatus === 'rejected' ? message.screeningStatus : 'delivered',
+    warning: message.screeningStatus === 'warned' && message.senderId !== viewerId ? scamWarning(message.scamSignals) : null,
+  }
+}
+
+function formatConversation(conversation: ConversationWithDetails, viewerId: string) {
+  const own = conversation.participants.find(participant => participant.userId === viewerId)
+  const counterpart = conversation.participants.find(participant => participant.userId !== viewerId)
+  const lastMessage = conversation.messages[0]
+
+  return {
+    id: conversation.id,
+    listingId: conversation.listingId,
+    listing: {
+      ...conversation.listing,
+      price: conversation.listing.price / 100,
+      images: normalizeListingImages(conversation.listing.images),
+    },
+    role: own?.role ?? null,
+    counterpart: counterpart ? { id: counterpart.user.id, name: counterpart.user.name || 'User' } : null,
+    unreadCount: own?.unreadCount ?? 0,
+    archived: !!own?.archivedAt,
+    muted: own?.muted ?? false,
+    contactSharing: {
+      mine: own ? sharesContact(own, own.user) : false,
+      theirs: counterpart ? sharesContact(counterpart, counterpart.user) : false,
+    },
+    lastMessageAt: conversation.lastMessageAt,
+    lastMessage: lastMessage ? formatMessage(lastMessage, viewerId) : null,
+  }
+}
+
+export type FormattedConversation = ReturnType<typeof formatConversation>
+
+export interface ConversationFilters {
+  listingId?: string | null
+  archived?: boolean
+}
+
+// The user's conversations, most recent first; archived ones only on request
+export async function listConversations(userId: string, filters: ConversationFilters = {}) {
+  const conversations = await prisma.conversation.findMany({
+    where: {
+      ...(filters.listingId && { listingId: filters.listingId }),
+      participants: {
+        some: { userId, archivedAt: filters.archived ? { not: null } : null },
+      },
+    },
+    include: conversationInclude,
+    orderBy: { lastMessageAt: 'desc' },
+  })
+
+  return conversations.map(conversation => formatConversation(conversation, userId))
+}
+
+// Unread messages across the user's conversations that are not muted
+export async function countUnreadMessages(userId: string): Promise<number> {
+  const result = await prisma.conversationParticipant.aggregate({
+    where: { userId, muted: false },
+    _sum: { unreadCount: true },
+  })
+  return result._sum.unreadCount ?? 0
+}
+
+async function findParticipantConversation(conversationId: string, userId: string) {
+  const conversation = await prisma.conversation.findFirst({
+    where: { id: conversationId, participants: { some: { userId } } },
+    include: conversationInclude,
+  })
+  if (!conversation) {
+    throw new ConversationError('Conversation not found', 404)
+  }
+  return conversation
+}
+
+/**
+ * A conversation with its messages, oldest first. Only its two participants
+ * can read it.
+ */
+export async function getConversation(conversationId: string, userId: string) {
+  const conversation = await findParticipantConversation(conversationId, userId)
+  const messages = await prisma.message.findMany({
+    where: { conversationId, ...visibleTo(userId) },
+    include: messageInclude,
+    orderBy: { createdAt: 'asc' },
+  })
+
+  return {
+    conversation: formatConversation(conversation, userId),
+    messages: messages.map(message => formatMessage(message, userId)),
+  }
+}
+
+function parseContent(value: unknown, hasAttachments: boolean): string {
+  const content = typeof value === 'string' ? value.trim() : ''
+  if ((!content && !hasAttachments) || content.length > MAX_MESSAGE_LENGTH) {
+    throw new ConversationError(`A message is 1 to ${MAX_MESSAGE_LENGTH} characters`, 400, 'content')
+  }
+  return content
+}
+
+// The buyer's conversation about the listing, started if there is none yet.
+// Only a publicly visible listing can be asked about; an existing conversation
+// carries on whatever the listing's status.
+async function conversationForBuyer(listingId: string, buyer: Pick<User, 'id'>) {
+  const existing = await prisma.conversation.findUnique({
+    where: { listingId_buyerId: { listingId, buyerId: buyer.id } },
+  })
+  if (existing) return existing
+
+  const listing = await prisma.listing.findUnique({
+    where: { id: listingId },
+    select: { id: true, userId: true, status: true },
+  })
+  if (!listing || !(PUBLIC_LISTING_STATUSES as readonly string[]).includes(listing.status)) {
+    throw new ConversationError('Listing not found', 404)
+  }
+  if (listing.userId === buyer.id) {
+    throw new ConversationError('Reply from one of the conversations about your listing instead', 400, 'listingId')
+  }
+
+  return prisma.conversation.upsert({
+    where: { listingId_buyerId: { listingId, buyerId: buyer.id } },
+    update: {},
+    create: {
+      listingId,
+      buyerId: buyer.id,
+      participants: {
+        create: [
+          { userId: buyer.id, role: 'buyer' },
+          { userId: listing.userId, role: 'seller' },
+        ],
+      },
+    },
+  })
+}
+
+export interface SendMessageInput {
+  conversationId?: unknown
+  listingId?: unknown
+  content?: unknown
+  attachmentIds?: unknown
+}
+
+/**
+ * Send a message to an existing conversation, or as a buyer to the seller of
+ * a listing (starting the conversation on the first message).
+ */
+export async function sendMessage(sender: Pick<User, 'id' | 'isBlocked'>, input: SendMessageInput) {
+  if (sender.isBlocked) {
+    throw new ConversationError('Your account is blocked from sending messages', 403)
+  }
+  const attachmentIds = parseAttachmentIds(input.attachmentIds)
+  const content = parseContent(input.content, attachmentIds.length > 0)
+
+  let conversationId: string
+  if (typeof input.conversationId === 'string' && input.conversationId) {
+    conversationId = (await findParticipantConversation(input.conversationId, sender.id)).id
+  } else if (typeof input.listingId === 'string' && input.listingId) {
+    conversationId = (await conversationForBuyer(input.listingId, sender)).id
+  } else {
+    throw new ConversationError('A conversation or listing is required', 400, 'conversationId')
+  }
+
+  const screening = screenMessage(content)
+  const screeningStatus = screening.outcome === 'clear' || screening.outcome === 'warned' ? screening.outcome : 'held'
+  const delivered = screeningStatus !== 'held'
+
+  const now = new Date()
+  const [message, conversation] = await prisma.$transaction(async tx => {
+    const conversation = delivered
+      ? await markDelivered(tx, conversationId, sender.id, now)
+      : await tx.conversation.findUniqueOrThrow({ where: { id: conversationId }, include: deliveryInclude })
+    const created = await tx.message.create({
+      data: {
+        conversationId,
+        listingId: conversation.listingId,
+        senderId: sender.id,
+        content,
+        createdAt: now,
+        deliveredAt: delivered ? now : null,
+        screeningStatus,
+        ...(screening.signals.length > 0 && {
+          scamScore: screening.score,
+          scamSignals: screening.signals.map(signal => signal.rule),
+        }),
+      },
+    })
+    await claimAttachments(tx, created.id, sender.id, attachmentIds)
+    await recordScreeningOutcome(tx, screening, {
+      messageId: created.id,
+      conversationId,
+      listingId: conversation.listingId,
+      sender,
+    })
+    const message = await tx.message.findUniqueOrThrow({ where: { id: created.id }, include: messageInclude })
+    return [message, conversation] as const
+  })
+
+  await announceMessage(message, conversation, sender.id, delivered)
+
+  return formatMessage(message, sender.id)
+}
+
+// Bring the conversation up in both inboxes and count the message as unread for the recipient
+async function markDelivered(tx: Prisma.TransactionClient, conversationId: string, senderId: string, at: Date) {
+  const conversation = await tx.conversation.update({
+    where: { id: conversationId },
+    data: { lastMessageAt: at },
+    include: deliveryInclude,
+  })
+  await tx.conversationParticipant.updateMany({
+    where: { conversationId, userId: { not: senderId } },
+    data: { unreadCount: { increment: 1 }, archivedAt: null },
+  })
+  return conversation
+}
+
+// The message event for one participant. Published and replayed events are
+// built here alike so both get the same ID; a released message is a new event.
+function messageEventFor(message: MessageWithSender, userId: string): MessageEventInput {
+  const formatted = formatMessage(message, userId)
+  return {
+    type: 'message',
+    userId,
+    conversationId: message.conversationId!,
+    at: message.deliveredAt ?? message.createdAt,
+    key: `message:${message.id}:${formatted.status}`,
+    data: { message: formatted },
+  }
+}
+
+// Push the message to the participants (only the sender while it is held) and
+// email the recipient on their first unread message
+async function announceMessage(
+  message: MessageWithSender,
+  conversation: ConversationForDelivery,
+  senderId: string,
+  delivered: boolean
+): Promise<void> {
+  for (const participant of conversation.participants) {
+    if (!delivered && participant.userId !== senderId) continue
+    await publishMessageEvent(messageEventFor(message, participant.userId))
+  }
+  if (!delivered) return
+
+  const recipient = conversation.participants.find(participant => participant.userId !== senderId)
+  if (recipient && !recipient.muted && recipient.unreadCount === 0) {
+    await notifyRecipient(recipient.user, message, conversation.listing, conversation.id)
+  }
+}
+
+/**
+ * A moderator's decision on a message held by scam screening: release it to
+ * the recipient as if just sent, or keep it hidden for good.
+ */
+export async function releaseHeldMessage(messageId: string, approved: boolean): Promise<void> {
+  const held = await prisma.message.findFirst({ where: { id: messageId, screeningStatus: 'held' } })
+  if (!held?.conversationId) return
+  const conversationId = held.conversationId
+
+  if (!approved) {
+    await prisma.message.update({ where: { id: messageId }, data: { screeningStatus: 'rejected' } })
+    return
+  }
+
+  const now = new Date()
+  const [message, conversation] = await prisma.$transaction(async tx => {
+    const conversation = await markDelivered(tx, conversationId, held.senderId, now)
+    await refundScreeningPenalty(tx, held)
+    const message = await tx.message.update({
+      where: { id: messageId },
+      data: { screeningStatus: 'released', deliveredAt: now },
+      include: messageInclude,
+    })
+    return [message, conversation] as const
+  })
+
+  await announceMessage(message, conversation, held.senderId, true)
+}
+
+async function notifyRecipient(
+  recipient: Pick<User, 'id' | 'name' | 'email'>,
+  message: MessageWithSender,
+  listing: { id: string; title: string },
+  conversationId: string
+): Promise<void> {
+  try {
+    const preferences = await prisma.automationPreferences.findUnique({ where: { userId: recipient.id } })
+    if (!preferences || preferences.emailEnabled) {
+      const template = emailService.getNewMessageEmail(
+        recipient.name || 'Shfrytëzues',
+        message.sender.name || 'User',
+        listing.title,
+        message.content || `📎 ${message.attachments.length} attachment(s)`
+      )
+      // Replies from the mail client go back through the sender's relay alias
+      const { relayAlias } = await ensureRelayIdentity(conversationId, message.senderId)
+      const sent = await emailService.sendEmail({ to: recipient.email, replyTo: relayEmailAddress(relayAlias), ...template })
+      await prisma.notificationLog.create({
+        data: {
+          userId: recipient.id,
+          type: 'email',
+          category: 'new_message',
+          status: sent ? 'sent' : 'failed',
+          recipientInfo: recipient.email,
+          subject: template.subject,
+        },
+      })
+    }
+  } catch (error) {
+    console.error('Error notifying message recipient:', error)
+  }
+}
+
+/**
+ * Update the user's own state of a conversation: mark it read, archive or
+ * unarchive it, mute or unmute it, share or stop sharing contact details.
+ */
+export async function updateConversation(conversationId: string, userId: string, action: unknown) {
+  if (!CONVERSATION_ACTIONS.includes(action as ConversationAction)) {
+    throw new ConversationError(`Action must be one of: ${CONVERSATION_ACTIONS.join(', ')}`, 400, 'action')
+  }
+  const conversation = await findParticipantConversation(conversationId, userId)
+
+  const where = { conversationId_userId: { conversationId, userId } }
+  switch (action as ConversationAction) {
+    case 'read': {
+      const readAt = new Date()
+      await prisma.$transaction([
+        prisma.conversationParticipant.update({ where, data: { unreadCount: 0, lastReadAt: readAt } }),
+        prisma.message.updateMany({
+          where: { conversationId, senderId: { not: userId }, read: false },
+          data: { read: true },
+        }),
+      ])
+      for (const participant of conversation.participants.filter(participant => participant.userId !== userId)) {
+        await publishMessageEvent({
+          type: 'read',
+          userId: participant.userId,
+          conversationId,
+          at: readAt,
+          key: `read:${conversationId}:${userId}`,
+          data: { readerId: userId, readAt },
+        })
+      }
+      break
+    }
+    case 'archive':
+      await prisma.conversationParticipant.update({ where, data: { archivedAt: new Date() } })
+      break
+    case 'unarchive':
+      await prisma.conversationParticipant.update({ where, data: { archivedAt: null } })
+      break
+    case 'mute':
+    case 'unmute':
+      await prisma.conversationParticipant.update({ where, data: { muted: action === 'mute' } })
+      break
+    case 'share_contact':
+    case 'unshare_contact':
+      await prisma.conversationParticipant.update({ where, data: { shareContact: action === 'share_contact' } })
+      break
+  }
+
+  return formatConversation(await findParticipantConversation(conversationId, userId), userId)
+}
+
+// Tell the other participant that the user is typing
+export async function sendTypingIndicator(conversationId: string, user: Pick<User, 'id' | 'name'>): Promise<void> {
+  const conversation = await findParticipantConversation(conversationId, user.id)
+  for (const participant of conversation.participants.filter(participant => participant.userId !== user.id)) {
+    await publishMessageEvent({
+      type: 'typing',
+      userId: participant.userId,
+      conversationId,
+      data: { userId: user.id, name: user.name || 'User' },
+    })
+  }
+}
+
+/**
+ * Events the user missed since the given event ID. Falls back to the
+ * database when the event bus no longer has them; rebuilt events get the same
+ * IDs the bus gave them, and messages count from when they were delivered so
+ * ones released by a moderator are not missed. Typing indicators are not
+ * replayed.
+ */
+export async function getMissedMessageEvents(userId: string, lastEventId: string): Promise<MessageEvent[]> {
+  const buffered = getMessageEventBus().eventsSince(userId, lastEventId)
+  if (buffered) return buffered
+
+  const last = parseEventId(lastEventId)
+  if (!last) return []
+  const since = new Date(last.time)
+  const inConversation = { conversation: { participants: { some: { userId } } } }
+
+  const [messages, reads] = await Promise.all([
+    prisma.message.findMany({
+      where: {
+        ...inConversation,
+        AND: [
+          visibleTo(userId),
+          { OR: [{ deliveredAt: { gte: since } }, { deliveredAt: null, createdAt: { gte: since } }] },
+        ],
+      },
+      include: messageInclude,
+      orderBy: { createdAt: 'asc' },
+      take: 500,
+    }),
+    prisma.conversationParticipant.findMany({
+      where: { userId: { not: userId }, lastReadAt: { gte: since }, ...inConversation },
+    }),
+  ])
+
+  const inputs: MessageEventInput[] = [
+    ...messages.map(message => messageEventFor(message, userId)),
+    ...reads.map(participant => ({
+      type: 'read' as const,
+      userId,
+      conversationId: participant.conversationId,
+      at: participant.lastReadAt!,
+      key: `read:${participant.conversationId}:${participant.userId}`,
+      data: { readerId: participant.userId, readAt: participant.lastReadAt },
+    })),
+  ]
+
+  return inputs
+    .map(({ at, key, ...event }) => ({ ...event, id: messageEventId(at!, key!) }))
+    .filter(event => isMissedEvent(event, lastEventId))
+    .sort(compareEvents)
+}
+
+// Whether the two users have written to each other in any conversation
+export async function haveExchangedMessages(userId: string, otherUserId: string): Promise<boolean> {
+  const conversation = await prisma.conversation.findFirst({
+    where: {
+      AND: [
+        { participants: { some: { userId } } },
+        { participants: { some: { userId: otherUserId } } },
+      ],
+      messages: { some: { screeningStatus: { in: DELIVERED_STATUSES } } },
+    },
+    select: { id: true },
+  })
+  return !!conversation
+}
@@ -0,0 +1,154 @@
+// Real-time message events
+//
+// New messages, read receipts and typing indicators are published to a
+// MessageEventBus and pushed to connected clients by GET /api/messages/stream
+// as Server-Sent Events. Every event is addressed to one user.
+//
+// The default bus is in-process: it only reaches clients connected to the
+// same Node instance. When the app runs on several instances, swap it with
+// setMessageEventBus() for one backed by Postgres LISTEN/NOTIFY: publish()
+// sends the serialized event with pg_notify on a shared channel and a
+// dedicated LISTEN connection hands incoming notifications to the local
+// subscribers, exactly like InProcessMessageEventBus.deliver() does.
+//
+// Event IDs are "<milliseconds>-<hash>": the time of the change the event
+// reports (a message reaching the recipient, a read receipt) and a hash of
+// what changed, so an event published on the bus and the same event rebuilt
+// from the database share one ID. A reconnecting client sends the last ID it
+// saw (the Last-Event-ID header) and gets the events from that millisecond on
+// from the recent-event buffer; getMissedMessageEvents() in conversations.ts
+// rebuilds them from the database once the buffer no longer reaches back.
+// Typing indicators are only passed on live: they are not buffered, carry no
+// SSE id and are never replayed.
+
+import crypto from 'crypto'
+
+export const MESSAGE_EVENT_TYPES = ['message', 'read', 'typing'] as const
+
+export type MessageEventType = typeof MESSAGE_EVENT_TYPES[number]
+
+export const REPLAYED_EVENT_TYPES: readonly MessageEventType[] = ['message', 'read']
+
+export interface MessageEvent {
+  id: string
+  type: MessageEventType
+  userId: string
+  conversationId: string
+  data: Record<string, unknown>
+}
+
+export type MessageEventInput = Omit<MessageEvent, 'id'> & {
+  at?: Date // When the reported change happened; defaults to now
+  key?: string // What changed, e.g. "read:<conversationId>:<readerId>"
+}
+
+export type MessageEventListener = (event: MessageEvent) => void
+
+export interface MessageEventBus {
+  publish(event: MessageEventInput): Promise<MessageEvent>
+  subscribe(userId: string, listener: MessageEventListener): () => void
+  // Buffered events for the user after the given ID, or null when the buffer
+  // no longer reaches back that far
+  eventsSince(userId: string, lastEventId: string): MessageEvent[] | null
+}
+
+const BUFFER_SIZE = 1000
+const BUFFER_MAX_AGE_MS = 15 * 60 * 1000
+
+export function messageEventId(at: Date, key: string): string {
+  return `${at.getTime()}-${crypto.createHash('sha1').update(key).digest('hex').slice(0, 12)}`
+}
+
+export function parseEventId(id: string): { time: number; hash: string } | null {
+  const match = /^(\d+)-([a-f0-9]+)$/.exec(id)
+  return match ? { time: Number(match[1]), hash: match[2] } : null
+}
+
+/**
+ * Whether a replayed event should go to a client that last saw `lastEventId`.
+ * Events from the same millisecond are sent again (the client ignores ones it
+ * already has) rather than risk skipping one.
+ */
+export function isMissedEvent(event: MessageEvent, lastEventId: string): boolean {
+  const last = parseEventId(lastEventId)
+  const time = parseEventId(event.id)?.time
+  return !!last && time !== undefined && time >= last.time && event.id !== lastEventId
+}
+
+export function compareEvents(a: MessageEvent, b: MessageEvent): number {
+  return parseEventId(a.id)!.time - parseEventId(b.id)!.time || a.id.localeCompare(b.id)
+}
+
+export class InProcessMessageEventBus implements MessageEventBus {
+  private listeners = new Map<string, Set<MessageEventListener>>()
+  private buffer: MessageEvent[] = []
+  private sequence = 0
+  private startedAt = Date.now()
+
+  async publish({ at = new Date(), key, ...input }: MessageEventInput): Promise<MessageEvent> {
+    const event = { ...input, id: messageEventId(at, key ?? `${input.type}:${input.conversationId}:${++this.sequence}`) }
+    this.deliver(event)
+    return event
+  }
+
+  // Buffer the event (unless it is a typing indicator) and hand it to the recipient's listeners
+  deliver(event: MessageEvent): void {
+    if (REPLAYED_EVENT_TYPES.includes(event.type)) this.buffer.push(event)
+    const cutoff = Date.now() - BUFFER_MAX_AGE_MS
+    while (this.buffer.length > BUFFER_SIZE || (this.buffer.length && parseEventId(this.buffer[0].id)!.time < cutoff)) {
+      this.buffer.shift()
+      this.startedAt = parseEventId(this.buffer[0]?.id ?? '')?.time ?? Date.now()
+    }
+
+    this.listeners.get(event.userId)?.forEach(listener => {
+      try {
+        listener(event)
+      } catch (error) {
+        console.error('Error delivering message event:', error)
+      }
+    })
+  }
+
+  subscribe(userId: string, listener: MessageEventListener): () => void {
+    const listeners = this.listeners.get(userId) ?? new Set()
+    listeners.add(listener)
+    this.listeners.set(userId, listeners)
+
+    return () => {
+      listeners.delete(listener)
+      if (listeners.size === 0) this.listeners.delete(userId)
+    }
+  }
+
+  eventsSince(userId: string, lastEventId: string): MessageEvent[] | null {
+    const last = parseEventId(lastEventId)
+    if (!last || last.time < this.startedAt) return null
+    return this.buffer
+      .filter(event => event.userId === userId && isMissedEvent(event, lastEventId))
+      .sort(compareEvents)
+  }
+}
+
+const globalForEvents = globalThis as unknown as {
+  messageEventBus: MessageEventBus | undefined
+}
+
+export function getMessageEventBus(): MessageEventBus {
+  if (!globalForEvents.messageEventBus) {
+    globalForEvents.messageEventBus = new InProcessMessageEventBus()
+  }
+  return globalForEvents.messageEventBus
+}
+
+export function setMessageEventBus(bus: MessageEventBus): void {
+  globalForEvents.messageEventBus = bus
+}
+
+// Publish without failing the request that caused the event
+export async function publishMessageEvent(event: MessageEventInput): Promise<void> {
+  try {
+    await getMessageEventBus().publish(event)
+  } catch (error) {
+    console.error('Error publishing message event:', error)
+  }
+}
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest'
+import { screenMessage, scamWarning } from './scam-screening'
+
+function rules(content: string) {
+  return screenMessage(content).signals.map(signal => signal.rule)
+}
+
+describe('screenMessage', () => {
+  it('leaves ordinary questions alone', () => {
+    const screening = screenMessage('Përshëndetje, a është makina ende në shitje? Mund ta shoh të shtunën?')
+
+    expect(screening).toEqual({ score: 0, signals: [], outcome: 'clear' })
+  })
+
+  it('warns about a deposit request in Albanian', () => {
+    const screening = screenMessage('Dërgo kaparin përpara dhe ta mbaj makinën')
+
+    expect(rules('Dërgo kaparin përpara dhe ta mbaj makinën')).toEqual(['payment_redirect'])
+    expect(screening.outcome).toBe('warned')
+  })
+
+  it('raises an alert for a payment request with a foreign IBAN', () => {
+    const screening = screenMessage('I am abroad. Send the deposit by Western Union or to DE89 3704 0044 0532 0130 00')
+
+    expect(screening.signals.map(signal => signal.rule)).toEqual(
+      expect.arrayContaining(['payment_redirect', 'seller_abroad', 'foreign_iban'])
+    )
+    expect(screening.outcome).toBe('alert')
+    expect(screening.score).toBeLessThanOrEqual(100)
+  })
+
+  it('finds IBANs written in lower case', () => {
+    expect(rules('pay to de89370400440532013000 then')).toContain('foreign_iban')
+  })
+
+  it('treats an Albanian IBAN as shared details rather than a foreign account', () => {
+    const screening = screenMessage('Llogaria: AL47 2121 1009 0000 0002 3569 8741')
+
+    expect(screening.signals).toEqual([{ rule: 'iban_shared', weight: 10, match: 'AL47 2121 1009 0000 0002 3569 8741' }])
+    expect(screening.outcome).toBe('clear')
+  })
+
+  it('does not read an IBAN as a phone number', () => {
+    expect(rules('AL47 2121 1009 0000 0002 3569 8741')).not.toContain('contact_details')
+  })
+
+  it('adds up off-platform contact and a phone number', () => {
+    const screening = screenMessage('Write me on WhatsApp +355 69 123 4567')
+
+    expect(screening.signals.map(signal => signal.rule)).toEqual(['off_platform_contact', 'contact_details'])
+    expect(screening.score).toBe(35)
+    expect(screening.outcome).toBe('warned')
+  })
+
+  it('flags shortened and courier links but not official couriers', () => {
+    expect(rules('Details at https://bit.ly/3abcd')).toEqual(['shortened_url'])
+    expect(rules('Track it at http://euro-delivery-express.com/pay')).toEqual(['courier_link'])
+    expect(rules('Tracking on https://www.dhl.com/track')).toEqual([])
+  })
+
+  it('counts each rule once', () => {
+    const screening = screenMessage('Western Union or MoneyGram, western union only')
+
+    expect(screening.signals).toHaveLength(1)
+    expect(screening.score).toBe(30)
+  })
+})
+
+describe('scamWarning', () => {
+  it('joins the warnings of known rules', () => {
+    expect(scamWarning(['shortened_url', 'unknown'])).toBe(
+      'This message contains a shortened link that hides where it leads.'
+    )
+    expect(scamWarning(null)).toBeNull()
+  })
+})
@@ -0,0 +1,258 @@
+// Scam screening of chat messages
+//
+// Car-sale scams usually start in chat: a seller "abroad" who wants a deposit
+// through Western Union, a foreign IBAN, a "courier" link or a push to carry
+// on over WhatsApp. Every message is scored against the rules below (English
+// and Albanian phrasing); the score decides what happens to it:
+//
+//   WARN_SCORE   delivered, with a warning shown to the recipient
+//   HOLD_SCORE   held for moderation; only the sender sees it until a
+//                moderator releases it (ContentModerationService.moderateManually)
+//   ALERT_SCORE  held, and a chat_scam FraudAlert is raised for the sender
+//
+// Flagged messages also lower the sender's trust score, once per conversation:
+// a later message only takes what a worse outcome adds, and a moderator
+// releasing a held message gives its penalty back.
+
+import { Message, Prisma, User } from '@prisma/client'
+import { albanianPaymentService } from '../albanian-payments'
+
+export const WARN_SCORE = 25
+export const HOLD_SCORE = 50
+export const ALERT_SCORE = 75
+
+export const SCREENING_TRUST_PENALTY = { warned: 2, held: 5, alert: 10 } as const
+
+// Screening statuses of messages the recipient can see
+export const DELIVERED_STATUSES = ['clear', 'warned', 'released']
+
+export type ScamRule =
+  | 'payment_redirect'
+  | 'seller_abroad'
+  | 'foreign_iban'
+  | 'iban_shared'
+  | 'shortened_url'
+  | 'courier_link'
+  | 'off_platform_contact'
+  | 'contact_details'
+
+export interface ScamSignal {
+  rule: ScamRule
+  weight: number
+  match: string
+}
+
+export interface ScamScreening {
+  score: number
+  signals: ScamSignal[]
+  outcome: 'clear' | 'warned' | 'held' | 'alert'
+}
+
+// Shown to the recipient of a warned message
+export const SCAM_WARNINGS: Record<ScamRule, string> = {
+  payment_redirect: 'This message asks for a payment outside the platform. Never pay a deposit before seeing the car; use escrow instead.',
+  seller_abroad: 'Sellers who say they are abroad and ship the car after payment are a common scam.',
+  foreign_iban: 'This message contains a foreign or invalid bank account.',
+  iban_shared: 'This message contains a bank account. Pay only after seeing the car and its documents.',
+  shortened_url: 'This message contains a shortened link that hides where it leads.',
+  courier_link: 'This message links to a delivery or courier site. Scammers use fake courier pages to collect payments.',
+  off_platform_contact: 'This message asks to continue outside the platform, where we cannot protect you.',
+  contact_details: 'This message shares contact details outside the platform.',
+}
+
+const PHRASE_RULES: Array<{ rule: ScamRule; weight: number; patterns: RegExp[] }> = [
+  {
+    rule: 'payment_redirect',
+    weight: 30,
+    patterns: [
+      /western\s*union/i,
+      /money\s*gram/i,
+      /\b(?:send|pay|wire|transfer)\b.{0,30}\b(?:deposit|advance|upfront|money|payment)\b/i,
+      /\b(?:deposit|advance payment)\b.{0,30}\b(?:first|before|to reserve|to hold)\b/i,
+      /\bgift\s*cards?\b/i,
+      /\b(?:bitcoin|btc|usdt|crypto)\b/i,
+      /friends\s*(?:and|&)\s*family/i,
+      /\b(?:dërgo|dergo|paguaj|paguani|transfero|transferoni)\w*\b.{0,30}\b(?:kapar|paradhëni|paradheni|para|pagesë|pagese)/i,
+      /\bkapar\w*\b.{0,30}\b(?:përpara|perpara|fillimisht|për ta rezervuar|per ta rezervuar)/i,
+    ],
+  },
+  {
+    rule: 'seller_abroad',
+    weight: 20,
+    patterns: [
+      /\b(?:i'?m|i am|currently|living|working)\b.{0,20}\b(?:abroad|overseas|out of the country)\b/i,
+      /\bjam\b.{0,20}\b(?:jashtë|jashte)/i,
+      /\b(?:shipping|transport|delivery)\s+(?:agent|company)\b/i,
+      /\b(?:kompani|agjenci)\w*\s+(?:transporti|korrier)/i,
+    ],
+  },
+  {
+    rule: 'off_platform_contact',
+    weight: 20,
+    patterns: [
+      /\b(?:whats\s*app|telegram|viber|signal|wechat)\b/i,
+      /\b(?:text|call|email|contact|message)\s+me\s+(?:at|on)\b/i,
+      /\b(?:më|me)\s+(?:shkruaj|shkruani|telefono|telefononi|merr|merrni)\b.{0,20}(?:\bnë|\bne|\bdirekt)(?=\s|$)/i,
+    ],
+  },
+]
+
+const SHORTENER_HOSTS = new Set([
+  'bit.ly', 'tinyurl.com', 't.co', 'goo.gl', 'ow.ly', 'is.gd', 'buff.ly', 'cutt.ly',
+  'rb.gy', 'shorturl.at', 'tiny.cc', 't.ly', 's.id', 'rebrand.ly', 'bl.ink', 'v.gd',
+])
+const COURIER_HOST_PATTERN = /(?:courier|delivery|shipping|logistic|escrow|dhl|fedex|ups|tnt)/i
+const OFFICIAL_COURIER_HOSTS = /(?:^|\.)(?:dhl\.com|fedex\.com|ups\.com|tnt\.com|postashqiptare\.al)$/i
+
+const URL_PATTERN = /\b(?:https?:\/\/)?((?:[a-z0-9-]+\.)+[a-z]{2,})(?:\/[^\s]*)?/gi
+// Groups after the bank code must hold a digit and the short last group is all
+// digits, so a following word ("then", "and") is not read as part of the IBAN
+const IBAN_PATTERN = /\b[A-Z]{2}\d{2} ?[A-Z0-9]{4}(?: ?(?=[A-Z]{0,3}\d)[A-Z0-9]{4}){1,6}(?: ?\d{1,3})?\b/gi
+const PHONE_PATTERN = /(?:\+|00)\d[\d\s-]{7,14}\d|\b0[6]\d[\d\s-]{6,9}\d\b/g
+const EMAIL_PATTERN = /\b[\w.+-]+@[\w-]+\.[\w.]+\b/g
+
+function urlSignals(content: string): ScamSignal[] {
+  const signals: ScamSignal[] = []
+  for (const match of Array.from(content.matchAll(URL_PATTERN))) {
+    const host = match[1].toLowerCase().replace(/^www\./, '')
+    // Bare words with a dot in them (e.g. "ok.thanks") only count with a scheme or a real TLD
+    if (!match[0].includes('/') && !/\.(?:com|net|org|al|info|xyz|top|ly|gl|co|io|me|at|id|gd|cc)$/.test(host)) continue
+
+    if (SHORTENER_HOSTS.has(host)) {
+      signals.push({ rule: 'shortened_url', weight: 30, match: match[0] })
+    } else if (COURIER_HOST_PATTERN.test(host) && !OFFICIAL_COURIER_HOSTS.test(host)) {
+      signals.push({ rule: 'courier_link', weight: 30, match: match[0] })
+    }
+  }
+  return signals
+}
+
+function ibanSignals(content: string): ScamSignal[] {
+  return Array.from(content.matchAll(IBAN_PATTERN), match => {
+    const { valid } = albanianPaymentService.validateAlbanianIBAN(match[0])
+    return valid
+      ? { rule: 'iban_shared' as const, weight: 10, match: match[0] }
+      : { rule: 'foreign_iban' as const, weight: 35, match: match[0] }
+  })
+}
+
+/**
+ * Score a message against the scam rules. Each rule counts once, with its
+ * first match as evidence; asking for money together with a bank account or
+ * link scores extra.
+ */
+export function screenMessage(content: string): ScamScreening {
+  const found: ScamSignal[] = []
+
+  for (const { rule, weight, patterns } of PHRASE_RULES) {
+    for (const pattern of patterns) {
+      const match = pattern.exec(content)
+      if (match) {
+        found.push({ rule, weight, match: match[0] })
+        break
+      }
+    }
+  }
+  found.push(...ibanSignals(content), ...urlSignals(content))
+
+  // Account numbers are not phone numbers
+  const withoutIbans = content.replace(IBAN_PATTERN, ' ')
+  const contactMatch = withoutIbans.match(PHONE_PATTERN)?.[0] ?? withoutIbans.match(EMAIL_PATTERN)?.[0]
+  if (contactMatch) {
+    found.push({ rule: 'contact_details', weight: 15, match: contactMatch })
+  }
+
+  const signals = found.filter((signal, index) => found.findIndex(other => other.rule === signal.rule) === index)
+  const rules = new Set(signals.map(signal => signal.rule))
+  let score = signals.reduce((sum, signal) => sum + signal.weight, 0)
+  if (rules.has('payment_redirect') && (rules.has('foreign_iban') || rules.has('shortened_url') || rules.has('courier_link'))) {
+    score += 15
+  }
+  score = Math.min(100, score)
+
+  const outcome = score >= ALERT_SCORE ? 'alert' : score >= HOLD_SCORE ? 'held' : score >= WARN_SCORE ? 'warned' : 'clear'
+  return { score, signals, outcome }
+}
+
+// Warning text for the recipient of a warned message
+export function scamWarning(signals: Prisma.JsonValue): string | null {
+  if (!Array.isArray(signals)) return null
+  const rules = signals.filter((rule): rule is ScamRule => typeof rule === 'string' && rule in SCAM_WARNINGS)
+  return rules.length > 0 ? rules.map(rule => SCAM_WARNINGS[rule]).join(' ') : null
+}
+
+/**
+ * Record what screening decided about a sent message: moderation record for
+ * held messages, FraudAlert above ALERT_SCORE, and the sender's trust score.
+ */
+export async function recordScreeningOutcome(
+  tx: Prisma.TransactionClient,
+  screening: ScamScreening,
+  context: { messageId: string; conversationId: string; listingId: string; sender: Pick<User, 'id'> }
+): Promise<void> {
+  if (screening.outcome === 'clear') return
+
+  const evidence = {
+    messageId: context.messageId,
+    conversationId: context.conversationId,
+    score: screening.score,
+    signals: screening.signals.map(({ rule, weight, match }) => ({ rule, weight, match })),
+  }
+
+  if (screening.outcome !== 'warned') {
+    await tx.contentModeration.create({
+      data: {
+        contentType: 'message',
+        contentId: context.messageId,
+        userId: context.sender.id,
+        aiModerationScore: screening.score / 100,
+        aiFlags: screening.signals.map(signal => signal.rule),
+        fraudRisk: screening.outcome === 'alert' ? 'critical' : 'high',
+        suspiciousPatterns: evidence.signals,
+        moderationDecision: 'flagged',
+        moderatorNotes: `Held by scam screening (score ${screening.score})`,
+      },
+    })
+  }
+
+  if (screening.outcome === 'alert') {
+    await tx.fraudAlert.create({
+      data: {
+        listingId: context.listingId,
+        userId: context.sender.id,
+        alertType: 'chat_scam',
+        severity: screening.score >= 90 ? 'critical' : 'high',
+        description: `Mesazh i mbajtur për mashtrim të mundshëm: ${screening.signals.map(signal => signal.rule).join(', ')}`,
+        evidence,
+      },
+    })
+  }
+
+  const taken = await tx.message.aggregate({
+    where: { conversationId: context.conversationId, senderId: context.sender.id, id: { not: context.messageId } },
+    _sum: { trustPenalty: true },
+  })
+  const due = SCREENING_TRUST_PENALTY[screening.outcome] - (taken._sum.trustPenalty ?? 0)
+  if (due <= 0) return
+
+  const user = await tx.user.findUnique({ where: { id: context.sender.id }, select: { trustScore: true } })
+  if (user) {
+    const trustScore = Math.max(0, user.trustScore - due)
+    await tx.user.update({ where: { id: context.sender.id }, data: { trustScore } })
+    await tx.message.update({ where: { id: context.messageId }, data: { trustPenalty: user.trustScore - trustScore } })
+  }
+}
+
+// Give back the trust score taken for a message a moderator found harmless
+export async function refundScreeningPenalty(
+  tx: Prisma.TransactionClient,
+  message: Pick<Message, 'id' | 'senderId' | 'trustPenalty'>
+): Promise<void> {
+  if (message.trustPenalty <= 0) return
+
+  await tx.user.update({
+    where: { id: message.senderId },
+    data: { trustScore: { increment: message.trustPenalty } },
+  })
+  await tx.message.update({ where: { id: message.id }, data: { trustPenalty: 0 } })
+}
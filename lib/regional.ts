@@ -58,82 +58,94 @@ export const COUNTRIES: Country[] = [
 // Albanian cities and regions
 export const ALBANIA_REGIONS: Region[] = [
   // Major Cities
-  { id: 'tirana', name: 'Tirana', nameAlbanian: 'Tiranë', country: 'AL', type: 'capital', population: 418495 },
-  { id: 'durres', name: 'Durrës', nameAlbanian: 'Durrës', country: 'AL', type: 'city', population: 175110 },
-  { id: 'vlore', name: 'Vlorë', nameAlbanian: 'Vlorë', country: 'AL', type: 'city', population: 130827 },
-  { id: 'elbasan', name: 'Elbasan', nameAlbanian: 'Elbasan', country: 'AL', type: 'city', population: 126703 },
-  { id: 'shkoder', name: 'Shkodër', nameAlbanian: 'Shkodër', country: 'AL', type: 'city', population: 77075 },
-  { id: 'korce', name: 'Korçë', nameAlbanian: 'Korçë', country: 'AL', type: 'city', population: 58259 },
-  { id: 'fier', name: 'Fier', nameAlbanian: 'Fier', country: 'AL', type: 'city', population: 55845 },
-  { id: 'berat', name: 'Berat', nameAlbanian: 'Berat', country: 'AL', type: 'city', population: 36467 },
-  { id: 'lushnje', name: 'Lushnjë', nameAlbanian: 'Lushnjë', country: 'AL', type: 'city', population: 31105 },
-  { id: 'pogradec', name: 'Pogradec', nameAlbanian: 'Pogradec', country: 'AL', type: 'city', population: 20848 },
-  { id: 'kavaje', name: 'Kavajë', nameAlbanian: 'Kavajë', country: 'AL', type: 'city', population: 20192 },
-  { id: 'gjirokaster', name: 'Gjirokastër', nameAlbanian: 'Gjirokastër', country: 'AL', type: 'city', population: 19836 },
-  { id: 'sarande', name: 'Sarandë', nameAlbanian: 'Sarandë', country: 'AL', type: 'city', population: 17233 },
-  { id: 'lac', name: 'Laç', nameAlbanian: 'Laç', country: 'AL', type: 'city', population: 17086 },
-  { id: 'kukes', name: 'Kukës', nameAlbanian: 'Kukës', country: 'AL', type: 'city', population: 16719 },
+  { id: 'tirana', name: 'Tirana', nameAlbanian: 'Tiranë', country: 'AL', type: 'capital', population: 418495, coordinates: { lat: 41.3275, lng: 19.8187 } },
+  { id: 'durres', name: 'Durrës', nameAlbanian: 'Durrës', country: 'AL', type: 'city', population: 175110, coordinates: { lat: 41.3246, lng: 19.4565 } },
+  { id: 'vlore', name: 'Vlorë', nameAlbanian: 'Vlorë', country: 'AL', type: 'city', population: 130827, coordinates: { lat: 40.4661, lng: 19.4914 } },
+  { id: 'elbasan', name: 'Elbasan', nameAlbanian: 'Elbasan', country: 'AL', type: 'city', population: 126703, coordinates: { lat: 41.1125, lng: 20.0822 } },
+  { id: 'shkoder', name: 'Shkodër', nameAlbanian: 'Shkodër', country: 'AL', type: 'city', population: 77075, coordinates: { lat: 42.0683, lng: 19.5126 } },
+  { id: 'korce', name: 'Korçë', nameAlbanian: 'Korçë', country: 'AL', type: 'city', population: 58259, coordinates: { lat: 40.6186, lng: 20.7808 } },
+  { id: 'fier', name: 'Fier', nameAlbanian: 'Fier', country: 'AL', type: 'city', population: 55845, coordinates: { lat: 40.7239, lng: 19.5561 } },
+  { id: 'berat', name: 'Berat', nameAlbanian: 'Berat', country: 'AL', type: 'city', population: 36467, coordinates: { lat: 40.7058, lng: 19.9522 } },
+  { id: 'lushnje', name: 'Lushnjë', nameAlbanian: 'Lushnjë', country: 'AL', type: 'city', population: 31105, coordinates: { lat: 40.9419, lng: 19.705 } },
+  { id: 'pogradec', name: 'Pogradec', nameAlbanian: 'Pogradec', country: 'AL', type: 'city', population: 20848, coordinates: { lat: 40.9025, lng: 20.6525 } },
+  { id: 'kavaje', name: 'Kavajë', nameAlbanian: 'Kavajë', country: 'AL', type: 'city', population: 20192, coordinates: { lat: 41.1856, lng: 19.5569 } },
+  { id: 'gjirokaster', name: 'Gjirokastër', nameAlbanian: 'Gjirokastër', country: 'AL', type: 'city', population: 19836, coordinates: { lat: 40.0758, lng: 20.1389 } },
+  { id: 'sarande', name: 'Sarandë', nameAlbanian: 'Sarandë', country: 'AL', type: 'city', population: 17233, coordinates: { lat: 39.8756, lng: 20.0053 } },
+  { id: 'lac', name: 'Laç', nameAlbanian: 'Laç', country: 'AL', type: 'city', population: 17086, coordinates: { lat: 41.6353, lng: 19.7131 } },
+  { id: 'kukes', name: 'Kukës', nameAlbanian: 'Kukës', country: 'AL', type: 'city', population: 16719, coordinates: { lat: 42.0769, lng: 20.4219 } },
 
   // Other important municipalities
-  { id: 'peshkopi', name: 'Peshkopi', nameAlbanian: 'Peshkopi', country: 'AL', type: 'municipality' },
-  { id: 'kruje', name: 'Krujë', nameAlbanian: 'Krujë', country: 'AL', type: 'municipality' },
-  { id: 'lezhe', name: 'Lezhë', nameAlbanian: 'Lezhë', country: 'AL', type: 'municipality' },
-  { id: 'tepelene', name: 'Tepelenë', nameAlbanian: 'Tepelenë', country: 'AL', type: 'municipality' },
-  { id: 'permet', name: 'Përmet', nameAlbanian: 'Përmet', country: 'AL', type: 'municipality' },
-  { id: 'delvine', name: 'Delvinë', nameAlbanian: 'Delvinë', country: 'AL', type: 'municipality' },
-  { id: 'malesi_e_madhe', name: 'Malësi e Madhe', nameAlbanian: 'Malësi e Madhe', country: 'AL', type: 'municipality' },
-  { id: 'has', name: 'Has', nameAlbanian: 'Has', country: 'AL', type: 'municipality' },
-  { id: 'tropoje', name: 'Tropojë', nameAlbanian: 'Tropojë', country: 'AL', type: 'municipality' }
+  { id: 'peshkopi', name: 'Peshkopi', nameAlbanian: 'Peshkopi', country: 'AL', type: 'municipality', coordinates: { lat: 41.685, lng: 20.4289 } },
+  { id: 'kruje', name: 'Krujë', nameAlbanian: 'Krujë', country: 'AL', type: 'municipality', coordinates: { lat: 41.5092, lng: 19.7928 } },
+  { id: 'lezhe', name: 'Lezhë', nameAlbanian: 'Lezhë', country: 'AL', type: 'municipality', coordinates: { lat: 41.7836, lng: 19.6436 } },
+  { id: 'tepelene', name: 'Tepelenë', nameAlbanian: 'Tepelenë', country: 'AL', type: 'municipality', coordinates: { lat: 40.2958, lng: 20.0192 } },
+  { id: 'permet', name: 'Përmet', nameAlbanian: 'Përmet', country: 'AL', type: 'municipality', coordinates: { lat: 40.2336, lng: 20.3517 } },
+  { id: 'delvine', name: 'Delvinë', nameAlbanian: 'Delvinë', country: 'AL', type: 'municipality', coordinates: { lat: 39.9494, lng: 20.0978 } },
+  { id: 'malesi_e_madhe', name: 'Malësi e Madhe', nameAlbanian: 'Malësi e Madhe', country: 'AL', type: 'municipality', coordinates: { lat: 42.2136, lng: 19.4364 } },
+  { id: 'has', name: 'Has', nameAlbanian: 'Has', country: 'AL', type: 'municipality', coordinates: { lat: 42.1969, lng: 20.4147 } },
+  { id: 'tropoje', name: 'Tropojë', nameAlbanian: 'Tropojë', country: 'AL', type: 'municipality', coordinates: { lat: 42.3573, lng: 20.0767 } }
 ]
 
 // Kosovo cities and regions
 export const KOSOVO_REGIONS: Region[] = [
   // Major Cities
-  { id: 'pristina', name: 'Pristina', nameAlbanian: 'Prishtinë', country: 'XK', type: 'capital', population: 198897 },
-  { id: 'prizren', name: 'Prizren', nameAlbanian: 'Prizren', country: 'XK', type: 'city', population: 177781 },
-  { id: 'peja', name: 'Peja', nameAlbanian: 'Pejë', country: 'XK', type: 'city', population: 96450 },
-  { id: 'gjakova', name: 'Gjakova', nameAlbanian: 'Gjakovë', country: 'XK', type: 'city', population: 94556 },
-  { id: 'gjilan', name: 'Gjilan', nameAlbanian: 'Gjilan', country: 'XK', type: 'city', population: 90015 },
-  { id: 'mitrovica', name: 'Mitrovica', nameAlbanian: 'Mitrovicë', country: 'XK', type: 'city', population: 84235 },
-  { id: 'ferizaj', name: 'Ferizaj', nameAlbanian: 'Ferizaj', country: 'XK', type: 'city', population: 76723 },
+  { id: 'pristina', name: 'Pristina', nameAlbanian: 'Prishtinë', country: 'XK', type: 'capital', population: 198897, coordinates: { lat: 42.6629, lng: 21.1655 } },
+  { id: 'prizren', name: 'Prizren', nameAlbanian: 'Prizren', country: 'XK', type: 'city', population: 177781, coordinates: { lat: 42.2139, lng: 20.7397 } },
+  { id: 'peja', name: 'Peja', nameAlbanian: 'Pejë', country: 'XK', type: 'city', population: 96450, coordinates: { lat: 42.6593, lng: 20.2887 } },
+  { id: 'gjakova', name: 'Gjakova', nameAlbanian: 'Gjakovë', country: 'XK', type: 'city', population: 94556, coordinates: { lat: 42.3803, lng: 20.4308 } },
+  { id: 'gjilan', name: 'Gjilan', nameAlbanian: 'Gjilan', country: 'XK', type: 'city', population: 90015, coordinates: { lat: 42.4635, lng: 21.4694 } },
+  { id: 'mitrovica', name: 'Mitrovica', nameAlbanian: 'Mitrovicë', country: 'XK', type: 'city', population: 84235, coordinates: { lat: 42.8914, lng: 20.866 } },
+  { id: 'ferizaj', name: 'Ferizaj', nameAlbanian: 'Ferizaj', country: 'XK', type: 'city', population: 76723, coordinates: { lat: 42.3702, lng: 21.1553 } },
 
   // Other municipalities
-  { id: 'vushtrri', name: 'Vushtrri', nameAlbanian: 'Vushtrri', country: 'XK', type: 'municipality' },
-  { id: 'suhareka', name: 'Suharekë', nameAlbanian: 'Suharekë', country: 'XK', type: 'municipality' },
-  { id: 'rahovec', name: 'Rahovec', nameAlbanian: 'Rahovec', country: 'XK', type: 'municipality' },
-  { id: 'malisheva', name: 'Malishevë', nameAlbanian: 'Malishevë', country: 'XK', type: 'municipality' },
-  { id: 'kamenica', name: 'Kamenicë', nameAlbanian: 'Kamenicë', country: 'XK', type: 'municipality' },
-  { id: 'viti', name: 'Viti', nameAlbanian: 'Viti', country: 'XK', type: 'municipality' },
-  { id: 'istog', name: 'Istog', nameAlbanian: 'Istog', country: 'XK', type: 'municipality' },
-  { id: 'kline', name: 'Klinë', nameAlbanian: 'Klinë', country: 'XK', type: 'municipality' },
-  { id: 'decan', name: 'Deçan', nameAlbanian: 'Deçan', country: 'XK', type: 'municipality' }
+  { id: 'vushtrri', name: 'Vushtrri', nameAlbanian: 'Vushtrri', country: 'XK', type: 'municipality', coordinates: { lat: 42.8231, lng: 20.9675 } },
+  { id: 'suhareka', name: 'Suharekë', nameAlbanian: 'Suharekë', country: 'XK', type: 'municipality', coordinates: { lat: 42.3586, lng: 20.825 } },
+  { id: 'rahovec', name: 'Rahovec', nameAlbanian: 'Rahovec', country: 'XK', type: 'municipality', coordinates: { lat: 42.3992, lng: 20.6547 } },
+  { id: 'malisheva', name: 'Malishevë', nameAlbanian: 'Malishevë', country: 'XK', type: 'municipality', coordinates: { lat: 42.4822, lng: 20.7458 } },
+  { id: 'kamenica', name: 'Kamenicë', nameAlbanian: 'Kamenicë', country: 'XK', type: 'municipality', coordinates: { lat: 42.5781, lng: 21.5803 } },
+  { id: 'viti', name: 'Viti', nameAlbanian: 'Viti', country: 'XK', type: 'municipality', coordinates: { lat: 42.3214, lng: 21.3583 } },
+  { id: 'istog', name: 'Istog', nameAlbanian: 'Istog', country: 'XK', type: 'municipality', coordinates: { lat: 42.7808, lng: 20.4875 } },
+  { id: 'kline', name: 'Klinë', nameAlbanian: 'Klinë', country: 'XK', type: 'municipality', coordinates: { lat: 42.6217, lng: 20.5778 } },
+  { id: 'decan', name: 'Deçan', nameAlbanian: 'Deçan', country: 'XK', type: 'municipality', coordinates: { lat: 42.5403, lng: 20.2875 } }
 ]
 
 // North Macedonia cities (Albanian-majority areas)
 export const MACEDONIA_REGIONS: Region[] = [
   // Major Cities
-  { id: 'skopje', name: 'Skopje', nameAlbanian: 'Shkup', country: 'MK', type: 'capital', population: 544086 },
-  { id: 'tetovo', name: 'Tetovo', nameAlbanian: 'Tetovë', country: 'MK', type: 'city', population: 86580 },
-  { id: 'gostivar', name: 'Gostivar', nameAlbanian: 'Gostivar', country: 'MK', type: 'city', population: 81042 },
-  { id: 'strumica', name: 'Strumica', nameAlbanian: 'Strumicë', country: 'MK', type: 'city', population: 54676 },
-  { id: 'kumanovo', name: 'Kumanovo', nameAlbanian: 'Kumanovë', country: 'MK', type: 'city', population: 105484 },
+  { id: 'skopje', name: 'Skopje', nameAlbanian: 'Shkup', country: 'MK', type: 'capital', population: 544086, coordinates: { lat: 41.9981, lng: 21.4254 } },
+  { id: 'tetovo', name: 'Tetovo', nameAlbanian: 'Tetovë', country: 'MK', type: 'city', population: 86580, coordinates: { lat: 42.0069, lng: 20.9715 } },
+  { id: 'gostivar', name: 'Gostivar', nameAlbanian: 'Gostivar', country: 'MK', type: 'city', population: 81042, coordinates: { lat: 41.7972, lng: 20.9083 } },
+  { id: 'strumica', name: 'Strumica', nameAlbanian: 'Strumicë', country: 'MK', type: 'city', population: 54676, coordinates: { lat: 41.4378, lng: 22.6427 } },
+  { id: 'kumanovo', name: 'Kumanovo', nameAlbanian: 'Kumanovë', country: 'MK', type: 'city', population: 105484, coordinates: { lat: 42.1322, lng: 21.7144 } },
 
   // Albanian-majority municipalities
-  { id: 'debar', name: 'Debar', nameAlbanian: 'Dibër', country: 'MK', type: 'municipality' },
-  { id: 'struga', name: 'Struga', nameAlbanian: 'Strugë', country: 'MK', type: 'municipality' },
-  { id: 'kicevo', name: 'Kičevo', nameAlbanian: 'Kërçovë', country: 'MK', type: 'municipality' },
-  { id: 'plasnica', name: 'Plasnica', nameAlbanian: 'Plasnicë', country: 'MK', type: 'municipality' },
-  { id: 'vrapciste', name: 'Vrapčište', nameAlbanian: 'Vrapçisht', country: 'MK', type: 'municipality' },
-  { id: 'bogovinje', name: 'Bogovinje', nameAlbanian: 'Bogovinë', country: 'MK', type: 'municipality' },
-  { id: 'brvenica', name: 'Brvenica', nameAlbanian: 'Bërvenicë', country: 'MK', type: 'municipality' },
-  { id: 'tearce', name: 'Tearce', nameAlbanian: 'Tearcë', country: 'MK', type: 'municipality' },
-  { id: 'jegunovce', name: 'Jegunovce', nameAlbanian: 'Jegunovcë', country: 'MK', type: 'municipality' },
-  { id: 'zelino', name: 'Želino', nameAlbanian: 'Zhelinë', country: 'MK', type: 'municipality' }
+  { id: 'debar', name: 'Debar', nameAlbanian: 'Dibër', country: 'MK', type: 'municipality', coordinates: { lat: 41.525, lng: 20.5272 } },
+  { id: 'struga', name: 'Struga', nameAlbanian: 'Strugë', country: 'MK', type: 'municipality', coordinates: { lat: 41.1778, lng: 20.6783 } },
+  { id: 'kicevo', name: 'Kičevo', nameAlbanian: 'Kërçovë', country: 'MK', type: 'municipality', coordinates: { lat: 41.5142, lng: 20.9631 } },
+  { id: 'plasnica', name: 'Plasnica', nameAlbanian: 'Plasnicë', country: 'MK', type: 'municipality', coordinates: { lat: 41.4672, lng: 21.1231 } },
+  { id: 'vrapciste', name: 'Vrapčište', nameAlbanian: 'Vrapçisht', country: 'MK', type: 'municipality', coordinates: { lat: 41.8344, lng: 20.8853 } },
+  { id: 'bogovinje', name: 'Bogovinje', nameAlbanian: 'Bogovinë', country: 'MK', type: 'municipality', coordinates: { lat: 41.9233, lng: 20.9133 } },
+  { id: 'brvenica', name: 'Brvenica', nameAlbanian: 'Bërvenicë', country: 'MK', type: 'municipality', coordinates: { lat: 41.9672, lng: 20.9808 } },
+  { id: 'tearce', name: 'Tearce', nameAlbanian: 'Tearcë', country: 'MK', type: 'municipality', coordinates: { lat: 42.0775, lng: 21.0519 } },
+  { id: 'jegunovce', name: 'Jegunovce', nameAlbanian: 'Jegunovcë', country: 'MK', type: 'municipality', coordinates: { lat: 42.0742, lng: 21.1236 } },
+  { id: 'zelino', name: 'Želino', nameAlbanian: 'Zhelinë', country: 'MK', type: 'municipality', coordinates: { lat: 41.9806, lng: 21.0642 } }
 ]
 
 // Combined regions for easy access
 export const ALL_REGIONS = [...ALBANIA_REGIONS, ...KOSOVO_REGIONS, ...MACEDONIA_REGIONS]
 
+export interface RegionDistance {
+  region: Region
+  distanceKm: number
+}
+
+const EARTH_RADIUS_KM = 6371
+
+// Lower-case without diacritics so "Durres" finds "Durrës"
+function foldName(name: string): string {
+  return name.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().trim()
+}
+
 class RegionalService {
   private static instance: RegionalService
 
@@ -181,6 +193,44 @@ class RegionalService {
     return ALL_REGIONS.find(region => region.id === id)
   }
 
+  /**
+   * Find a region by ID or by English/Albanian name, ignoring case and diacritics
+   */
+  findRegionByName(name: string): Region | undefined {
+    const folded = foldName(name)
+    return ALL_REGIONS.find(region =>
+      region.id === folded ||
+      foldName(region.name) === folded ||
+      foldName(region.nameAlbanian) === folded
+    )
+  }
+
+  /**
+   * Great-circle (haversine) distance between two regions in km.
+   * Straight-line, so real driving distance is typically 20-40% longer.
+   */
+  getDistanceKm(from: Region, to: Region): number | null {
+    if (!from.coordinates || !to.coordinates) return null
+
+    const toRadians = (degrees: number) => degrees * Math.PI / 180
+    const dLat = toRadians(to.coordinates.lat - from.coordinates.lat)
+    const dLng = toRadians(to.coordinates.lng - from.coordinates.lng)
+    const a = Math.sin(dLat / 2) ** 2 +
+      Math.cos(toRadians(from.coordinates.lat)) * Math.cos(toRadians(to.coordinates.lat)) * Math.sin(dLng / 2) ** 2
+
+    return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a))
+  }
+
+  /**
+   * Regions in any country within radiusKm of the given region, nearest first
+   */
+  getRegionsWithinRadius(center: Region, radiusKm: number): RegionDistance[] {
+    return ALL_REGIONS
+      .map(region => ({ region, distanceKm: this.getDistanceKm(center, region) }))
+      .filter((entry): entry is RegionDistance => entry.distanceKm !== null && entry.distanceKm <= radiusKm)
+      .sort((a, b) => a.distanceKm - b.distanceKm)
+  }
+
   /**
    * Format phone number for specific country
    */
@@ -357,6 +407,9 @@ export function useRegional() {
     getRegionsByCountry: regionalService.getRegionsByCountry.bind(regionalService),
     getAllRegions: regionalService.getAllRegions.bind(regionalService),
     getRegion: regionalService.getRegion.bind(regionalService),
+    findRegionByName: regionalService.findRegionByName.bind(regionalService),
+    getDistanceKm: regionalService.getDistanceKm.bind(regionalService),
+    getRegionsWithinRadius: regionalService.getRegionsWithinRadius.bind(regionalService),
     formatPhoneNumber: regionalService.formatPhoneNumber.bind(regionalService),
     validatePhoneNumber: regionalService.validatePhoneNumber.bind(regionalService),
     getLocalCurrency: regionalService.getLocalCurrency.bind(regionalService),
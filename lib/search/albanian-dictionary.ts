@@ -0,0 +1,154 @@
+// Albanian/English vehicle vocabulary shared by search, sharing and messaging
+//
+// Each entry has the canonical value stored on Listing, its Albanian label and
+// every spelling buyers actually type. Lookups are diacritic-insensitive, so
+// "benzine", "benzinë" and "petrol" all resolve to the same entry.
+
+import { Region, regionalService } from '../regional'
+
+export interface VocabularyEntry {
+  canonical: string // Value stored on Listing (English)
+  label: string     // Albanian display label
+  synonyms: string[]
+}
+
+export const FUEL_TYPES: VocabularyEntry[] = [
+  { canonical: 'Petrol', label: 'Benzinë', synonyms: ['petrol', 'gasoline', 'benzinë', 'benzina', 'benzin', 'gas'] },
+  { canonical: 'Diesel', label: 'Naftë', synonyms: ['diesel', 'naftë', 'nafta', 'dizel', 'tdi', 'cdi', 'hdi'] },
+  { canonical: 'Electric', label: 'Elektrike', synonyms: ['electric', 'elektrike', 'elektrik', 'ev'] },
+  { canonical: 'Hybrid', label: 'Hibride', synonyms: ['hybrid', 'hibride', 'hibrid'] },
+  { canonical: 'LPG', label: 'Gaz (LPG)', synonyms: ['lpg', 'gaz', 'autogas', 'gpl'] },
+  { canonical: 'CNG', label: 'Gaz Natyror', synonyms: ['cng', 'natural_gas', 'natural gas', 'metan', 'gaz natyror'] },
+]
+
+export const TRANSMISSIONS: VocabularyEntry[] = [
+  { canonical: 'Manual', label: 'Manual', synonyms: ['manual', 'manuale', 'me marsha', 'stick'] },
+  { canonical: 'Automatic', label: 'Automatik', synonyms: ['automatic', 'automatik', 'automatike'] },
+  { canonical: 'Semi-automatic', label: 'Gjysmë-automatik', synonyms: ['semi_automatic', 'semi-automatic', 'gjysmë-automatik', 'gjysmautomatik', 'dsg'] },
+  { canonical: 'CVT', label: 'CVT', synonyms: ['cvt', 'variator'] },
+]
+
+export const BODY_TYPES: VocabularyEntry[] = [
+  { canonical: 'Sedan', label: 'Sedan', synonyms: ['sedan', 'sedanë', 'limuzinë', 'limuzina', 'berlinë'] },
+  { canonical: 'Hatchback', label: 'Hatchback', synonyms: ['hatchback', 'hecbek', 'kompakte'] },
+  { canonical: 'SUV', label: 'SUV', synonyms: ['suv', 'xhip', 'fuoristradë', 'jeep', '4x4'] },
+  { canonical: 'Wagon', label: 'Karavan', synonyms: ['wagon', 'estate', 'karavan', 'kombi', 'touring', 'avant'] },
+  { canonical: 'Coupe', label: 'Kupé', synonyms: ['coupe', 'kupé', 'kupe'] },
+  { canonical: 'Convertible', label: 'Kabriolet', synonyms: ['convertible', 'cabrio', 'kabriolet', 'kabrio'] },
+  { canonical: 'Van', label: 'Furgon', synonyms: ['van', 'furgon', 'minivan', 'monovolum'] },
+  { canonical: 'Pickup', label: 'Pikap', synonyms: ['pickup', 'pick-up', 'pikap'] },
+]
+
+export const COLORS: VocabularyEntry[] = [
+  { canonical: 'Black', label: 'E zezë', synonyms: ['black', 'zezë', 'e zezë', 'zi', 'i zi'] },
+  { canonical: 'White', label: 'E bardhë', synonyms: ['white', 'bardhë', 'e bardhë', 'i bardhë'] },
+  { canonical: 'Silver', label: 'Argjendi', synonyms: ['silver', 'argjendi', 'argjendtë', 'metalik'] },
+  { canonical: 'Grey', label: 'Gri', synonyms: ['grey', 'gray', 'gri', 'hiri'] },
+  { canonical: 'Blue', label: 'Blu', synonyms: ['blue', 'blu', 'kaltër', 'e kaltër'] },
+  { canonical: 'Red', label: 'E kuqe', synonyms: ['red', 'kuqe', 'e kuqe', 'i kuq'] },
+  { canonical: 'Green', label: 'Jeshile', synonyms: ['green', 'jeshile', 'gjelbër', 'e gjelbër'] },
+  { canonical: 'Brown', label: 'Kafe', synonyms: ['brown', 'kafe', 'kafe e errët'] },
+  { canonical: 'Beige', label: 'Bezhë', synonyms: ['beige', 'bezhë', 'bezh'] },
+  { canonical: 'Yellow', label: 'E verdhë', synonyms: ['yellow', 'verdhë', 'e verdhë'] },
+  { canonical: 'Orange', label: 'Portokalli', synonyms: ['orange', 'portokalli'] },
+]
+
+export const VEHICLE_VOCABULARY: VocabularyEntry[] = [...FUEL_TYPES, ...TRANSMISSIONS, ...BODY_TYPES, ...COLORS]
+
+/**
+ * Lower-case and strip diacritics: "Tiranë" -> "tirane", "Korçë" -> "korce".
+ */
+export function foldAlbanian(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .trim()
+}
+
+function findEntry(entries: VocabularyEntry[], value: string): VocabularyEntry | undefined {
+  const folded = foldAlbanian(value)
+  return entries.find(entry =>
+    foldAlbanian(entry.canonical) === folded ||
+    foldAlbanian(entry.label) === folded ||
+    entry.synonyms.some(synonym => foldAlbanian(synonym) === folded)
+  )
+}
+
+/**
+ * Resolve a user-supplied value to the canonical Listing value, keeping the
+ * input unchanged when it is not in the vocabulary.
+ */
+export function canonicalFuelType(value: string): string {
+  return findEntry(FUEL_TYPES, value)?.canonical ?? value
+}
+
+export function canonicalTransmission(value: string): string {
+  return findEntry(TRANSMISSIONS, value)?.canonical ?? value
+}
+
+export function canonicalBodyType(value: string): string {
+  return findEntry(BODY_TYPES, value)?.canonical ?? value
+}
+
+export function translateFuelType(value: string): string {
+  return findEntry(FUEL_TYPES, value)?.label ?? value
+}
+
+export function translateTransmission(value: string): string {
+  return findEntry(TRANSMISSIONS, value)?.label ?? value
+}
+
+export function translateBodyType(value: string): string {
+  return findEntry(BODY_TYPES, value)?.label ?? value
+}
+
+export function translateColor(value: string): string {
+  return findEntry(COLORS, value)?.label ?? value
+}
+
+/**
+ * All folded spellings a search token may stand for. Single-word synonyms only,
+ * since tokens are matched one at a time.
+ */
+export function expandSearchToken(token: string): string[] {
+  const folded = foldAlbanian(token)
+  const entry = findEntry(VEHICLE_VOCABULARY, folded)
+  if (!entry) return [folded]
+
+  const variants = [entry.canonical, entry.label, ...entry.synonyms]
+    .map(foldAlbanian)
+    .filter(variant => !/\s/.test(variant))
+
+  return Array.from(new Set([folded, ...variants]))
+}
+
+/**
+ * Original (unfolded) spellings for a search token, for matchers that cannot
+ * fold diacritics themselves such as ILIKE.
+ */
+export function synonymSpellings(token: string): string[] {
+  const entry = findEntry(VEHICLE_VOCABULARY, token)
+  if (!entry) return [token]
+
+  return Array.from(new Set([token, entry.canonical, entry.label, ...entry.synonyms]))
+}
+
+/**
+ * Every spelling of a city known to lib/regional ("Tirane" -> Tirana, Tiranë).
+ * Unknown cities are returned as typed.
+ */
+export function cityNameVariants(city: string): string[] {
+  const region = regionalService.findRegionByName(city)
+  if (!region) return [city]
+
+  return Array.from(new Set([city, ...regionNameVariants(region)]))
+}
+
+/**
+ * The English, Albanian and diacritic-free spellings of a region name.
+ */
+export function regionNameVariants(region: Region): string[] {
+  const { name, nameAlbanian } = region
+  return Array.from(new Set([name, nameAlbanian, foldAlbanian(name), foldAlbanian(nameAlbanian)]))
+}
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest'
+import { mergeFacetValues } from './facets'
+
+describe('mergeFacetValues', () => {
+  it('counts spellings that differ only in case as one make', () => {
+    expect(mergeFacetValues('make', [
+      { value: 'BMW', count: 10 },
+      { value: 'Audi', count: 8 },
+      { value: 'bmw', count: 2 },
+      { value: 'Bmw', count: 1 },
+    ])).toEqual([
+      { value: 'BMW', count: 13 },
+      { value: 'Audi', count: 8 },
+    ])
+  })
+
+  it('names the merged value after its most common spelling', () => {
+    expect(mergeFacetValues('fuelType', [
+      { value: 'diesel', count: 1 },
+      { value: 'Diesel', count: 5 },
+    ])).toEqual([{ value: 'Diesel', count: 6 }])
+  })
+
+  it('counts every spelling of a city as one city', () => {
+    expect(mergeFacetValues('city', [
+      { value: 'Tirana', count: 4 },
+      { value: 'Tiranë', count: 7 },
+      { value: 'tirane', count: 1 },
+      { value: 'Durrës', count: 3 },
+      { value: 'Fushë-Krujë', count: 1 },
+    ])).toEqual([
+      { value: 'Tiranë', count: 12 },
+      { value: 'Durrës', count: 3 },
+      { value: 'Fushë-Krujë', count: 1 },
+    ])
+  })
+
+  it('keeps the most common values', () => {
+    const groups = Array.from({ length: 40 }, (_, i) => ({ value: `Make ${i}`, count: i + 1 }))
+    const merged = mergeFacetValues('make', groups)
+
+    expect(merged).toHaveLength(30)
+    expect(merged[0]).toEqual({ value: 'Make 39', count: 40 })
+  })
+})
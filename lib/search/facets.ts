@@ -0,0 +1,209 @@
+// Faceted counts for the listing filter sidebar
+//
+// Each facet is counted under every applied filter except its own, so picking
+// "BMW" still shows how many Audis match the rest of the query. Filters are
+// parsed and translated by listing-search so counts never disagree with results:
+// spellings the filter treats as one value ("BMW" and "bmw", "Tirana" and
+// "Tiranë") are counted as one.
+
+import { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { ListingSearchFilters, buildListingWhere, resolveTextMatch } from './listing-search'
+import { regionalService } from '../regional'
+
+export interface FacetValue {
+  value: string
+  count: number
+}
+
+export interface FacetBucket {
+  label: string
+  min?: number
+  max?: number
+  count: number
+}
+
+export interface ListingFacets {
+  make: FacetValue[]
+  model: FacetValue[]
+  fuelType: FacetValue[]
+  transmission: FacetValue[]
+  bodyType: FacetValue[]
+  city: FacetValue[]
+  region: FacetValue[]
+  features: FacetValue[]
+  year: FacetBucket[]
+  price: FacetBucket[]
+  total: number
+}
+
+// Year buckets are inclusive on both ends
+export const YEAR_BUCKETS: Omit<FacetBucket, 'count'>[] = [
+  { label: 'Para 2005', max: 2004 },
+  { label: '2005 - 2009', min: 2005, max: 2009 },
+  { label: '2010 - 2014', min: 2010, max: 2014 },
+  { label: '2015 - 2019', min: 2015, max: 2019 },
+  { label: '2020+', min: 2020 },
+]
+
+// Price buckets in EUR, matching the minPrice/maxPrice query parameters.
+// Upper bounds stop a cent short so boundary prices fall in exactly one bucket.
+export const PRICE_BUCKETS: Omit<FacetBucket, 'count'>[] = [
+  { label: 'Deri në €5,000', max: 4999.99 },
+  { label: '€5,000 - €10,000', min: 5000, max: 9999.99 },
+  { label: '€10,000 - €20,000', min: 10000, max: 19999.99 },
+  { label: '€20,000 - €35,000', min: 20000, max: 34999.99 },
+  { label: '€35,000 - €50,000', min: 35000, max: 49999.99 },
+  { label: 'Mbi €50,000', min: 50000 },
+]
+
+const MAX_FACET_VALUES = 30
+
+type GroupableField = 'make' | 'model' | 'fuelType' | 'transmission' | 'bodyType' | 'city' | 'region'
+
+function without(filters: ListingSearchFilters, ...keys: (keyof ListingSearchFilters)[]): ListingSearchFilters {
+  const copy = { ...filters }
+  for (const key of keys) {
+    if (key !== 'status') delete copy[key]
+  }
+  return copy
+}
+
+// Exact fields match case-insensitively; cities match every spelling of the
+// region they name
+function facetKey(field: GroupableField, value: string): string {
+  const region = field === 'city' ? regionalService.findRegionByName(value) : undefined
+  return region ? `region:${region.id}` : value.toLowerCase()
+}
+
+/**
+ * Merge raw group counts of spellings the search filter treats as the same
+ * value. The most common spelling names the merged value.
+ */
+export function mergeFacetValues(field: GroupableField, groups: FacetValue[]): FacetValue[] {
+  const merged = new Map<string, { value: string; top: number; count: number }>()
+
+  for (const group of groups) {
+    const key = facetKey(field, group.value)
+    const entry = merged.get(key)
+    if (!entry) {
+      merged.set(key, { value: group.value, top: group.count, count: group.count })
+      continue
+    }
+    entry.count += group.count
+    if (group.count > entry.top) {
+      entry.value = group.value
+      entry.top = group.count
+    }
+  }
+
+  return Array.from(merged.values())
+    .map(({ value, count }) => ({ value, count }))
+    .sort((a, b) => b.count - a.count)
+    .slice(0, MAX_FACET_VALUES)
+}
+
+// All groups are fetched so spellings can be merged before the top values are picked
+async function countBy(field: GroupableField, where: Prisma.ListingWhereInput): Promise<FacetValue[]> {
+  const groups = await prisma.listing.groupBy({
+    by: [field],
+    where,
+    _count: { _all: true },
+  })
+
+  return mergeFacetValues(field, groups
+    .filter(group => group[field])
+    .map(group => ({ value: group[field] as string, count: group._count._all })))
+}
+
+// The city filter matches by substring, so each city is counted with the
+// filter itself rather than trusted to the merged groups
+async function countCities(
+  filters: ListingSearchFilters,
+  textWhere?: Prisma.ListingWhereInput
+): Promise<FacetValue[]> {
+  const cities = await countBy('city', buildListingWhere(filters, textWhere))
+
+  const counted = await Promise.all(
+    cities.map(async ({ value }) => ({
+      value,
+      count: await prisma.listing.count({ where: buildListingWhere({ ...filters, city: value }, textWhere) }),
+    }))
+  )
+
+  return counted.sort((a, b) => b.count - a.count)
+}
+
+// Features combine with AND, so their counts keep every applied filter
+// including already-selected features: "how many remain if I also tick this"
+async function countFeatures(where: Prisma.ListingWhereInput): Promise<FacetValue[]> {
+  const groups = await prisma.listingFeature.groupBy({
+    by: ['featureId'],
+    where: { listing: where },
+    _count: { _all: true },
+  })
+
+  return groups
+    .map(group => ({ value: group.featureId, count: group._count._all }))
+    .sort((a, b) => b.count - a.count)
+}
+
+async function countYearBuckets(where: Prisma.ListingWhereInput): Promise<FacetBucket[]> {
+  const groups = await prisma.listing.groupBy({
+    by: ['year'],
+    where,
+    _count: { _all: true },
+  })
+
+  return YEAR_BUCKETS.map(bucket => ({
+    ...bucket,
+    count: groups
+      .filter(group =>
+        (bucket.min === undefined || group.year >= bucket.min) &&
+        (bucket.max === undefined || group.year <= bucket.max)
+      )
+      .reduce((sum, group) => sum + group._count._all, 0),
+  }))
+}
+
+async function countPriceBuckets(
+  filters: ListingSearchFilters,
+  textWhere?: Prisma.ListingWhereInput
+): Promise<FacetBucket[]> {
+  return Promise.all(
+    PRICE_BUCKETS.map(async bucket => ({
+      ...bucket,
+      count: await prisma.listing.count({
+        where: buildListingWhere({ ...filters, minPrice: bucket.min, maxPrice: bucket.max }, textWhere),
+      }),
+    }))
+  )
+}
+
+/**
+ * Compute facet counts for the given filters. Models are only counted once a
+ * make is chosen, since a flat model list across all makes is not useful.
+ */
+export async function getListingFacets(filters: ListingSearchFilters): Promise<ListingFacets> {
+  const text = await resolveTextMatch(filters)
+  const whereWithout = (...keys: (keyof ListingSearchFilters)[]) =>
+    buildListingWhere(without(filters, ...keys), text?.where)
+
+  const where = buildListingWhere(filters, text?.where)
+
+  const [make, model, fuelType, transmission, bodyType, city, region, features, year, price, total] = await Promise.all([
+    countBy('make', whereWithout('make', 'model')),
+    filters.make ? countBy('model', whereWithout('model')) : Promise.resolve([]),
+    countBy('fuelType', whereWithout('fuelType')),
+    countBy('transmission', whereWithout('transmission')),
+    countBy('bodyType', whereWithout('bodyType')),
+    countCities(without(filters, 'city'), text?.where),
+    countBy('region', whereWithout('region')),
+    countFeatures(where),
+    countYearBuckets(whereWithout('minYear', 'maxYear')),
+    countPriceBuckets(without(filters, 'minPrice', 'maxPrice'), text?.where),
+    prisma.listing.count({ where }),
+  ])
+
+  return { make, model, fuelType, transmission, bodyType, city, region, features, year, price, total }
+}
@@ -0,0 +1,135 @@
+// Albanian-aware free-text matching for listing search
+//
+// Queries are tokenised, diacritic-folded and expanded through the shared
+// vehicle dictionary, then matched with Postgres full-text search using the
+// `albanian` configuration from prisma/search-setup.sql. When that setup is
+// missing the matcher degrades to substring matching on diacritic-folded text
+// and tries full-text search again after FULL_TEXT_RETRY_MINUTES.
+
+import { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { expandSearchToken, foldAlbanian, synonymSpellings } from './albanian-dictionary'
+
+export interface TextMatch {
+  where: Prisma.ListingWhereInput
+  ranks: Map<string, number> | null // null when ranking is unavailable (fallback)
+  truncated: boolean // More than MAX_TEXT_MATCHES listings matched; only the first are kept
+}
+
+export const MAX_TEXT_MATCHES = 1000
+export const FULL_TEXT_RETRY_MINUTES = 10
+const MAX_QUERY_TOKENS = 8
+
+// Postgres errors raised when prisma/search-setup.sql has not been applied:
+// undefined_function, undefined_object (text search configuration), undefined_column
+const MISSING_SETUP_ERRORS = ['42883', '42704', '42703']
+
+// The fallback folds stored text in SQL the way foldAlbanian folds the query,
+// since it cannot rely on the unaccent extension
+const ACCENTED = 'ëçéèêáàâäöôóòüúùûíìîï'
+const UNACCENTED = 'eceeeaaaaoooouuuuiiii'
+
+let fullTextUnavailableUntil = 0
+
+/**
+ * Split a query into folded tokens: "BMW X5 benzinë" -> ["bmw", "x5", "benzine"].
+ */
+export function tokenizeSearch(search: string): string[] {
+  return foldAlbanian(search)
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean)
+    .slice(0, MAX_QUERY_TOKENS)
+}
+
+/**
+ * Build a tsquery where every token must match and each token may match any of
+ * its synonyms as a prefix: "benzine tirane" -> "(benzine:* | petrol:* | ...) & (tirane:*)".
+ */
+export function buildTsQuery(search: string): string | null {
+  const clauses = tokenizeSearch(search).map(token => {
+    const variants = expandSearchToken(token).filter(variant => /^[a-z0-9]+$/.test(variant))
+    return `(${variants.map(variant => `${variant}:*`).join(' | ')})`
+  })
+
+  return clauses.length > 0 ? clauses.join(' & ') : null
+}
+
+function containsPattern(text: string): string {
+  return `%${text.replace(/[\\%_]/g, '\\$&')}%`
+}
+
+/**
+ * Substring fallback: every token must appear in title, description, make or
+ * model in at least one of its spellings, ignoring case and diacritics, so
+ * "korce" finds "Korçë". Newest listings first.
+ */
+export function buildTextFallbackQuery(search: string, status: string): Prisma.Sql | null {
+  const clauses = tokenizeSearch(search).map(token => {
+    const spellings = Array.from(new Set(synonymSpellings(token).map(foldAlbanian)))
+    return Prisma.sql`(${Prisma.join(spellings.map(spelling => Prisma.sql`document LIKE ${containsPattern(spelling)}`), ' OR ')})`
+  })
+  if (clauses.length === 0) return null
+
+  return Prisma.sql`
+    SELECT id FROM (
+      SELECT id, "createdAt", translate(
+        lower(coalesce(title, '') || ' ' || coalesce(make, '') || ' ' || coalesce(model, '') || ' ' || coalesce(description, '')),
+        ${ACCENTED}, ${UNACCENTED}
+      ) AS document
+      FROM marketplace_listings
+      WHERE status = ${status}
+    ) listing
+    WHERE ${Prisma.join(clauses, ' AND ')}
+    ORDER BY "createdAt" DESC
+    LIMIT ${MAX_TEXT_MATCHES + 1}
+  `
+}
+
+function isMissingSearchSetup(error: unknown): boolean {
+  if (!(error instanceof Prisma.PrismaClientKnownRequestError)) return false
+  const code = (error.meta as { code?: string } | undefined)?.code
+  return !!code && MISSING_SETUP_ERRORS.includes(code)
+}
+
+// One row past the cap is fetched to tell a full result from a cut-off one
+function capMatches<T extends { id: string }>(rows: T[]): { rows: T[]; truncated: boolean } {
+  return { rows: rows.slice(0, MAX_TEXT_MATCHES), truncated: rows.length > MAX_TEXT_MATCHES }
+}
+
+/**
+ * Resolve a free-text query to the matching listing IDs with their relevance
+ * rank. Only listings in `status` are considered, and at most MAX_TEXT_MATCHES
+ * of them: the best ranked, or the newest in the fallback.
+ */
+export async function matchListingText(search: string, status: string): Promise<TextMatch> {
+  const tsQuery = buildTsQuery(search)
+  if (!tsQuery) return { where: {}, ranks: null, truncated: false }
+
+  if (Date.now() >= fullTextUnavailableUntil) {
+    try {
+      const { rows, truncated } = capMatches(await prisma.$queryRaw<{ id: string; rank: number }[]>`
+        SELECT id, ts_rank_cd(marketplace_listing_document(title, make, model, description), query) AS rank
+        FROM marketplace_listings, to_tsquery('albanian', ${tsQuery}) AS query
+        WHERE status = ${status}
+          AND marketplace_listing_document(title, make, model, description) @@ query
+        ORDER BY rank DESC
+        LIMIT ${MAX_TEXT_MATCHES + 1}
+      `)
+
+      return {
+        where: { id: { in: rows.map(row => row.id) } },
+        ranks: new Map(rows.map(row => [row.id, Number(row.rank)])),
+        truncated,
+      }
+    } catch (error) {
+      // Other errors only affect this query; a missing setup is remembered for a while
+      if (isMissingSearchSetup(error)) {
+        fullTextUnavailableUntil = Date.now() + FULL_TEXT_RETRY_MINUTES * 60 * 1000
+      }
+      console.warn('Full-text search failed, falling back to substring matching:', error)
+    }
+  }
+
+  const { rows, truncated } = capMatches(await prisma.$queryRaw<{ id: string }[]>(buildTextFallbackQuery(search, status)!))
+  return { where: { id: { in: rows.map(row => row.id) } }, ranks: null, truncated }
+}
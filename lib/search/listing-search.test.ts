@@ -0,0 +1,134 @@
+import { describe, expect, it } from 'vitest'
+import { Listing } from '@prisma/client'
+import {
+  PublicListing,
+  buildListingOrderBy,
+  buildListingWhere,
+  canViewListing,
+  formatListing,
+  parseListingSearchQuery,
+} from './listing-search'
+
+function query(params: Record<string, string>) {
+  return parseListingSearchQuery(new URLSearchParams(params))
+}
+
+describe('parseListingSearchQuery', () => {
+  it('defaults to active listings, recommended order and the first page', () => {
+    expect(query({})).toMatchObject({ filters: { status: 'active' }, sort: 'recommended', page: 1, limit: 12 })
+  })
+
+  it('sorts by relevance for a text search and by distance around a city', () => {
+    expect(query({ search: 'golf' }).sort).toBe('relevance')
+    expect(query({ near: 'Durrës' }).sort).toBe('distance')
+    expect(query({ search: 'golf', sort: 'price_asc' }).sort).toBe('price_asc')
+    expect(query({ sort: 'bogus' }).sort).toBe('recommended')
+  })
+
+  it('clamps paging and ignores non-public statuses', () => {
+    expect(query({ page: '-3', limit: '500' })).toMatchObject({ page: 1, limit: 50 })
+    expect(query({ status: 'pending_review' }).filters.status).toBe('active')
+    expect(query({ status: 'sold' }).filters.status).toBe('sold')
+  })
+
+  it('reads legacy names and Albanian spellings', () => {
+    const { filters } = query({ location: 'Tiranë', fuelType: 'nafte', country: 'xk', minPrice: '5000', maxYear: 'soon' })
+
+    expect(filters).toMatchObject({ city: 'Tiranë', fuelType: 'Diesel', country: 'XK', minPrice: 5000 })
+    expect(filters.maxYear).toBeUndefined()
+  })
+})
+
+describe('buildListingWhere', () => {
+  it('matches exact fields case-insensitively and converts prices to cents', () => {
+    const where = buildListingWhere({ status: 'active', make: 'bmw', minPrice: 5000, maxPrice: 12000.5, minYear: 2015 })
+
+    expect(where).toMatchObject({
+      status: 'active',
+      make: { equals: 'bmw', mode: 'insensitive' },
+      price: { gte: 500000, lte: 1200050 },
+      year: { gte: 2015 },
+    })
+    expect(where.model).toBeUndefined()
+    expect(where.AND).toBeUndefined()
+  })
+
+  it('matches every spelling of a city', () => {
+    const where = buildListingWhere({ status: 'active', city: 'Tirane' })
+    const cities = (where.AND as { OR: { city: { contains: string } }[] }[])[0].OR.map(clause => clause.city.contains)
+
+    expect(cities).toEqual(expect.arrayContaining(['Tirane', 'Tiranë', 'Tirana']))
+  })
+
+  it('requires every selected feature', () => {
+    const where = buildListingWhere({ status: 'active', features: ['abs', 'rear_camera'] })
+
+    expect(where.AND).toEqual([
+      { features: { some: { featureId: 'abs' } } },
+      { features: { some: { featureId: 'rear_camera' } } },
+    ])
+  })
+
+  it('finds nothing around a city it cannot place', () => {
+    expect(buildListingWhere({ status: 'active', near: 'Atlantis' }).AND).toEqual([{ id: { in: [] } }])
+  })
+
+  it('applies the resolved text match for a search term', () => {
+    const textWhere = { id: { in: ['a', 'b'] } }
+
+    expect(buildListingWhere({ status: 'active', search: 'golf' }, textWhere).AND).toEqual([textWhere])
+  })
+})
+
+describe('buildListingOrderBy', () => {
+  it('keeps paid placement as the tie-break of every sort', () => {
+    expect(buildListingOrderBy('price_asc')).toEqual([{ price: 'asc' }, { priorityPlacement: 'desc' }, { featured: 'desc' }])
+    expect(buildListingOrderBy('recommended')).toEqual([
+      { priorityPlacement: 'desc' },
+      { featured: 'desc' },
+      { bumpedAt: { sort: 'desc', nulls: 'last' } },
+      { createdAt: 'desc' },
+    ])
+  })
+
+  it('orders newest purely by date', () => {
+    expect(buildListingOrderBy('newest')).toEqual([{ createdAt: 'desc' }])
+  })
+})
+
+describe('canViewListing', () => {
+  const seller = { id: 'seller', role: 'user' }
+
+  it('shows public statuses to everybody and hides deleted listings from everybody', () => {
+    expect(canViewListing({ status: 'sold', userId: 'seller' }, null)).toBe(true)
+    expect(canViewListing({ status: 'deleted', userId: 'seller' }, seller)).toBe(false)
+  })
+
+  it('shows other statuses only to the seller and admins', () => {
+    const listing = { status: 'pending_review', userId: 'seller' }
+
+    expect(canViewListing(listing, null)).toBe(false)
+    expect(canViewListing(listing, { id: 'buyer', role: 'user' })).toBe(false)
+    expect(canViewListing(listing, seller)).toBe(true)
+    expect(canViewListing(listing, { id: 'moderator', role: 'admin' })).toBe(true)
+  })
+})
+
+describe('formatListing', () => {
+  it('copies only public fields, with the price in currency units', () => {
+    const row = {
+      id: 'listing-1',
+      title: 'Golf 7',
+      price: 990000,
+      images: '/uploads/a.jpg,/uploads/b.jpg',
+      vin: 'WVWZZZAUZFW000001',
+      fraudRiskScore: 0.9,
+    } as unknown as Listing
+
+    const formatted = formatListing(row as PublicListing)
+
+    expect(formatted).toMatchObject({ id: 'listing-1', price: 9900, images: ['/uploads/a.jpg', '/uploads/b.jpg'] })
+    expect(formatted).not.toHaveProperty('vin')
+    expect(formatted).not.toHaveProperty('fraudRiskScore')
+  })
+})
@@ -0,0 +1,374 @@
+// Listing search for the Albanian automotive marketplace
+//
+// Parses query-string filters into a Prisma `where`/`orderBy` pair so every
+// endpoint that searches listings (/api/listings, /api/cars, facets, saved
+// searches) interprets the same parameters the same way.
+//
+// Relevance and distance sorts cannot be expressed as a Prisma orderBy; they
+// rank the matching IDs in memory and fetch only the requested page.
+
+import { Listing, Prisma, User } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { canonicalBodyType, canonicalFuelType, canonicalTransmission, cityNameVariants } from './albanian-dictionary'
+import { TextMatch, matchListingText } from './full-text'
+import { RadiusArea, buildRadiusWhere, listingDistanceKm, resolveRadiusArea } from './radius'
+import { parseFeatureList } from '../listings/features'
+
+export const LISTING_SORT_OPTIONS = [
+  'recommended',
+  'relevance',
+  'distance',
+  'newest',
+  'price_asc',
+  'price_desc',
+  'year_desc',
+  'year_asc',
+  'mileage_asc',
+  'mileage_desc',
+] as const
+
+export type ListingSortOption = typeof LISTING_SORT_OPTIONS[number]
+
+// Statuses a public search may ask for; drafts, pending review, withdrawn and
+// deleted listings are never exposed through search.
+export const PUBLIC_LISTING_STATUSES = ['active', 'reserved', 'pending_sale', 'sold', 'expired'] as const
+
+// Listings in other statuses are only visible to their seller and moderators
+export function canViewListing(
+  listing: Pick<Listing, 'status' | 'userId'>,
+  viewer: Pick<User, 'id' | 'role'> | null
+): boolean {
+  if (listing.status === 'deleted') return false
+  if ((PUBLIC_LISTING_STATUSES as readonly string[]).includes(listing.status)) return true
+  return !!viewer && (viewer.id === listing.userId || viewer.role === 'admin')
+}
+
+export const DEFAULT_PAGE_SIZE = 12
+export const MAX_PAGE_SIZE = 50
+
+export interface ListingSearchFilters {
+  search?: string
+  make?: string
+  model?: string
+  minPrice?: number // EUR, converted to cents when querying
+  maxPrice?: number
+  minYear?: number
+  maxYear?: number
+  minMileage?: number
+  maxMileage?: number
+  fuelType?: string
+  transmission?: string
+  bodyType?: string
+  city?: string
+  near?: string // City to measure radius and distance from
+  radiusKm?: number
+  region?: string
+  country?: string
+  features?: string[] // Catalogue keys; a listing must have all of them
+  sellerId?: string // One seller's inventory, e.g. a dealer storefront
+  status: string
+}
+
+export interface ListingSearchQuery {
+  filters: ListingSearchFilters
+  sort: ListingSortOption
+  page: number
+  limit: number
+}
+
+export interface ListingSearchResult {
+  listings: FormattedListing[]
+  pagination: {
+    page: number
+    limit: number
+    total: number
+    pages: number
+    // The search term matched more than MAX_TEXT_MATCHES listings and only
+    // those were searched, so total and the last pages are incomplete
+    truncated: boolean
+  }
+}
+
+// Listing columns safe to show to anyone. Moderation, fraud and sale data
+// (fraudRiskScore, vin, buyerId, soldPrice...) stay server-side.
+export const PUBLIC_LISTING_FIELDS = [
+  'id', 'userId', 'title', 'description', 'price', 'currency',
+  'make', 'model', 'year', 'mileage', 'fuelType', 'transmission', 'bodyType', 'color',
+  'city', 'country', 'region', 'status', 'reservedUntil', 'featured', 'homepageFeature',
+  'seoTitle', 'aiGeneratedDescription', 'images', 'bumpedAt', 'createdAt', 'updatedAt', 'expiresAt',
+] as const
+
+export type PublicListing = Pick<Listing, typeof PUBLIC_LISTING_FIELDS[number]>
+
+export const publicListingSelect = Object.fromEntries(
+  PUBLIC_LISTING_FIELDS.map(field => [field, true])
+) as Record<typeof PUBLIC_LISTING_FIELDS[number], true>
+
+export type FormattedListing = Omit<PublicListing, 'price' | 'images'> & {
+  price: number
+  images: string[]
+  distanceKm?: number // Only set for radius searches
+}
+
+function parseNumber(value: string | null): number | undefined {
+  if (value === null || value.trim() === '') return undefined
+  const parsed = Number(value)
+  return Number.isFinite(parsed) ? parsed : undefined
+}
+
+function parseText(value: string | null): string | undefined {
+  const trimmed = value?.trim()
+  return trimmed ? trimmed : undefined
+}
+
+/**
+ * Read listing filters from a query string. Accepts the legacy `location`
+ * (listings page) and `city` (/api/cars) names for the city filter, and
+ * Albanian or English spellings for fuel, transmission and body type.
+ */
+export function parseListingFilters(searchParams: URLSearchParams): ListingSearchFilters {
+  const status = parseText(searchParams.get('status'))
+  const fuelType = parseText(searchParams.get('fuelType'))
+  const transmission = parseText(searchParams.get('transmission'))
+  const bodyType = parseText(searchParams.get('bodyType'))
+
+  return {
+    search: parseText(searchParams.get('search')),
+    make: parseText(searchParams.get('make')),
+    model: parseText(searchParams.get('model')),
+    minPrice: parseNumber(searchParams.get('minPrice')),
+    maxPrice: parseNumber(searchParams.get('maxPrice')),
+    minYear: parseNumber(searchParams.get('minYear')),
+    maxYear: parseNumber(searchParams.get('maxYear')),
+    minMileage: parseNumber(searchParams.get('minMileage')),
+    maxMileage: parseNumber(searchParams.get('maxMileage')),
+    fuelType: fuelType && canonicalFuelType(fuelType),
+    transmission: transmission && canonicalTransmission(transmission),
+    bodyType: bodyType && canonicalBodyType(bodyType),
+    city: parseText(searchParams.get('city') ?? searchParams.get('location')),
+    near: parseText(searchParams.get('near')),
+    radiusKm: parseNumber(searchParams.get('radius')),
+    region: parseText(searchParams.get('region')),
+    country: parseText(searchParams.get('country'))?.toUpperCase(),
+    features: parseFeatureList(searchParams.get('features')),
+    sellerId: parseText(searchParams.get('seller')),
+    status: status && (PUBLIC_LISTING_STATUSES as readonly string[]).includes(status) ? status : 'active',
+  }
+}
+
+export function parseListingSearchQuery(searchParams: URLSearchParams): ListingSearchQuery {
+  const sortParam = searchParams.get('sort') as ListingSortOption | null
+  const filters = parseListingFilters(searchParams)
+  const page = Math.max(1, Math.floor(parseNumber(searchParams.get('page')) ?? 1))
+  const limit = Math.min(
+    MAX_PAGE_SIZE,
+    Math.max(1, Math.floor(parseNumber(searchParams.get('limit')) ?? DEFAULT_PAGE_SIZE))
+  )
+
+  return {
+    filters,
+    sort: sortParam && LISTING_SORT_OPTIONS.includes(sortParam)
+      ? sortParam
+      : filters.search ? 'relevance' : filters.near ? 'distance' : 'recommended',
+    page,
+    limit,
+  }
+}
+
+function range(min?: number, max?: number): { gte?: number; lte?: number } | undefined {
+  if (min === undefined && max === undefined) return undefined
+  return {
+    ...(min !== undefined && { gte: min }),
+    ...(max !== undefined && { lte: max }),
+  }
+}
+
+function equalsInsensitive(value?: string): Prisma.StringFilter | undefined {
+  return value ? { equals: value, mode: 'insensitive' } : undefined
+}
+
+/**
+ * Translate parsed filters into a Prisma where clause. Exact-match fields use
+ * case-insensitive equality so "diesel" and "Diesel" hit the same index entries.
+ * The search term is applied through `textWhere`, the result of
+ * resolveTextMatch for the same filters.
+ */
+export function buildListingWhere(
+  filters: ListingSearchFilters,
+  textWhere?: Prisma.ListingWhereInput
+): Prisma.ListingWhereInput {
+  const and: Prisma.ListingWhereInput[] = []
+
+  if (filters.city) {
+    and.push({
+      OR: cityNameVariants(filters.city).map(city => ({ city: { contains: city, mode: 'insensitive' as const } })),
+    })
+  }
+
+  if (filters.near) {
+    const area = resolveRadiusArea(filters.near, filters.radiusKm)
+    // An unknown city cannot be placed on the map, so nothing is within range
+    and.push(area ? buildRadiusWhere(area) : { id: { in: [] } })
+  }
+
+  for (const featureId of filters.features ?? []) {
+    and.push({ features: { some: { featureId } } })
+  }
+
+  if (filters.search && textWhere) {
+    and.push(textWhere)
+  }
+
+  return {
+    status: filters.status,
+    userId: filters.sellerId,
+    make: equalsInsensitive(filters.make),
+    model: equalsInsensitive(filters.model),
+    fuelType: equalsInsensitive(filters.fuelType),
+    transmission: equalsInsensitive(filters.transmission),
+    bodyType: equalsInsensitive(filters.bodyType),
+    region: equalsInsensitive(filters.region),
+    country: filters.country,
+    year: range(filters.minYear, filters.maxYear),
+    mileage: range(filters.minMileage, filters.maxMileage),
+    price: range(
+      filters.minPrice !== undefined ? Math.round(filters.minPrice * 100) : undefined,
+      filters.maxPrice !== undefined ? Math.round(filters.maxPrice * 100) : undefined
+    ),
+    ...(and.length > 0 && { AND: and }),
+  }
+}
+
+/**
+ * Run the free-text part of a search once so it can be shared by every query
+ * built from the same filters (results, counts, facets).
+ */
+export async function resolveTextMatch(filters: ListingSearchFilters): Promise<TextMatch | null> {
+  return filters.search ? matchListingText(filters.search, filters.status) : null
+}
+
+/**
+ * Paid placement always wins ties: every sort falls back to priorityPlacement,
+ * featured and recency so boosted listings surface within equal groups.
+ */
+export function buildListingOrderBy(sort: ListingSortOption): Prisma.ListingOrderByWithRelationInput[] {
+  const boost: Prisma.ListingOrderByWithRelationInput[] = [
+    { priorityPlacement: 'desc' },
+    { featured: 'desc' },
+  ]
+
+  switch (sort) {
+    // Relevance and distance are applied in memory; this is the tie-break
+    case 'relevance':
+    case 'distance':
+      return [...boost, { createdAt: 'desc' }]
+    case 'newest':
+      return [{ createdAt: 'desc' }]
+    case 'price_asc':
+      return [{ price: 'asc' }, ...boost]
+    case 'price_desc':
+      return [{ price: 'desc' }, ...boost]
+    case 'year_desc':
+      return [{ year: 'desc' }, ...boost]
+    case 'year_asc':
+      return [{ year: 'asc' }, ...boost]
+    case 'mileage_asc':
+      return [{ mileage: 'asc' }, ...boost]
+    case 'mileage_desc':
+      return [{ mileage: 'desc' }, ...boost]
+    case 'recommended':
+    default:
+      return [...boost, { bumpedAt: { sort: 'desc', nulls: 'last' } }, { createdAt: 'desc' }]
+  }
+}
+
+export function normalizeListingImages(images: Prisma.JsonValue | null): string[] {
+  if (Array.isArray(images)) {
+    return images.filter((image): image is string => typeof image === 'string')
+  }
+  if (typeof images === 'string' && images) {
+    return images.split(',')
+  }
+  return []
+}
+
+// Public shape of a listing; only PUBLIC_LISTING_FIELDS are copied, whatever the row holds
+export function formatListing(listing: PublicListing): FormattedListing {
+  const fields = Object.fromEntries(PUBLIC_LISTING_FIELDS.map(field => [field, listing[field]])) as PublicListing
+  return {
+    ...fields,
+    price: listing.price / 100,
+    images: normalizeListingImages(listing.images),
+  }
+}
+
+/**
+ * Fetch one page of matches ordered by an in-memory key (ascending). Array
+ * sort is stable, so listings with equal keys keep the database order.
+ */
+async function findPageSortedInMemory(
+  where: Prisma.ListingWhereInput,
+  orderBy: Prisma.ListingOrderByWithRelationInput[],
+  skip: number,
+  take: number,
+  sortKey: (row: { id: string; city: string }) => number
+): Promise<{ total: number; listings: PublicListing[] }> {
+  const matches = await prisma.listing.findMany({ where, orderBy, select: { id: true, city: true } })
+  const pageIds = matches
+    .map(match => ({ id: match.id, key: sortKey(match) }))
+    .sort((a, b) => a.key - b.key)
+    .slice(skip, skip + take)
+    .map(match => match.id)
+
+  const rows = await prisma.listing.findMany({ where: { id: { in: pageIds } }, select: publicListingSelect })
+  const byId = new Map(rows.map(row => [row.id, row]))
+
+  return {
+    total: matches.length,
+    listings: pageIds.map(id => byId.get(id)).filter((row): row is PublicListing => !!row),
+  }
+}
+
+function withDistance(listing: FormattedListing, area: RadiusArea | null): FormattedListing {
+  const distanceKm = area ? listingDistanceKm(area, listing.city) : null
+  return distanceKm === null ? listing : { ...listing, distanceKm: Math.round(distanceKm) }
+}
+
+export async function searchListings(query: ListingSearchQuery): Promise<ListingSearchResult> {
+  const text = await resolveTextMatch(query.filters)
+  const area = query.filters.near ? resolveRadiusArea(query.filters.near, query.filters.radiusKm) : null
+  const where = buildListingWhere(query.filters, text?.where)
+  const orderBy = buildListingOrderBy(query.sort)
+  const skip = (query.page - 1) * query.limit
+
+  let total: number
+  let listings: PublicListing[]
+
+  if (query.sort === 'relevance' && text?.ranks) {
+    // Full-text matches are capped at MAX_TEXT_MATCHES, so this stays cheap
+    const ranks = text.ranks
+    ;({ total, listings } = await findPageSortedInMemory(
+      where, orderBy, skip, query.limit, row => -(ranks.get(row.id) ?? 0)
+    ))
+  } else if (query.sort === 'distance' && area) {
+    ;({ total, listings } = await findPageSortedInMemory(
+      where, orderBy, skip, query.limit, row => listingDistanceKm(area, row.city) ?? Infinity
+    ))
+  } else {
+    [total, listings] = await Promise.all([
+      prisma.listing.count({ where }),
+      prisma.listing.findMany({ where, orderBy, skip, take: query.limit, select: publicListingSelect }),
+    ])
+  }
+
+  return {
+    listings: listings.map(listing => withDistance(formatListing(listing), area)),
+    pagination: {
+      page: query.page,
+      limit: query.limit,
+      total,
+      pages: Math.max(1, Math.ceil(total / query.limit)),
+      truncated: text?.truncated ?? false,
+    },
+  }
+}
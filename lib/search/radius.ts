@@ -0,0 +1,50 @@
+// Radius search around a city
+//
+// Listings store a city name rather than coordinates, so a radius query is
+// resolved against the region table in lib/regional: every known city within
+// the radius is matched by name (in any spelling) and each listing inherits
+// the distance of its city. Regions span AL, XK and MK, so results cross borders.
+
+import { Prisma } from '@prisma/client'
+import { Region, RegionDistance, regionalService } from '../regional'
+import { regionNameVariants } from './albanian-dictionary'
+
+export const DEFAULT_RADIUS_KM = 50
+export const MAX_RADIUS_KM = 300
+
+export interface RadiusArea {
+  center: Region
+  radiusKm: number
+  regions: RegionDistance[] // Nearest first, including the center itself
+}
+
+/**
+ * Resolve "within radiusKm of near". Returns null when the city is unknown or
+ * has no coordinates.
+ */
+export function resolveRadiusArea(near: string, radiusKm = DEFAULT_RADIUS_KM): RadiusArea | null {
+  const center = regionalService.findRegionByName(near)
+  if (!center?.coordinates) return null
+
+  const radius = Math.min(MAX_RADIUS_KM, Math.max(0, radiusKm))
+  return { center, radiusKm: radius, regions: regionalService.getRegionsWithinRadius(center, radius) }
+}
+
+export function buildRadiusWhere(area: RadiusArea): Prisma.ListingWhereInput {
+  return {
+    OR: area.regions.flatMap(({ region }) =>
+      regionNameVariants(region).map(name => ({ city: { equals: name, mode: 'insensitive' as const } }))
+    ),
+  }
+}
+
+/**
+ * Distance in km from the area's center to a listing's city, or null when the
+ * city is not a known region inside the area.
+ */
+export function listingDistanceKm(area: RadiusArea, city: string): number | null {
+  const region = regionalService.findRegionByName(city)
+  if (!region) return null
+
+  return area.regions.find(entry => entry.region.id === region.id)?.distanceKm ?? null
+}
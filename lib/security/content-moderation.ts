@@ -1,4 +1,5 @@
 import { PrismaClient } from '@prisma/client'
+import { releaseHeldMessage } from '../messaging/conversations'
 
 const prisma = new PrismaClient()
 
@@ -37,7 +38,7 @@ export class ContentModerationService {
    * Moderate content with AI analysis
    */
   static async moderateContent(
-    contentType: 'listing' | 'review' | 'message' | 'profile',
+    contentType: 'listing' | 'review' | 'message' | 'profile' | 'question' | 'answer',
     contentId: string,
     content: string,
     userId?: string,
@@ -438,7 +439,7 @@ export class ContentModerationService {
     actionType?: string
   ): Promise<{ success: boolean; error?: string }> {
     try {
-      await prisma.contentModeration.update({
+      const moderation = await prisma.contentModeration.update({
         where: { id: moderationId },
         data: {
           humanReviewed: true,
@@ -451,6 +452,27 @@ export class ContentModerationService {
         }
       })
 
+      // Listing questions wait in 'pending' until a moderator decides
+      if (moderation.contentType === 'question' && decision !== 'requires_edit') {
+        await prisma.listingQuestion.updateMany({
+          where: { id: moderation.contentId, status: 'pending' },
+          data: { status: decision === 'approved' ? 'published' : 'rejected' }
+        })
+      }
+
+      // Seller answers are moderated under the question's id
+      if (moderation.contentType === 'answer' && decision !== 'requires_edit') {
+        await prisma.listingQuestion.updateMany({
+          where: { id: moderation.contentId, answerStatus: 'pending' },
+          data: { answerStatus: decision === 'approved' ? 'published' : 'rejected' }
+        })
+      }
+
+      // Chat messages held by scam screening reach the recipient only once approved
+      if (moderation.contentType === 'message' && decision !== 'requires_edit') {
+        await releaseHeldMessage(moderation.contentId, decision === 'approved')
+      }
+
       return { success: true }
     } catch (error) {
       console.error('Manual moderation failed:', error)
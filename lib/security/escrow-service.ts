@@ -34,12 +34,16 @@ export class EscrowService {
         }
       }
 
-      // Check if listing exists and belongs to seller
+      // Check if listing exists and belongs to seller; a car reserved for
+      // this buyer (e.g. after an accepted offer) qualifies too
       const listing = await prisma.listing.findFirst({
         where: {
           id: listingId,
           userId: sellerId,
-          status: 'active'
+          OR: [
+            { status: 'active' },
+            { status: 'reserved', buyerId }
+          ]
         }
       })
 
@@ -1,5 +1,7 @@
 import { PrismaClient } from '@prisma/client'
 import crypto from 'crypto'
+import { decodeVin, vinMatchesMake, yearContradictsVin } from '../vin/decoder'
+import { screenListingImages } from '../listings/image-hashes'
 
 // Type definition for file uploads (replaces Express.Multer.File)
 type MulterFile = {
@@ -64,6 +66,25 @@ export class FraudPreventionService {
 
       const alerts: string[] = []
 
+      // Offline VIN plausibility: mistyped or cloned VINs rarely decode to the advertised car
+      if (vin) {
+        const decoded = decodeVin(vin)
+        const listing = await prisma.listing.findUnique({
+          where: { id: listingId },
+          select: { make: true, year: true }
+        })
+
+        if (decoded.checkDigit?.required && !decoded.checkDigit.valid) {
+          alerts.push('Shifra e kontrollit të VIN-it nuk përputhet')
+        }
+        if (listing && !vinMatchesMake(decoded, listing.make)) {
+          alerts.push(`VIN-i i përket prodhuesit ${decoded.make}, jo ${listing.make}`)
+        }
+        if (listing && yearContradictsVin(decoded, listing.year)) {
+          alerts.push(`Viti i modelit sipas VIN-it (${decoded.modelYear}) nuk përputhet me vitin e shpallur (${listing.year})`)
+        }
+      }
+
       // Check Albanian Police Database (placeholder)
       if (vin) {
         const albanianPoliceCheck = await this.checkAlbanianPoliceDatabase(vin)
@@ -246,11 +267,16 @@ export class FraudPreventionService {
         duplicateListings.push(...plateDuplicates.map(v => v.listingId))
       }
 
-      // Check for similar images (placeholder - in production use image similarity)
-      if (images && images.length > 0) {
-        // This would use image similarity algorithms in production
-        console.log(`Checking image similarity for listing ${listingId}`)
-      }
+      // Near-identical photos on other sellers' listings raise their own
+      // duplicate_images alert from the image hash screening
+      const listing = await prisma.listing.findUnique({
+        where: { id: listingId },
+        select: { id: true, userId: true, title: true, createdAt: true, images: true }
+      })
+      const imageMatches = listing
+        ? await screenListingImages(images ? { ...listing, images } : listing)
+        : []
+      const imageDuplicates = [...new Set(imageMatches.map(match => match.matchedListingId))]
 
       // Remove duplicates and current listing
       const uniqueDuplicates = [...new Set(duplicateListings)]
@@ -267,11 +293,19 @@ export class FraudPreventionService {
 
         return {
           isDuplicate: true,
-          duplicateListings: uniqueDuplicates,
+          duplicateListings: [...new Set([...uniqueDuplicates, ...imageDuplicates])],
           reason: 'Same VIN or license plate found in other active listings'
         }
       }
 
+      if (imageDuplicates.length > 0) {
+        return {
+          isDuplicate: true,
+          duplicateListings: imageDuplicates,
+          reason: 'Same photos found on other sellers\' listings'
+        }
+      }
+
       return { isDuplicate: false }
     } catch (error) {
       console.error('Duplicate detection failed:', error)
@@ -26,6 +26,7 @@ import { FraudPreventionService } from './fraud-prevention'
 import { ContentModerationService } from './content-moderation'
 import { LegalComplianceService } from './legal-compliance'
 import { SafetyFeaturesService } from './safety-features'
+import { decodeVin } from '../vin/decoder'
 
 // Core Services
 export { AlbanianPhoneVerificationService } from './phone-verification'
@@ -207,7 +208,7 @@ export class SecurityValidators {
   }
 
   static isValidVIN(vin: string): boolean {
-    return /^[A-HJ-NPR-Z0-9]{17}$/.test(vin)
+    return decodeVin(vin).valid
   }
 }
 
@@ -129,17 +129,26 @@ export class PrivacyProtectionService {
       return true
     }
 
-    // Check if users have established communication
-    const hasMessageExchange = await prisma.message.findFirst({
+    // Only after both opted in to share their details in one of their
+    // conversations (see lib/messaging/contact-relay.ts)
+    const conversation = await prisma.conversation.findFirst({
       where: {
-        OR: [
-          { senderId: requesterId, listing: { userId } },
-          { senderId: userId, listing: { userId: requesterId } }
-        ]
-      }
+        AND: [
+          { participants: { some: { userId } } },
+          { participants: { some: { userId: requesterId } } }
+        ],
+        participants: {
+          every: {
+            OR: [
+              { shareContact: true },
+              { shareContact: null, user: { allowDirectContact: true } }
+            ]
+          }
+        }
+      },
+      select: { id: true }
     })
-
-    return !!hasMessageExchange
+    return !!conversation
   }
 
   /**
@@ -357,6 +366,7 @@ export class PrivacyProtectionService {
           id: true,
           content: true,
           listingId: true,
+          conversationId: true,
           createdAt: true,
           read: true
         }
@@ -1,4 +1,5 @@
 import { PrismaClient } from '@prisma/client'
+import { haveExchangedMessages } from '../messaging/conversations'
 
 const prisma = new PrismaClient()
 
@@ -113,14 +114,7 @@ export class AlbanianReviewSystem {
     }
 
     // Check if users have interacted (message exchange)
-    const hasInteraction = await prisma.message.findFirst({
-      where: {
-        OR: [
-          { senderId: authorId, listing: { userId: targetId } },
-          { senderId: targetId, listing: { userId: authorId } }
-        ]
-      }
-    })
+    const hasInteraction = await haveExchangedMessages(authorId, targetId)
 
     if (!hasInteraction) {
       return { allowed: false, reason: 'Mund të recensioni vetëm përdorues me të cilët keni komunikuar' }
@@ -370,6 +364,7 @@ export class AlbanianReviewSystem {
     positiveReviews: number
     negativeReviews: number
     trustScore: number
+    noShows: number
   }> {
     const reviews = await prisma.review.findMany({
       where: { targetId: userId },
@@ -378,7 +373,7 @@ export class AlbanianReviewSystem {
 
     const user = await prisma.user.findUnique({
       where: { id: userId },
-      select: { trustScore: true }
+      select: { trustScore: true, noShowCount: true }
     })
 
     const averageRating = reviews.length > 0
@@ -395,7 +390,8 @@ export class AlbanianReviewSystem {
       verifiedReviews,
       positiveReviews,
       negativeReviews,
-      trustScore: user?.trustScore || 50
+      trustScore: user?.trustScore || 50,
+      noShows: user?.noShowCount || 0
     }
   }
 
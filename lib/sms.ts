@@ -205,6 +205,29 @@ export class SmsService {
     }
   }
 
+  // Appointment Reminder SMS
+  getAppointmentReminderSms(carTitle: string, startsAt: Date, locationName: string): SmsTemplate {
+    const time = startsAt.toLocaleString('sq-AL', { weekday: 'short', hour: '2-digit', minute: '2-digit' })
+    return {
+      message: `📅 Kujtesë: takim për "${carTitle}" ${time} te ${locationName}. Mos paguani paraprakisht.`,
+      language: 'sq'
+    }
+  }
+
+  // Offer Negotiation SMS
+  getOfferSms(carTitle: string, notice: 'offer' | 'counter' | 'accept', amount: number, currency: string): SmsTemplate {
+    const price = `${amount.toLocaleString()} ${currency}`
+    const messages = {
+      offer: `💬 Ofertë e re ${price} për "${carTitle}".`,
+      counter: `🔁 Kundërofertë ${price} për "${carTitle}".`,
+      accept: `✅ Oferta ${price} për "${carTitle}" u pranua.`
+    }
+    return {
+      message: `${messages[notice]} Përgjigjuni në AutoMarket: automarket.al`,
+      language: 'sq'
+    }
+  }
+
   // Welcome SMS
   getWelcomeSms(userName: string): SmsTemplate {
     return {
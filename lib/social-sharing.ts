@@ -1,3 +1,5 @@
+import { translateFuelType, translateTransmission } from './search/albanian-dictionary'
+
 // Define CarListing type locally
 interface CarListing {
   id: string;
@@ -172,8 +174,8 @@ class SocialSharingService {
 
     const features = []
     if (listing.mileage) features.push(`${new Intl.NumberFormat('sq-AL').format(listing.mileage)} km`)
-    if (listing.fuelType) features.push(this.translateFuelType(listing.fuelType))
-    if (listing.transmission) features.push(this.translateTransmission(listing.transmission))
+    if (listing.fuelType) features.push(translateFuelType(listing.fuelType))
+    if (listing.transmission) features.push(translateTransmission(listing.transmission))
 
     const description = [
       `🚗 ${listing.make} ${listing.model} (${listing.year})`,
@@ -255,8 +257,8 @@ class SocialSharingService {
     const formatFeatures = () => {
       const features = []
       if (listing.mileage) features.push(`Kilometrazhi: ${new Intl.NumberFormat('sq-AL').format(listing.mileage)} km`)
-      if (listing.fuelType) features.push(`Karburanti: ${this.translateFuelType(listing.fuelType)}`)
-      if (listing.transmission) features.push(`Transmisioni: ${this.translateTransmission(listing.transmission)}`)
+      if (listing.fuelType) features.push(`Karburanti: ${translateFuelType(listing.fuelType)}`)
+      if (listing.transmission) features.push(`Transmisioni: ${translateTransmission(listing.transmission)}`)
       if (listing.color) features.push(`Ngjyra: ${listing.color}`)
       return features.join('\n')
     }
@@ -477,27 +479,6 @@ class SocialSharingService {
     }
     return countries[countryCode as keyof typeof countries] || countryCode
   }
-
-  private translateFuelType(fuelType: string): string {
-    const translations = {
-      'gasoline': 'Benzinë',
-      'diesel': 'Nafte',
-      'electric': 'Elektrik',
-      'hybrid': 'Hibrid',
-      'lpg': 'LPG',
-      'natural_gas': 'Gaz Natyror'
-    }
-    return translations[fuelType.toLowerCase() as keyof typeof translations] || fuelType
-  }
-
-  private translateTransmission(transmission: string): string {
-    const translations = {
-      'manual': 'Manual',
-      'automatic': 'Automatik',
-      'semi_automatic': 'Gjysmë-automatik'
-    }
-    return translations[transmission.toLowerCase() as keyof typeof translations] || transmission
-  }
 }
 
 export const socialSharingService = SocialSharingService.getInstance()
@@ -0,0 +1,46 @@
+// File upload validation
+//
+// Shared by /api/upload (listing photos) and message attachments so both
+// accept the same image types under the same size cap.
+
+export const MAX_UPLOAD_SIZE = 5 * 1024 * 1024 // 5MB
+export const UPLOAD_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/gif']
+
+// The parts of a multipart File the routes rely on
+export interface UploadedFile {
+  name: string
+  type: string
+  size: number
+  arrayBuffer(): Promise<ArrayBuffer>
+}
+
+export function isUploadedFile(value: unknown): value is UploadedFile {
+  return !!value && typeof value === 'object' && 'name' in value && 'size' in value && 'arrayBuffer' in value
+}
+
+export interface UploadRules {
+  allowedTypes?: string[]
+  maxSize?: number
+  typeLabel?: string
+}
+
+// Error message for a file that breaks the rules, or null when it is fine
+export function validateUploadFile(file: UploadedFile, rules: UploadRules = {}): string | null {
+  const allowedTypes = rules.allowedTypes ?? UPLOAD_IMAGE_TYPES
+  const maxSize = rules.maxSize ?? MAX_UPLOAD_SIZE
+
+  if (!file.type || !allowedTypes.includes(file.type)) {
+    return `Invalid file type: ${file.type || 'unknown'}. Only ${rules.typeLabel ?? 'images'} are allowed.`
+  }
+  if (file.size > maxSize) {
+    return `File too large: ${file.name}. Maximum size is ${Math.round(maxSize / 1024 / 1024)}MB.`
+  }
+  return null
+}
+
+// Timestamped random file name keeping the original extension
+export function uniqueUploadName(originalName: string, fallbackExtension = 'jpg'): string {
+  const extension = (originalName.includes('.') ? originalName.split('.').pop() : '')?.toLowerCase().replace(/[^a-z0-9]/g, '')
+  const randomString = Math.random().toString(36).substring(2, 15)
+  return `${Date.now()}-${randomString}.${extension || fallbackExtension}`
+}
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest'
+import { computeVinCheckDigit, decodeVin, normalizeVinInput, vinMatchesMake, yearContradictsVin } from './decoder'
+
+// 2003 Honda Accord built in the US, the usual FMVSS 115 check digit example
+const HONDA_VIN = '1HGCM82633A004352'
+
+describe('normalizeVinInput', () => {
+  it('upper-cases and drops spaces and dashes', () => {
+    expect(normalizeVinInput('1hgcm826-33a 004352')).toBe(HONDA_VIN)
+  })
+})
+
+describe('computeVinCheckDigit', () => {
+  it('computes position 9', () => {
+    expect(computeVinCheckDigit(HONDA_VIN)).toBe('3')
+  })
+
+  it('uses X for a remainder of 10', () => {
+    expect(computeVinCheckDigit('1M8GDM9AXKP042788')).toBe('X')
+  })
+})
+
+describe('decodeVin', () => {
+  it('decodes a North American VIN', () => {
+    const decoded = decodeVin(HONDA_VIN)
+
+    expect(decoded.valid).toBe(true)
+    expect(decoded.wmi).toBe('1HG')
+    expect(decoded.make).toBe('Honda')
+    expect(decoded.modelYear).toBe(2003)
+    expect(decoded.checkDigit).toMatchObject({ actual: '3', expected: '3', valid: true, required: true })
+  })
+
+  it('rejects a mistyped North American VIN by its check digit', () => {
+    const decoded = decodeVin('1HGCM82643A004352')
+
+    expect(decoded.valid).toBe(false)
+    expect(decoded.checkDigit).toMatchObject({ valid: false, required: true })
+  })
+
+  it('does not require the check digit on European VINs', () => {
+    const decoded = decodeVin('WBA00000000000000')
+
+    expect(decoded.make).toBe('BMW')
+    expect(decoded.checkDigit?.required).toBe(false)
+    expect(decoded.valid).toBe(true)
+  })
+
+  it('rejects malformed input', () => {
+    for (const vin of ['1HGCM82633A00435', '1HGCM82633A0043521', '1HGCM82633O004352']) {
+      const decoded = decodeVin(vin)
+      expect(decoded.valid).toBe(false)
+      expect(decoded.make).toBeNull()
+    }
+  })
+})
+
+describe('vinMatchesMake', () => {
+  it('accepts aliases and ignores case', () => {
+    expect(vinMatchesMake(decodeVin(HONDA_VIN), 'honda')).toBe(true)
+    expect(vinMatchesMake(decodeVin('WVW00000000000000'), 'VW')).toBe(true)
+    expect(vinMatchesMake(decodeVin(HONDA_VIN), 'Toyota')).toBe(false)
+  })
+})
+
+describe('yearContradictsVin', () => {
+  it('allows the model year and the year before it', () => {
+    const decoded = decodeVin(HONDA_VIN)
+
+    expect(yearContradictsVin(decoded, 2003)).toBe(false)
+    expect(yearContradictsVin(decoded, 2002)).toBe(false)
+    expect(yearContradictsVin(decoded, 2005)).toBe(true)
+  })
+})
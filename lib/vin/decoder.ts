@@ -0,0 +1,197 @@
+// Offline VIN decoder
+//
+// Decodes a 17-character VIN (ISO 3779) using only the bundled tables in
+// ./tables: manufacturer from the WMI, country of manufacture from the ISO
+// 3780 ranges, model year from position 10 and, for makes with pattern
+// tables, model and assembly plant. The check digit at position 9 is always
+// computed but only mandatory for North American and Chinese VINs; European
+// manufacturers use that position freely.
+
+import { COUNTRY_NAMES, COUNTRY_RANGES, MAKE_PATTERNS, WMI_PREFIX_TABLE, WMI_TABLE } from './tables'
+
+// VIN character order used by ISO 3780 ranges
+const VIN_CHARACTER_ORDER = 'ABCDEFGHJKLMNPRSTUVWXYZ1234567890'
+
+// Position 10: 1980 + index, repeating every 30 years
+const MODEL_YEAR_CODES = 'ABCDEFGHJKLMNPRSTVWXY123456789'
+const MODEL_YEAR_CYCLE = 30
+
+const TRANSLITERATION: Record<string, number> = {
+  A: 1, B: 2, C: 3, D: 4, E: 5, F: 6, G: 7, H: 8,
+  J: 1, K: 2, L: 3, M: 4, N: 5, P: 7, R: 9,
+  S: 2, T: 3, U: 4, V: 5, W: 6, X: 7, Y: 8, Z: 9,
+}
+const CHECK_DIGIT_WEIGHTS = [8, 7, 6, 5, 4, 3, 2, 10, 0, 9, 8, 7, 6, 5, 4, 3, 2]
+
+// Different spellings of the same make on listings and in the WMI table
+const MAKE_ALIASES: Record<string, string[]> = {
+  'Mercedes-Benz': ['mercedes', 'mercedes benz', 'mb'],
+  Volkswagen: ['vw'],
+  Skoda: ['škoda'],
+  Citroen: ['citroën'],
+  'Land Rover': ['landrover', 'range rover'],
+}
+
+export interface VinDecodeResult {
+  vin: string
+  valid: boolean // Well formed and, where mandatory, with a correct check digit
+  errors: string[]
+  wmi: string | null
+  make: string | null
+  model: string | null
+  country: { code: string; name: string } | null
+  modelYear: number | null
+  plant: string | null
+  checkDigit: {
+    actual: string
+    expected: string
+    valid: boolean
+    required: boolean
+  } | null
+}
+
+export function normalizeVinInput(value: string): string {
+  return value.toUpperCase().replace(/[\s-]/g, '')
+}
+
+export function isWellFormedVin(vin: string): boolean {
+  return /^[A-HJ-NPR-Z0-9]{17}$/.test(vin)
+}
+
+/**
+ * Compute the ISO 3779 / FMVSS 115 check digit for position 9.
+ */
+export function computeVinCheckDigit(vin: string): string {
+  const sum = vin
+    .split('')
+    .reduce((total, char, index) => {
+      const value = /\d/.test(char) ? Number(char) : TRANSLITERATION[char] ?? 0
+      return total + value * CHECK_DIGIT_WEIGHTS[index]
+    }, 0)
+
+  const remainder = sum % 11
+  return remainder === 10 ? 'X' : String(remainder)
+}
+
+function countryCode(vin: string): string | null {
+  const second = VIN_CHARACTER_ORDER.indexOf(vin[1])
+  const range = COUNTRY_RANGES.find(([first, from, to]) =>
+    first === vin[0] &&
+    second >= VIN_CHARACTER_ORDER.indexOf(from) &&
+    second <= VIN_CHARACTER_ORDER.indexOf(to)
+  )
+  return range ? range[3] : null
+}
+
+// The check digit and model year are mandated in North America and China
+function isRegulatedRegion(vin: string): boolean {
+  return /^[1-5L]/.test(vin)
+}
+
+function decodeModelYear(vin: string, encodesModelYear: boolean, referenceYear: number): number | null {
+  if (!encodesModelYear) return null
+
+  const index = MODEL_YEAR_CODES.indexOf(vin[9])
+  if (index === -1) return null
+
+  const earliest = 1980 + index
+
+  // North American cars and light trucks disambiguate with position 7:
+  // a digit means the 1980-2009 cycle, a letter 2010-2039
+  if (/^[1-5]/.test(vin)) {
+    return /\d/.test(vin[6]) ? earliest : earliest + MODEL_YEAR_CYCLE
+  }
+
+  // Elsewhere take the most recent cycle that is not in the future
+  let year = earliest
+  while (year + MODEL_YEAR_CYCLE <= referenceYear + 1) {
+    year += MODEL_YEAR_CYCLE
+  }
+  return year
+}
+
+/**
+ * Decode a VIN without any network access. `referenceYear` is only used to
+ * pick the 30-year cycle of the model year code.
+ */
+export function decodeVin(input: string, referenceYear = new Date().getFullYear()): VinDecodeResult {
+  const vin = normalizeVinInput(input)
+
+  if (!isWellFormedVin(vin)) {
+    return {
+      vin,
+      valid: false,
+      errors: ['VIN must be 17 letters and digits (no I, O or Q)'],
+      wmi: null,
+      make: null,
+      model: null,
+      country: null,
+      modelYear: null,
+      plant: null,
+      checkDigit: null,
+    }
+  }
+
+  const errors: string[] = []
+  const wmi = vin.slice(0, 3)
+  const entry = WMI_TABLE[wmi]
+  const make = entry?.make ?? WMI_PREFIX_TABLE[vin.slice(0, 2)] ?? null
+  const patterns = make ? MAKE_PATTERNS[make] : undefined
+
+  const code = entry?.country ?? countryCode(vin)
+  const country = code ? { code, name: COUNTRY_NAMES[code] ?? code } : null
+
+  const expected = computeVinCheckDigit(vin)
+  const checkDigit = {
+    actual: vin[8],
+    expected,
+    valid: vin[8] === expected,
+    required: isRegulatedRegion(vin),
+  }
+  if (checkDigit.required && !checkDigit.valid) {
+    errors.push('VIN check digit does not match; the VIN has probably been mistyped')
+  }
+
+  let model: string | null = null
+  if (patterns?.models) {
+    const [start, end] = patterns.models.positions
+    model = patterns.models.codes[vin.slice(start - 1, end)] ?? null
+  }
+
+  return {
+    vin,
+    valid: errors.length === 0,
+    errors,
+    wmi,
+    make,
+    model,
+    country,
+    modelYear: decodeModelYear(vin, isRegulatedRegion(vin) || !!patterns?.encodesModelYear, referenceYear),
+    plant: patterns?.plants?.[vin[10]] ?? null,
+    checkDigit,
+  }
+}
+
+function foldMake(make: string): string {
+  return make.toLowerCase().replace(/-/g, ' ').trim()
+}
+
+/**
+ * Whether a make typed on a listing ("Mercedes", "VW") is the manufacturer
+ * the VIN was decoded to. Unknown manufacturers never mismatch.
+ */
+export function vinMatchesMake(decoded: VinDecodeResult, make: string): boolean {
+  if (!decoded.make) return true
+
+  const names = [decoded.make, ...(MAKE_ALIASES[decoded.make] ?? [])].map(foldMake)
+  return names.includes(foldMake(make))
+}
+
+/**
+ * A listing year contradicts the VIN unless it equals the decoded model year
+ * or the year before it, since model years start in the preceding autumn.
+ */
+export function yearContradictsVin(decoded: VinDecodeResult, year: number): boolean {
+  if (!decoded.modelYear || !Number.isFinite(year)) return false
+  return year !== decoded.modelYear && year !== decoded.modelYear - 1
+}
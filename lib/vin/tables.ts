@@ -0,0 +1,223 @@
+// Bundled VIN reference tables
+//
+// World manufacturer identifiers (VIN positions 1-3), ISO 3780 country ranges
+// and per-make patterns for the makes most common on the Albanian, Kosovar
+// and Macedonian markets. The tables are deliberately incomplete: an unknown
+// code decodes to null rather than to a guess.
+
+export interface WmiEntry {
+  make: string
+  country?: string // Overrides the ISO 3780 range, e.g. Tesla Berlin uses XP7
+}
+
+export interface MakePatterns {
+  // Whether position 10 holds the model year outside North America and China,
+  // where it is mandatory for every make
+  encodesModelYear: boolean
+  // Model codes at the given 1-based VIN positions (inclusive)
+  models?: { positions: [number, number]; codes: Record<string, string> }
+  // Assembly plant at position 11
+  plants?: Record<string, string>
+}
+
+export const WMI_TABLE: Record<string, WmiEntry> = {
+  // Volkswagen group
+  WVW: { make: 'Volkswagen' }, WV1: { make: 'Volkswagen' }, WV2: { make: 'Volkswagen' },
+  '3VW': { make: 'Volkswagen' }, '9BW': { make: 'Volkswagen' }, '1VW': { make: 'Volkswagen' }, AAV: { make: 'Volkswagen' },
+  WAU: { make: 'Audi' }, WA1: { make: 'Audi' }, WUA: { make: 'Audi' }, TRU: { make: 'Audi' },
+  TMB: { make: 'Skoda' },
+  VSS: { make: 'SEAT' },
+  WP0: { make: 'Porsche' }, WP1: { make: 'Porsche' },
+
+  // German premium
+  WBA: { make: 'BMW' }, WBS: { make: 'BMW' }, WBY: { make: 'BMW' }, '4US': { make: 'BMW' }, '5UX': { make: 'BMW' }, '5YM': { make: 'BMW' },
+  WMW: { make: 'Mini' },
+  WDB: { make: 'Mercedes-Benz' }, WDD: { make: 'Mercedes-Benz' }, WDC: { make: 'Mercedes-Benz' }, WDF: { make: 'Mercedes-Benz' },
+  W1K: { make: 'Mercedes-Benz' }, W1N: { make: 'Mercedes-Benz' }, W1V: { make: 'Mercedes-Benz' },
+  '4JG': { make: 'Mercedes-Benz' }, '55S': { make: 'Mercedes-Benz' },
+  WME: { make: 'Smart' },
+  W0L: { make: 'Opel' }, W0V: { make: 'Opel' },
+
+  // Ford
+  WF0: { make: 'Ford' }, NM0: { make: 'Ford' }, '1FA': { make: 'Ford' }, '1FM': { make: 'Ford' }, '1FT': { make: 'Ford' }, '3FA': { make: 'Ford' },
+
+  // French
+  VF1: { make: 'Renault' }, UU1: { make: 'Dacia' },
+  VF3: { make: 'Peugeot' }, VR3: { make: 'Peugeot' },
+  VF7: { make: 'Citroen' }, VR7: { make: 'Citroen' },
+  VR1: { make: 'DS' },
+
+  // Italian
+  ZFA: { make: 'Fiat' }, NM4: { make: 'Fiat' },
+  ZAR: { make: 'Alfa Romeo' }, ZLA: { make: 'Lancia' }, ZFF: { make: 'Ferrari' }, ZAM: { make: 'Maserati' }, ZHW: { make: 'Lamborghini' },
+  ZCF: { make: 'Iveco' },
+
+  // Japanese
+  JTH: { make: 'Lexus' }, JTJ: { make: 'Lexus' }, '2T2': { make: 'Lexus' },
+  SB1: { make: 'Toyota' }, VNK: { make: 'Toyota' }, NMT: { make: 'Toyota' }, '4T1': { make: 'Toyota' }, '4T3': { make: 'Toyota' }, '5TD': { make: 'Toyota' }, '5TF': { make: 'Toyota' }, '2T1': { make: 'Toyota' },
+  JH4: { make: 'Acura' },
+  SHH: { make: 'Honda' }, SHS: { make: 'Honda' }, '1HG': { make: 'Honda' }, '2HG': { make: 'Honda' }, '5FN': { make: 'Honda' }, '5J6': { make: 'Honda' },
+  SJN: { make: 'Nissan' }, VSK: { make: 'Nissan' }, '1N4': { make: 'Nissan' }, '3N1': { make: 'Nissan' }, '5N1': { make: 'Nissan' },
+  JMZ: { make: 'Mazda' }, JM1: { make: 'Mazda' }, JM3: { make: 'Mazda' },
+  JMB: { make: 'Mitsubishi' }, JMY: { make: 'Mitsubishi' }, JA3: { make: 'Mitsubishi' }, JA4: { make: 'Mitsubishi' }, XMC: { make: 'Mitsubishi' },
+  JF1: { make: 'Subaru' }, JF2: { make: 'Subaru' }, '4S3': { make: 'Subaru' }, '4S4': { make: 'Subaru' },
+  JS2: { make: 'Suzuki' }, JS3: { make: 'Suzuki' }, TSM: { make: 'Suzuki' }, MA3: { make: 'Suzuki' },
+
+  // Korean
+  KMH: { make: 'Hyundai' }, KM8: { make: 'Hyundai' }, TMA: { make: 'Hyundai' }, NLH: { make: 'Hyundai' }, MAL: { make: 'Hyundai' }, '5NP': { make: 'Hyundai' }, '5NM': { make: 'Hyundai' },
+  KNA: { make: 'Kia' }, KNE: { make: 'Kia' }, KND: { make: 'Kia' }, U5Y: { make: 'Kia' }, '5XY': { make: 'Kia' }, '5XX': { make: 'Kia' }, '3KP': { make: 'Kia' },
+  KL1: { make: 'Chevrolet' },
+
+  // Others
+  YV1: { make: 'Volvo' }, YV4: { make: 'Volvo' }, LVY: { make: 'Volvo' },
+  YS3: { make: 'Saab' },
+  SAL: { make: 'Land Rover' }, SAJ: { make: 'Jaguar' },
+  '5YJ': { make: 'Tesla' }, '7SA': { make: 'Tesla' }, LRW: { make: 'Tesla' }, XP7: { make: 'Tesla', country: 'DE' },
+  '1G1': { make: 'Chevrolet' }, '1GC': { make: 'Chevrolet' }, '2G1': { make: 'Chevrolet' },
+  '1J4': { make: 'Jeep' }, '1J8': { make: 'Jeep' }, ZAC: { make: 'Jeep' },
+  '1B3': { make: 'Dodge' }, '2B3': { make: 'Dodge' },
+  XTA: { make: 'Lada' },
+  LGX: { make: 'BYD' }, LSJ: { make: 'MG' },
+}
+
+// Manufacturers with many WMIs that all share the first two characters
+export const WMI_PREFIX_TABLE: Record<string, string> = {
+  JT: 'Toyota',
+  JH: 'Honda',
+  JN: 'Nissan',
+}
+
+// ISO 3780 regions: first VIN character and an inclusive range for the second,
+// in VIN character order (A-Z without I, O, Q, then 1-9, 0)
+export const COUNTRY_RANGES: [string, string, string, string][] = [
+  ['A', 'A', 'H', 'ZA'],
+  ['J', 'A', '0', 'JP'],
+  ['K', 'L', 'R', 'KR'],
+  ['L', 'A', '0', 'CN'],
+  ['M', 'A', 'E', 'IN'], ['M', 'F', 'K', 'ID'], ['M', 'L', 'R', 'TH'],
+  ['N', 'L', 'R', 'TR'],
+  ['P', 'L', 'R', 'MY'],
+  ['S', 'A', 'M', 'GB'], ['S', 'N', 'T', 'DE'], ['S', 'U', 'Z', 'PL'],
+  ['T', 'A', 'H', 'CH'], ['T', 'J', 'P', 'CZ'], ['T', 'R', 'V', 'HU'], ['T', 'W', '1', 'PT'],
+  ['U', 'H', 'M', 'DK'], ['U', 'N', 'T', 'IE'], ['U', 'U', 'Z', 'RO'], ['U', '5', '7', 'SK'],
+  ['V', 'A', 'E', 'AT'], ['V', 'F', 'R', 'FR'], ['V', 'S', 'W', 'ES'], ['V', 'X', '2', 'RS'], ['V', '3', '5', 'HR'],
+  ['W', 'A', '0', 'DE'],
+  ['X', 'A', 'E', 'BG'], ['X', 'F', 'K', 'GR'], ['X', 'L', 'R', 'NL'], ['X', 'S', 'W', 'RU'], ['X', '3', '0', 'RU'],
+  ['Y', 'A', 'E', 'BE'], ['Y', 'F', 'K', 'FI'], ['Y', 'S', 'W', 'SE'], ['Y', 'X', '2', 'NO'],
+  ['Z', 'A', 'R', 'IT'], ['Z', 'X', '2', 'SI'],
+  ['1', 'A', '0', 'US'], ['4', 'A', '0', 'US'], ['5', 'A', '0', 'US'],
+  ['2', 'A', 'W', 'CA'],
+  ['3', 'A', 'W', 'MX'],
+  ['6', 'A', 'W', 'AU'],
+  ['8', 'A', 'E', 'AR'],
+  ['9', 'A', 'E', 'BR'], ['9', '3', '9', 'BR'],
+]
+
+export const COUNTRY_NAMES: Record<string, string> = {
+  ZA: 'South Africa', JP: 'Japan', KR: 'South Korea', CN: 'China', IN: 'India', ID: 'Indonesia', TH: 'Thailand',
+  TR: 'Turkey', MY: 'Malaysia', GB: 'United Kingdom', DE: 'Germany', PL: 'Poland', CH: 'Switzerland',
+  CZ: 'Czech Republic', HU: 'Hungary', PT: 'Portugal', DK: 'Denmark', IE: 'Ireland', RO: 'Romania', SK: 'Slovakia',
+  AT: 'Austria', FR: 'France', ES: 'Spain', RS: 'Serbia', HR: 'Croatia', BG: 'Bulgaria', GR: 'Greece',
+  NL: 'Netherlands', RU: 'Russia', BE: 'Belgium', FI: 'Finland', SE: 'Sweden', NO: 'Norway', IT: 'Italy',
+  SI: 'Slovenia', US: 'United States', CA: 'Canada', MX: 'Mexico', AU: 'Australia', AR: 'Argentina', BR: 'Brazil',
+}
+
+// Volkswagen group platform codes sit at positions 7-8
+const VW_GROUP_MODEL_POSITIONS: [number, number] = [7, 8]
+
+export const MAKE_PATTERNS: Record<string, MakePatterns> = {
+  Volkswagen: {
+    encodesModelYear: true,
+    models: {
+      positions: VW_GROUP_MODEL_POSITIONS,
+      codes: {
+        '1K': 'Golf', '5K': 'Golf', AU: 'Golf', CD: 'Golf',
+        '3C': 'Passat', '3G': 'Passat',
+        '6R': 'Polo', AW: 'Polo',
+        '5N': 'Tiguan', AD: 'Tiguan',
+        '1T': 'Touran', '16': 'Jetta', '13': 'Scirocco',
+        '7P': 'Touareg', '2K': 'Caddy', '7H': 'Transporter', '7J': 'Transporter',
+      },
+    },
+    plants: {
+      W: 'Wolfsburg, Germany', E: 'Emden, Germany', H: 'Hannover, Germany', P: 'Zwickau, Germany',
+      K: 'Osnabrück, Germany', M: 'Puebla, Mexico', D: 'Bratislava, Slovakia', X: 'Poznań, Poland',
+      B: 'Brussels, Belgium', Y: 'Pamplona, Spain', U: 'Uitenhage, South Africa',
+    },
+  },
+  Audi: {
+    encodesModelYear: true,
+    models: {
+      positions: VW_GROUP_MODEL_POSITIONS,
+      codes: {
+        '8X': 'A1', GB: 'A1',
+        '8P': 'A3', '8V': 'A3',
+        '8E': 'A4', '8K': 'A4', F4: 'A4',
+        '8T': 'A5', F5: 'A5',
+        '4F': 'A6', '4G': 'A6', F2: 'A6',
+        '4H': 'A8',
+        '8U': 'Q3', F3: 'Q3',
+        '8R': 'Q5', FY: 'Q5',
+        '4L': 'Q7', '4M': 'Q7',
+        '8J': 'TT',
+      },
+    },
+    plants: {
+      A: 'Ingolstadt, Germany', N: 'Neckarsulm, Germany', '1': 'Győr, Hungary',
+      D: 'Bratislava, Slovakia', R: 'Martorell, Spain',
+    },
+  },
+  Skoda: {
+    encodesModelYear: true,
+    models: {
+      positions: VW_GROUP_MODEL_POSITIONS,
+      codes: {
+        '1Z': 'Octavia', '5E': 'Octavia', NX: 'Octavia',
+        '3T': 'Superb', '3V': 'Superb',
+        '5J': 'Fabia', NJ: 'Fabia',
+        NS: 'Kodiaq', NU: 'Karoq', '5L': 'Yeti',
+      },
+    },
+  },
+  SEAT: {
+    encodesModelYear: true,
+    models: {
+      positions: VW_GROUP_MODEL_POSITIONS,
+      codes: { '1P': 'Leon', '5F': 'Leon', '6J': 'Ibiza', '5P': 'Altea' },
+    },
+    plants: { R: 'Martorell, Spain' },
+  },
+  Porsche: {
+    encodesModelYear: true,
+    plants: { S: 'Stuttgart, Germany', L: 'Leipzig, Germany' },
+  },
+  'Mercedes-Benz': {
+    encodesModelYear: false,
+    models: {
+      positions: [4, 6],
+      codes: {
+        '168': 'A-Class', '169': 'A-Class', '176': 'A-Class', '177': 'A-Class',
+        '245': 'B-Class', '246': 'B-Class',
+        '202': 'C-Class', '203': 'C-Class', '204': 'C-Class', '205': 'C-Class',
+        '210': 'E-Class', '211': 'E-Class', '212': 'E-Class', '213': 'E-Class',
+        '220': 'S-Class', '221': 'S-Class', '222': 'S-Class',
+        '117': 'CLA', '156': 'GLA',
+        '164': 'M-Class', '166': 'GLE', '253': 'GLC',
+        '639': 'Vito', '447': 'Vito', '906': 'Sprinter',
+      },
+    },
+    plants: { A: 'Sindelfingen, Germany', F: 'Bremen, Germany', N: 'Kecskemét, Hungary' },
+  },
+  Opel: { encodesModelYear: true },
+  Hyundai: { encodesModelYear: true },
+  Kia: { encodesModelYear: true },
+  Volvo: { encodesModelYear: true },
+  Tesla: {
+    encodesModelYear: true,
+    models: {
+      positions: [4, 4],
+      codes: { S: 'Model S', '3': 'Model 3', X: 'Model X', Y: 'Model Y' },
+    },
+    plants: { F: 'Fremont, United States', A: 'Austin, United States', B: 'Berlin, Germany', C: 'Shanghai, China' },
+  },
+}
@@ -3,6 +3,8 @@
  * Optimized for Albanian, Kosovo, and Macedonia users
  */
 
+import { translateFuelType } from './search/albanian-dictionary';
+
 interface WhatsAppMessage {
   phone: string;
   message: string;
@@ -155,7 +157,7 @@ class WhatsAppService {
 💰 Çmimi: €${(listing.price / 100).toLocaleString()}
 📅 Viti: ${listing.year}
 ⚙️ Kilometrazhi: ${listing.mileage.toLocaleString()} km
-⛽ Karburant: ${this.translateFuelType(listing.fuelType)}
+⛽ Karburant: ${translateFuelType(listing.fuelType)}
 📍 Vendndodhja: ${listing.city}
 
 Shiko më shumë detaje:
@@ -166,20 +168,6 @@ ${baseUrl}/listings/${listing.id}
     return `https://wa.me/?text=${encodeURIComponent(shareText)}`;
   }
 
-  /**
-   * Translate fuel types to Albanian
-   */
-  private translateFuelType(fuelType: string): string {
-    const translations: { [key: string]: string } = {
-      'Petrol': 'Benzinë',
-      'Diesel': 'Naftë',
-      'Electric': 'Elektrike',
-      'Hybrid': 'Hibride',
-      'LPG': 'LPG'
-    };
-    return translations[fuelType] || fuelType;
-  }
-
   /**
    * Get WhatsApp Business API configuration for automation
    */
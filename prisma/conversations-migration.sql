@@ -0,0 +1,88 @@
+-- ========================================
+-- MESSAGES -> CONVERSATIONS
+-- ========================================
+-- Idempotent; apply after migrations with `npm run db:conversations-migrate`.
+-- Moves messages written before conversations existed into two-party
+-- threads. Safe to run again: only messages without a conversation are
+-- touched, and unread counts are recomputed from the messages.
+--
+-- Old messages only know their sender and listing:
+-- * a message from anyone but the seller starts (or joins) that buyer's
+--   conversation about the listing;
+-- * a message from the seller is a reply to the buyer who wrote last before
+--   it, or to the listing's first buyer when the seller wrote first.
+-- Seller messages on listings that no buyer ever wrote about stay without a
+-- conversation.
+
+-- One conversation per buyer and listing. The id is derived from the pair so
+-- a rerun finds the same row.
+INSERT INTO marketplace_conversations (id, "listingId", "buyerId", "lastMessageAt", "createdAt", "updatedAt")
+SELECT 'm' || md5(m."listingId" || ':' || m."senderId"), m."listingId", m."senderId", MAX(m."createdAt"), MIN(m."createdAt"), NOW()
+FROM marketplace_messages m
+JOIN marketplace_listings l ON l.id = m."listingId"
+WHERE m."conversationId" IS NULL
+  AND m."senderId" <> l."userId"
+GROUP BY m."listingId", m."senderId"
+ON CONFLICT ("listingId", "buyerId") DO NOTHING;
+
+INSERT INTO marketplace_conversation_participants ("conversationId", "userId", role)
+SELECT c.id, c."buyerId", 'buyer'
+FROM marketplace_conversations c
+UNION ALL
+SELECT c.id, l."userId", 'seller'
+FROM marketplace_conversations c
+JOIN marketplace_listings l ON l.id = c."listingId"
+ON CONFLICT ("conversationId", "userId") DO NOTHING;
+
+-- Buyer messages
+UPDATE marketplace_messages m
+SET "conversationId" = c.id
+FROM marketplace_conversations c
+WHERE m."conversationId" IS NULL
+  AND c."listingId" = m."listingId"
+  AND c."buyerId" = m."senderId";
+
+-- Seller replies
+UPDATE marketplace_messages m
+SET "conversationId" = COALESCE(
+  (
+    SELECT b."conversationId"
+    FROM marketplace_messages b
+    WHERE b."listingId" = m."listingId"
+      AND b."senderId" <> m."senderId"
+      AND b."conversationId" IS NOT NULL
+      AND b."createdAt" <= m."createdAt"
+    ORDER BY b."createdAt" DESC
+    LIMIT 1
+  ),
+  (
+    SELECT c.id
+    FROM marketplace_conversations c
+    WHERE c."listingId" = m."listingId"
+    ORDER BY c."createdAt" ASC
+    LIMIT 1
+  )
+)
+FROM marketplace_listings l
+WHERE m."conversationId" IS NULL
+  AND l.id = m."listingId"
+  AND m."senderId" = l."userId";
+
+UPDATE marketplace_conversations c
+SET "lastMessageAt" = latest."createdAt"
+FROM (
+  SELECT "conversationId", MAX("createdAt") AS "createdAt"
+  FROM marketplace_messages
+  WHERE "conversationId" IS NOT NULL
+  GROUP BY "conversationId"
+) latest
+WHERE latest."conversationId" = c.id;
+
+UPDATE marketplace_conversation_participants p
+SET "unreadCount" = (
+  SELECT COUNT(*)
+  FROM marketplace_messages m
+  WHERE m."conversationId" = p."conversationId"
+    AND m."senderId" <> p."userId"
+    AND m.read = false
+);
@@ -0,0 +1,41 @@
+-- ========================================
+-- ALBANIAN FULL-TEXT SEARCH
+-- ========================================
+-- Idempotent; apply after migrations with `npm run db:search-setup`.
+-- Used by lib/search/full-text.ts, which falls back to ILIKE matching
+-- when this setup has not been applied.
+
+-- unaccent folds ë -> e and ç -> c for both documents and queries
+CREATE EXTENSION IF NOT EXISTS unaccent;
+
+-- Text search configuration without stemming (there is no Albanian
+-- snowball stemmer) but with diacritic folding
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_ts_config WHERE cfgname = 'albanian') THEN
+    CREATE TEXT SEARCH CONFIGURATION albanian (COPY = simple);
+    ALTER TEXT SEARCH CONFIGURATION albanian
+      ALTER MAPPING FOR asciiword, asciihword, hword_asciipart, word, hword, hword_part
+      WITH unaccent, simple;
+  END IF;
+END
+$$;
+
+-- Weighted listing document: make/model and title rank above description.
+-- Declared IMMUTABLE so it can back an expression index.
+CREATE OR REPLACE FUNCTION marketplace_listing_document(
+  title text,
+  make text,
+  model text,
+  description text
+) RETURNS tsvector
+LANGUAGE sql IMMUTABLE PARALLEL SAFE AS $$
+  SELECT
+    setweight(to_tsvector('albanian'::regconfig, coalesce(make, '') || ' ' || coalesce(model, '')), 'A') ||
+    setweight(to_tsvector('albanian'::regconfig, coalesce(title, '')), 'B') ||
+    setweight(to_tsvector('albanian'::regconfig, coalesce(description, '')), 'C')
+$$;
+
+CREATE INDEX IF NOT EXISTS marketplace_listings_search_idx
+  ON marketplace_listings
+  USING GIN (marketplace_listing_document(title, make, model, description));
@@ -43,6 +43,10 @@ npx prisma generate
 echo "🗄️  Running database migrations..."
 npx prisma migrate deploy
 
+# Albanian full-text search (unaccent, text search config, GIN index)
+echo "🔍 Setting up full-text search..."
+npm run db:search-setup
+
 # Check database connection
 echo "🔌 Testing database connection..."
 node -e "
@@ -0,0 +1,14 @@
+import { fileURLToPath } from 'url'
+import { defineConfig } from 'vitest/config'
+
+// Unit tests for pure modules live next to them as *.test.ts
+export default defineConfig({
+  resolve: {
+    alias: [{ find: /^@\//, replacement: fileURLToPath(new URL('./', import.meta.url)) }],
+  },
+  test: {
+    include: ['lib/**/*.test.ts'],
+    setupFiles: ['./vitest.setup.ts'],
+    environment: 'node',
+  },
+})
@@ -0,0 +1,8 @@
+import { vi } from 'vitest'
+
+// Unit tests cover pure logic. Prisma clients are empty stand-ins so importing
+// a module never loads the query engine or reaches a database.
+vi.mock('@prisma/client', async importOriginal => ({
+  ...(await importOriginal<typeof import('@prisma/client')>()),
+  PrismaClient: class {},
+}))